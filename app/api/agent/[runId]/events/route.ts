@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore, streamJobEvents, SSE_HEADERS } from "@/lib/ai/jobs";
+import { getRequestUserId } from "@/lib/firebase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Reconnect to a run's event stream
+ * Replays events after Last-Event-ID (header, or ?lastEventId= for clients
+ * that can't set headers), then follows the run until it finishes.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ runId: string }> }
+) {
+    const { runId } = await params;
+
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    if (getJobStore().getJobOwner(runId) !== userId) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+    const lastEventId = Number(
+        request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId") ?? 0
+    );
+
+    const stream = streamJobEvents(runId, Number.isFinite(lastEventId) ? lastEventId : 0);
+    if (!stream) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    return new Response(stream, {
+        headers: { ...SSE_HEADERS, "X-Run-Id": runId },
+    });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore } from "@/lib/ai/jobs";
+import { getRequestUserId } from "@/lib/firebase/admin";
+
+export const runtime = "nodejs";
+
+/**
+ * Fetch a run's latest image
+ * Unlike /api/image/:id this can be read again after reconnecting.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ runId: string }> }
+) {
+    const { runId } = await params;
+
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    if (getJobStore().getJobOwner(runId) !== userId) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    const job = getJobStore().getJob(runId);
+    if (!job?.image) {
+        return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ image: job.image });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobStore, resumeAgentJob, streamJobEvents, JobNotResumableError, SSE_HEADERS } from "@/lib/ai/jobs";
+import { BudgetExceededError } from "@/lib/ai/budget";
+import { getRequestUserId } from "@/lib/firebase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Resume a failed, cancelled or interrupted run from its last successful task
+ * Streams only the new events (the resumed run's start event onwards).
+ * Only the user who started the run can resume it.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ runId: string }> }
+) {
+    const { runId } = await params;
+
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    if (getJobStore().getJobOwner(runId) !== userId) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    try {
+        const afterId = getJobStore().lastEventId(runId);
+        const job = resumeAgentJob(runId);
+        if (!job) {
+            return NextResponse.json({ error: "Run not found" }, { status: 404 });
+        }
+
+        return new Response(streamJobEvents(runId, afterId), {
+            headers: { ...SSE_HEADERS, "X-Run-Id": runId },
+        });
+    } catch (error) {
+        if (error instanceof JobNotResumableError) {
+            return NextResponse.json({ error: error.message, status: error.status }, { status: 409 });
+        }
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ error: error.message, budget: error.violation }, { status: 429 });
+        }
+        console.error("Resume error:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
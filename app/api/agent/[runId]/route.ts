@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelRun, isRunActive } from "@/lib/ai/runs";
+import { getJobStore } from "@/lib/ai/jobs";
+import { getRequestUserId } from "@/lib/firebase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Get a run's status and progress (without large payloads)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ runId: string }> }
+) {
+    const { runId } = await params;
+
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    if (getJobStore().getJobOwner(runId) !== userId) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    const job = getJobStore().getJob(runId);
+    if (!job) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+        runId: job.runId,
+        status: job.status,
+        active: isRunActive(runId),
+        message: job.message,
+        plan: job.plan,
+        completedTasks: job.taskResults.filter((r) => r.success).map((r) => r.taskId),
+        hasImage: !!job.image,
+        lastEventId: getJobStore().lastEventId(runId),
+        resumeCount: job.resumeCount,
+        usage: job.usage ?? null,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+    });
+}
+
+/**
+ * Stop a running agent
+ * The run's stream stays open and ends with a cancelled complete event
+ * carrying whatever finished before the stop.
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ runId: string }> }
+) {
+    const { runId } = await params;
+
+    if (!runId) {
+        return NextResponse.json({ error: "Run ID required" }, { status: 400 });
+    }
+
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+        return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    if (getJobStore().getJobOwner(runId) !== userId) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    if (!cancelRun(runId)) {
+        return NextResponse.json({ error: "Run not found or already finished" }, { status: 404 });
+    }
+
+    return NextResponse.json({ runId, cancelled: true });
+}
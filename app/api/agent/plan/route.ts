@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateConstitution, type CanvasElement, type BrandConstitution } from "@/lib/types";
+import { createOrchestratorAgent } from "@/lib/ai/agents/orchestrator";
+import { validatePlan } from "@/lib/ai/agents/plan";
+import { BudgetExceededError, createBudgetGuard } from "@/lib/ai/budget";
+import { canUseBrand, getRequestUserId } from "@/lib/firebase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Plan Preview Endpoint
+ * Decomposes a request into agent tasks without running them, so the plan
+ * can be reviewed, edited and approved (POST /api/agent with `plan`).
+ * Planning calls the model, so it needs a signed-in user with budget left
+ * (and, with `brandId`, the brand's); otherwise 401, 403 or 429 like /api/agent.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return NextResponse.json({ error: "Sign in to run the agent" }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { prompt, canvasElements, savedConstitution, brandId } = body as {
+            prompt: string;
+            canvasElements: CanvasElement[];
+            savedConstitution?: BrandConstitution | null;
+            brandId?: string | null;
+        };
+
+        if (!prompt) {
+            return NextResponse.json({ error: "Prompt is required" }, { status: 400 });
+        }
+
+        if (savedConstitution) {
+            const validation = validateConstitution(savedConstitution);
+            if (!validation.success) {
+                return NextResponse.json({ error: validation.error, issues: validation.issues }, { status: 400 });
+            }
+        }
+
+        if (brandId && !(await canUseBrand(userId, brandId))) {
+            return NextResponse.json({ error: "You don't have access to this brand" }, { status: 403 });
+        }
+
+        try {
+            createBudgetGuard({ userId, brandId }).check();
+        } catch (error) {
+            if (!(error instanceof BudgetExceededError)) throw error;
+            return NextResponse.json({ error: error.violation.message, budget: error.violation }, { status: 429 });
+        }
+
+        const orchestrator = createOrchestratorAgent(request.signal);
+        orchestrator.initialize(canvasElements || [], savedConstitution || null);
+        const plan = await orchestrator.parseIntent(prompt);
+
+        return NextResponse.json({ plan, ...validatePlan(plan) });
+    } catch (error) {
+        console.error("Plan preview error:", error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
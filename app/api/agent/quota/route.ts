@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQuotaStatus, type BudgetSubject } from "@/lib/ai/budget";
+import { canUseBrand, getRequestUserId } from "@/lib/firebase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Remaining Quota Endpoint
+ * Today's generation usage and limits for the signed-in user and, with
+ * `brandId`, the brand (403 unless the user may use it).
+ */
+export async function GET(request: NextRequest) {
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+        return NextResponse.json({ error: "Sign in to see your quota" }, { status: 401 });
+    }
+    const brandId = request.nextUrl.searchParams.get("brandId");
+
+    const subjects: BudgetSubject[] = [{ scope: "user", id: userId }];
+    if (brandId) subjects.push({ scope: "brand", id: brandId });
+
+    try {
+        if (brandId && !(await canUseBrand(userId, brandId))) {
+            return NextResponse.json({ error: "You don't have access to this brand" }, { status: 403 });
+        }
+        return NextResponse.json({ quotas: subjects.map((subject) => getQuotaStatus(subject)) });
+    } catch (error) {
+        console.error("Quota error:", error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+}
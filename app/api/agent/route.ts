@@ -1,22 +1,47 @@
 import { NextRequest } from "next/server";
-import { runOrchestratedAgent, type OrchestrationUpdate } from "@/lib/ai/orchestrated";
-import type { CanvasElement, BrandConstitution } from "@/lib/types";
-import { storeImage } from "@/lib/imageStore";
+import { normalizeAuditPolicy, validateConstitution, type CanvasElement, type BrandConstitution } from "@/lib/types";
+import { startAgentJob, streamJobEvents, SSE_HEADERS, type AgentJob } from "@/lib/ai/jobs";
+import { normalizePlan, validatePlan, PlanValidationError, type PlanIssue } from "@/lib/ai/agents/plan";
+import { BudgetExceededError, type BudgetViolation } from "@/lib/ai/budget";
+import type { AgentTask } from "@/lib/ai/agents/types";
+import { canUseBrand, getRequestUserId } from "@/lib/firebase/admin";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 /**
  * Orchestrated Agent API Endpoint
- * Uses Server-Sent Events to stream multi-agent orchestration in real-time
+ * Uses Server-Sent Events to stream multi-agent orchestration in real-time.
+ * Pass `plan` (from POST /api/agent/plan, possibly edited) to run an approved
+ * plan instead of letting the orchestrator plan.
+ * Requires a signed-in user (Firebase ID token as `Authorization: Bearer`);
+ * the run counts against that user's budget and, with `brandId`, the brand's
+ * (403 unless the user may use the brand).
+ * A run that can't generate returns 429 with the exceeded limit in `budget`. `auditPolicy` is the
+ * brand's AuditPolicy (the default when omitted).
+ * Each run is a durable job with an ID (start event, X-Run-Id header):
+ * - GET /api/agent/:runId/events   reconnect with Last-Event-ID
+ * - POST /api/agent/:runId/resume  continue a failed run
+ * - DELETE /api/agent/:runId       stop it
  */
 export async function POST(request: NextRequest) {
     try {
+        const userId = await getRequestUserId(request);
+        if (!userId) {
+            return new Response(JSON.stringify({ error: "Sign in to run the agent" }), {
+                status: 401,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+
         const body = await request.json();
-        const { prompt, canvasElements, savedConstitution } = body as {
+        const { prompt, canvasElements, savedConstitution, plan: rawPlan, brandId, auditPolicy } = body as {
             prompt: string;
             canvasElements: CanvasElement[];
             savedConstitution?: BrandConstitution | null;
+            plan?: unknown;
+            auditPolicy?: unknown;
+            brandId?: string;
         };
 
         if (!prompt) {
@@ -26,91 +51,56 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Create a TransformStream for SSE
-        const encoder = new TextEncoder();
-        const stream = new TransformStream();
-        const writer = stream.writable.getWriter();
-
-        // Helper to send SSE events
-        const sendEvent = async (event: string, data: unknown) => {
-            const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-            await writer.write(encoder.encode(message));
-        };
+        if (brandId && !(await canUseBrand(userId, brandId))) {
+            return new Response(JSON.stringify({ error: "You don't have access to this brand" }), {
+                status: 403,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
 
-        // Keep-alive heartbeat (every 5s for Vercel Hobby plan)
-        const heartbeat = setInterval(async () => {
-            try {
-                await writer.write(encoder.encode(": keep-alive\n\n"));
-            } catch {
-                clearInterval(heartbeat);
+        if (savedConstitution) {
+            const validation = validateConstitution(savedConstitution);
+            if (!validation.success) {
+                return new Response(JSON.stringify({ error: validation.error, issues: validation.issues }), {
+                    status: 400,
+                    headers: { "Content-Type": "application/json" },
+                });
             }
-        }, 5000);
+        }
 
-        // Run orchestrated agent in background
-        (async () => {
+        // Approved plans get the same checks as AI-produced ones
+        let plan: AgentTask[] | undefined;
+        if (rawPlan !== undefined) {
             try {
-                // Send start event
-                await sendEvent("start", {
-                    message: "Agent orchestration starting...",
-                    timestamp: Date.now(),
-                });
-
-                // Run the orchestrated agent with update callback
-                const result = await runOrchestratedAgent(
-                    prompt,
-                    canvasElements || [],
-                    async (update: OrchestrationUpdate) => {
-                        // Stream each update to the client
-                        await sendEvent("action", {
-                            step: Date.now(),
-                            phase: update.phase,
-                            tool: update.agentRole || "orchestrator",
-                            progress: update.progress,
-                            thinking: update.thinking || update.message,
-                            input: update.currentTask?.params || {},
-                            output: update.result?.data || null,
-                        });
-                    },
-                    savedConstitution
-                );
-
-                // Debug log
-                console.log(`[Orchestrated Agent] success=${result.success}, hasImage=${!!result.image}, tasks=${result.taskResults.length}`);
-
-                // Store large image in memory and send ID instead
-                let imageId: string | null = null;
-                if (result.image) {
-                    imageId = storeImage(result.image);
-                    console.log(`[Orchestrated Agent] Stored image as ${imageId}`);
-                }
-
-                // Send final result
-                await sendEvent("complete", {
-                    success: result.success,
-                    message: result.message,
-                    hasImage: !!result.image,
-                    imageId,
-                    constitution: result.constitution,
-                    taskCount: result.taskResults.length,
-                    duration: result.duration,
-                });
+                plan = normalizePlan(rawPlan);
             } catch (error) {
-                console.error("Orchestrated agent error:", error);
-                await sendEvent("error", {
-                    message: error instanceof Error ? error.message : "Unknown error",
-                });
-            } finally {
-                clearInterval(heartbeat);
-                await writer.close();
+                if (!(error instanceof PlanValidationError)) throw error;
+                return planErrorResponse(error.issues);
+            }
+            const validation = validatePlan(plan);
+            if (!validation.valid) {
+                return planErrorResponse(validation.issues);
             }
-        })();
+        }
 
-        return new Response(stream.readable, {
-            headers: {
-                "Content-Type": "text/event-stream",
-                "Cache-Control": "no-cache",
-                Connection: "keep-alive",
-            },
+        // Runs in the background; the response just follows its events
+        let job: AgentJob;
+        try {
+            job = startAgentJob({
+                prompt,
+                canvasElements: canvasElements || [],
+                savedConstitution: savedConstitution || null,
+                auditPolicy: normalizeAuditPolicy(auditPolicy),
+                userId,
+                brandId: brandId || null,
+            }, plan);
+        } catch (error) {
+            if (!(error instanceof BudgetExceededError)) throw error;
+            return budgetErrorResponse(error.violation);
+        }
+
+        return new Response(streamJobEvents(job.runId), {
+            headers: { ...SSE_HEADERS, "X-Run-Id": job.runId },
         });
     } catch (error) {
         console.error("API error:", error);
@@ -120,3 +110,17 @@ export async function POST(request: NextRequest) {
         });
     }
 }
+
+function budgetErrorResponse(budget: BudgetViolation): Response {
+    return new Response(JSON.stringify({ error: budget.message, budget }), {
+        status: 429,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function planErrorResponse(planErrors: PlanIssue[]): Response {
+    return new Response(JSON.stringify({ error: "Invalid plan", planErrors }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+    });
+}
@@ -1,7 +1,8 @@
 /**
  * AI Image Edit API Route
  * 
- * Uses Gemini 3 Pro Image for conversational multi-turn editing.
+ * Uses the provider's image edit model (Gemini 3 Pro Image by default)
+ * for conversational multi-turn editing.
  * Supports:
  * - Full-image editing with natural language
  * - Mask-based inpainting (edit only selected regions)
@@ -9,16 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// Initialize Gemini client
-function getGeminiClient(): GoogleGenerativeAI {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY not set");
-    }
-    return new GoogleGenerativeAI(apiKey);
-}
+import { getModelProvider, type ModelPart } from "@/lib/ai/providers";
 
 export async function POST(request: NextRequest) {
     try {
@@ -32,19 +24,8 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const client = getGeminiClient();
         const hasMask = !!maskBase64;
 
-        // Use Gemini 3 Pro Image for editing
-        const model = client.getGenerativeModel({
-            model: "gemini-3-pro-image-preview",
-            generationConfig: {
-                // @ts-expect-error - responseModalities is valid for image generation
-                responseModalities: ["image", "text"],
-                temperature: 1.0,
-            },
-        });
-
         // Build the edit prompt based on whether we have a mask
         let systemPrompt: string;
 
@@ -75,8 +56,7 @@ Return the edited image.`;
         }
 
         // Build content parts - image first, then mask if present
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const contentParts: any[] = [];
+        const contentParts: ModelPart[] = [];
 
         // Add the main image
         contentParts.push({
@@ -103,22 +83,17 @@ Return the edited image.`;
         contentParts.push({ text: systemPrompt });
 
         // Generate edited image
-        const result = await model.generateContent(contentParts);
-        const response = result.response;
-        const parts = response.candidates?.[0]?.content?.parts || [];
+        const result = await getModelProvider().editImage({
+            role: "image_editor",
+            operation: "edit_image",
+            parts: contentParts,
+            temperature: 1.0,
+        });
 
         // Extract the generated image
-        let newImageBase64: string | null = null;
-        let textResponse: string | null = null;
-
-        for (const part of parts) {
-            if (part.inlineData?.mimeType?.startsWith("image/")) {
-                newImageBase64 = part.inlineData.data;
-            }
-            if (part.text) {
-                textResponse = part.text;
-            }
-        }
+        const editedImage = result.images.filter((img) => img.mimeType?.startsWith("image/")).pop();
+        const newImageBase64 = editedImage?.data || null;
+        const textResponse = result.text || null;
 
         if (!newImageBase64) {
             return NextResponse.json(
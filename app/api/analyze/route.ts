@@ -1,30 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
-import { analyzeAndGenerateConstitution } from "@/lib/ai";
-import type { CanvasElement, BrandConstitution } from "@/lib/types";
+import { createBrandAnalystAgent } from "@/lib/ai/agents/brand-analyst";
+import { mergeConstitutionRules, type MergeSource } from "@/lib/ai/constitution";
+import { validateConstitution, type CanvasElement, type BrandConstitution, type ProcessedAsset } from "@/lib/types";
 
 export interface AnalyzeRequest {
     brandId: string;
     elements: CanvasElement[];
-    processedHashes?: string[]; // Hashes already processed (for deduplication)
+    /** The brand's processed_assets; elements already in it aren't re-analyzed */
+    processedAssets?: Record<string, ProcessedAsset>;
+    /** Current constitution; fields no element speaks to keep its values */
+    constitution?: BrandConstitution | null;
 }
 
 export interface AnalyzeResponse {
     constitution: BrandConstitution;
+    /** processed_assets for the elements now on the canvas, to store on the brand */
+    processedAssets: Record<string, ProcessedAsset>;
     newHashes: string[]; // Newly processed hashes
     skippedCount: number; // Number of elements skipped due to deduplication
 }
 
+/** Elements analyzed at once */
+const ANALYZE_CONCURRENCY = 4;
+
+/** Processed assets are keyed by content hash; elements without one by id */
+const elementKey = (el: CanvasElement) => el.hash || el.id;
+
 /**
  * Agent A: The Archivist
  * POST /api/analyze
- * 
- * Analyzes canvas elements and generates the Brand Constitution.
- * Implements deduplication via hash checking.
+ *
+ * Analyzes new canvas elements one by one, stores what each says about the
+ * brand and merges every element's rules into the Brand Constitution by
+ * weighted voting. Elements already processed (by hash) are not re-analyzed;
+ * elements removed from the canvas stop voting. The constitution's
+ * provenance links each rule to the canvas elements behind it.
  */
 export async function POST(request: NextRequest) {
     try {
         const body: AnalyzeRequest = await request.json();
-        const { elements, processedHashes = [] } = body;
+        const { elements, processedAssets = {}, constitution = null } = body;
 
         if (!elements || elements.length === 0) {
             return NextResponse.json(
@@ -33,42 +48,61 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // DEBUG: Log incoming elements
-        console.log(`[/api/analyze] Received ${elements.length} elements`);
-        elements.forEach((el, i) => {
-            const urlPreview = el.url ? (el.url.startsWith('data:') ? `data:${el.url.slice(5, 30)}...` : el.url.slice(0, 50)) : 'NO URL';
-            console.log(`  [${i}] type=${el.type}, hash=${el.hash?.slice(0, 8) || 'none'}, url=${urlPreview}`);
-        });
+        if (constitution) {
+            const validation = validateConstitution(constitution);
+            if (!validation.success) {
+                return NextResponse.json(
+                    { error: validation.error, issues: validation.issues },
+                    { status: 400 }
+                );
+            }
+        }
 
-        // Deduplication: Filter out already-processed elements
-        const newElements = elements.filter(
-            (el) => el.hash && !processedHashes.includes(el.hash)
-        );
+        // Deduplication: only elements without stored rules are analyzed
+        const newElements = elements.filter((el) => !processedAssets[elementKey(el)]);
         const skippedCount = elements.length - newElements.length;
 
-        // If all elements were already processed, return cached message
-        if (newElements.length === 0 && processedHashes.length > 0) {
-            return NextResponse.json({
-                constitution: null,
-                newHashes: [],
-                skippedCount,
-                message: "All elements already processed - using cached constitution",
+        const analyst = createBrandAnalystAgent();
+        const analyzed: Record<string, ProcessedAsset> = {};
+        for (let i = 0; i < newElements.length; i += ANALYZE_CONCURRENCY) {
+            const batch = newElements.slice(i, i + ANALYZE_CONCURRENCY);
+            const results = await Promise.allSettled(batch.map((el) => analyst.extractElementRules(el)));
+            results.forEach((result, j) => {
+                // A failed element isn't stored, so it's retried on the next analysis
+                if (result.status === "rejected") {
+                    console.warn(`[/api/analyze] Skipped element ${batch[j].id}:`, result.reason);
+                    return;
+                }
+                analyzed[elementKey(batch[j])] = {
+                    type: batch[j].type,
+                    extracted_rules: result.value,
+                    timestamp: Date.now(),
+                };
             });
         }
 
-        // Analyze with Gemini (Agent A: The Archivist)
-        const constitution = await analyzeAndGenerateConstitution(
-            newElements.length > 0 ? newElements : elements
-        );
-
-        // Collect new hashes for caching
-        const newHashes = newElements
-            .filter((el) => el.hash)
-            .map((el) => el.hash as string);
+        // Only elements still on the canvas vote; duplicates share one vote
+        const current: Record<string, ProcessedAsset> = {};
+        const sources: Record<string, MergeSource> = {};
+        for (const el of elements) {
+            const key = elementKey(el);
+            const asset = analyzed[key] || processedAssets[key];
+            if (!asset) continue;
+            current[key] = asset;
+            sources[key] = sources[key] || { asset, element_ids: [] };
+            sources[key].element_ids.push(el.id);
+        }
+        if (Object.keys(current).length === 0) {
+            return NextResponse.json(
+                { error: "No canvas element could be analyzed" },
+                { status: 500 }
+            );
+        }
 
         return NextResponse.json({
-            constitution,
-            newHashes,
+            constitution: mergeConstitutionRules(Object.values(sources), constitution),
+            processedAssets: current,
+            newHashes: Object.keys(analyzed),
             skippedCount,
         } satisfies AnalyzeResponse);
     } catch (error) {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFileAssetImageStorage } from "@/lib/ai/jobs";
+
+export const runtime = "nodejs";
+
+/**
+ * Serve a stored asset image
+ * Used when asset images are kept on disk rather than in Vercel Blob.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ name: string }> }
+) {
+    const { name } = await params;
+
+    const png = getFileAssetImageStorage().read(name);
+    if (!png) {
+        return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(png), {
+        headers: {
+            "Content-Type": "image/png",
+            // Names are unique per run and attempt, so the bytes never change
+            "Cache-Control": "public, max-age=31536000, immutable",
+        },
+    });
+}
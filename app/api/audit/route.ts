@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auditAsset } from "@/lib/ai";
-import type { BrandConstitution, AuditResult } from "@/lib/types";
+import { normalizeAuditPolicy, validateConstitution, type AuditDecision, type AuditPolicy, type BrandConstitution, type AuditResult } from "@/lib/types";
 
 export interface AuditRequest {
     assetId: string;
     imageUrl: string;
     constitution: BrandConstitution;
+    /** The brand's policy; the default when omitted */
+    auditPolicy?: AuditPolicy;
 }
 
 export interface AuditResponse {
     assetId: string;
     result: AuditResult;
-    recommendation: "APPROVE" | "REJECT" | "REGENERATE";
+    recommendation: AuditDecision;
 }
 
 /**
@@ -19,12 +21,13 @@ export interface AuditResponse {
  * POST /api/audit
  * 
  * Audits generated assets against the brand constitution.
- * Returns compliance score, heatmap of issues, and fix instructions.
+ * Returns compliance score, heatmap of issues, and fix instructions; the
+ * recommendation is the decision under the brand's audit policy.
  */
 export async function POST(request: NextRequest) {
     try {
         const body: AuditRequest = await request.json();
-        const { assetId, imageUrl, constitution } = body;
+        const { assetId, imageUrl, constitution, auditPolicy } = body;
 
         if (!imageUrl) {
             return NextResponse.json(
@@ -40,23 +43,21 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Audit the asset using Gemini Vision (Agent C: The Sentinel)
-        const result = await auditAsset(imageUrl, constitution);
-
-        // Determine recommendation based on compliance score
-        let recommendation: AuditResponse["recommendation"];
-        if (result.pass) {
-            recommendation = "APPROVE";
-        } else if (result.compliance_score >= 70) {
-            recommendation = "REGENERATE"; // Close enough, try again
-        } else {
-            recommendation = "REJECT"; // Too far off, needs manual intervention
+        const validation = validateConstitution(constitution);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, issues: validation.issues },
+                { status: 400 }
+            );
         }
 
+        // Audit the asset using Gemini Vision (Agent C: The Sentinel)
+        const result = await auditAsset(imageUrl, validation.constitution, normalizeAuditPolicy(auditPolicy));
+
         return NextResponse.json({
             assetId,
             result,
-            recommendation,
+            recommendation: result.decision,
         } satisfies AuditResponse);
     } catch (error) {
         console.error("Agent C (Sentinel) error:", error);
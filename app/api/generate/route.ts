@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { buildEnhancedPrompt } from "@/lib/ai";
-import type { BrandConstitution } from "@/lib/types";
+import { validateConstitution, type BrandConstitution } from "@/lib/types";
 
 export interface GenerateRequest {
     campaignId: string;
@@ -41,8 +41,16 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const validation = validateConstitution(constitution);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, issues: validation.issues },
+                { status: 400 }
+            );
+        }
+
         // Build the enhanced prompt using the constitution
-        const enhancedPrompt = buildEnhancedPrompt(prompt, constitution);
+        const enhancedPrompt = buildEnhancedPrompt(prompt, validation.constitution);
 
         // TODO: When Gemini image generation is available, generate the actual image here
         // For now, we return the enhanced prompt for manual use or external generation
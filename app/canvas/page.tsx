@@ -4,10 +4,14 @@ import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import { MoodboardCanvas, ConstitutionSidebar } from "@/components/canvas";
 import { useCanvasStore } from "@/lib/store";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { updateConstitution } from "@/lib/firebase/firestore";
+import { createChangeInfo, type ProcessedAsset } from "@/lib/types";
 import type { AnalyzeResponse } from "@/app/api/analyze/route";
 
 export default function CanvasPage() {
     const {
+        currentBrand,
         elements,
         constitution,
         isAnalyzing,
@@ -15,8 +19,14 @@ export default function CanvasPage() {
         setIsAnalyzing,
         setError,
     } = useCanvasStore();
+    const { user } = useAuth();
 
-    const [lastAnalyzedHashes, setLastAnalyzedHashes] = useState<string[]>([]);
+    // Per-element rules already extracted; merged into the constitution on each analysis
+    const [processedAssets, setProcessedAssets] = useState<Record<string, ProcessedAsset>>({});
+
+    useEffect(() => {
+        setProcessedAssets(currentBrand?.processed_assets ?? {});
+    }, [currentBrand]);
 
     // Analyze canvas elements
     const handleAnalyze = useCallback(async () => {
@@ -33,9 +43,10 @@ export default function CanvasPage() {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
-                    brandId: "demo_brand", // For demo purposes
+                    brandId: currentBrand?.id ?? "demo_brand",
                     elements,
-                    processedHashes: lastAnalyzedHashes,
+                    processedAssets,
+                    constitution,
                 }),
             });
 
@@ -45,9 +56,15 @@ export default function CanvasPage() {
 
             const data: AnalyzeResponse = await response.json();
 
-            if (data.constitution) {
-                setConstitution(data.constitution);
-                setLastAnalyzedHashes((prev) => [...prev, ...data.newHashes]);
+            setConstitution(data.constitution);
+            setProcessedAssets(data.processedAssets);
+            if (currentBrand) {
+                await updateConstitution(
+                    currentBrand.id,
+                    data.constitution,
+                    data.processedAssets,
+                    createChangeInfo("analysis", user)
+                );
             }
 
             if (data.skippedCount > 0) {
@@ -61,7 +78,7 @@ export default function CanvasPage() {
         } finally {
             setIsAnalyzing(false);
         }
-    }, [elements, lastAnalyzedHashes, setConstitution, setIsAnalyzing, setError]);
+    }, [currentBrand, elements, constitution, processedAssets, user, setConstitution, setIsAnalyzing, setError]);
 
     return (
         <div className="min-h-screen flex flex-col">
@@ -128,8 +145,8 @@ export default function CanvasPage() {
                     )}
                 </div>
                 <div>
-                    {lastAnalyzedHashes.length > 0 && (
-                        <span>{lastAnalyzedHashes.length} hashes cached</span>
+                    {Object.keys(processedAssets).length > 0 && (
+                        <span>{Object.keys(processedAssets).length} elements analyzed</span>
                     )}
                 </div>
             </footer>
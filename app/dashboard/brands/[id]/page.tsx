@@ -2,9 +2,13 @@
 
 import React, { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { getBrand, saveConstitution } from "@/lib/firebase/firestore";
-import { Brand, BrandConstitution } from "@/lib/types";
+import { getBrand, rollbackConstitution, saveAuditPolicy, saveConstitution } from "@/lib/firebase/firestore";
+import { AuditPolicy, Brand, BrandConstitution, createChangeInfo, normalizeAuditPolicy } from "@/lib/types";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { ConstitutionEditor } from "@/components/dashboard/ConstitutionEditor";
+import { ConstitutionHistory } from "@/components/dashboard/ConstitutionHistory";
+import { AuditPolicyEditor } from "@/components/dashboard/AuditPolicyEditor";
+import { BrandBookButton } from "@/components/dashboard/BrandBookButton";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, Loader2 } from "lucide-react";
 import Link from "next/link";
@@ -12,6 +16,7 @@ import Link from "next/link";
 export default function BrandDetailPage() {
     const params = useParams();
     const router = useRouter();
+    const { user } = useAuth();
     const [brand, setBrand] = useState<Brand | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
@@ -39,9 +44,24 @@ export default function BrandDetailPage() {
 
     const handleSaveConstitution = async (updated: BrandConstitution) => {
         if (!brandId) return;
-        await saveConstitution(brandId, updated);
-        // Update local state
-        setBrand(prev => prev ? { ...prev, constitution_cache: updated } : null);
+        await saveConstitution(brandId, updated, createChangeInfo("manual_edit", user));
+        // Reload for the new version number
+        const saved = await getBrand(brandId);
+        setBrand(prev => saved ?? (prev ? { ...prev, constitution_cache: updated } : null));
+    };
+
+    const handleRollback = async (version: number) => {
+        if (!brandId) return;
+        const restored = await rollbackConstitution(brandId, version, createChangeInfo("rollback", user));
+        setBrand(prev => prev
+            ? { ...prev, constitution_cache: restored.constitution, constitution_version: restored.version }
+            : null);
+    };
+
+    const handleSaveAuditPolicy = async (updated: AuditPolicy) => {
+        if (!brandId) return;
+        await saveAuditPolicy(brandId, updated);
+        setBrand(prev => prev ? { ...prev, audit_policy: updated } : null);
     };
 
     if (isLoading) {
@@ -64,15 +84,20 @@ export default function BrandDetailPage() {
                 <Link href="/dashboard" className="p-2 rounded-full hover:bg-slate-100 transition-colors text-slate-500">
                     <ChevronLeft className="w-6 h-6" />
                 </Link>
-                <div>
+                <div className="flex-1">
                     <h1 className="text-3xl font-bold text-slate-900 tracking-tight">{brand.name}</h1>
                     <p className="text-slate-500 mt-1">Manage brand identity and configuration.</p>
                 </div>
+                {brand.constitution_cache && <BrandBookButton brand={brand} />}
             </div>
 
             {brand.constitution_cache ? (
                 <ConstitutionEditor
+                    // Remount on a new version so a rollback replaces unsaved edits
+                    key={brand.constitution_version ?? 0}
                     constitution={brand.constitution_cache}
+                    brandName={brand.name}
+                    elements={brand.canvas_elements}
                     onSave={handleSaveConstitution}
                 />
             ) : (
@@ -93,6 +118,19 @@ export default function BrandDetailPage() {
                     </Link>
                 </div>
             )}
+
+            {brand.constitution_cache && (
+                <ConstitutionHistory
+                    brandId={brand.id}
+                    currentVersion={brand.constitution_version ?? 0}
+                    onRollback={handleRollback}
+                />
+            )}
+
+            <AuditPolicyEditor
+                policy={normalizeAuditPolicy(brand.audit_policy)}
+                onSave={handleSaveAuditPolicy}
+            />
         </div>
     );
 }
@@ -3,19 +3,22 @@
 import React, { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { getCampaign, subscribeToCampaign } from "@/lib/firebase/firestore";
-import { Campaign, Asset } from "@/lib/types";
+import { Campaign, Asset, AuditResult, getExportBlockers } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ChevronLeft, Loader2, Calendar, Target, CheckCircle2, AlertCircle } from "lucide-react";
+import { ChevronLeft, Loader2, Calendar, Target, CheckCircle2, AlertCircle, ImageOff } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { Skeleton } from "@/components/ui/skeleton";
+import { AuditOverlay } from "@/components/editor/AuditOverlay";
 
 export default function CampaignDetailPage() {
     const params = useParams();
     const router = useRouter();
     const [campaign, setCampaign] = useState<Campaign | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    // Asset whose audit issues are drawn over its image
+    const [inspectedAssetId, setInspectedAssetId] = useState<string | null>(null);
 
     const campaignId = params.id as string;
 
@@ -132,26 +135,49 @@ export default function CampaignDetailPage() {
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                         {campaign.assets.map((asset) => (
                             <Card key={asset.id} className="group overflow-hidden border-slate-100 shadow-sm hover:shadow-2xl transition-all duration-500">
-                                <div className="aspect-video bg-slate-900 relative">
-                                    {asset.image_url ? (
+                                {inspectedAssetId === asset.id && asset.image_url ? (
+                                    // Natural aspect ratio, so issue regions line up with the image
+                                    <div className="bg-slate-900 relative">
                                         <Image
                                             src={asset.image_url}
                                             alt="Generated Asset"
-                                            fill
-                                            className="object-cover group-hover:scale-105 transition-transform duration-700"
+                                            width={1024}
+                                            height={1024}
+                                            className="w-full h-auto block"
                                         />
-                                    ) : (
-                                        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
-                                            <Loader2 className="w-8 h-8 text-slate-700 animate-spin" />
-                                            <p className="text-slate-600 text-xs font-medium tracking-widest uppercase">Agent Processing...</p>
+                                        <AuditOverlay regions={asset.audit_result?.regions || []} />
+                                        <div className="absolute top-4 right-4">
+                                            <AssetStatusBadge status={asset.status} />
                                         </div>
-                                    )}
+                                    </div>
+                                ) : (
+                                    <div className="aspect-video bg-slate-900 relative">
+                                        {asset.image_url ? (
+                                            <Image
+                                                src={asset.image_url}
+                                                alt="Generated Asset"
+                                                fill
+                                                className="object-cover group-hover:scale-105 transition-transform duration-700"
+                                            />
+                                        ) : asset.status === "GENERATING" || asset.status === "AUDITING" ? (
+                                            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
+                                                <Loader2 className="w-8 h-8 text-slate-700 animate-spin" />
+                                                <p className="text-slate-600 text-xs font-medium tracking-widest uppercase">Agent Processing...</p>
+                                            </div>
+                                        ) : (
+                                            // Recorded before run images were stored; the issues are still listed below
+                                            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
+                                                <ImageOff className="w-8 h-8 text-slate-700" />
+                                                <p className="text-slate-600 text-xs font-medium tracking-widest uppercase">Image Unavailable</p>
+                                            </div>
+                                        )}
 
-                                    {/* Status Overlay */}
-                                    <div className="absolute top-4 right-4">
-                                        <AssetStatusBadge status={asset.status} />
+                                        {/* Status Overlay */}
+                                        <div className="absolute top-4 right-4">
+                                            <AssetStatusBadge status={asset.status} />
+                                        </div>
                                     </div>
-                                </div>
+                                )}
                                 <CardContent className="p-6">
                                     <div className="flex items-center justify-between mb-4">
                                         <div className="text-xs font-mono text-slate-400">#{asset.id.slice(-6)}</div>
@@ -175,9 +201,27 @@ export default function CampaignDetailPage() {
                                             <span className="text-indigo-600 font-black">{asset.audit_result?.compliance_score || 0}%</span>
                                         </div>
                                     </div>
+                                    {asset.review && (
+                                        <p className="mt-4 text-xs text-slate-500">
+                                            <span className="font-bold text-slate-700">{asset.review.reviewer_name}</span>
+                                            {" "}reviewed: {asset.review.decision.replace("_", " ").toLowerCase()}
+                                            {asset.review.reason && ` - ${asset.review.reason}`}
+                                        </p>
+                                    )}
+                                    {inspectedAssetId === asset.id && asset.audit_result && (
+                                        <AuditDetails audit={asset.audit_result} />
+                                    )}
                                     <div className="mt-6 flex gap-2">
                                         <Button size="sm" variant="outline" className="flex-1 text-xs">Edit</Button>
-                                        <Button size="sm" variant="secondary" className="flex-1 text-xs">Audit Details</Button>
+                                        <Button
+                                            size="sm"
+                                            variant="secondary"
+                                            className="flex-1 text-xs"
+                                            disabled={!asset.audit_result}
+                                            onClick={() => setInspectedAssetId(inspectedAssetId === asset.id ? null : asset.id)}
+                                        >
+                                            {inspectedAssetId === asset.id ? "Hide Details" : "Audit Details"}
+                                        </Button>
                                     </div>
                                 </CardContent>
                             </Card>
@@ -196,12 +240,76 @@ export default function CampaignDetailPage() {
     );
 }
 
+function AuditDetails({ audit }: { audit: AuditResult }) {
+    // Violations without a location aren't on the heatmap
+    const general = (audit.violations || []).filter((v) => !v.box);
+
+    const subScores = Object.entries(audit.sub_scores);
+    const exportBlockers = getExportBlockers(audit);
+
+    return (
+        <div className="mt-6 space-y-3 text-xs">
+            {exportBlockers.length > 0 && (
+                <p className="p-3 rounded-xl bg-red-50 text-red-600">
+                    <span className="font-bold uppercase text-[10px] tracking-widest mr-2">Export blocked</span>
+                    {exportBlockers[0]}
+                </p>
+            )}
+            {audit.confidence && (
+                <p className={`p-3 rounded-xl ${audit.confidence.needs_review ? "bg-amber-50 text-amber-700" : "bg-slate-50 text-slate-500"}`}>
+                    <span className="font-bold uppercase text-[10px] tracking-widest mr-2">
+                        {audit.confidence.needs_review ? "Needs review" : "Confidence"}
+                    </span>
+                    {Math.round(audit.confidence.confidence * 100)}% across {audit.confidence.judgments.length} judges
+                    {" "}(scores {audit.confidence.judgments.map((j) => j.compliance_score).join(", ")}; ±{audit.confidence.std_dev})
+                </p>
+            )}
+            {subScores.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {subScores.map(([category, score]) => (
+                        <span key={category} className="px-2 py-1 rounded-lg bg-slate-50 border border-slate-100 text-slate-500">
+                            <span className="uppercase text-[10px] font-bold tracking-widest mr-1">{category}</span>
+                            <span className="font-black text-slate-900">{score}</span>
+                        </span>
+                    ))}
+                </div>
+            )}
+            {audit.regions.length > 0 && (
+                <ol className="space-y-2">
+                    {audit.regions.map((region, index) => (
+                        <li key={index} className="flex gap-2 text-slate-600">
+                            <span className="shrink-0 w-5 h-5 rounded-full bg-slate-900 text-white text-[10px] font-bold flex items-center justify-center">
+                                {index + 1}
+                            </span>
+                            <span>{region.issue}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {general.map((violation, index) => (
+                <p key={index} className="text-slate-600">
+                    <span className="font-bold uppercase text-[10px] tracking-widest text-slate-400 mr-2">{violation.category}</span>
+                    {violation.description}
+                </p>
+            ))}
+            {audit.strengths.length > 0 && (
+                <p className="text-emerald-600">{audit.strengths.join(" · ")}</p>
+            )}
+            {audit.fix_instructions && (
+                <p className="p-3 rounded-xl bg-slate-50 text-slate-500 whitespace-pre-line">{audit.fix_instructions}</p>
+            )}
+        </div>
+    );
+}
+
 function AssetStatusBadge({ status }: { status: string }) {
     const colors: Record<string, string> = {
         GENERATING: "bg-amber-500/90 text-white",
         AUDITING: "bg-indigo-500/90 text-white",
         APPROVED: "bg-emerald-500/90 text-white",
         REJECTED: "bg-red-500/90 text-white",
+        IN_REVIEW: "bg-amber-400/90 text-slate-900",
+        CHANGES_REQUESTED: "bg-orange-500/90 text-white",
         FAILED: "bg-slate-700/90 text-white"
     };
 
@@ -3,11 +3,11 @@
 import React, { useEffect, useState } from "react";
 import { useCanvasStore } from "@/lib/store/canvasStore";
 import { getCampaignsByBrand, createCampaign } from "@/lib/firebase/firestore";
-import { Campaign } from "@/lib/types";
+import { Campaign, formatCost, mergeUsage } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Plus, Zap, Loader2, ArrowRight, ExternalLink } from "lucide-react";
+import { Plus, Zap, Loader2, ArrowRight, ExternalLink, ClipboardCheck } from "lucide-react";
 import Link from "next/link";
 import { toast } from "sonner";
 import { fireConfetti } from "@/components/ui/Confetti";
@@ -64,6 +64,12 @@ export default function CampaignsPage() {
         }
     };
 
+    const brandUsage = mergeUsage(...campaigns.map((campaign) => campaign.usage));
+    const awaitingReview = campaigns.reduce(
+        (count, campaign) => count + (campaign.assets || []).filter((asset) => asset.status === "IN_REVIEW").length,
+        0
+    );
+
     if (!currentBrand) {
         return (
             <div className="h-full flex items-center justify-center">
@@ -79,8 +85,20 @@ export default function CampaignsPage() {
                 <div className="space-y-1">
                     <h1 className="text-4xl font-black text-slate-900 tracking-tight">Campaign Strategy</h1>
                     <p className="text-slate-500 text-lg">Orchestrate multiple assets into cohesive brand stories.</p>
+                    {brandUsage.calls > 0 && (
+                        <p className="text-sm text-slate-400">
+                            Model spend: <span className="font-semibold text-slate-600">{formatCost(brandUsage.costUsd)}</span>
+                            {" "}· {brandUsage.totalTokens.toLocaleString()} tokens · {brandUsage.imageCount} image(s)
+                        </p>
+                    )}
                 </div>
                 <div className="flex items-center gap-3">
+                    <Link href="/dashboard/campaigns/review">
+                        <Button variant="outline" className="gap-2">
+                            <ClipboardCheck className="w-4 h-4" />
+                            Review Queue{awaitingReview > 0 ? ` (${awaitingReview})` : ""}
+                        </Button>
+                    </Link>
                     <div className="flex gap-2">
                         <Input
                             placeholder="Campaign Title (e.g. Summer Launch)"
@@ -138,6 +156,7 @@ export default function CampaignsPage() {
                             <CardContent className="pb-6">
                                 <div className="flex items-center justify-between text-xs text-slate-400 font-medium">
                                     <span>{campaign.assets?.length || 0} Assets</span>
+                                    {campaign.usage && <span>{formatCost(campaign.usage.costUsd)}</span>}
                                     <span>{new Date(campaign.created_at).toLocaleDateString()}</span>
                                 </div>
                                 <Link href={`/dashboard/campaigns/${campaign.id}`} className="mt-6 block">
@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useCanvasStore } from "@/lib/store/canvasStore";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { getReviewableAssets, reviewAsset } from "@/lib/firebase/firestore";
+import { getContextMemory } from "@/lib/ai/agents/context-memory";
+import type { Asset, AssetReview, Campaign, ReviewDecision } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { CheckCircle2, ChevronLeft, ClipboardCheck, ImageOff, RotateCcw, XCircle } from "lucide-react";
+
+interface QueueItem {
+    campaign: Campaign;
+    asset: Asset;
+}
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+    APPROVE: "Approved",
+    REJECT: "Rejected",
+    REQUEST_CHANGES: "Changes requested",
+};
+
+/**
+ * Review queue: borderline and low-confidence assets wait here for a
+ * person to approve, reject or send back for changes
+ */
+export default function ReviewQueuePage() {
+    const { currentBrand } = useCanvasStore();
+    const { user } = useAuth();
+    const [items, setItems] = useState<QueueItem[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const fetchQueue = useCallback(async () => {
+        if (!currentBrand) return;
+        setIsLoading(true);
+        try {
+            setItems(await getReviewableAssets(currentBrand.id));
+        } catch (error) {
+            console.error("Error fetching review queue:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentBrand]);
+
+    useEffect(() => {
+        fetchQueue();
+    }, [fetchQueue]);
+
+    const handleReview = async (item: QueueItem, decision: ReviewDecision, reason: string) => {
+        if (!currentBrand || !user) return;
+        const review: AssetReview = {
+            decision,
+            reviewer_id: user.uid,
+            reviewer_name: user.displayName || user.email || user.uid,
+            reason: reason.trim(),
+            reviewed_at: Date.now(),
+        };
+        try {
+            await reviewAsset(item.campaign.id, item.asset.id, review);
+            // The decision is also a lesson for future generations
+            await getContextMemory().recordReviewDecision(
+                user.uid,
+                currentBrand.id,
+                currentBrand.constitution_cache,
+                item.asset,
+                review
+            );
+            toast.success(`Asset ${DECISION_LABELS[decision].toLowerCase()}`);
+            await fetchQueue();
+        } catch (error) {
+            toast.error("Failed to save review");
+            console.error(error);
+        }
+    };
+
+    if (!currentBrand) {
+        return (
+            <div className="h-full flex items-center justify-center">
+                <p className="text-slate-500">Please select a brand from the sidebar first.</p>
+            </div>
+        );
+    }
+
+    const pending = items.filter((item) => item.asset.status === "IN_REVIEW");
+    const reviewed = items
+        .filter((item) => item.asset.review)
+        .sort((a, b) => b.asset.review!.reviewed_at - a.asset.review!.reviewed_at)
+        .slice(0, 10);
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-10 animate-in fade-in duration-700">
+            {/* Page Header */}
+            <div className="flex items-center gap-6 pb-6 border-b border-slate-100">
+                <Link href="/dashboard/campaigns" className="p-3 rounded-2xl hover:bg-slate-100 transition-all text-slate-500 border border-transparent hover:border-slate-200">
+                    <ChevronLeft className="w-6 h-6" />
+                </Link>
+                <div className="space-y-1">
+                    <h1 className="text-4xl font-black text-slate-900 tracking-tight">Review Queue</h1>
+                    <p className="text-slate-500 text-lg">
+                        Assets the auditor couldn&apos;t decide with confidence. Your decisions teach the brand memory.
+                    </p>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="grid md:grid-cols-2 gap-8">
+                    {[1, 2].map((i) => (
+                        <Skeleton key={i} className="h-80 w-full rounded-3xl" />
+                    ))}
+                </div>
+            ) : pending.length > 0 ? (
+                <div className="grid md:grid-cols-2 gap-8">
+                    {pending.map((item) => (
+                        <ReviewCard
+                            key={`${item.campaign.id}_${item.asset.id}`}
+                            item={item}
+                            canReview={!!user}
+                            onReview={(decision, reason) => handleReview(item, decision, reason)}
+                        />
+                    ))}
+                </div>
+            ) : (
+                <div className="text-center py-20 bg-slate-50/50 rounded-3xl border-2 border-dashed border-slate-200">
+                    <div className="bg-white w-16 h-16 rounded-2xl shadow-sm flex items-center justify-center mx-auto mb-4">
+                        <ClipboardCheck className="w-8 h-8 text-slate-300" />
+                    </div>
+                    <h3 className="text-xl font-bold text-slate-900">Nothing to Review</h3>
+                    <p className="text-slate-500 mt-2 max-w-sm mx-auto">
+                        Assets with borderline or low-confidence audits will appear here.
+                    </p>
+                </div>
+            )}
+
+            {reviewed.length > 0 && (
+                <div className="space-y-4">
+                    <h2 className="text-2xl font-bold text-slate-900">Recently Reviewed</h2>
+                    <div className="bg-white border border-slate-100 rounded-3xl divide-y divide-slate-100">
+                        {reviewed.map(({ campaign, asset }) => (
+                            <div key={`${campaign.id}_${asset.id}`} className="p-4 flex items-center gap-4 text-sm">
+                                <span className="text-xs font-mono text-slate-400">#{asset.id.slice(-6)}</span>
+                                <Link href={`/dashboard/campaigns/${campaign.id}`} className="font-medium text-slate-700 hover:text-indigo-600">
+                                    {campaign.title}
+                                </Link>
+                                <span className="font-bold text-slate-900">{DECISION_LABELS[asset.review!.decision]}</span>
+                                <span className="flex-1 text-slate-500 truncate">{asset.review!.reason}</span>
+                                <span className="text-xs text-slate-400">
+                                    {asset.review!.reviewer_name} · {new Date(asset.review!.reviewed_at).toLocaleDateString()}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ReviewCard({
+    item,
+    canReview,
+    onReview,
+}: {
+    item: QueueItem;
+    canReview: boolean;
+    onReview: (decision: ReviewDecision, reason: string) => Promise<void>;
+}) {
+    const { campaign, asset } = item;
+    const audit = asset.audit_result;
+    const [reason, setReason] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    const decide = async (decision: ReviewDecision) => {
+        setIsSaving(true);
+        try {
+            await onReview(decision, reason);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Approving can stand on the audit; overriding it the other way needs a reason
+    const needsReason = !reason.trim();
+    // Nobody approves what they can't see
+    const hasImage = !!asset.image_url;
+
+    return (
+        <Card className="overflow-hidden border-slate-100 shadow-sm">
+            <div className="aspect-video bg-slate-900 relative">
+                {asset.image_url ? (
+                    <Image src={asset.image_url} alt="Asset under review" fill className="object-cover" />
+                ) : (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2">
+                        <ImageOff className="w-8 h-8 text-slate-700" />
+                        <p className="text-slate-500 text-xs">Image unavailable - approving is disabled</p>
+                    </div>
+                )}
+            </div>
+            <CardContent className="p-6 space-y-4">
+                <div className="flex items-center justify-between text-xs">
+                    <Link href={`/dashboard/campaigns/${campaign.id}`} className="font-bold text-slate-700 hover:text-indigo-600">
+                        {campaign.title}
+                    </Link>
+                    <span className="font-mono text-slate-400">#{asset.id.slice(-6)}</span>
+                </div>
+                {audit && (
+                    <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                        <span>Auditor: {audit.decision}</span>
+                        <span className="text-indigo-600 font-black">{audit.compliance_score}%</span>
+                    </div>
+                )}
+                <ul className="space-y-1 text-xs text-amber-700">
+                    {(asset.review_reasons || []).map((r, index) => (
+                        <li key={index} className="p-2 rounded-lg bg-amber-50">{r}</li>
+                    ))}
+                </ul>
+                {audit && audit.violations.length > 0 && (
+                    <ul className="space-y-1 text-xs text-slate-600">
+                        {audit.violations.slice(0, 3).map((v, index) => (
+                            <li key={index}>
+                                <span className="font-bold uppercase text-[10px] tracking-widest text-slate-400 mr-2">{v.severity}</span>
+                                {v.description}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <Input
+                    placeholder="Reason (required to reject or request changes)"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="text-xs"
+                />
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 text-xs gap-1 text-emerald-700"
+                        disabled={!canReview || isSaving || !hasImage}
+                        onClick={() => decide("APPROVE")}
+                    >
+                        <CheckCircle2 className="w-3.5 h-3.5" />
+                        Approve
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 text-xs gap-1 text-amber-700"
+                        disabled={!canReview || isSaving || needsReason}
+                        onClick={() => decide("REQUEST_CHANGES")}
+                    >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Request Changes
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 text-xs gap-1 text-red-600"
+                        disabled={!canReview || isSaving || needsReason}
+                        onClick={() => decide("REJECT")}
+                    >
+                        <XCircle className="w-3.5 h-3.5" />
+                        Reject
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
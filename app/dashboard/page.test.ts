@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import fs from "fs";
+import path from "path";
+
+const source = fs.readFileSync(path.join(__dirname, "page.tsx"), "utf8");
+
+/** The argument list of every fetch() call in the source */
+function fetchCalls(code: string): string[] {
+    const calls: string[] = [];
+    for (let start = code.indexOf("fetch("); start !== -1; start = code.indexOf("fetch(", start + 1)) {
+        let depth = 0;
+        for (let i = start + "fetch".length; i < code.length; i++) {
+            if (code[i] === "(") depth++;
+            if (code[i] === ")" && --depth === 0) {
+                calls.push(code.slice(start, i + 1));
+                break;
+            }
+        }
+    }
+    return calls;
+}
+
+describe("dashboard requests", () => {
+    it("sends the user's auth headers with every fetch", () => {
+        const calls = fetchCalls(source);
+
+        expect(calls.length).toBeGreaterThan(0);
+        for (const call of calls) {
+            expect(call, call).toContain("await getAuthHeaders()");
+        }
+    });
+});
@@ -4,10 +4,28 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useCanvasStore } from "@/lib/store/canvasStore";
-import { getConstitution, saveConstitution, addCanvasElement } from "@/lib/firebase/firestore";
+import { getAuditPolicy, getConstitution, saveConstitution, addCanvasElement, createCampaignFromRun } from "@/lib/firebase/firestore";
+import { getAuthHeaders } from "@/lib/firebase/config";
 import type { AgentAction } from "@/lib/ai/tools";
 import { EditableCanvas } from "@/components/editor";
-import { createCanvasElement } from "@/lib/types";
+import { PlanEditor } from "@/components/dashboard/PlanEditor";
+import { QUOTA_CHANGED_EVENT } from "@/components/dashboard/QuotaIndicator";
+import { useAuth } from "@/components/auth/AuthProvider";
+import type { AgentTask } from "@/lib/ai/agents/types";
+import {
+    createCanvasElement,
+    createChangeInfo,
+    formatCost,
+    getExportBlockers,
+    type Asset,
+    type AuditPolicy,
+    type AuditResult,
+    type BrandConstitution,
+    type UsageSummary,
+} from "@/lib/types";
+
+/** Reconnect attempts after the event stream drops */
+const MAX_RECONNECTS = 3;
 
 interface AgentEvent {
     type: "start" | "action" | "complete" | "error";
@@ -17,25 +35,47 @@ interface AgentEvent {
         thinking?: string;
         message?: string;
         success?: boolean;
+        cancelled?: boolean;
+        runId?: string;
+        resumable?: boolean;
         hasImage?: boolean;
+        imageUrl?: string | null;
         image?: string;
         input?: Record<string, unknown>;
         output?: unknown;
+        constitution?: BrandConstitution;
+        assets?: Asset[];
+        usage?: UsageSummary;
+        budgetExceeded?: { message: string };
     };
 }
 
 export default function DashboardPage() {
     const { constitution, setConstitution, elements, addElement, currentBrand } = useCanvasStore();
+    const { user } = useAuth();
 
     const [prompt, setPrompt] = useState("");
     const [isRunning, setIsRunning] = useState(false);
     const [events, setEvents] = useState<AgentEvent[]>([]);
     const [history, setHistory] = useState<AgentAction[]>([]);
     const [finalImage, setFinalImage] = useState<string | null>(null);
+    // Compliance issues on finalImage, shown in the editor
+    const [finalAudit, setFinalAudit] = useState<AuditResult | null>(null);
+    const [auditPolicy, setAuditPolicy] = useState<AuditPolicy | null>(null);
+    // Set while an edited finalImage is audited; finalAudit still holds the last audit
+    const [isReauditing, setIsReauditing] = useState(false);
+    const reauditRef = useRef<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [showHistory, setShowHistory] = useState(false);
     const [showEditor, setShowEditor] = useState(false);
+    const [isStopping, setIsStopping] = useState(false);
     const abortRef = useRef<AbortController | null>(null);
+    const runIdRef = useRef<string | null>(null);
+    const lastEventIdRef = useRef(0);
+    const [resumableRunId, setResumableRunId] = useState<string | null>(null);
+    const [planMode, setPlanMode] = useState(false);
+    const [draftPlan, setDraftPlan] = useState<AgentTask[] | null>(null);
+    const [isPlanning, setIsPlanning] = useState(false);
 
     // Load saved constitution from Firestore on mount
     useEffect(() => {
@@ -54,145 +94,323 @@ export default function DashboardPage() {
         loadSavedConstitution();
     }, [currentBrand?.id, constitution, setConstitution]);
 
-    const runAgent = useCallback(async () => {
+    // Runs are audited under the brand's policy (the server default until it loads)
+    useEffect(() => {
+        if (!currentBrand?.id) return;
+        getAuditPolicy(currentBrand.id)
+            .then(setAuditPolicy)
+            .catch((err) => console.error("Failed to load audit policy:", err));
+    }, [currentBrand?.id]);
+
+    // Handle one SSE event; returns true once the run has finished
+    const handleEvent = useCallback(async (type: string, data: AgentEvent["data"]) => {
+        const event: AgentEvent = { type: type as AgentEvent["type"], data };
+        setEvents((prev) => [...prev, event]);
+
+        if (type === "start" && data.runId) {
+            runIdRef.current = data.runId;
+            setResumableRunId(null);
+        }
+
+        // Track history
+        if (type === "action" && data.tool) {
+            const tool = data.tool;
+            setHistory((prev) => [...prev, {
+                timestamp: Date.now(),
+                tool,
+                input: data.input || {},
+                output: data.output,
+                thinking: data.thinking,
+            }]);
+        }
+
+        if (type === "complete") {
+            // Fetch the image from the run's job store
+            if (data.imageUrl) {
+                try {
+                    const imgResponse = await fetch(data.imageUrl, { headers: await getAuthHeaders() });
+                    const imgData = await imgResponse.json();
+                    if (imgData.image) {
+                        setFinalImage(imgData.image);
+                        // The run keeps its best-scoring attempt as the final image
+                        const best = (data.assets || []).reduce<Asset | null>((a, b) =>
+                            !a || (b.audit_result?.compliance_score ?? 0) > (a.audit_result?.compliance_score ?? 0) ? b : a, null);
+                        setFinalAudit(best?.audit_result || null);
+
+                        // Create a new canvas element for the moodboard
+                        const newElement = createCanvasElement("image", {
+                            url: `data:image/png;base64,${imgData.image}`,
+                            name: `Agent Generation: ${prompt.slice(0, 20)}...`,
+                            x: Math.random() * 300,
+                            y: Math.random() * 300,
+                        });
+
+                        // Update local store
+                        addElement(newElement);
+
+                        // Persist to Firestore if brand is active
+                        if (currentBrand?.id) {
+                            addCanvasElement(currentBrand.id, newElement).catch(console.error);
+                        }
+                    } else {
+                        console.error("[SSE] Image fetch failed:", imgData.error);
+                    }
+                } catch (fetchError) {
+                    console.error("[SSE] Failed to fetch image:", fetchError);
+                }
+            }
+
+            // Update constitution in store and Firestore
+            if (data.constitution) {
+                setConstitution(data.constitution);
+                if (currentBrand?.id) {
+                    saveConstitution(currentBrand.id, data.constitution, createChangeInfo("agent", user)).catch(console.error);
+                }
+            }
+
+            // Record the run and its spend on the brand's campaigns
+            if (currentBrand?.id && data.usage?.calls) {
+                createCampaignFromRun({
+                    brandId: currentBrand.id,
+                    title: prompt.slice(0, 60),
+                    prompt,
+                    success: !!data.success,
+                    assets: data.assets || [],
+                    usage: data.usage,
+                }).catch(console.error);
+            }
+        }
+
+        if ((type === "complete" || type === "error") && data.resumable && data.runId) {
+            setResumableRunId(data.runId);
+        }
+
+        if (type === "complete" || type === "error") {
+            if (data.budgetExceeded) setError(data.budgetExceeded.message);
+            window.dispatchEvent(new Event(QUOTA_CHANGED_EVENT));
+        }
+
+        return type === "complete" || type === "error";
+    }, [prompt, currentBrand?.id, user, addElement, setConstitution]);
+
+    // Read an SSE response; returns true if the run finished before the stream ended
+    const readEvents = useCallback(async (response: Response) => {
+        if (!response.body) throw new Error("No response body");
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let currentEvent = "";
+        let finished = false;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() || "";
+
+            for (const line of lines) {
+                if (line.startsWith("id: ")) {
+                    lastEventIdRef.current = Number(line.slice(4)) || lastEventIdRef.current;
+                } else if (line.startsWith("event: ")) {
+                    currentEvent = line.slice(7);
+                } else if (line.startsWith("data: ") && currentEvent) {
+                    try {
+                        finished = (await handleEvent(currentEvent, JSON.parse(line.slice(6)))) || finished;
+                    } catch {
+                        // Skip malformed JSON
+                    }
+                    currentEvent = "";
+                }
+            }
+        }
+
+        return finished;
+    }, [handleEvent]);
+
+    // Follow a run to the end, reconnecting from the last event if the stream drops
+    const followRun = useCallback(async (open: (signal: AbortSignal) => Promise<Response>) => {
+        setIsRunning(true);
+        setError(null);
+        abortRef.current = new AbortController();
+        const { signal } = abortRef.current;
+
+        try {
+            let response = await open(signal);
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                const planErrors = (body?.planErrors as { message: string }[] | undefined)?.map((issue) => issue.message);
+                throw new Error(planErrors?.length ? `Invalid plan: ${planErrors.join("; ")}` : body?.error || "Failed to start agent");
+            }
+
+            for (let reconnects = 0; ; reconnects++) {
+                try {
+                    if (await readEvents(response)) break;
+                    throw new Error("Connection to agent lost");
+                } catch (err) {
+                    if (signal.aborted || !runIdRef.current || reconnects >= MAX_RECONNECTS) throw err;
+                }
+
+                await new Promise((resolve) => setTimeout(resolve, 1000 * (reconnects + 1)));
+                response = await fetch(`/api/agent/${runIdRef.current}/events`, {
+                    headers: { "Last-Event-ID": String(lastEventIdRef.current), ...(await getAuthHeaders()) },
+                    signal,
+                });
+                if (!response.ok) throw new Error("Failed to reconnect to agent");
+            }
+        } catch (err) {
+            if (err instanceof Error && err.name !== "AbortError") {
+                setError(err.message);
+                if (runIdRef.current) setResumableRunId(runIdRef.current);
+            }
+        } finally {
+            setIsRunning(false);
+            setIsStopping(false);
+            abortRef.current = null;
+            runIdRef.current = null;
+        }
+    }, [readEvents]);
+
+    const checkCanRun = useCallback(() => {
         if (!prompt.trim()) {
             setError("Please enter a prompt");
-            return;
+            return false;
         }
 
         if (!constitution && elements.length === 0) {
             setError("No brand data. Go to Canvas and add some elements first.");
-            return;
+            return false;
         }
 
-        setIsRunning(true);
-        setError(null);
+        return true;
+    }, [prompt, constitution, elements.length]);
+
+    // Run the agent; an approved plan skips the orchestrator's own planning
+    const runAgent = useCallback(async (plan?: AgentTask[]) => {
+        if (!checkCanRun()) return;
+
+        setDraftPlan(null);
         setEvents([]);
         setHistory([]);
         setFinalImage(null);
-
-        abortRef.current = new AbortController();
+        setFinalAudit(null);
+        reauditRef.current = null;
+        setIsReauditing(false);
+        setResumableRunId(null);
+        runIdRef.current = null;
+        lastEventIdRef.current = 0;
+
+        await followRun(async (signal) => fetch("/api/agent", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...(await getAuthHeaders()) },
+            body: JSON.stringify({
+                prompt,
+                canvasElements: elements,
+                savedConstitution: constitution,
+                brandId: currentBrand?.id,
+                ...(auditPolicy ? { auditPolicy } : {}),
+                ...(plan ? { plan } : {}),
+            }),
+            signal,
+        }));
+    }, [prompt, constitution, elements, currentBrand?.id, auditPolicy, followRun, checkCanRun]);
+
+    // Plan mode: fetch the decomposed tasks for review before anything runs
+    const previewPlan = useCallback(async () => {
+        if (!checkCanRun()) return;
+
+        setIsPlanning(true);
+        setError(null);
+        setDraftPlan(null);
 
         try {
-            const response = await fetch("/api/agent", {
+            const response = await fetch("/api/agent/plan", {
                 method: "POST",
-                headers: { "Content-Type": "application/json" },
+                headers: { "Content-Type": "application/json", ...(await getAuthHeaders()) },
                 body: JSON.stringify({
                     prompt,
                     canvasElements: elements,
                     savedConstitution: constitution,
                     brandId: currentBrand?.id,
                 }),
-                signal: abortRef.current.signal,
             });
-
-            if (!response.ok) throw new Error("Failed to start agent");
-            if (!response.body) throw new Error("No response body");
-
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = "";
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split("\n");
-                buffer = lines.pop() || "";
-
-                let currentEvent = "";
-                for (const line of lines) {
-                    if (line.startsWith("event: ")) {
-                        currentEvent = line.slice(7);
-                    } else if (line.startsWith("data: ") && currentEvent) {
-                        try {
-                            const data = JSON.parse(line.slice(6));
-                            const event: AgentEvent = { type: currentEvent as AgentEvent["type"], data };
-                            setEvents((prev) => [...prev, event]);
-
-                            // Track history
-                            if (currentEvent === "action" && data.tool) {
-                                setHistory((prev) => [...prev, {
-                                    timestamp: Date.now(),
-                                    tool: data.tool,
-                                    input: data.input || {},
-                                    output: data.output,
-                                    thinking: data.thinking,
-                                }]);
-                            }
-
-                            if (currentEvent === "complete") {
-                                console.log("[SSE] Complete event received:", {
-                                    hasImage: data.hasImage,
-                                    imageId: data.imageId,
-                                });
-
-                                // Fetch the image from the server if we have an imageId
-                                if (data.imageId) {
-                                    console.log("[SSE] Fetching image from /api/image/" + data.imageId);
-                                    try {
-                                        const imgResponse = await fetch(`/api/image/${data.imageId}`);
-                                        const imgData = await imgResponse.json();
-                                        if (imgData.image) {
-                                            console.log("[SSE] Image fetched successfully, length:", imgData.image.length);
-                                            setFinalImage(imgData.image);
-
-                                            // Create a new canvas element for the moodboard
-                                            const newElement = createCanvasElement("image", {
-                                                url: `data:image/png;base64,${imgData.image}`,
-                                                name: `Agent Generation: ${prompt.slice(0, 20)}...`,
-                                                x: Math.random() * 300,
-                                                y: Math.random() * 300,
-                                            });
-
-                                            // Update local store
-                                            addElement(newElement);
-
-                                            // Persist to Firestore if brand is active
-                                            if (currentBrand?.id) {
-                                                addCanvasElement(currentBrand.id, newElement).catch(console.error);
-                                            }
-                                        } else {
-                                            console.error("[SSE] Image fetch failed:", imgData.error);
-                                        }
-                                    } catch (fetchError) {
-                                        console.error("[SSE] Failed to fetch image:", fetchError);
-                                    }
-                                } else if (!data.hasImage) {
-                                    console.log("[SSE] No image generated in this session");
-                                }
-
-                                // Update constitution in store and Firestore
-                                if (data.constitution) {
-                                    setConstitution(data.constitution);
-                                    if (currentBrand?.id) {
-                                        saveConstitution(currentBrand.id, data.constitution).catch(console.error);
-                                    }
-                                }
-                            }
-                        } catch {
-                            // Skip malformed JSON
-                        }
-                        currentEvent = "";
-                    }
-                }
-            }
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to plan");
+            setDraftPlan(data.plan);
         } catch (err) {
-            if (err instanceof Error && err.name !== "AbortError") {
-                setError(err.message);
-            }
+            setError(err instanceof Error ? err.message : "Failed to plan");
         } finally {
-            setIsRunning(false);
-            abortRef.current = null;
+            setIsPlanning(false);
+        }
+    }, [prompt, constitution, elements, currentBrand?.id, checkCanRun]);
+
+    // Continue a failed or stopped run from its last successful task
+    const resumeAgent = useCallback(async () => {
+        const runId = resumableRunId;
+        if (!runId) return;
+
+        setResumableRunId(null);
+        runIdRef.current = runId;
+
+        await followRun(async (signal) => fetch(`/api/agent/${runId}/resume`, {
+            method: "POST",
+            headers: await getAuthHeaders(),
+            signal,
+        }));
+    }, [resumableRunId, followRun]);
+
+    // Ask the server to stop so the stream still delivers partial results;
+    // drop the connection only if the run can't be reached
+    const stopAgent = async () => {
+        setIsStopping(true);
+        const runId = runIdRef.current;
+        if (runId) {
+            try {
+                const response = await fetch(`/api/agent/${runId}`, { method: "DELETE", headers: await getAuthHeaders() });
+                if (response.ok) return;
+            } catch {
+                // Fall through to a hard abort
+            }
         }
-    }, [prompt, constitution, elements, currentBrand?.id]);
-
-    const stopAgent = () => {
         abortRef.current?.abort();
         setIsRunning(false);
+        setIsStopping(false);
     };
 
+    // An edited image keeps the last audit's export blockers until its own audit is back
+    const reauditImage = useCallback(async (image: string) => {
+        setFinalImage(image);
+        if (!constitution) return;
+
+        reauditRef.current = image;
+        setIsReauditing(true);
+        try {
+            const response = await fetch("/api/audit", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", ...(await getAuthHeaders()) },
+                body: JSON.stringify({
+                    assetId: "edited",
+                    imageUrl: image,
+                    constitution,
+                    ...(auditPolicy ? { auditPolicy } : {}),
+                }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to audit the edited image");
+            // A later edit's audit supersedes this one
+            if (reauditRef.current === image) setFinalAudit(data.result);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to audit the edited image");
+        } finally {
+            if (reauditRef.current === image) setIsReauditing(false);
+        }
+    }, [constitution, auditPolicy]);
+
+    // The brand's audit policy can block export until the asset is fixed
+    const exportBlockers = getExportBlockers(finalAudit);
+
     return (
         <div className="space-y-8 animate-in fade-in duration-500">
             {/* Page Header */}
@@ -261,24 +479,59 @@ export default function DashboardPage() {
 
                         <div className="mt-4 flex gap-3">
                             {!isRunning ? (
-                                <button
-                                    onClick={runAgent}
-                                    disabled={!prompt.trim()}
-                                    className="flex-1 btn-accent py-3 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                    Run Agent
-                                </button>
+                                <>
+                                    <button
+                                        onClick={() => (planMode ? previewPlan() : runAgent())}
+                                        disabled={!prompt.trim() || isPlanning}
+                                        className="flex-1 btn-accent py-3 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {planMode ? (isPlanning ? "Planning..." : "Preview Plan") : "Run Agent"}
+                                    </button>
+                                    {resumableRunId && (
+                                        <button
+                                            onClick={resumeAgent}
+                                            className="px-6 py-3 rounded-lg bg-slate-100 text-slate-700 font-semibold hover:bg-slate-200 transition-all"
+                                        >
+                                            Resume
+                                        </button>
+                                    )}
+                                </>
                             ) : (
                                 <button
                                     onClick={stopAgent}
-                                    className="flex-1 px-6 py-3 rounded-lg bg-red-500/20 text-red-400 font-semibold hover:bg-red-500/30 transition-all"
+                                    disabled={isStopping}
+                                    className="flex-1 px-6 py-3 rounded-lg bg-red-500/20 text-red-400 font-semibold hover:bg-red-500/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
-                                    Stop Agent
+                                    {isStopping ? "Stopping..." : "Stop Agent"}
                                 </button>
                             )}
                         </div>
+
+                        <label className="mt-3 flex items-center gap-2 text-sm text-slate-500 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={planMode}
+                                onChange={(e) => {
+                                    setPlanMode(e.target.checked);
+                                    if (!e.target.checked) setDraftPlan(null);
+                                }}
+                                disabled={isRunning || isPlanning}
+                            />
+                            Plan mode - review tasks before they run
+                        </label>
                     </div>
 
+                    {/* Plan Review (plan mode) */}
+                    {draftPlan && (
+                        <PlanEditor
+                            plan={draftPlan}
+                            onChange={setDraftPlan}
+                            onApprove={() => runAgent(draftPlan)}
+                            onCancel={() => setDraftPlan(null)}
+                            disabled={isRunning}
+                        />
+                    )}
+
                     {/* Agent Activity Feed */}
                     <div className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm">
                         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -319,6 +572,11 @@ export default function DashboardPage() {
                                                 {event.data.message}
                                             </p>
                                         )}
+                                        {event.type === "complete" && event.data.usage && (
+                                            <p className="text-slate-500 font-mono text-xs mt-1">
+                                                {event.data.usage.totalTokens.toLocaleString()} tokens · {event.data.usage.imageCount} image(s) · {formatCost(event.data.usage.costUsd)}
+                                            </p>
+                                        )}
                                     </div>
                                 ))
                             )}
@@ -364,7 +622,9 @@ export default function DashboardPage() {
                                 Edit in Canvas
                             </button>
                             <button
-                                className="btn-secondary px-4"
+                                className="btn-secondary px-4 disabled:opacity-50 disabled:cursor-not-allowed"
+                                disabled={exportBlockers.length > 0}
+                                title={exportBlockers.length > 0 ? `Export blocked: ${exportBlockers[0]}` : undefined}
                                 onClick={() => {
                                     const link = document.createElement("a");
                                     link.href = `data:image/png;base64,${finalImage}`;
@@ -376,12 +636,25 @@ export default function DashboardPage() {
                             </button>
                             <button
                                 className="btn-secondary px-4"
-                                onClick={() => setFinalImage(null)}
+                                onClick={() => {
+                                    setFinalImage(null);
+                                    setFinalAudit(null);
+                                }}
                             >
                                 Clear
                             </button>
                         </div>
                     )}
+                    {finalImage && exportBlockers.length > 0 && (
+                        <div className="mt-3 p-3 rounded-lg bg-red-50 border border-red-100 text-xs text-red-700">
+                            <p className="font-semibold mb-1">Export blocked — fix in the canvas editor</p>
+                            <ul className="list-disc pl-4 space-y-0.5">
+                                {exportBlockers.map((reason, index) => (
+                                    <li key={index}>{reason}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
 
                 {/* Canvas Editor Modal */}
@@ -399,9 +672,12 @@ export default function DashboardPage() {
                             </div>
                             <EditableCanvas
                                 imageBase64={finalImage}
+                                auditRegions={isReauditing ? undefined : finalAudit?.regions}
+                                exportBlockers={exportBlockers}
+                                onEdit={reauditImage}
                                 onSave={(dataUrl) => {
                                     const base64 = dataUrl.split(",")[1];
-                                    if (base64) setFinalImage(base64);
+                                    if (base64) reauditImage(base64);
                                     setShowEditor(false);
                                 }}
                             />
@@ -9,12 +9,15 @@ import { cn } from "@/lib/utils";
 interface CanvasElementProps {
     element: CanvasElementType;
     isDragging?: boolean;
+    /** Source of the constitution rule being hovered */
+    isHighlighted?: boolean;
     onRemove?: () => void;
 }
 
 export function CanvasElement({
     element,
     isDragging,
+    isHighlighted,
     onRemove,
 }: CanvasElementProps) {
     const {
@@ -43,7 +46,8 @@ export function CanvasElement({
                 "relative group rounded-xl overflow-hidden cursor-grab active:cursor-grabbing",
                 "glass-card transition-all duration-200",
                 isActive && "opacity-50 scale-105 z-50",
-                "hover:ring-2 hover:ring-primary/50"
+                "hover:ring-2 hover:ring-primary/50",
+                isHighlighted && "ring-4 ring-primary scale-[1.03]"
             )}
         >
             {/* Image Element */}
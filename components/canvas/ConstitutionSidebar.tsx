@@ -1,10 +1,31 @@
 "use client";
 
 import { useCanvasStore } from "@/lib/store";
+import { getRuleSources, isFieldLocked } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
 export function ConstitutionSidebar() {
-    const { constitution, isAnalyzing } = useCanvasStore();
+    const { constitution, elements, isAnalyzing, setHighlightedElementIds } = useCanvasStore();
+
+    // Hand-tuned fields re-analysis leaves alone
+    const lockBadge = (...fields: string[]) =>
+        fields.some((field) => isFieldLocked(constitution, field)) && (
+            <span className="ml-1 text-amber-400" title="Locked: re-analysis keeps these values">🔒</span>
+        );
+
+    // Hovering a rule highlights the canvas elements it was extracted from
+    const sources = (field: string, value: string | undefined) => {
+        const ids = value
+            ? getRuleSources(constitution, field, value).filter((id) => elements.some((el) => el.id === id))
+            : [];
+        return {
+            onMouseEnter: () => setHighlightedElementIds(ids),
+            onMouseLeave: () => setHighlightedElementIds([]),
+            title: ids.length > 0
+                ? `From ${ids.length} canvas element${ids.length === 1 ? "" : "s"}`
+                : "Not traced to a canvas element",
+        };
+    };
 
     if (!constitution && !isAnalyzing) {
         return (
@@ -45,12 +66,14 @@ export function ConstitutionSidebar() {
                     <section>
                         <h3 className="text-sm font-medium text-muted-foreground mb-3">
                             Color Palette
+                            {lockBadge("visual_identity.color_palette_hex")}
                         </h3>
                         <div className="flex flex-wrap gap-2">
                             {(constitution.visual_identity?.color_palette_hex || []).map((color, i) => (
                                 <div
                                     key={i}
-                                    className="flex items-center gap-2 px-3 py-2 rounded-lg glass"
+                                    {...sources("visual_identity.color_palette_hex", color)}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-lg glass cursor-default"
                                 >
                                     <div
                                         className="w-4 h-4 rounded-full ring-1 ring-white/20"
@@ -66,8 +89,12 @@ export function ConstitutionSidebar() {
                     <section>
                         <h3 className="text-sm font-medium text-muted-foreground mb-2">
                             Visual Style
+                            {lockBadge("visual_identity.photography_style")}
                         </h3>
-                        <p className="text-sm glass-card p-3 rounded-lg">
+                        <p
+                            {...sources("visual_identity.photography_style", constitution.visual_identity?.photography_style)}
+                            className="text-sm glass-card p-3 rounded-lg"
+                        >
                             {constitution.visual_identity?.photography_style || "No style defined"}
                         </p>
                     </section>
@@ -77,12 +104,14 @@ export function ConstitutionSidebar() {
                         <section>
                             <h3 className="text-sm font-medium text-muted-foreground mb-2">
                                 ⛔ Forbidden Elements
+                                {lockBadge("visual_identity.forbidden_elements")}
                             </h3>
                             <ul className="space-y-1">
                                 {(constitution.visual_identity?.forbidden_elements || []).map((el, i) => (
                                     <li
                                         key={i}
-                                        className="text-sm text-red-400/80 flex items-center gap-2"
+                                        {...sources("visual_identity.forbidden_elements", el)}
+                                        className="text-sm text-red-400/80 flex items-center gap-2 cursor-default"
                                     >
                                         <span>•</span>
                                         <span>{el}</span>
@@ -96,15 +125,20 @@ export function ConstitutionSidebar() {
                     <section>
                         <h3 className="text-sm font-medium text-muted-foreground mb-2">
                             Voice & Tone
+                            {lockBadge("voice.tone", "voice.keywords")}
                         </h3>
-                        <p className="text-sm mb-2 glass-card p-3 rounded-lg">
+                        <p
+                            {...sources("voice.tone", constitution.voice?.tone)}
+                            className="text-sm mb-2 glass-card p-3 rounded-lg"
+                        >
                             {constitution.voice?.tone || "No tone defined"}
                         </p>
                         <div className="flex flex-wrap gap-1">
                             {(constitution.voice?.keywords || []).map((keyword, i) => (
                                 <span
                                     key={i}
-                                    className="px-2 py-1 rounded text-xs bg-primary/20 text-primary"
+                                    {...sources("voice.keywords", keyword)}
+                                    className="px-2 py-1 rounded text-xs bg-primary/20 text-primary cursor-default"
                                 >
                                     {keyword}
                                 </span>
@@ -116,9 +150,13 @@ export function ConstitutionSidebar() {
                     <section>
                         <h3 className="text-sm font-medium text-muted-foreground mb-2">
                             Risk Thresholds
+                            {lockBadge("risk_thresholds.nudity", "risk_thresholds.political")}
                         </h3>
                         <div className="grid grid-cols-2 gap-2 text-xs">
-                            <div className="glass-card p-2 rounded-lg">
+                            <div
+                                {...sources("risk_thresholds.nudity", constitution.risk_thresholds?.nudity)}
+                                className="glass-card p-2 rounded-lg"
+                            >
                                 <span className="text-muted-foreground">Nudity:</span>
                                 <span
                                     className={cn(
@@ -133,7 +171,10 @@ export function ConstitutionSidebar() {
                                         : "Artistic OK"}
                                 </span>
                             </div>
-                            <div className="glass-card p-2 rounded-lg">
+                            <div
+                                {...sources("risk_thresholds.political", constitution.risk_thresholds?.political)}
+                                className="glass-card p-2 rounded-lg"
+                            >
                                 <span className="text-muted-foreground">Political:</span>
                                 <span
                                     className={cn(
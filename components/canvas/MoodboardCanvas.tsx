@@ -29,6 +29,7 @@ export function MoodboardCanvas() {
         setElements,
         addElement,
         removeElement,
+        highlightedElementIds,
         isAnalyzing,
     } = useCanvasStore();
 
@@ -143,6 +144,7 @@ export function MoodboardCanvas() {
                                 <CanvasElement
                                     key={element.id}
                                     element={element}
+                                    isHighlighted={highlightedElementIds.includes(element.id)}
                                     onRemove={() => removeElement(element.id)}
                                 />
                             ))}
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+    AUDIT_CATEGORIES,
+    DEFAULT_AUDIT_POLICY,
+    type AuditCategory,
+    type AuditPolicy,
+    type AuditSeverity,
+} from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { toast } from "sonner";
+import { Save, RotateCcw } from "lucide-react";
+
+interface AuditPolicyEditorProps {
+    policy: AuditPolicy;
+    onSave: (updated: AuditPolicy) => Promise<void>;
+}
+
+const SEVERITIES: AuditSeverity[] = ["critical", "warning", "minor"];
+
+/**
+ * AuditPolicyEditor - How a brand's audits are scored and decided
+ */
+export function AuditPolicyEditor({ policy, onSave }: AuditPolicyEditorProps) {
+    const [edited, setEdited] = useState<AuditPolicy>(JSON.parse(JSON.stringify(policy)));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const totalWeight = AUDIT_CATEGORIES.reduce((sum, c) => sum + edited.weights[c], 0);
+    const bandsValid = edited.bands.regenerate <= edited.bands.approve;
+
+    const handleSave = async () => {
+        if (!bandsValid) return;
+        setIsSaving(true);
+        try {
+            await onSave(edited);
+            toast.success("Audit policy updated successfully");
+        } catch (error) {
+            toast.error("Failed to update audit policy");
+            console.error(error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const toNumber = (value: string, max: number) => Math.max(0, Math.min(max, Number(value) || 0));
+
+    const setWeight = (category: AuditCategory, value: string) => {
+        setEdited({ ...edited, weights: { ...edited.weights, [category]: toNumber(value, 10) } });
+    };
+
+    // Empty clears the minimum (Firestore rejects undefined, so the key is dropped)
+    const setMinimum = (category: AuditCategory, value: string) => {
+        const minimums = { ...edited.minimums };
+        if (value.trim() === "") delete minimums[category];
+        else minimums[category] = toNumber(value, 100);
+        setEdited({ ...edited, minimums });
+    };
+
+    const toggleSeverity = (severity: AuditSeverity) => {
+        const blocking = edited.blocking_severities.includes(severity)
+            ? edited.blocking_severities.filter((s) => s !== severity)
+            : SEVERITIES.filter((s) => s === severity || edited.blocking_severities.includes(s));
+        setEdited({ ...edited, blocking_severities: blocking });
+    };
+
+    const setBand = (band: keyof AuditPolicy["bands"], value: string) => {
+        setEdited({ ...edited, bands: { ...edited.bands, [band]: toNumber(value, 100) } });
+    };
+
+    return (
+        <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+            <div className="flex items-center justify-between border-b border-slate-100 pb-6">
+                <div>
+                    <h2 className="text-2xl font-bold text-slate-900">Audit Policy</h2>
+                    <p className="text-slate-500 mt-1">How generated assets are scored, approved and cleared for export.</p>
+                </div>
+                <div className="flex gap-2">
+                    <Button
+                        onClick={() => setEdited(JSON.parse(JSON.stringify(DEFAULT_AUDIT_POLICY)))}
+                        variant="outline"
+                        className="gap-2"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                        Defaults
+                    </Button>
+                    <Button
+                        onClick={handleSave}
+                        disabled={isSaving || !bandsValid}
+                        variant="premium"
+                        className="gap-2"
+                    >
+                        <Save className="w-4 h-4" />
+                        {isSaving ? "Saving..." : "Save Policy"}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-8">
+                {/* Categories */}
+                <Card className="border-slate-100 shadow-sm">
+                    <CardHeader className="bg-slate-50/50">
+                        <CardTitle className="text-lg">Categories</CardTitle>
+                        <CardDescription>
+                            Weights set each category&apos;s share of the compliance score. A category below its
+                            minimum can&apos;t be approved or exported.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="pt-6">
+                        <div className="grid grid-cols-[1fr_80px_60px_80px] gap-3 items-center text-sm">
+                            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Category</span>
+                            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Weight</span>
+                            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Share</span>
+                            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Minimum</span>
+                            {AUDIT_CATEGORIES.map((category) => (
+                                <React.Fragment key={category}>
+                                    <span className="font-medium text-slate-700 capitalize">{category}</span>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        step={0.05}
+                                        value={edited.weights[category]}
+                                        onChange={(e) => setWeight(category, e.target.value)}
+                                        className="h-8 text-xs"
+                                    />
+                                    <span className="text-xs text-slate-500">
+                                        {totalWeight > 0 ? Math.round((edited.weights[category] / totalWeight) * 100) : 0}%
+                                    </span>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        placeholder="None"
+                                        value={edited.minimums[category] ?? ""}
+                                        onChange={(e) => setMinimum(category, e.target.value)}
+                                        className="h-8 text-xs border-dashed"
+                                    />
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-8">
+                    {/* Decision bands */}
+                    <Card className="border-slate-100 shadow-sm">
+                        <CardHeader className="bg-slate-50/50">
+                            <CardTitle className="text-lg">Decision Bands</CardTitle>
+                            <CardDescription>
+                                Approve at or above the first score, regenerate down to the second, reject below.
+                                Scores within the review margin of the approve band go to the review queue.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="pt-6 grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-semibold text-emerald-700 uppercase tracking-wider">Approve from</label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={edited.bands.approve}
+                                    onChange={(e) => setBand("approve", e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-semibold text-amber-700 uppercase tracking-wider">Regenerate from</label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={edited.bands.regenerate}
+                                    onChange={(e) => setBand("regenerate", e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-semibold text-slate-600 uppercase tracking-wider">Review margin</label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={50}
+                                    value={edited.review_margin}
+                                    onChange={(e) => setEdited({ ...edited, review_margin: toNumber(e.target.value, 50) })}
+                                />
+                            </div>
+                            {!bandsValid && (
+                                <p className="col-span-2 text-xs text-red-600">
+                                    The regenerate band can&apos;t start above the approve band.
+                                </p>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {/* Blocking severities */}
+                    <Card className="border-slate-100 shadow-sm">
+                        <CardHeader className="bg-slate-50/50">
+                            <CardTitle className="text-lg">Export Blocking</CardTitle>
+                            <CardDescription>Any violation of these severities blocks export.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="pt-6 flex gap-3">
+                            {SEVERITIES.map((severity) => (
+                                <label
+                                    key={severity}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 text-sm capitalize cursor-pointer hover:bg-slate-50"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={edited.blocking_severities.includes(severity)}
+                                        onChange={() => toggleSeverity(severity)}
+                                        className="accent-indigo-600"
+                                    />
+                                    {severity}
+                                </label>
+                            ))}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useState } from "react";
+import { createBrandBook } from "@/lib/brandBook";
+import { getCampaignsByBrand } from "@/lib/firebase/firestore";
+import { toFileSlug } from "@/lib/utils/file";
+import type { Brand } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { BookOpen } from "lucide-react";
+
+interface BrandBookButtonProps {
+    brand: Brand;
+}
+
+/**
+ * BrandBookButton - Download the brand's guidelines as a multi-page PDF
+ */
+export function BrandBookButton({ brand }: BrandBookButtonProps) {
+    const [isExporting, setIsExporting] = useState(false);
+
+    const handleExport = async () => {
+        if (!brand.constitution_cache) return;
+        setIsExporting(true);
+        try {
+            // Without campaigns the book is still useful, just without examples
+            const campaigns = await getCampaignsByBrand(brand.id).catch((error) => {
+                console.error("Error fetching campaigns for the brand book:", error);
+                return [];
+            });
+            const pdf = await createBrandBook(brand.name, brand.constitution_cache, campaigns);
+            pdf.save(`${toFileSlug(brand.name)}-brand-book.pdf`);
+            toast.success("Brand book exported");
+        } catch (error) {
+            toast.error("Failed to export the brand book");
+            console.error(error);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Button
+            variant="outline"
+            className="gap-2"
+            onClick={handleExport}
+            disabled={!brand.constitution_cache || isExporting}
+        >
+            <BookOpen className="w-4 h-4" />
+            {isExporting ? "Exporting..." : "Brand Book"}
+        </Button>
+    );
+}
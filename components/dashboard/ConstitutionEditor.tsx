@@ -1,23 +1,47 @@
 "use client";
 
 import React, { useState } from "react";
-import { BrandConstitution } from "@/lib/types";
+import Image from "next/image";
+import { BrandConstitution, CanvasElement, getRuleSources, isFieldLocked, setConstitutionField, validateConstitution } from "@/lib/types";
+import { useCanvasStore } from "@/lib/store";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { toast } from "sonner";
-import { Save, Plus, X } from "lucide-react";
+import { DesignTokensMenu } from "./DesignTokensMenu";
+import { Save, Plus, X, StickyNote, Lock, Unlock } from "lucide-react";
 
 interface ConstitutionEditorProps {
     constitution: BrandConstitution;
+    /** Names the exported design token files */
+    brandName: string;
+    /** The brand's moodboard, to show which elements each rule came from */
+    elements?: CanvasElement[];
     onSave: (updated: BrandConstitution) => Promise<void>;
 }
 
-export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorProps) {
+export function ConstitutionEditor({ constitution, brandName, elements = [], onSave }: ConstitutionEditorProps) {
     const [edited, setEdited] = useState<BrandConstitution>(JSON.parse(JSON.stringify(constitution)));
     const [isSaving, setIsSaving] = useState(false);
+    const setHighlightedElementIds = useCanvasStore((state) => state.setHighlightedElementIds);
+
+    const sourceElements = (field: string, value: string) => {
+        const ids = getRuleSources(edited, field, value);
+        return elements.filter((el) => ids.includes(el.id));
+    };
+
+    // Hovering a rule highlights its source elements on the moodboard
+    const highlightProps = (field: string, value: string) => ({
+        onMouseEnter: () => setHighlightedElementIds(sourceElements(field, value).map((el) => el.id)),
+        onMouseLeave: () => setHighlightedElementIds([]),
+    });
 
     const handleSave = async () => {
+        const validation = validateConstitution(edited);
+        if (!validation.success) {
+            toast.error(`Can't save: ${validation.issues[0]}`);
+            return;
+        }
         setIsSaving(true);
         try {
             await onSave(edited);
@@ -30,37 +54,34 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
         }
     };
 
+    const getList = (path: string[]): string[] =>
+        (path.reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], edited) as string[] | undefined) ?? [];
+
     const addListItem = (path: string[], newItem: string) => {
         if (!newItem.trim()) return;
-        const updated = { ...edited };
-        let current: any = updated;
-        for (let i = 0; i < path.length - 1; i++) {
-            current = current[path[i]];
-        }
-        const lastKey = path[path.length - 1];
-        current[lastKey] = [...(current[lastKey] || []), newItem];
-        setEdited(updated);
+        setEdited(setConstitutionField(edited, path.join("."), [...getList(path), newItem]));
     };
 
     const removeListItem = (path: string[], index: number) => {
-        const updated = { ...edited };
-        let current: any = updated;
-        for (let i = 0; i < path.length - 1; i++) {
-            current = current[path[i]];
-        }
-        const lastKey = path[path.length - 1];
-        current[lastKey] = current[lastKey].filter((_: any, i: number) => i !== index);
-        setEdited(updated);
+        setEdited(setConstitutionField(edited, path.join("."), getList(path).filter((_, i) => i !== index)));
+    };
+
+    // Locked fields are kept as they are when the moodboard is re-analyzed
+    const toggleLock = (field: string) => {
+        const locked = edited.locked_fields || [];
+        setEdited({
+            ...edited,
+            locked_fields: locked.includes(field) ? locked.filter((f) => f !== field) : [...locked, field],
+        });
     };
 
+    const lockProps = (field: string) => ({
+        locked: isFieldLocked(edited, field),
+        onToggleLock: () => toggleLock(field),
+    });
+
     const updateField = (path: string[], value: string) => {
-        const updated = { ...edited };
-        let current: any = updated;
-        for (let i = 0; i < path.length - 1; i++) {
-            current = current[path[i]];
-        }
-        current[path[path.length - 1]] = value;
-        setEdited(updated);
+        setEdited(setConstitutionField(edited, path.join("."), value));
     };
 
     return (
@@ -70,22 +91,29 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
                     <h2 className="text-2xl font-bold text-slate-900">Brand Constitution</h2>
                     <p className="text-slate-500 mt-1">Refine the AI-extracted DNA for perfect alignment.</p>
                 </div>
-                <Button
-                    onClick={handleSave}
-                    disabled={isSaving}
-                    variant="premium"
-                    className="gap-2"
-                >
-                    <Save className="w-4 h-4" />
-                    {isSaving ? "Saving..." : "Save Changes"}
-                </Button>
+                <div className="flex items-center gap-2">
+                    {/* Exports what's saved, not unsaved edits */}
+                    <DesignTokensMenu constitution={constitution} brandName={brandName} />
+                    <Button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        variant="premium"
+                        className="gap-2"
+                    >
+                        <Save className="w-4 h-4" />
+                        {isSaving ? "Saving..." : "Save Changes"}
+                    </Button>
+                </div>
             </div>
 
             <div className="grid gap-8">
                 {/* Brand Essence */}
                 <Card className="border-slate-100 shadow-sm overflow-hidden">
                     <CardHeader className="bg-slate-50/50">
-                        <CardTitle className="text-lg">Brand Essence</CardTitle>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                            Brand Essence
+                            <LockToggle {...lockProps("brand_essence")} />
+                        </CardTitle>
                         <CardDescription>The core "Vibe" and purpose of your brand.</CardDescription>
                     </CardHeader>
                     <CardContent className="pt-6">
@@ -108,12 +136,17 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
                         <CardContent className="pt-6 space-y-6">
                             {/* Colors */}
                             <div className="space-y-3">
-                                <label className="text-sm font-semibold text-slate-700 uppercase tracking-wider">Color Palette</label>
+                                <FieldLabel label="Color Palette" {...lockProps("visual_identity.color_palette_hex")} />
                                 <div className="flex flex-wrap gap-2">
                                     {edited.visual_identity.color_palette_hex.map((color, i) => (
-                                        <div key={i} className="group relative flex items-center gap-2 bg-slate-50 pl-2 pr-1 py-1 rounded-full border border-slate-100">
+                                        <div
+                                            key={i}
+                                            {...highlightProps("visual_identity.color_palette_hex", color)}
+                                            className="group relative flex items-center gap-2 bg-slate-50 pl-2 pr-1 py-1 rounded-full border border-slate-100"
+                                        >
                                             <div className="w-4 h-4 rounded-full border border-slate-200" style={{ backgroundColor: color }} />
                                             <span className="text-xs font-mono text-slate-600">{color}</span>
+                                            <RuleSources elements={sourceElements("visual_identity.color_palette_hex", color)} />
                                             <button
                                                 onClick={() => removeListItem(["visual_identity", "color_palette_hex"], i)}
                                                 className="p-1 rounded-full hover:bg-slate-200 text-slate-400 hover:text-red-500 transition-colors"
@@ -138,8 +171,13 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
                             </div>
 
                             {/* Photography Style */}
-                            <div className="space-y-3 pt-4">
-                                <label className="text-sm font-semibold text-slate-700 uppercase tracking-wider">Photography Style</label>
+                            <div
+                                {...highlightProps("visual_identity.photography_style", edited.visual_identity.photography_style)}
+                                className="space-y-3 pt-4"
+                            >
+                                <FieldLabel label="Photography Style" {...lockProps("visual_identity.photography_style")}>
+                                    <RuleSources elements={sourceElements("visual_identity.photography_style", edited.visual_identity.photography_style)} />
+                                </FieldLabel>
                                 <Input
                                     value={edited.visual_identity.photography_style}
                                     onChange={(e) => updateField(["visual_identity", "photography_style"], e.target.value)}
@@ -155,8 +193,10 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
                         </CardHeader>
                         <CardContent className="pt-6 space-y-6">
                             {/* Tone */}
-                            <div className="space-y-3">
-                                <label className="text-sm font-semibold text-slate-700 uppercase tracking-wider">Communication Tone</label>
+                            <div {...highlightProps("voice.tone", edited.voice.tone)} className="space-y-3">
+                                <FieldLabel label="Communication Tone" {...lockProps("voice.tone")}>
+                                    <RuleSources elements={sourceElements("voice.tone", edited.voice.tone)} />
+                                </FieldLabel>
                                 <Input
                                     value={edited.voice.tone}
                                     onChange={(e) => updateField(["voice", "tone"], e.target.value)}
@@ -165,11 +205,16 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
 
                             {/* Keywords */}
                             <div className="space-y-3 pt-4">
-                                <label className="text-sm font-semibold text-slate-700 uppercase tracking-wider">Key Vocabulary</label>
+                                <FieldLabel label="Key Vocabulary" {...lockProps("voice.keywords")} />
                                 <div className="flex flex-wrap gap-2">
                                     {edited.voice.keywords.map((word, i) => (
-                                        <span key={i} className="flex items-center gap-1 px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium border border-indigo-100">
+                                        <span
+                                            key={i}
+                                            {...highlightProps("voice.keywords", word)}
+                                            className="flex items-center gap-1 px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium border border-indigo-100"
+                                        >
                                             {word}
+                                            <RuleSources elements={sourceElements("voice.keywords", word)} />
                                             <button onClick={() => removeListItem(["voice", "keywords"], i)}>
                                                 <X className="w-3 h-3 hover:text-indigo-900" />
                                             </button>
@@ -199,11 +244,16 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
                     </CardHeader>
                     <CardContent className="pt-6 grid md:grid-cols-2 gap-8">
                         <div className="space-y-4">
-                            <label className="text-sm font-semibold text-slate-700 uppercase tracking-wider block">Composition Rules</label>
+                            <FieldLabel label="Composition Rules" {...lockProps("visual_identity.composition_rules")} />
                             <ul className="space-y-2">
                                 {edited.visual_identity.composition_rules.map((rule, i) => (
-                                    <li key={i} className="flex items-center justify-between p-3 bg-white border border-slate-100 rounded-lg text-sm group">
-                                        <span className="text-slate-600">{rule}</span>
+                                    <li
+                                        key={i}
+                                        {...highlightProps("visual_identity.composition_rules", rule)}
+                                        className="flex items-center gap-2 p-3 bg-white border border-slate-100 rounded-lg text-sm group"
+                                    >
+                                        <span className="flex-1 text-slate-600">{rule}</span>
+                                        <RuleSources elements={sourceElements("visual_identity.composition_rules", rule)} />
                                         <button
                                             onClick={() => removeListItem(["visual_identity", "composition_rules"], i)}
                                             className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-400 hover:text-red-500"
@@ -226,11 +276,16 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
                         </div>
 
                         <div className="space-y-4">
-                            <label className="text-sm font-semibold text-slate-700 uppercase tracking-wider block">Forbidden Elements</label>
+                            <FieldLabel label="Forbidden Elements" {...lockProps("visual_identity.forbidden_elements")} />
                             <ul className="space-y-2">
                                 {edited.visual_identity.forbidden_elements.map((item, i) => (
-                                    <li key={i} className="flex items-center justify-between p-3 bg-red-50/30 border border-red-100 rounded-lg text-sm text-red-700 group">
-                                        <span>{item}</span>
+                                    <li
+                                        key={i}
+                                        {...highlightProps("visual_identity.forbidden_elements", item)}
+                                        className="flex items-center gap-2 p-3 bg-red-50/30 border border-red-100 rounded-lg text-sm text-red-700 group"
+                                    >
+                                        <span className="flex-1">{item}</span>
+                                        <RuleSources elements={sourceElements("visual_identity.forbidden_elements", item)} />
                                         <button
                                             onClick={() => removeListItem(["visual_identity", "forbidden_elements"], i)}
                                             className="opacity-0 group-hover:opacity-100 transition-opacity text-red-300 hover:text-red-500"
@@ -257,3 +312,68 @@ export function ConstitutionEditor({ constitution, onSave }: ConstitutionEditorP
         </div>
     );
 }
+
+interface LockProps {
+    locked: boolean;
+    onToggleLock: () => void;
+}
+
+function LockToggle({ locked, onToggleLock }: LockProps) {
+    return (
+        <button
+            type="button"
+            onClick={onToggleLock}
+            title={locked ? "Locked: re-analysis keeps this field. Click to unlock." : "Lock against re-analysis"}
+            className={locked
+                ? "p-1 rounded-md bg-amber-100 text-amber-700 hover:bg-amber-200 transition-colors"
+                : "p-1 rounded-md text-slate-300 hover:text-slate-500 hover:bg-slate-100 transition-colors"}
+        >
+            {locked ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+        </button>
+    );
+}
+
+/**
+ * Field heading with its lock toggle; locked fields are shown in amber
+ */
+function FieldLabel({ label, locked, onToggleLock, children }: LockProps & { label: string; children?: React.ReactNode }) {
+    return (
+        <div className="flex items-center justify-between gap-2">
+            <label className={`text-sm font-semibold uppercase tracking-wider flex items-center gap-2 ${locked ? "text-amber-700" : "text-slate-700"}`}>
+                {label}
+                <LockToggle locked={locked} onToggleLock={onToggleLock} />
+            </label>
+            {children}
+        </div>
+    );
+}
+
+const MAX_SOURCE_THUMBNAILS = 3;
+
+/**
+ * Thumbnails of the moodboard elements a rule was extracted from
+ */
+function RuleSources({ elements }: { elements: CanvasElement[] }) {
+    if (elements.length === 0) return null;
+    const names = elements.map((el) => el.name || el.text || el.color || el.type).join(", ");
+
+    return (
+        <span className="flex items-center -space-x-1.5 normal-case tracking-normal" title={`From: ${names}`}>
+            {elements.slice(0, MAX_SOURCE_THUMBNAILS).map((el) => (
+                <span
+                    key={el.id}
+                    className="relative w-5 h-5 rounded-full overflow-hidden border-2 border-white bg-amber-50 flex items-center justify-center"
+                    style={el.type === "color" ? { backgroundColor: el.color } : undefined}
+                >
+                    {el.type === "image" && el.url && (
+                        <Image src={el.url} alt={el.name || "Source image"} fill className="object-cover" unoptimized />
+                    )}
+                    {el.type === "note" && <StickyNote className="w-3 h-3 text-amber-600" />}
+                </span>
+            ))}
+            {elements.length > MAX_SOURCE_THUMBNAILS && (
+                <span className="pl-2.5 text-[10px] font-bold text-slate-400">+{elements.length - MAX_SOURCE_THUMBNAILS}</span>
+            )}
+        </span>
+    );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { getConstitutionVersions } from "@/lib/firebase/firestore";
+import {
+    CONSTITUTION_TRIGGER_LABELS,
+    diffConstitutions,
+    type ConstitutionChange,
+    type ConstitutionVersion,
+} from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { History, RotateCcw } from "lucide-react";
+
+interface ConstitutionHistoryProps {
+    brandId: string;
+    /** The brand's current version; the list reloads when it changes */
+    currentVersion: number;
+    onRollback: (version: number) => Promise<void>;
+}
+
+const KIND_STYLES: Record<ConstitutionChange["kind"], string> = {
+    added: "bg-emerald-50 text-emerald-700 border-emerald-100",
+    removed: "bg-red-50 text-red-700 border-red-100 line-through",
+    changed: "bg-amber-50 text-amber-700 border-amber-100",
+};
+
+/**
+ * ConstitutionHistory - Every version of a brand's constitution, a
+ * field-level diff between any two and rollback to an earlier one
+ */
+export function ConstitutionHistory({ brandId, currentVersion, onRollback }: ConstitutionHistoryProps) {
+    const [versions, setVersions] = useState<ConstitutionVersion[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [from, setFrom] = useState<number | null>(null);
+    const [to, setTo] = useState<number | null>(null);
+    const [restoring, setRestoring] = useState<number | null>(null);
+
+    useEffect(() => {
+        const fetchVersions = async () => {
+            setIsLoading(true);
+            try {
+                const data = await getConstitutionVersions(brandId);
+                setVersions(data);
+                // Compare the latest version with the one before it
+                setTo(data[0]?.version ?? null);
+                setFrom(data[1]?.version ?? null);
+            } catch (error) {
+                console.error("Error fetching constitution history:", error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchVersions();
+    }, [brandId, currentVersion]);
+
+    const handleRollback = async (version: number) => {
+        setRestoring(version);
+        try {
+            await onRollback(version);
+            toast.success(`Restored constitution version ${version}`);
+        } catch (error) {
+            toast.error("Failed to restore version");
+            console.error(error);
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    const findVersion = (version: number | null) => versions.find((v) => v.version === version);
+    const changes = diffConstitutions(
+        findVersion(from)?.constitution ?? null,
+        findVersion(to)?.constitution ?? null
+    );
+
+    return (
+        <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+            <div className="border-b border-slate-100 pb-6">
+                <h2 className="text-2xl font-bold text-slate-900">Version History</h2>
+                <p className="text-slate-500 mt-1">Every analysis and edit of the constitution, with who made it.</p>
+            </div>
+
+            {isLoading ? (
+                <Skeleton className="h-64 w-full rounded-3xl" />
+            ) : versions.length === 0 ? (
+                <div className="text-center py-12 bg-slate-50/50 rounded-3xl border-2 border-dashed border-slate-200">
+                    <History className="w-8 h-8 text-slate-300 mx-auto mb-3" />
+                    <p className="text-slate-500">No versions yet. The next analysis or edit starts the history.</p>
+                </div>
+            ) : (
+                <div className="grid md:grid-cols-[280px_1fr] gap-8">
+                    {/* Versions */}
+                    <Card className="border-slate-100 shadow-sm">
+                        <CardContent className="p-2 divide-y divide-slate-100 max-h-[480px] overflow-y-auto">
+                            {versions.map((v) => (
+                                <div key={v.version} className="p-3 space-y-1 text-sm">
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-bold text-slate-900">
+                                            v{v.version}
+                                            {v.version === currentVersion && (
+                                                <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-indigo-600">Current</span>
+                                            )}
+                                        </span>
+                                        {v.version !== currentVersion && (
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                className="h-7 text-xs gap-1"
+                                                disabled={restoring !== null}
+                                                onClick={() => handleRollback(v.version)}
+                                            >
+                                                <RotateCcw className="w-3 h-3" />
+                                                {restoring === v.version ? "Restoring..." : "Restore"}
+                                            </Button>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-slate-500">
+                                        {CONSTITUTION_TRIGGER_LABELS[v.trigger]}
+                                        {v.restored_from !== null && ` of v${v.restored_from}`} · {v.author_name}
+                                    </p>
+                                    <p className="text-xs text-slate-400">{new Date(v.created_at).toLocaleString()}</p>
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+
+                    {/* Diff */}
+                    <Card className="border-slate-100 shadow-sm">
+                        <CardHeader className="bg-slate-50/50">
+                            <CardTitle className="text-lg">Changes</CardTitle>
+                            <CardDescription className="flex items-center gap-2">
+                                <VersionSelect versions={versions} value={from} onChange={setFrom} />
+                                <span>→</span>
+                                <VersionSelect versions={versions} value={to} onChange={setTo} />
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="pt-6">
+                            {changes.length === 0 ? (
+                                <p className="text-sm text-slate-500">No differences.</p>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {changes.map((change, index) => (
+                                        <li key={index} className={`p-3 rounded-lg border text-sm ${KIND_STYLES[change.kind]}`}>
+                                            <span className="block text-[10px] font-bold uppercase tracking-widest opacity-70">
+                                                {change.field.replace(/_/g, " ")} · {change.kind}
+                                            </span>
+                                            {change.kind === "changed"
+                                                ? <>{change.before} → {change.after}</>
+                                                : change.after ?? change.before}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function VersionSelect({
+    versions,
+    value,
+    onChange,
+}: {
+    versions: ConstitutionVersion[];
+    value: number | null;
+    onChange: (version: number | null) => void;
+}) {
+    return (
+        <select
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+            className="h-8 rounded-md border border-slate-200 bg-white px-2 text-xs text-slate-700"
+        >
+            <option value="">(empty)</option>
+            {versions.map((v) => (
+                <option key={v.version} value={v.version}>v{v.version}</option>
+            ))}
+        </select>
+    );
+}
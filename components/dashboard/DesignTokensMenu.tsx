@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+    DESIGN_TOKEN_FORMATS,
+    exportDesignTokens,
+    type BrandConstitution,
+    type DesignTokenFormat,
+} from "@/lib/types";
+import { toFileSlug } from "@/lib/utils/file";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ChevronDown, Download } from "lucide-react";
+
+interface DesignTokensMenuProps {
+    constitution: BrandConstitution;
+    brandName: string;
+}
+
+/**
+ * DesignTokensMenu - Download the constitution's palette and fonts as
+ * design tokens, a Tailwind theme, CSS variables or an ASE palette
+ */
+export function DesignTokensMenu({ constitution, brandName }: DesignTokensMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown on click outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener("mousedown", handleClickOutside);
+        }
+        return () => {
+            document.removeEventListener("mousedown", handleClickOutside);
+        };
+    }, [isOpen]);
+
+    const handleExport = (format: DesignTokenFormat) => {
+        setIsOpen(false);
+        try {
+            const { extension, mimeType } = DESIGN_TOKEN_FORMATS[format];
+            const content = exportDesignTokens(constitution, brandName, format);
+            const url = URL.createObjectURL(new Blob([content as BlobPart], { type: mimeType }));
+            const link = document.createElement("a");
+            link.download = `${toFileSlug(brandName)}.${extension}`;
+            link.href = url;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            toast.error("Failed to export design tokens");
+            console.error(error);
+        }
+    };
+
+    return (
+        <div className="relative inline-block" ref={dropdownRef}>
+            <Button variant="outline" className="gap-2" onClick={() => setIsOpen(!isOpen)}>
+                <Download className="w-4 h-4" />
+                Export Tokens
+                <ChevronDown className={`w-3 h-3 opacity-60 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+            </Button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-56 bg-white border border-slate-200 rounded-xl shadow-xl z-20 p-1 animate-in fade-in slide-in-from-top-2 duration-200">
+                    {(Object.keys(DESIGN_TOKEN_FORMATS) as DesignTokenFormat[]).map((format) => (
+                        <button
+                            key={format}
+                            onClick={() => handleExport(format)}
+                            className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+                        >
+                            {DESIGN_TOKEN_FORMATS[format].label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChevronUp, ChevronDown, Trash2, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { validatePlan } from "@/lib/ai/agents/plan";
+import type { AgentTask } from "@/lib/ai/agents/types";
+
+interface PlanEditorProps {
+    plan: AgentTask[];
+    onChange: (plan: AgentTask[]) => void;
+    onApprove: () => void;
+    onCancel: () => void;
+    disabled?: boolean;
+}
+
+/**
+ * Review and edit an orchestrator plan before it runs.
+ * Uses the same validation as the server, so approval is only offered for
+ * plans the scheduler will accept.
+ */
+export function PlanEditor({ plan, onChange, onApprove, onCancel, disabled }: PlanEditorProps) {
+    // Raw params text per task, so half-typed JSON isn't lost
+    const [paramsText, setParamsText] = useState<Record<string, string>>({});
+    const [paramsErrors, setParamsErrors] = useState<Record<string, string>>({});
+
+    const validation = useMemo(() => validatePlan(plan), [plan]);
+    const hasParamsErrors = Object.keys(paramsErrors).length > 0;
+    const labels = new Map(plan.map((task, index) => [task.id, `#${index + 1}`]));
+
+    const moveTask = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= plan.length) return;
+        const updated = [...plan];
+        [updated[index], updated[target]] = [updated[target], updated[index]];
+        onChange(updated);
+    };
+
+    // Dropping a task also drops it from other tasks' dependencies
+    const removeTask = (id: string) => {
+        onChange(
+            plan
+                .filter((task) => task.id !== id)
+                .map((task) => {
+                    const dependsOn = task.dependsOn?.filter((dep) => dep !== id);
+                    return { ...task, dependsOn: dependsOn?.length ? dependsOn : undefined };
+                })
+        );
+        setParamsErrors(({ [id]: _removed, ...rest }) => rest);
+    };
+
+    const updateParams = (id: string, text: string) => {
+        setParamsText((prev) => ({ ...prev, [id]: text }));
+        try {
+            const params = JSON.parse(text);
+            if (!params || typeof params !== "object" || Array.isArray(params)) {
+                throw new Error("Params must be a JSON object");
+            }
+            setParamsErrors(({ [id]: _cleared, ...rest }) => rest);
+            onChange(plan.map((task) => (task.id === id ? { ...task, params } : task)));
+        } catch (error) {
+            setParamsErrors((prev) => ({
+                ...prev,
+                [id]: error instanceof Error ? error.message : "Invalid JSON",
+            }));
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Review Plan</h3>
+                <span className="text-xs text-slate-400">{plan.length} task(s)</span>
+            </div>
+
+            <ol className="space-y-3">
+                {plan.map((task, index) => (
+                    <li key={task.id} className="p-3 rounded-lg border border-slate-200 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs font-mono text-slate-400">#{index + 1}</span>
+                            <span className="text-sm font-semibold text-indigo-500 font-mono">{task.role}</span>
+                            <span className="text-sm text-slate-600 truncate">{task.action}</span>
+                            <div className="ml-auto flex items-center gap-1">
+                                <button
+                                    onClick={() => moveTask(index, -1)}
+                                    disabled={disabled || index === 0}
+                                    className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+                                    title="Move up"
+                                >
+                                    <ChevronUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => moveTask(index, 1)}
+                                    disabled={disabled || index === plan.length - 1}
+                                    className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+                                    title="Move down"
+                                >
+                                    <ChevronDown className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => removeTask(task.id)}
+                                    disabled={disabled}
+                                    className="p-1 rounded text-red-400 hover:bg-red-50 disabled:opacity-30"
+                                    title="Remove task"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+
+                        {task.dependsOn?.length ? (
+                            <p className="text-xs text-slate-400">
+                                After {task.dependsOn.map((dep) => labels.get(dep) || dep).join(", ")}
+                            </p>
+                        ) : null}
+
+                        <textarea
+                            value={paramsText[task.id] ?? JSON.stringify(task.params, null, 2)}
+                            onChange={(e) => updateParams(task.id, e.target.value)}
+                            disabled={disabled}
+                            rows={Math.min(6, Math.max(2, Object.keys(task.params).length + 2))}
+                            className="w-full p-2 rounded bg-slate-950 text-slate-100 font-mono text-xs border border-slate-700 focus:border-indigo-500 outline-none resize-y"
+                        />
+                        {paramsErrors[task.id] && (
+                            <p className="text-xs text-red-400">{paramsErrors[task.id]}</p>
+                        )}
+                    </li>
+                ))}
+            </ol>
+
+            {!validation.valid && (
+                <ul className="space-y-1">
+                    {validation.issues.map((issue, i) => (
+                        <li key={i} className="text-sm text-red-400 flex items-start gap-2">
+                            <span className="mt-1.5 w-2 h-2 rounded-full bg-red-500 shrink-0" />
+                            <span>{issue.message.replace(/task_\d+_[a-z0-9]+/g, (id) => labels.get(id) || id)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex gap-3">
+                <Button
+                    onClick={onApprove}
+                    disabled={disabled || !validation.valid || hasParamsErrors}
+                    variant="premium"
+                    className="flex-1 gap-2"
+                >
+                    <Play className="w-4 h-4" />
+                    Approve & Run
+                </Button>
+                <Button onClick={onCancel} disabled={disabled} variant="outline" className="gap-2">
+                    <X className="w-4 h-4" />
+                    Discard
+                </Button>
+            </div>
+        </div>
+    );
+}
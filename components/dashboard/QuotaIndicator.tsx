@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import type { QuotaStatus } from "@/lib/ai/budget";
+import { getAuthHeaders } from "@/lib/firebase/config";
+
+/** Dispatch on window after a run to refresh the indicator */
+export const QUOTA_CHANGED_EVENT = "sentient:quota-changed";
+
+interface QuotaIndicatorProps {
+    /** The signed-in user; the quota is only shown to signed-in users */
+    userId?: string | null;
+    brandId?: string | null;
+    collapsed?: boolean;
+}
+
+/**
+ * Remaining generations today. With a brand, the tighter of the user and
+ * brand budgets is shown, since it's the one that will stop a run.
+ */
+export function QuotaIndicator({ userId, brandId, collapsed }: QuotaIndicatorProps) {
+    const [quotas, setQuotas] = useState<QuotaStatus[]>([]);
+
+    const refresh = useCallback(async () => {
+        if (!userId) {
+            setQuotas([]);
+            return;
+        }
+        const params = new URLSearchParams();
+        if (brandId) params.set("brandId", brandId);
+        try {
+            const response = await fetch(`/api/agent/quota?${params}`, { headers: await getAuthHeaders() });
+            if (!response.ok) return;
+            const data = await response.json();
+            setQuotas(data.quotas || []);
+        } catch (err) {
+            console.error("Failed to load quota:", err);
+        }
+    }, [userId, brandId]);
+
+    useEffect(() => {
+        refresh();
+        window.addEventListener(QUOTA_CHANGED_EVENT, refresh);
+        return () => window.removeEventListener(QUOTA_CHANGED_EVENT, refresh);
+    }, [refresh]);
+
+    if (quotas.length === 0) return null;
+
+    const tightest = quotas.reduce((a, b) => (b.remaining.images < a.remaining.images ? b : a));
+    const remaining4k = Math.min(...quotas.map((q) => q.remaining.images4k));
+    const fraction = tightest.limits.imagesPerDay > 0
+        ? tightest.remaining.images / tightest.limits.imagesPerDay
+        : 0;
+
+    return (
+        <div
+            className={cn("px-4 mb-4", collapsed && "flex justify-center")}
+            title={`${tightest.remaining.images} of ${tightest.limits.imagesPerDay} images left today (${tightest.scope} limit)`}
+        >
+            {collapsed ? (
+                <Gauge className={cn("w-5 h-5", fraction > 0.2 ? "text-slate-400" : "text-red-500")} />
+            ) : (
+                <div className="p-3 rounded-xl border border-slate-100 bg-slate-50/50 space-y-2">
+                    <div className="flex items-center justify-between text-xs font-bold text-slate-500">
+                        <span className="flex items-center gap-1.5">
+                            <Gauge className="w-3.5 h-3.5" />
+                            Images today
+                        </span>
+                        <span className={fraction > 0.2 ? "text-slate-900" : "text-red-500"}>
+                            {tightest.remaining.images} / {tightest.limits.imagesPerDay} left
+                        </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                        <div
+                            className={cn("h-full rounded-full", fraction > 0.2 ? "bg-indigo-500" : "bg-red-500")}
+                            style={{ width: `${Math.round(fraction * 100)}%` }}
+                        />
+                    </div>
+                    <p className="text-[10px] text-slate-400">{remaining4k} 4K generation(s) left</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -16,17 +16,21 @@ import {
     User,
     PanelLeftClose,
     PanelLeftOpen,
-    Box
+    Box,
+    ClipboardCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import { Button } from "@/components/ui/button";
 import { useCanvasStore } from "@/lib/store/canvasStore";
 import { getAllBrands } from "@/lib/firebase/firestore";
 import type { Brand } from "@/lib/types";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { QuotaIndicator } from "./QuotaIndicator";
 
 export function Sidebar() {
     const pathname = usePathname();
     const { currentBrand, setCurrentBrand } = useCanvasStore();
+    const { user } = useAuth();
     const [isCollapsed, setIsCollapsed] = useState(false);
     const [brands, setBrands] = useState<Brand[]>([]);
     const [showBrandSwitcher, setShowBrandSwitcher] = useState(false);
@@ -51,6 +55,7 @@ export function Sidebar() {
         { name: "Creative Canvas", href: "/canvas", icon: Palette },
         { name: "Asset History", href: "/dashboard/history", icon: History },
         { name: "Campaigns", href: "/dashboard/campaigns", icon: Zap },
+        { name: "Review Queue", href: "/dashboard/campaigns/review", icon: ClipboardCheck },
         {
             name: "Brand Settings",
             href: currentBrand ? `/dashboard/brands/${currentBrand.id}` : "/dashboard",
@@ -174,6 +179,9 @@ export function Sidebar() {
                 })}
             </nav>
 
+            {/* Remaining Quota */}
+            <QuotaIndicator userId={user?.uid} brandId={currentBrand?.id} collapsed={isCollapsed} />
+
             {/* User / Logout */}
             <div className="p-4 mt-auto border-t border-slate-100">
                 <div className={cn(
@@ -0,0 +1,61 @@
+"use client";
+
+import type { AuditSeverity, AuditRegion } from "@/lib/types";
+import { regionBox } from "@/lib/utils/regions";
+
+interface AuditOverlayProps {
+    regions: AuditRegion[];
+    /** Makes regions clickable, e.g. to turn one into a mask */
+    onSelectRegion?: (region: AuditRegion, index: number) => void;
+    className?: string;
+}
+
+const SEVERITY_STYLES: Record<AuditSeverity, string> = {
+    critical: "border-red-500 bg-red-500/20",
+    warning: "border-amber-400 bg-amber-400/15",
+    minor: "border-sky-400 bg-sky-400/10",
+};
+
+/**
+ * AuditOverlay - Draws compliance issues over an image
+ *
+ * Place inside a relatively positioned element covering exactly the image;
+ * regions are positioned in percent, so they follow any display size.
+ * Issues without a box are drawn as a small area around their center.
+ */
+export function AuditOverlay({ regions, onSelectRegion, className = "" }: AuditOverlayProps) {
+    return (
+        <div className={`absolute inset-0 pointer-events-none ${className}`}>
+            {regions.map((region, index) => {
+                const box = regionBox(region);
+                return (
+                    <button
+                        key={index}
+                        type="button"
+                        title={onSelectRegion ? `${region.issue} — click to mask this area` : region.issue}
+                        disabled={!onSelectRegion}
+                        onClick={() => onSelectRegion?.(region, index)}
+                        className={`
+                            absolute border-2 rounded-sm transition-all
+                            ${SEVERITY_STYLES[region.severity || "warning"]}
+                            ${region.box ? "" : "border-dashed"}
+                            ${onSelectRegion ? "pointer-events-auto cursor-crosshair hover:bg-pink-500/30 hover:border-pink-400" : "pointer-events-auto cursor-help"}
+                        `}
+                        style={{
+                            left: `${box.x}%`,
+                            top: `${box.y}%`,
+                            width: `${box.width}%`,
+                            height: `${box.height}%`,
+                        }}
+                    >
+                        <span className="absolute -top-2.5 -left-2.5 w-5 h-5 rounded-full bg-black/80 text-white text-[10px] font-bold flex items-center justify-center">
+                            {index + 1}
+                        </span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
+
+export default AuditOverlay;
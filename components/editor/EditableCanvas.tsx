@@ -5,13 +5,25 @@ import * as fabric from "fabric";
 import { CanvasToolbar, type EditorTool } from "./CanvasToolbar";
 import { AIEditPanel } from "./AIEditPanel";
 import { ExportMenu } from "./ExportMenu";
+import { AuditOverlay } from "./AuditOverlay";
+import type { AuditRegion } from "@/lib/types";
+import { regionBox } from "@/lib/utils/regions";
 
 interface EditableCanvasProps {
     imageBase64: string | null;
     onSave?: (dataUrl: string) => void;
+    /** Compliance issues on imageBase64, drawn as an overlay */
+    auditRegions?: AuditRegion[];
+    /** Why the audit blocks exporting imageBase64; they stay until the parent re-audits an edit */
+    exportBlockers?: string[];
+    /** An AI edit replaced the image; re-audit it to update auditRegions and exportBlockers */
+    onEdit?: (imageBase64: string) => void;
     className?: string;
 }
 
+const NO_REGIONS: AuditRegion[] = [];
+const NO_BLOCKERS: string[] = [];
+
 /**
  * EditableCanvas - Fabric.js-based interactive canvas editor with mask support
  * 
@@ -20,11 +32,15 @@ interface EditableCanvasProps {
  * - Manual tools: text, shapes, draw
  * - Mask tools: brush, rectangle for region selection
  * - AI-assisted editing with mask-based inpainting
- * - Export to PNG/JPEG
+ * - Audit issue overlay; clicking an issue masks its region
+ * - Export to PNG/JPEG, unless the audit blocks it
  */
 export function EditableCanvas({
     imageBase64,
     onSave,
+    auditRegions = NO_REGIONS,
+    exportBlockers = NO_BLOCKERS,
+    onEdit,
     className = "",
 }: EditableCanvasProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -33,6 +49,9 @@ export function EditableCanvas({
     const [isDrawing, setIsDrawing] = useState(false);
     const [canvasReady, setCanvasReady] = useState(false);
     const [maskObjects, setMaskObjects] = useState<fabric.Object[]>([]);
+    // Size of the background image on the canvas, for placing the audit overlay
+    const [imageBounds, setImageBounds] = useState<{ width: number; height: number } | null>(null);
+    const [showIssues, setShowIssues] = useState(true);
 
     // Initialize Fabric.js canvas
     useEffect(() => {
@@ -80,9 +99,15 @@ export function EditableCanvas({
             // Set as background and center
             canvas.backgroundImage = img;
             canvas.renderAll();
+            setImageBounds({ width: (img.width || 800) * scale, height: (img.height || 600) * scale });
         });
     }, [imageBase64]);
 
+    // Show issues for each new image; AI edits hide them since they no longer apply
+    useEffect(() => {
+        setShowIssues(auditRegions.length > 0);
+    }, [auditRegions, imageBase64]);
+
     // Handle tool changes
     useEffect(() => {
         const canvas = fabricRef.current;
@@ -284,6 +309,32 @@ export function EditableCanvas({
         canvas.renderAll();
     }, [maskObjects]);
 
+    /**
+     * Turn an audit issue into a mask rectangle over its region
+     */
+    const handleMaskRegion = useCallback((region: AuditRegion) => {
+        const canvas = fabricRef.current;
+        if (!canvas || !imageBounds) return;
+
+        const box = regionBox(region);
+        const rect = new fabric.Rect({
+            left: (box.x / 100) * imageBounds.width,
+            top: (box.y / 100) * imageBounds.height,
+            width: (box.width / 100) * imageBounds.width,
+            height: (box.height / 100) * imageBounds.height,
+            fill: "rgba(236, 72, 153, 0.3)",
+            stroke: "rgba(236, 72, 153, 0.8)",
+            strokeWidth: 2,
+            strokeDashArray: [5, 5],
+            selectable: true,
+            data: { isMask: true },
+        });
+
+        canvas.add(rect);
+        canvas.renderAll();
+        setMaskObjects((prev) => [...prev, rect]);
+    }, [imageBounds]);
+
     const handleExport = useCallback((format: "png" | "jpeg" = "png") => {
         const canvas = fabricRef.current;
         if (!canvas) return;
@@ -398,8 +449,11 @@ export function EditableCanvas({
 
             canvas.backgroundImage = img;
             canvas.renderAll();
+            setImageBounds({ width: (img.width || 800) * scale, height: (img.height || 600) * scale });
+            setShowIssues(false);
+            onEdit?.(newImageBase64);
         });
-    }, []);
+    }, [onEdit]);
 
     return (
         <div className={`flex flex-col gap-4 ${className}`}>
@@ -413,7 +467,7 @@ export function EditableCanvas({
                 onClearMask={handleClearMask}
                 hasMask={maskObjects.length > 0}
                 isDrawing={isDrawing}
-                actions={<ExportMenu fabricCanvas={fabricRef.current} />}
+                actions={<ExportMenu fabricCanvas={fabricRef.current} blockedReasons={exportBlockers} />}
             />
 
             {/* Mask Info Banner */}
@@ -427,12 +481,36 @@ export function EditableCanvas({
                 </div>
             )}
 
+            {/* Audit Issues Banner */}
+            {auditRegions.length > 0 && (
+                <div className="flex items-center justify-between gap-2 px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg text-sm text-amber-200">
+                    <span>
+                        {auditRegions.length} compliance issue{auditRegions.length > 1 ? "s" : ""} found
+                        {showIssues && " — click one to mask it for inpainting"}
+                    </span>
+                    <button
+                        onClick={() => setShowIssues((show) => !show)}
+                        className="text-xs px-2 py-1 rounded bg-amber-500/20 hover:bg-amber-500/30 transition-all"
+                    >
+                        {showIssues ? "Hide issues" : "Show issues"}
+                    </button>
+                </div>
+            )}
+
             {/* Canvas */}
             <div className="relative rounded-lg overflow-hidden border border-white/10 bg-black/50">
                 <canvas
                     ref={canvasRef}
                     className="block"
                 />
+                {showIssues && imageBounds && (
+                    <div
+                        className="absolute top-0 left-0"
+                        style={{ width: imageBounds.width, height: imageBounds.height }}
+                    >
+                        <AuditOverlay regions={auditRegions} onSelectRegion={handleMaskRegion} />
+                    </div>
+                )}
                 {!canvasReady && (
                     <div className="absolute inset-0 flex items-center justify-center bg-black/80">
                         <span className="text-white/60">Loading canvas...</span>
@@ -8,9 +8,12 @@ import jsPDF from "jspdf";
 interface ExportMenuProps {
     fabricCanvas: fabric.Canvas | null;
     imageName?: string;
+    /** When set, downloads are disabled and the reasons are listed */
+    blockedReasons?: string[];
 }
 
-export function ExportMenu({ fabricCanvas, imageName = "sentient-asset" }: ExportMenuProps) {
+export function ExportMenu({ fabricCanvas, imageName = "sentient-asset", blockedReasons = [] }: ExportMenuProps) {
+    const isBlocked = blockedReasons.length > 0;
     const [isOpen, setIsOpen] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
     const [statusMessage, setStatusMessage] = useState<string | null>(null);
@@ -38,7 +41,7 @@ export function ExportMenu({ fabricCanvas, imageName = "sentient-asset" }: Expor
     };
 
     const handlePNGExport = async (scale: number = 2) => {
-        if (!fabricCanvas) return;
+        if (!fabricCanvas || isBlocked) return;
         setIsExporting(true);
         setIsOpen(false);
 
@@ -65,7 +68,7 @@ export function ExportMenu({ fabricCanvas, imageName = "sentient-asset" }: Expor
     };
 
     const handlePDFExport = async () => {
-        if (!fabricCanvas) return;
+        if (!fabricCanvas || isBlocked) return;
         setIsExporting(true);
         setIsOpen(false);
 
@@ -123,27 +126,38 @@ export function ExportMenu({ fabricCanvas, imageName = "sentient-asset" }: Expor
 
             {isOpen && (
                 <div className="absolute right-0 top-full mt-2 w-56 bg-zinc-900 border border-white/10 rounded-lg shadow-2xl z-[100] overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+                    {isBlocked && (
+                        <div className="p-3 border-b border-white/5 bg-red-500/10 text-xs text-red-300">
+                            <p className="font-bold mb-1">Export blocked</p>
+                            {blockedReasons.map((reason, index) => (
+                                <p key={index} className="text-red-300/80">{reason}</p>
+                            ))}
+                        </div>
+                    )}
                     <div className="p-2 border-b border-white/5 bg-white/5">
                         <span className="text-[10px] uppercase tracking-wider text-white/40 font-bold ml-2">Download</span>
                     </div>
                     <div className="p-1">
                         <button
                             onClick={() => handlePNGExport(1)}
-                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left"
+                            disabled={isBlocked}
+                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left disabled:opacity-40 disabled:pointer-events-none"
                         >
                             <Download size={16} className="text-blue-400" />
                             PNG (Standard)
                         </button>
                         <button
                             onClick={() => handlePNGExport(2)}
-                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left"
+                            disabled={isBlocked}
+                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left disabled:opacity-40 disabled:pointer-events-none"
                         >
                             <Download size={16} className="text-cyan-400" />
                             PNG (High-Res 2K)
                         </button>
                         <button
                             onClick={() => handlePNGExport(4)}
-                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left"
+                            disabled={isBlocked}
+                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left disabled:opacity-40 disabled:pointer-events-none"
                         >
                             <Download size={16} className="text-purple-400" />
                             PNG (Ultra-Res 4K)
@@ -156,7 +170,8 @@ export function ExportMenu({ fabricCanvas, imageName = "sentient-asset" }: Expor
                     <div className="p-1">
                         <button
                             onClick={handlePDFExport}
-                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left"
+                            disabled={isBlocked}
+                            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-white/80 hover:bg-white/5 hover:text-white rounded-md transition-colors text-left disabled:opacity-40 disabled:pointer-events-none"
                         >
                             <FileText size={16} className="text-red-400" />
                             Save as PDF
@@ -3,3 +3,4 @@ export { EditableCanvas } from "./EditableCanvas";
 export { CanvasToolbar, type EditorTool } from "./CanvasToolbar";
 export { AIEditPanel } from "./AIEditPanel";
 export { ExportMenu } from "./ExportMenu";
+export { AuditOverlay } from "./AuditOverlay";
@@ -5,12 +5,20 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
-import { Sparkles, Globe, Upload, ChevronRight, ChevronLeft, CheckCircle2, Loader2, BarChart3, Palette, Type } from "lucide-react";
+import { Sparkles, Globe, Upload, ChevronRight, ChevronLeft, CheckCircle2, Loader2, BarChart3, Palette, Type, FileJson } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import { fireConfetti } from "@/components/ui/Confetti";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { createBrandFromConstitution, getBrand } from "@/lib/firebase/firestore";
+import { useCanvasStore } from "@/lib/store";
+import { createChangeInfo, importDesignTokens, type DesignTokensImport } from "@/lib/types";
+import { toast } from "sonner";
 
 type OnboardingStep = "identity" | "source" | "analysis" | "results";
 
+/** Learn the brand from its website, or seed it from a design tokens file */
+type OnboardingSource = "url" | "tokens";
+
 export function OnboardingWizard() {
     const router = useRouter();
     const [step, setStep] = useState<OnboardingStep>("identity");
@@ -22,6 +30,11 @@ export function OnboardingWizard() {
     });
     const [analysisProgress, setAnalysisProgress] = useState(0);
     const [analysisPhase, setAnalysisPhase] = useState("Initializing...");
+    const [source, setSource] = useState<OnboardingSource>("url");
+    const [tokens, setTokens] = useState<{ fileName: string; result: DesignTokensImport } | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const { user } = useAuth();
+    const setCurrentBrand = useCanvasStore((state) => state.setCurrentBrand);
 
     const nextStep = () => {
         if (step === "identity") setStep("source");
@@ -37,6 +50,32 @@ export function OnboardingWizard() {
         else if (step === "results") setStep("source");
     };
 
+    const handleTokensFile = async (file: File | undefined) => {
+        if (!file) return;
+        setTokens({ fileName: file.name, result: importDesignTokens(await file.text()) });
+    };
+
+    // A tokens file already holds the constitution, so the brand is created without analysis
+    const importBrand = async () => {
+        if (!tokens?.result.success) return;
+        setIsImporting(true);
+        try {
+            const brandId = await createBrandFromConstitution(
+                brandData.name,
+                tokens.result.constitution,
+                createChangeInfo("import", user)
+            );
+            const brand = await getBrand(brandId);
+            if (brand) setCurrentBrand(brand);
+            fireConfetti();
+            router.push(`/dashboard/brands/${brandId}`);
+        } catch (error) {
+            toast.error("Failed to create the brand");
+            console.error(error);
+            setIsImporting(false);
+        }
+    };
+
     const startAnalysis = () => {
         // Simulate AI analysis phases
         const phases = [
@@ -127,12 +166,15 @@ export function OnboardingWizard() {
                             <CardDescription>Provide a source for the BrandAnalystAgent to perform deep extraction.</CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-8 py-6">
-                            <div className="grid grid-cols-2 gap-4">
+                            <div className="grid grid-cols-3 gap-4">
                                 <button
-                                    onClick={() => {/* Mock selection */ }}
-                                    className="flex flex-col items-center justify-center p-8 rounded-2xl border-2 border-indigo-600 bg-indigo-50/30 gap-4 transition-all"
+                                    onClick={() => setSource("url")}
+                                    className={cn(
+                                        "flex flex-col items-center justify-center p-8 rounded-2xl border-2 gap-4 transition-all",
+                                        source === "url" ? "border-indigo-600 bg-indigo-50/30" : "border-slate-100 bg-slate-50/50 hover:border-indigo-200"
+                                    )}
                                 >
-                                    <Globe className="w-10 h-10 text-indigo-600" />
+                                    <Globe className={cn("w-10 h-10", source === "url" ? "text-indigo-600" : "text-slate-400")} />
                                     <span className="font-bold text-slate-800">Social / URL</span>
                                 </button>
                                 <button
@@ -141,39 +183,96 @@ export function OnboardingWizard() {
                                     <Upload className="w-10 h-10 text-slate-400" />
                                     <span className="font-bold text-slate-400">File Upload</span>
                                 </button>
+                                <button
+                                    onClick={() => setSource("tokens")}
+                                    className={cn(
+                                        "flex flex-col items-center justify-center p-8 rounded-2xl border-2 gap-4 transition-all",
+                                        source === "tokens" ? "border-indigo-600 bg-indigo-50/30" : "border-slate-100 bg-slate-50/50 hover:border-indigo-200"
+                                    )}
+                                >
+                                    <FileJson className={cn("w-10 h-10", source === "tokens" ? "text-indigo-600" : "text-slate-400")} />
+                                    <span className="font-bold text-slate-800">Design Tokens</span>
+                                </button>
                             </div>
 
-                            <div className="space-y-4">
-                                <div className="space-y-2">
-                                    <label className="text-sm font-semibold text-slate-700">Website or Social Profile URL</label>
-                                    <div className="relative">
+                            {source === "tokens" ? (
+                                <div className="space-y-4">
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-semibold text-slate-700">W3C Design Tokens File</label>
                                         <Input
-                                            className="pl-10"
-                                            placeholder="https://instagram.com/mybrand"
-                                            value={brandData.sourceUrl}
-                                            onChange={(e) => setBrandData({ ...brandData, sourceUrl: e.target.value })}
+                                            type="file"
+                                            accept=".json,application/json"
+                                            onChange={(e) => handleTokensFile(e.target.files?.[0])}
                                         />
-                                        <Globe className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
                                     </div>
+                                    {tokens && !tokens.result.success && (
+                                        <p className="text-sm text-red-600">{tokens.fileName}: {tokens.result.error}</p>
+                                    )}
+                                    {tokens?.result.success && (
+                                        <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 space-y-3">
+                                            <div className="flex flex-wrap gap-2">
+                                                {tokens.result.constitution.visual_identity.color_palette_hex.map((hex) => (
+                                                    <div key={hex} className="w-8 h-8 rounded-lg border border-slate-200" style={{ backgroundColor: hex }} title={hex} />
+                                                ))}
+                                            </div>
+                                            <p className="text-sm text-slate-600">
+                                                {tokens.result.constitution.visual_identity.fonts.join(", ")}
+                                            </p>
+                                            {tokens.result.issues.length > 0 && (
+                                                <p className="text-xs text-amber-600">
+                                                    Skipped or defaulted what couldn't be read: {tokens.result.issues.join("; ")}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+                                    <p className="text-xs text-slate-400 italic">
+                                        * Color and font family tokens seed the palette and fonts; a file exported from Sentient Studio restores every rule.
+                                    </p>
                                 </div>
-                                <p className="text-xs text-slate-400 italic">
-                                    * Our agents will crawl visible assets to build your visual constitution.
-                                </p>
-                            </div>
+                            ) : (
+                                <div className="space-y-4">
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-semibold text-slate-700">Website or Social Profile URL</label>
+                                        <div className="relative">
+                                            <Input
+                                                className="pl-10"
+                                                placeholder="https://instagram.com/mybrand"
+                                                value={brandData.sourceUrl}
+                                                onChange={(e) => setBrandData({ ...brandData, sourceUrl: e.target.value })}
+                                            />
+                                            <Globe className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-slate-400 italic">
+                                        * Our agents will crawl visible assets to build your visual constitution.
+                                    </p>
+                                </div>
+                            )}
                         </CardContent>
                         <CardFooter className="bg-slate-50/50 py-6 border-t border-slate-100 flex justify-between">
                             <Button variant="outline" onClick={prevStep}>
                                 <ChevronLeft className="w-4 h-4 mr-2" />
                                 Back
                             </Button>
-                            <Button
-                                onClick={nextStep}
-                                className="px-8 shadow-indigo-100"
-                                disabled={!brandData.sourceUrl && brandData.files.length === 0}
-                            >
-                                Analyze Brand
-                                <Sparkles className="w-4 h-4 ml-2" />
-                            </Button>
+                            {source === "tokens" ? (
+                                <Button
+                                    onClick={importBrand}
+                                    className="px-8 shadow-indigo-100"
+                                    disabled={!tokens?.result.success || isImporting}
+                                >
+                                    {isImporting ? "Creating..." : "Import Brand"}
+                                    <FileJson className="w-4 h-4 ml-2" />
+                                </Button>
+                            ) : (
+                                <Button
+                                    onClick={nextStep}
+                                    className="px-8 shadow-indigo-100"
+                                    disabled={!brandData.sourceUrl && brandData.files.length === 0}
+                                >
+                                    Analyze Brand
+                                    <Sparkles className="w-4 h-4 ml-2" />
+                                </Button>
+                            )}
                         </CardFooter>
                     </>
                 )}
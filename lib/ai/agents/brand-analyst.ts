@@ -2,31 +2,28 @@
  * Brand DNA Analyst Agent
  * 
  * Specialized multimodal agent that extracts Brand Constitution from canvas elements.
- * Uses gemini-3-flash-preview for high-reasoning multimodal analysis.
+ * Uses the provider's multimodal model (gemini-3-flash-preview by default).
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
+import { normalizeConstitution, type BrandConstitution, type CanvasElement, type ConstitutionRules } from "@/lib/types";
+import { getModelProvider, type ModelPart, type ModelProvider } from "../providers";
+import { normalizeHex, toConstitutionRules } from "../constitution";
+import { ConstitutionRulesSchema, ExtractedConstitutionSchema, zodToGeminiSchema } from "../schemas";
 import { BRAND_ANALYST_SYSTEM_PROMPT, getAgentThinkingLevel } from "./types";
 
 export class BrandAnalystAgent {
-    private client: GoogleGenerativeAI;
+    private provider: ModelProvider;
 
-    constructor(apiKey: string) {
-        this.client = new GoogleGenerativeAI(apiKey);
+    constructor(provider: ModelProvider) {
+        this.provider = provider;
     }
 
     /**
      * Extract Brand Constitution from canvas elements
      */
     async extractConstitution(elements: CanvasElement[]): Promise<BrandConstitution> {
-        const model = this.client.getGenerativeModel({
-            model: "gemini-3-flash-preview",
-            systemInstruction: BRAND_ANALYST_SYSTEM_PROMPT,
-        });
-
         // Prepare multimodal parts
-        const parts: any[] = [
+        const parts: ModelPart[] = [
             { text: "Analyze the following moodboard elements and extract a comprehensive Brand Constitution." }
         ];
 
@@ -49,21 +46,21 @@ export class BrandAnalystAgent {
         }
 
         try {
-            const result = await model.generateContent({
-                contents: [{ role: "user", parts }],
-                generationConfig: {
-                    responseMimeType: "application/json",
-                    // @ts-expect-error - Gemini 3 thinking config
-                    thinkingConfig: {
-                        includeThoughts: true,
-                        thinkingLevel: getAgentThinkingLevel("brand_analyst"),
-                    },
-                    temperature: 1.0,
-                },
+            const result = await this.provider.generateJson({
+                role: "brand_analyst",
+                operation: "extract_constitution",
+                systemInstruction: BRAND_ANALYST_SYSTEM_PROMPT,
+                parts,
+                includeThoughts: true,
+                thinkingLevel: getAgentThinkingLevel("brand_analyst"),
+                temperature: 1.0,
+                // Structured output only works for text-only requests
+                ...(parts.some((part) => "inlineData" in part)
+                    ? {}
+                    : { responseSchema: zodToGeminiSchema(ExtractedConstitutionSchema) }),
             });
 
-            const text = result.response.text();
-            return this.validateAndSanitizeConstitution(JSON.parse(text));
+            return this.validateAndSanitizeConstitution(result.data);
         } catch (error) {
             console.error("Brand analysis error:", error);
             throw error;
@@ -71,36 +68,62 @@ export class BrandAnalystAgent {
     }
 
     /**
-     * Validate and sanitize AI response to match BrandConstitution interface
+     * What a single moodboard element says about the brand, for the
+     * incremental merge. Swatches are read directly; notes and images are
+     * analyzed on their own. Fields the element gives no evidence for are
+     * left out.
      */
-    private validateAndSanitizeConstitution(data: any): BrandConstitution {
-        // Fallback-rich validation
-        return {
-            visual_identity: {
-                color_palette_hex: data.visual_identity?.color_palette_hex || ["#000000"],
-                photography_style: data.visual_identity?.photography_style || "Professional and clean",
-                fonts: data.visual_identity?.fonts || ["Inter", "System Sans"],
-                composition_rules: data.visual_identity?.composition_rules || ["Balanced", "Rule of thirds"],
-                forbidden_elements: data.visual_identity?.forbidden_elements || [],
-                signature_elements: data.visual_identity?.signature_elements || [],
-                visual_density: data.visual_identity?.visual_density || "BALANCED",
-            },
-            voice: {
-                tone: data.voice?.tone || "Professional",
-                catchphrases: data.voice?.catchphrases || [],
-                vocabulary_level: data.voice?.vocabulary_level || "DIRECT",
-                keywords: data.voice?.keywords || [],
-            },
-            content_patterns: {
-                thumbnail_structure: data.content_patterns?.thumbnail_structure || "",
-                text_overlay_rules: data.content_patterns?.text_overlay_rules || "",
-                face_prominence: data.content_patterns?.face_prominence || "MEDIUM",
-            },
-            risk_thresholds: {
-                nudity: data.risk_thresholds?.nudity || "STRICT_ZERO_TOLERANCE",
-                political: data.risk_thresholds?.political || "STRICT_ZERO_TOLERANCE",
-            },
-            brand_essence: data.brand_essence || "A modern, professional brand.",
-        };
+    async extractElementRules(element: CanvasElement): Promise<ConstitutionRules> {
+        if (element.type === "color") {
+            const hex = element.color ? normalizeHex(element.color) : null;
+            return hex ? { visual_identity: { color_palette_hex: [hex] } } : {};
+        }
+
+        const parts: ModelPart[] = [{
+            text: "Analyze this single moodboard element and extract the Brand Constitution fields it gives evidence for. " +
+                "Leave out every field it says nothing about; don't fill in defaults.",
+        }];
+        if (element.type === "image" && element.url?.startsWith("data:image")) {
+            parts.push({
+                inlineData: {
+                    data: element.url.split(",")[1],
+                    mimeType: element.url.split(";")[0].split(":")[1],
+                },
+            });
+        } else if (element.type === "note" && element.text) {
+            parts.push({ text: `Brand Note: ${element.text}` });
+        } else {
+            return {};
+        }
+
+        const result = await this.provider.generateJson({
+            role: "brand_analyst",
+            operation: "extract_element_rules",
+            systemInstruction: BRAND_ANALYST_SYSTEM_PROMPT,
+            parts,
+            // Structured output only works for text-only requests
+            ...(element.type === "note" ? { responseSchema: zodToGeminiSchema(ConstitutionRulesSchema) } : {}),
+            thinkingLevel: getAgentThinkingLevel("brand_analyst"),
+            temperature: 1.0,
+        });
+        return toConstitutionRules(result.data);
+    }
+
+    /**
+     * Validate the model's answer against BrandConstitutionSchema; missing or
+     * invalid fields fall back to defaults and are logged by field path
+     */
+    private validateAndSanitizeConstitution(data: unknown): BrandConstitution {
+        const { constitution, issues } = normalizeConstitution(data);
+        if (issues.length > 0) {
+            console.warn(`[BrandAnalyst] Constitution repaired: ${issues.join("; ")}`);
+        }
+        return constitution;
     }
 }
+
+// ============ FACTORY FUNCTION ============
+
+export function createBrandAnalystAgent(): BrandAnalystAgent {
+    return new BrandAnalystAgent(getModelProvider());
+}
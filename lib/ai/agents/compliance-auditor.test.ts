@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AuditResult } from "@/lib/types";
+import { createSolidPng, getLocalConstitution, LocalModelProvider } from "../providers";
+import type { ModelRequest, ModelResponse } from "../providers";
+import { ComplianceAuditorAgent, createAuditJudges } from "./compliance-auditor";
+
+/** Each judge, told apart by temperature, gives every model category this score */
+class JudgesProvider extends LocalModelProvider {
+    constructor(private scores: Record<number, number>) {
+        super();
+    }
+
+    async generateText(request: ModelRequest): Promise<ModelResponse> {
+        const score = this.scores[request.temperature ?? -1];
+        if (score === undefined) throw new Error("Judge unavailable");
+        const text = JSON.stringify({
+            compliance_score: score,
+            category_scores: { color: score, composition: score, style: score, forbidden: score },
+            violations: [],
+            strengths: [`Scored ${score}`],
+            text_elements: [],
+            spelling_errors: [],
+        });
+        return { model: `judge-${request.temperature}`, text, images: [], functionCalls: [] };
+    }
+}
+
+// On-palette, so the measured color score is the same for every judge
+const IMAGE = createSolidPng(16, 16, [0x1a, 0x1a, 0x2e]);
+
+async function audit(scores: Record<number, number>, judgeCount: number): Promise<AuditResult> {
+    const auditor = new ComplianceAuditorAgent(new JudgesProvider(scores));
+    const result = await auditor.auditAsset(IMAGE, getLocalConstitution(), { judges: createAuditJudges(judgeCount) });
+    expect(result.success).toBe(true);
+    return result.data as AuditResult;
+}
+
+describe("createAuditJudges", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("uses one judge by default", () => {
+        expect(createAuditJudges()).toEqual([{ temperature: 0.7 }]);
+    });
+
+    it("spreads judges across temperatures and takes models in turn", () => {
+        vi.stubEnv("AI_AUDIT_JUDGE_MODELS", "model-a, model-b");
+        expect(createAuditJudges(3)).toEqual([
+            { temperature: 0.2, model: "model-a" },
+            { temperature: 0.6, model: "model-b" },
+            { temperature: 1, model: "model-a" },
+        ]);
+    });
+
+    it("reads AI_AUDIT_JUDGES and caps the ensemble", () => {
+        vi.stubEnv("AI_AUDIT_JUDGES", "4");
+        expect(createAuditJudges()).toHaveLength(4);
+        expect(createAuditJudges(50)).toHaveLength(7);
+        expect(createAuditJudges(0)).toHaveLength(1);
+    });
+});
+
+describe("ComplianceAuditorAgent ensemble", () => {
+    it("doesn't report confidence for a single judgment", async () => {
+        const result = await audit({ 0.7: 90 }, 1);
+        expect(result.confidence).toBeUndefined();
+    });
+
+    it("is fully confident when the judges agree", async () => {
+        const result = await audit({ 0.2: 90, 0.6: 90, 1: 90 }, 3);
+
+        expect(result.decision).toBe("APPROVE");
+        expect(result.confidence).toMatchObject({ std_dev: 0, agreement: 1, confidence: 1, needs_review: false });
+        expect(result.confidence?.judgments.map((j) => [j.model, j.temperature, j.decision])).toEqual([
+            ["judge-0.2", 0.2, "APPROVE"],
+            ["judge-0.6", 0.6, "APPROVE"],
+            ["judge-1", 1, "APPROVE"],
+        ]);
+    });
+
+    it("averages scores and flags a split verdict for review", async () => {
+        const result = await audit({ 0.2: 95, 0.6: 90, 1: 20 }, 3);
+        const judged = result.confidence!.judgments.map((j) => j.compliance_score);
+
+        const mean = judged.reduce((a, b) => a + b) / judged.length;
+        expect(Math.abs(result.compliance_score - mean)).toBeLessThanOrEqual(1);
+        expect(result.confidence?.agreement).toBeCloseTo(2 / 3, 2);
+        expect(result.confidence?.needs_review).toBe(true);
+        // Findings come from the judge closest to the mean
+        expect(result.strengths).toEqual(["Scored 90"]);
+    });
+
+    it("goes on without judges that failed", async () => {
+        const result = await audit({ 0.2: 90, 1: 90 }, 3);
+        expect(result.confidence?.judgments).toHaveLength(2);
+    });
+});
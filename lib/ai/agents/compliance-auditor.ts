@@ -3,17 +3,62 @@
  * 
  * Quality gate for brand consistency. Scores generated assets against
  * the Brand Constitution and provides actionable feedback.
- * Uses gemini-3-flash-preview with thinkingConfig: medium for careful evaluation.
+ * Uses the provider's multimodal model (gemini-3-flash-preview by default).
  * 
  * Responsibilities:
  * - Compare generated assets against Brand Constitution
  * - Score adherence across: color, typography, style, composition
  * - Identify specific violations with fix suggestions
  * - Gate export based on compliance score
+ *
+ * Color adherence is also measured directly from the pixels (CIEDE2000
+ * against the palette) and replaces the model's color score, so a model
+ * that overlooks an off-brand color can't pass the asset on its own. Text on the
+ * image (reported by the model, or read by local OCR when it isn't) is
+ * checked the same way against the voice and overlay rules, and for
+ * accessibility: contrast, size for the target platform and legibility in
+ * a mobile preview. The brand's AuditPolicy then weighs the category
+ * scores into compliance_score and decides approve / regenerate / reject.
+ *
+ * A single judgment at temperature 0.7 can pass an image one time and fail
+ * it the next, so the model part can be run as an ensemble of independent
+ * judges (different temperatures or models). Their scores are averaged and
+ * their verdicts compared; a split or widely spread ensemble is reported as
+ * low confidence and flagged for human review.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { BrandConstitution } from "@/lib/types";
+import {
+    applyAuditPolicy,
+    AUDIT_CATEGORIES,
+    AUDIT_RESULT_VERSION,
+    DEFAULT_AUDIT_POLICY,
+    type AuditCategory,
+    type AuditConfidence,
+    type AuditJudgment,
+    type AuditPolicy,
+    type AuditRegion,
+    type AuditResult,
+    type AuditTextElement,
+    type AuditViolation,
+    type BrandConstitution,
+    type TextAnalysis,
+} from "@/lib/types";
+import { boxCenter, regionsFromViolations, toBoundingBox } from "@/lib/utils/regions";
+import { getModelProvider, UsageMeter, type ModelProvider } from "../providers";
+import {
+    analyzeAccessibility,
+    analyzeColorCompliance,
+    analyzeText,
+    decodeImage,
+    readImageSize,
+    recognizeText,
+    ACCESSIBILITY_ANALYSIS_SIZE,
+    OFF_PALETTE_DELTA_E,
+    type AccessibilityCheckResult,
+    type AccessibilityTarget,
+    type ColorAnalysis,
+    type SpellingError,
+} from "../analysis";
 import {
     type AgentResult,
     COMPLIANCE_AUDITOR_SYSTEM_PROMPT,
@@ -22,28 +67,82 @@ import {
 
 // ============ TYPES ============
 
-export interface ComplianceViolation {
-    category: "color" | "typography" | "composition" | "style" | "forbidden";
-    severity: "critical" | "warning" | "minor";
-    description: string;
-    suggestion: string;
+export type ComplianceViolation = AuditViolation;
+
+/** Categories the model scores; its overall score stands in for any it leaves out */
+const MODEL_CATEGORIES: AuditCategory[] = ["color", "composition", "style", "forbidden"];
+
+/** Color scores below this add a color violation */
+const COLOR_VIOLATION_THRESHOLD = 80;
+
+/** Temperature of a single-judge audit */
+const DEFAULT_JUDGE_TEMPERATURE = 0.7;
+/** Temperatures an ensemble's judges are spread across */
+const ENSEMBLE_MIN_TEMPERATURE = 0.2;
+const ENSEMBLE_MAX_TEMPERATURE = 1.0;
+/** Most judges one audit may run */
+const MAX_JUDGES = 7;
+/** Score standard deviation at which an ensemble's confidence reaches 0 */
+const CONFIDENCE_STD_DEV_SCALE = 25;
+/** Ensembles less confident than this need human review */
+const REVIEW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * The model's audit, plus the text it read (null if it didn't report any)
+ */
+interface ParsedAudit {
+    audit: AuditResult;
+    textElements: AuditTextElement[] | null;
+    spellingErrors: SpellingError[];
 }
 
-export interface AuditResult {
-    compliance_score: number;
-    pass: boolean;
-    violations: ComplianceViolation[];
-    strengths: string[];
+/**
+ * One independent model judgment in an ensemble audit
+ */
+export interface AuditJudge {
+    temperature: number;
+    /** Model to ask instead of the one configured for the auditor */
+    model?: string;
+}
+
+export interface AuditOptions {
+    /** Platform the asset is for (a PlatformTemplate); sizes are checked against it */
+    template?: AccessibilityTarget;
+    /** Judges to ask; a single judge at temperature 0.7 when omitted */
+    judges?: AuditJudge[];
+}
+
+/**
+ * Judges for an ensemble of `count` (AI_AUDIT_JUDGES when omitted, else 1):
+ * temperatures spread from 0.2 to 1.0, models taken in turn from
+ * AI_AUDIT_JUDGE_MODELS (comma-separated) when it is set
+ */
+export function createAuditJudges(count?: number): AuditJudge[] {
+    const requested = count ?? Number(process.env.AI_AUDIT_JUDGES);
+    const n = Math.max(1, Math.min(MAX_JUDGES, Math.floor(requested) || 1));
+    if (n === 1) return [{ temperature: DEFAULT_JUDGE_TEMPERATURE }];
+
+    const models = (process.env.AI_AUDIT_JUDGE_MODELS || "")
+        .split(",")
+        .map((m) => m.trim())
+        .filter(Boolean);
+    return Array.from({ length: n }, (_, i) => {
+        const temperature = ENSEMBLE_MIN_TEMPERATURE + ((ENSEMBLE_MAX_TEMPERATURE - ENSEMBLE_MIN_TEMPERATURE) * i) / (n - 1);
+        return {
+            temperature: Math.round(temperature * 100) / 100,
+            ...(models.length > 0 ? { model: models[i % models.length] } : {}),
+        };
+    });
 }
 
 // ============ COMPLIANCE AUDITOR AGENT ============
 
 export class ComplianceAuditorAgent {
-    private client: GoogleGenerativeAI;
-    private passThreshold: number = 70;
+    private provider: ModelProvider;
+    private policy: AuditPolicy = DEFAULT_AUDIT_POLICY;
 
-    constructor(apiKey: string) {
-        this.client = new GoogleGenerativeAI(apiKey);
+    constructor(provider: ModelProvider) {
+        this.provider = provider;
     }
 
     /**
@@ -51,17 +150,14 @@ export class ComplianceAuditorAgent {
      */
     async auditAsset(
         imageBase64: string,
-        constitution: BrandConstitution
+        constitution: BrandConstitution,
+        options: AuditOptions = {}
     ): Promise<AgentResult> {
         const startTime = Date.now();
         const taskId = generateTaskId();
+        const usage = new UsageMeter();
 
         try {
-            const model = this.client.getGenerativeModel({
-                model: "gemini-3-flash-preview",
-                systemInstruction: COMPLIANCE_AUDITOR_SYSTEM_PROMPT,
-            });
-
             const prompt = `
 <task>
 Audit this image against the Brand Constitution and provide a compliance score.
@@ -78,51 +174,96 @@ Visual Density: ${constitution.visual_identity.visual_density}
 Signature Elements: ${constitution.visual_identity.signature_elements.join(", ") || "None"}
 Forbidden Elements: ${constitution.visual_identity.forbidden_elements.join(", ") || "None"}
 Voice Tone: ${constitution.voice.tone}
+Vocabulary Level: ${constitution.voice.vocabulary_level}
+Catchphrases: ${constitution.voice.catchphrases.join(", ") || "None"}
+Keywords: ${constitution.voice.keywords.join(", ") || "None"}
+Text Overlay Rules: ${constitution.content_patterns?.text_overlay_rules || "None"}
 </brand_constitution>
 
 <output_format>
 Return a JSON object with:
 {
   "compliance_score": number (0-100),
-  "pass": boolean (true if score >= ${this.passThreshold}),
+  "pass": boolean (true if score >= ${this.policy.bands.approve}),
+  "category_scores": { "color": number, "typography": number, "composition": number, "style": number, "forbidden": number },
   "violations": [
     {
       "category": "color" | "typography" | "composition" | "style" | "forbidden",
       "severity": "critical" | "warning" | "minor",
       "description": "specific issue",
-      "suggestion": "how to fix"
+      "suggestion": "how to fix",
+      "box": { "x": number, "y": number, "width": number, "height": number } | null
     }
   ],
-  "strengths": ["what the image does well"]
+  "strengths": ["what the image does well"],
+  "text_elements": [
+    { "text": "each line of text on the image, exactly as written", "box": { "x": number, "y": number, "width": number, "height": number } }
+  ],
+  "spelling_errors": [{ "word": "misspelled word as written", "correction": "correct spelling" }]
 }
+Transcribe text verbatim, including any typos; use [] when the image has no text.
+Category scores are 0-100; omit typography when the image has no text.
+"box" is the area the violation covers, in percent of the image width and height (0-100)
+from the top-left corner. Use null when it applies to the whole image.
 </output_format>
 
 Return ONLY the JSON object.
 `;
 
+            const judges = options.judges && options.judges.length > 0
+                ? options.judges
+                : [{ temperature: DEFAULT_JUDGE_TEMPERATURE }];
+
             // Note: Do NOT use responseSchema with multimodal (known limitation)
-            const result = await model.generateContent({
-                contents: [
+            const modelAudits = Promise.allSettled(judges.map((judge) => usage.track(() => this.provider.generateText({
+                role: "compliance_auditor",
+                operation: "audit_asset",
+                systemInstruction: COMPLIANCE_AUDITOR_SYSTEM_PROMPT,
+                parts: [
                     {
-                        role: "user",
-                        parts: [
-                            {
-                                inlineData: {
-                                    mimeType: "image/png",
-                                    data: imageBase64,
-                                },
-                            },
-                            { text: prompt },
-                        ],
+                        inlineData: {
+                            mimeType: "image/png",
+                            data: imageBase64,
+                        },
                     },
+                    { text: prompt },
                 ],
-                generationConfig: {
-                    temperature: 0.7,
-                },
-            });
+                model: judge.model,
+                temperature: judge.temperature,
+            }))));
 
-            const text = result.response.text();
-            const auditResult = this.parseAuditResult(text);
+            const [settled, colorAnalysis] = await Promise.all([
+                modelAudits,
+                this.analyzeColors(imageBase64, constitution.visual_identity.color_palette_hex),
+            ]);
+
+            // An ensemble goes on without the judges that failed
+            const judged = settled.flatMap((outcome, i) => outcome.status === "fulfilled"
+                ? [{ judge: judges[i], model: outcome.value.model || judges[i].model || "", parsed: this.parseAuditResult(outcome.value.text) }]
+                : []);
+            if (judged.length === 0) {
+                throw (settled[0] as PromiseRejectedResult).reason;
+            }
+
+            const parsed = this.combineJudgments(judged.map((j) => j.parsed));
+            const text = await this.analyzeText(imageBase64, parsed, constitution);
+            const accessibility = text
+                ? await this.analyzeAccessibility(imageBase64, text.analysis.elements, options.template)
+                : null;
+            const scored = this.applyMeasurements(parsed.audit, colorAnalysis, text, accessibility);
+            const confidence = judged.length > 1
+                ? this.measureConfidence(scored, judged.map((j) => ({
+                    model: j.model,
+                    temperature: j.judge.temperature,
+                    audit: this.applyMeasurements(j.parsed.audit, colorAnalysis, text, accessibility),
+                })))
+                : null;
+            const auditResult: AuditResult = {
+                ...scored,
+                regions: this.buildRegions(scored),
+                fix_instructions: this.formatFeedback(scored),
+                ...(confidence ? { confidence } : {}),
+            };
 
             return {
                 taskId,
@@ -130,6 +271,7 @@ Return ONLY the JSON object.
                 success: true,
                 data: auditResult,
                 duration: Date.now() - startTime,
+                usage: usage.summary(),
             };
         } catch (error) {
             return {
@@ -139,6 +281,7 @@ Return ONLY the JSON object.
                 data: null,
                 error: error instanceof Error ? error.message : "Unknown error",
                 duration: Date.now() - startTime,
+                usage: usage.summary(),
             };
         }
     }
@@ -146,7 +289,7 @@ Return ONLY the JSON object.
     /**
      * Parse and validate audit result from AI response
      */
-    private parseAuditResult(text: string): AuditResult {
+    private parseAuditResult(text: string): ParsedAudit {
         try {
             // Clean potential markdown wrapping
             let cleanText = text.trim();
@@ -161,31 +304,253 @@ Return ONLY the JSON object.
             }
 
             const parsed = JSON.parse(cleanText.trim());
+            const score = Math.max(0, Math.min(100, Number(parsed.compliance_score) || 50));
+
+            const subScores: Partial<Record<AuditCategory, number>> = {};
+            for (const category of AUDIT_CATEGORIES) {
+                const value = Number(parsed.category_scores?.[category]);
+                if (Number.isFinite(value)) subScores[category] = Math.max(0, Math.min(100, value));
+            }
+            for (const category of MODEL_CATEGORIES) {
+                subScores[category] ??= score;
+            }
 
             return {
-                compliance_score: Math.max(0, Math.min(100, Number(parsed.compliance_score) || 50)),
-                pass: parsed.compliance_score >= this.passThreshold,
-                violations: Array.isArray(parsed.violations) ? parsed.violations : [],
-                strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
+                audit: {
+                    version: AUDIT_RESULT_VERSION,
+                    compliance_score: score,
+                    // Decided under the policy once the measurements are in
+                    pass: false,
+                    decision: "REGENERATE",
+                    export_blockers: [],
+                    sub_scores: subScores,
+                    violations: Array.isArray(parsed.violations)
+                        ? parsed.violations.map((v: ComplianceViolation & { box_2d?: unknown }) => ({
+                            ...v,
+                            box: toBoundingBox(v.box ?? v.box_2d),
+                        }))
+                        : [],
+                    strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
+                    regions: [],
+                    fix_instructions: "",
+                },
+                textElements: Array.isArray(parsed.text_elements)
+                    ? parsed.text_elements
+                        .filter((e: { text?: unknown }) => typeof e?.text === "string")
+                        .map((e: { text: string; box?: unknown; box_2d?: unknown }) => ({
+                            text: e.text,
+                            box: toBoundingBox(e.box ?? e.box_2d),
+                        }))
+                    : null,
+                spellingErrors: Array.isArray(parsed.spelling_errors)
+                    ? parsed.spelling_errors.filter((e: { word?: unknown }) => typeof e?.word === "string")
+                    : [],
             };
         } catch {
             // Return conservative default if parsing fails
             return {
-                compliance_score: 50,
-                pass: false,
-                violations: [
-                    {
-                        category: "style",
-                        severity: "warning",
-                        description: "Unable to fully analyze image compliance",
-                        suggestion: "Manual review recommended",
-                    },
-                ],
-                strengths: [],
+                audit: {
+                    version: AUDIT_RESULT_VERSION,
+                    compliance_score: 50,
+                    pass: false,
+                    decision: "REGENERATE",
+                    export_blockers: [],
+                    sub_scores: {},
+                    violations: [
+                        {
+                            category: "style",
+                            severity: "warning",
+                            description: "Unable to fully analyze image compliance",
+                            suggestion: "Manual review recommended",
+                        },
+                    ],
+                    strengths: [],
+                    regions: [],
+                    fix_instructions: "",
+                },
+                textElements: null,
+                spellingErrors: [],
             };
         }
     }
 
+    /**
+     * Merge the judges' audits: scores are averaged; violations, strengths
+     * and text come from the judge closest to the mean score, so the
+     * findings stay consistent with each other
+     */
+    private combineJudgments(judgments: ParsedAudit[]): ParsedAudit {
+        if (judgments.length === 1) return judgments[0];
+
+        const mean = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+        const score = mean(judgments.map((j) => j.audit.compliance_score));
+
+        const subScores: Partial<Record<AuditCategory, number>> = {};
+        for (const category of AUDIT_CATEGORIES) {
+            const values = judgments
+                .map((j) => j.audit.sub_scores[category])
+                .filter((v): v is number => v !== undefined);
+            if (values.length > 0) subScores[category] = mean(values);
+        }
+
+        const representative = judgments.reduce((closest, j) =>
+            Math.abs(j.audit.compliance_score - score) < Math.abs(closest.audit.compliance_score - score) ? j : closest
+        );
+
+        return {
+            audit: { ...representative.audit, compliance_score: score, sub_scores: subScores },
+            textElements: representative.textElements ?? judgments.find((j) => j.textElements)?.textElements ?? null,
+            spellingErrors: representative.spellingErrors,
+        };
+    }
+
+    /**
+     * How far the judges agree with the combined audit. Each judge's audit
+     * carries the same measurements, so only its own model scores differ.
+     */
+    private measureConfidence(
+        combined: AuditResult,
+        judged: { model: string; temperature: number; audit: AuditResult }[]
+    ): AuditConfidence {
+        const judgments: AuditJudgment[] = judged.map((j) => ({
+            model: j.model,
+            temperature: j.temperature,
+            compliance_score: j.audit.compliance_score,
+            decision: j.audit.decision,
+        }));
+
+        const scores = judgments.map((j) => j.compliance_score);
+        const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+        const stdDev = Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length);
+        const agreement = judgments.filter((j) => j.decision === combined.decision).length / judgments.length;
+        const confidence = agreement * Math.max(0, 1 - stdDev / CONFIDENCE_STD_DEV_SCALE);
+
+        return {
+            judgments,
+            mean_score: Math.round(mean),
+            std_dev: Math.round(stdDev * 10) / 10,
+            agreement: Math.round(agreement * 100) / 100,
+            confidence: Math.round(confidence * 100) / 100,
+            needs_review: confidence < REVIEW_CONFIDENCE_THRESHOLD,
+        };
+    }
+
+    /**
+     * Pixel-level palette check; null when there is no palette or the
+     * image can't be decoded (the model score is used alone)
+     */
+    private async analyzeColors(imageBase64: string, palette: string[]): Promise<ColorAnalysis | null> {
+        if (palette.length === 0) return null;
+        try {
+            return analyzeColorCompliance(await decodeImage(imageBase64), palette);
+        } catch (error) {
+            console.warn("[ComplianceAuditor] Color analysis skipped:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Check the text on the image. Uses the text the model reported, or
+     * local OCR when it reported none; null if neither is available.
+     */
+    private async analyzeText(
+        imageBase64: string,
+        parsed: ParsedAudit,
+        constitution: BrandConstitution
+    ): Promise<{ analysis: TextAnalysis; violations: AuditViolation[] } | null> {
+        let source: TextAnalysis["source"] = "model";
+        let elements = parsed.textElements;
+
+        if (!elements) {
+            try {
+                elements = await recognizeText(imageBase64);
+                source = "ocr";
+            } catch (error) {
+                console.warn("[ComplianceAuditor] OCR skipped:", error);
+                return null;
+            }
+        }
+
+        const checks = analyzeText(elements, constitution, parsed.spellingErrors);
+        return { analysis: { source, elements, score: checks.score }, violations: checks.violations };
+    }
+
+    /**
+     * Contrast and size of the text found on the image, measured against
+     * the template (or the image itself); null if it can't be decoded
+     */
+    private async analyzeAccessibility(
+        imageBase64: string,
+        elements: AuditTextElement[],
+        template: AccessibilityTarget | undefined
+    ): Promise<AccessibilityCheckResult | null> {
+        try {
+            const target = template || await readImageSize(imageBase64);
+            if (!target) return null;
+            return analyzeAccessibility(await decodeImage(imageBase64, ACCESSIBILITY_ANALYSIS_SIZE), elements, target);
+        } catch (error) {
+            console.warn("[ComplianceAuditor] Accessibility analysis skipped:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Replace the model's sub-scores with the measured color, text and
+     * accessibility scores, add their violations and decide under the policy
+     */
+    private applyMeasurements(
+        auditResult: AuditResult,
+        colorAnalysis: ColorAnalysis | null,
+        text: { analysis: TextAnalysis; violations: AuditViolation[] } | null,
+        accessibility: AccessibilityCheckResult | null
+    ): AuditResult {
+        const violations = [...auditResult.violations];
+        const subScores = { ...auditResult.sub_scores };
+
+        if (colorAnalysis) {
+            subScores.color = colorAnalysis.score;
+
+            const worst = colorAnalysis.off_palette_regions[0];
+            if (colorAnalysis.score < COLOR_VIOLATION_THRESHOLD && worst) {
+                const replacements = colorAnalysis.dominant_colors
+                    .filter((c) => c.nearest_palette_hex && (c.delta_e ?? 0) > OFF_PALETTE_DELTA_E)
+                    .map((c) => `${c.hex} with ${c.nearest_palette_hex}`);
+                violations.push({
+                    category: "color",
+                    severity: colorAnalysis.score < 50 ? "critical" : "warning",
+                    description: `${Math.round(colorAnalysis.off_palette_share * 100)}% of the image is off-palette, worst in the ${worst.location} (${worst.hex}, ΔE ${worst.delta_e} from ${worst.nearest_palette_hex}).`,
+                    suggestion: replacements.length > 0
+                        ? `Replace ${replacements.slice(0, 3).join("; ")}.`
+                        : `Shift the ${worst.location} toward ${worst.nearest_palette_hex}.`,
+                    box: { x: worst.x, y: worst.y, width: worst.width, height: worst.height },
+                });
+            }
+        }
+
+        if (text) {
+            violations.push(...text.violations);
+            if (text.analysis.score !== null) {
+                subScores.typography = text.analysis.score;
+            }
+        }
+
+        if (accessibility) {
+            violations.push(...accessibility.violations);
+            if (accessibility.analysis.score !== null) {
+                subScores.accessibility = accessibility.analysis.score;
+            }
+        }
+
+        return applyAuditPolicy({
+            ...auditResult,
+            violations,
+            sub_scores: subScores,
+            ...(colorAnalysis ? { color_analysis: colorAnalysis } : {}),
+            ...(text ? { text_analysis: text.analysis } : {}),
+            ...(accessibility ? { accessibility_analysis: accessibility.analysis } : {}),
+        }, this.policy);
+    }
+
     /**
      * Get refinement suggestions for failed audits
      */
@@ -196,19 +561,72 @@ Return ONLY the JSON object.
     }
 
     /**
-     * Set custom pass threshold
+     * Format violations as feedback for CreativeDirectorAgent.refinePrompt
+     */
+    formatFeedback(auditResult: AuditResult): string {
+        if (auditResult.violations.length === 0 && auditResult.pass) {
+            return "No changes needed.";
+        }
+        if (auditResult.violations.length === 0) {
+            const reasons = auditResult.export_blockers.length > 0
+                ? auditResult.export_blockers.join("; ")
+                : `Compliance score ${auditResult.compliance_score} is below ${this.policy.bands.approve}`;
+            return `${reasons}. Adhere more closely to the brand constitution.`;
+        }
+        return auditResult.violations
+            .map((v) => `- [${v.severity}] ${v.category}: ${v.description} Fix: ${v.suggestion}`)
+            .join("\n");
+    }
+
+    /**
+     * Regions for an audit: every located violation, plus the off-palette
+     * areas not already covered by the color violation
+     */
+    private buildRegions(auditResult: AuditResult): AuditRegion[] {
+        const regions = regionsFromViolations(auditResult.violations);
+        const covered = new Set(regions.map((r) => `${r.box?.x},${r.box?.y}`));
+
+        for (const region of auditResult.color_analysis?.off_palette_regions || []) {
+            if (covered.has(`${region.x},${region.y}`)) continue;
+            const box = { x: region.x, y: region.y, width: region.width, height: region.height };
+            regions.push({
+                ...boxCenter(box),
+                issue: `Off-palette color ${region.hex} (nearest brand color ${region.nearest_palette_hex})`,
+                box,
+                severity: "minor",
+            });
+        }
+        return regions;
+    }
+
+    /**
+     * Audit under a brand's policy instead of the default
+     */
+    setPolicy(policy: AuditPolicy): void {
+        this.policy = policy;
+    }
+
+    /**
+     * Policy audits are currently decided under
+     */
+    getPolicy(): AuditPolicy {
+        return this.policy;
+    }
+
+    /**
+     * Set custom pass threshold (the policy's approve band)
      */
     setPassThreshold(threshold: number): void {
-        this.passThreshold = Math.max(0, Math.min(100, threshold));
+        const approve = Math.max(0, Math.min(100, threshold));
+        this.policy = {
+            ...this.policy,
+            bands: { approve, regenerate: Math.min(this.policy.bands.regenerate, approve) },
+        };
     }
 }
 
 // ============ FACTORY FUNCTION ============
 
 export function createComplianceAuditorAgent(): ComplianceAuditorAgent {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    return new ComplianceAuditorAgent(apiKey);
+    return new ComplianceAuditorAgent(getModelProvider());
 }
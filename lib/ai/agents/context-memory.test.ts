@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AUDIT_RESULT_VERSION, type Asset, type AssetReview, type AuditResult, type BrandConstitution } from "@/lib/types";
+import { DEFAULT_CONSTITUTION } from "@/lib/types/constitution-schema";
+import { ContextMemoryAgent, type BrandMemory } from "./context-memory";
+
+const AUDIT: AuditResult = {
+    version: AUDIT_RESULT_VERSION,
+    compliance_score: 62,
+    pass: false,
+    decision: "REGENERATE",
+    export_blockers: [],
+    sub_scores: { color: 80, typography: 55, style: 70, accessibility: 20 },
+    violations: [],
+    strengths: [],
+    regions: [],
+    fix_instructions: "",
+};
+
+function asset(audit: AuditResult | null = AUDIT): Asset {
+    return {
+        id: "asset_1",
+        campaign_id: "campaign_1",
+        status: "IN_REVIEW",
+        image_url: null,
+        risk_score: null,
+        sentinel_feedback: null,
+        audit_result: audit,
+        attempt_number: 1,
+        created_at: 0,
+        updated_at: 0,
+    };
+}
+
+function review(decision: AssetReview["decision"], reason = ""): AssetReview {
+    return { decision, reviewer_id: "user_1", reviewer_name: "Ada", reason, reviewed_at: 0 };
+}
+
+describe("ContextMemoryAgent.recordReviewDecision", () => {
+    // Brand memories by Firestore document ID, in place of Firestore
+    let memories: Map<string, BrandMemory>;
+    let agent: ContextMemoryAgent;
+
+    beforeEach(() => {
+        memories = new Map();
+        agent = new ContextMemoryAgent();
+        vi.spyOn(ContextMemoryAgent.prototype, "getBrandMemory").mockImplementation(async (userId, brandId) =>
+            structuredClone(memories.get(`${userId}_${brandId}`) ?? null));
+        vi.spyOn(ContextMemoryAgent.prototype, "saveBrandMemory").mockImplementation(async (memory) => {
+            memories.set(`${memory.userId}_${memory.brandId}`, structuredClone(memory));
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const corrections = () => memories.get("user_1_brand_1")?.correctionPatterns;
+
+    it("skips decisions that agree with the audit", async () => {
+        await agent.recordReviewDecision("user_1", "brand_1", DEFAULT_CONSTITUTION, asset(), review("REQUEST_CHANGES"));
+        await agent.recordReviewDecision("user_1", "brand_1", DEFAULT_CONSTITUTION,
+            asset({ ...AUDIT, decision: "APPROVE", pass: true }), review("APPROVE"));
+
+        expect(memories.size).toBe(0);
+    });
+
+    it("records an overruling decision in the weakest scored category", async () => {
+        await agent.recordReviewDecision("user_1", "brand_1", DEFAULT_CONSTITUTION, asset(), review("APPROVE", "Matches the launch deck"));
+
+        // Accessibility scores lowest but isn't a correction category
+        expect(corrections()).toEqual([expect.objectContaining({
+            category: "typography",
+            originalValue: "Audit verdict REGENERATE",
+            correctedValue: "Reviewer APPROVE: Matches the launch deck",
+            frequency: 1,
+        })]);
+    });
+
+    it("counts the same overrule again rather than adding a pattern", async () => {
+        await agent.recordReviewDecision("user_1", "brand_1", DEFAULT_CONSTITUTION, asset(), review("APPROVE"));
+        await agent.recordReviewDecision("user_1", "brand_1", DEFAULT_CONSTITUTION, asset(), review("APPROVE"));
+
+        expect(corrections()).toEqual([expect.objectContaining({ category: "typography", frequency: 2 })]);
+    });
+
+    it("uses style for assets without category scores", async () => {
+        await agent.recordReviewDecision("user_1", "brand_1", DEFAULT_CONSTITUTION, asset(null), review("REJECT"));
+
+        expect(corrections()).toEqual([expect.objectContaining({
+            category: "style",
+            originalValue: "Audit verdict unknown",
+            correctedValue: "Reviewer REJECT",
+        })]);
+    });
+
+    it("starts the brand's memory from its constitution", async () => {
+        const constitution: BrandConstitution = { ...DEFAULT_CONSTITUTION, brand_essence: "Loud and bright" };
+
+        await agent.recordReviewDecision("user_1", "brand_1", constitution, asset(), review("REJECT"));
+
+        expect(memories.get("user_1_brand_1")).toMatchObject({
+            userId: "user_1",
+            brandId: "brand_1",
+            constitution,
+            correctionPatterns: [expect.objectContaining({ category: "typography" })],
+        });
+    });
+
+    it("records nothing for a brand with neither memory nor constitution", async () => {
+        await agent.recordReviewDecision("user_1", "brand_1", null, asset(), review("APPROVE"));
+
+        expect(memories.size).toBe(0);
+    });
+});
@@ -7,7 +7,15 @@
  * - Learning loop: User corrections improve future outputs
  */
 
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
+import {
+    normalizeConstitution,
+    type Asset,
+    type AssetReview,
+    type AuditDecision,
+    type BrandConstitution,
+    type CanvasElement,
+    type ReviewDecision,
+} from "@/lib/types";
 import type { AgentResult, OrchestrationState } from "./types";
 import { getDb } from "@/lib/firebase/config";
 import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
@@ -51,6 +59,13 @@ export interface BrandMemory {
     correctionPatterns: CorrectionPattern[];
 }
 
+/** The audit decision each review decision agrees with */
+const REVIEW_AUDIT_DECISIONS: Record<ReviewDecision, AuditDecision> = {
+    APPROVE: "APPROVE",
+    REJECT: "REJECT",
+    REQUEST_CHANGES: "REGENERATE",
+};
+
 export interface ApprovedAsset {
     id: string;
     type: string;
@@ -173,7 +188,9 @@ export class ContextMemoryAgent {
             const memorySnap = await getDoc(memoryRef);
 
             if (!memorySnap.exists()) return null;
-            return memorySnap.data() as BrandMemory;
+            const memory = memorySnap.data() as BrandMemory;
+            // Memories saved before the constitution schema covered every field
+            return { ...memory, constitution: normalizeConstitution(memory.constitution).constitution };
         } catch (error) {
             console.error("Error getting brand memory from Firestore:", error);
             return null;
@@ -273,6 +290,38 @@ export class ContextMemoryAgent {
         await this.saveBrandMemory(memory);
     }
 
+    /**
+     * Learn from a review queue decision: when it overrules the auditor's
+     * verdict, it's recorded as a correction in the asset's weakest category.
+     * Brand memory is started from `constitution` if the brand has none yet.
+     */
+    async recordReviewDecision(
+        userId: string,
+        brandId: string,
+        constitution: BrandConstitution | null,
+        asset: Asset,
+        review: AssetReview
+    ): Promise<void> {
+        if (asset.audit_result?.decision === REVIEW_AUDIT_DECISIONS[review.decision]) return;
+
+        if (!(await this.getBrandMemory(userId, brandId))) {
+            if (!constitution) return;
+            await this.updateConstitution(userId, brandId, constitution, "correction");
+        }
+
+        const categories: CorrectionPattern["category"][] = ["color", "typography", "style", "composition"];
+        const scores = asset.audit_result?.sub_scores || {};
+        const weakest = categories
+            .filter((c) => scores[c] !== undefined)
+            .sort((a, b) => scores[a]! - scores[b]!)[0] || "style";
+
+        await this.recordCorrection(userId, brandId, {
+            category: weakest,
+            originalValue: `Audit verdict ${asset.audit_result?.decision || "unknown"}`,
+            correctedValue: `Reviewer ${review.decision}${review.reason ? `: ${review.reason}` : ""}`,
+        });
+    }
+
     /**
      * Get applicable corrections for a generation
      */
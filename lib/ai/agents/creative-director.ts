@@ -2,7 +2,7 @@
  * Creative Director Agent
  * 
  * Responsible for generating brand-consistent assets using Nano Banana Pro.
- * Uses gemini-3-pro-image-preview for native image generation.
+ * Uses the provider's image model (gemini-3-pro-image-preview by default).
  * 
  * Responsibilities:
  * - Reference Brand Constitution for all generation decisions
@@ -11,21 +11,24 @@
  * - Maintain thought signatures for multi-turn editing
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import type { BrandConstitution } from "@/lib/types";
+import { getModelProvider, UsageMeter, type ModelProvider } from "../providers";
 import {
     type AgentResult,
     CREATIVE_DIRECTOR_SYSTEM_PROMPT,
     generateTaskId,
 } from "./types";
 
+/** Image generation regularly takes 30-60s */
+const IMAGE_GENERATION_TIMEOUT_MS = 120000;
+
 // ============ CREATIVE DIRECTOR AGENT ============
 
 export class CreativeDirectorAgent {
-    private client: GoogleGenerativeAI;
+    private provider: ModelProvider;
 
-    constructor(apiKey: string) {
-        this.client = new GoogleGenerativeAI(apiKey);
+    constructor(provider: ModelProvider) {
+        this.provider = provider;
     }
 
     /**
@@ -36,50 +39,31 @@ export class CreativeDirectorAgent {
         constitution: BrandConstitution | null,
         options?: {
             aspectRatio?: "1:1" | "16:9" | "9:16" | "4:3";
+            imageSize?: "1K" | "2K" | "4K";
             enhancePrompt?: boolean;
         }
     ): Promise<AgentResult> {
         const startTime = Date.now();
         const taskId = generateTaskId();
+        const usage = new UsageMeter();
 
         try {
             // Build brand-enhanced prompt
             const brandPrompt = this.buildBrandPrompt(prompt, constitution);
 
             // Use Nano Banana Pro for image generation
-            const model = this.client.getGenerativeModel({
-                model: "gemini-3-pro-image-preview",
-            });
-
-            const result = await model.generateContent({
-                contents: [
-                    {
-                        role: "user",
-                        parts: [{ text: brandPrompt }],
-                    },
-                ],
-                generationConfig: {
-                    // @ts-expect-error - Gemini 3 image config
-                    responseModalities: ["TEXT", "IMAGE"],
-                    imageConfig: {
-                        aspectRatio: options?.aspectRatio || "16:9",
-                    },
-                },
-            });
+            const result = await usage.track(() => this.provider.generateImage({
+                role: "creative_director",
+                operation: "generate_asset",
+                parts: brandPrompt,
+                aspectRatio: options?.aspectRatio || "16:9",
+                ...(options?.imageSize ? { imageSize: options.imageSize } : {}),
+                timeoutMs: IMAGE_GENERATION_TIMEOUT_MS,
+            }));
 
             // Extract image from response
-            const parts = result.response.candidates?.[0]?.content?.parts || [];
-            let imageBase64: string | null = null;
-            let responseText: string | null = null;
-
-            for (const part of parts) {
-                if ("inlineData" in part && part.inlineData) {
-                    imageBase64 = part.inlineData.data;
-                }
-                if ("text" in part && part.text) {
-                    responseText = part.text;
-                }
-            }
+            const imageBase64 = result.images[result.images.length - 1]?.data || null;
+            const responseText = result.text || null;
 
             if (!imageBase64) {
                 throw new Error("No image generated in response");
@@ -95,6 +79,7 @@ export class CreativeDirectorAgent {
                     description: responseText,
                 },
                 duration: Date.now() - startTime,
+                usage: usage.summary(),
             };
         } catch (error) {
             return {
@@ -104,6 +89,7 @@ export class CreativeDirectorAgent {
                 data: null,
                 error: error instanceof Error ? error.message : "Unknown error",
                 duration: Date.now() - startTime,
+                usage: usage.summary(),
             };
         }
     }
@@ -132,11 +118,6 @@ export class CreativeDirectorAgent {
         feedback: string,
         constitution: BrandConstitution | null
     ): Promise<string> {
-        const model = this.client.getGenerativeModel({
-            model: "gemini-3-flash-preview",
-            systemInstruction: CREATIVE_DIRECTOR_SYSTEM_PROMPT,
-        });
-
         const refinementPrompt = `
 <task>
 Refine this image generation prompt based on compliance feedback.
@@ -159,8 +140,13 @@ Forbidden: ${constitution?.visual_identity.forbidden_elements.join(", ") || "Non
 Return ONLY the refined prompt, no explanation.
 `;
 
-        const result = await model.generateContent(refinementPrompt);
-        return result.response.text().trim();
+        const result = await this.provider.generateText({
+            role: "creative_director",
+            operation: "refine_prompt",
+            systemInstruction: CREATIVE_DIRECTOR_SYSTEM_PROMPT,
+            parts: refinementPrompt,
+        });
+        return result.text.trim();
     }
 
     /**
@@ -201,9 +187,5 @@ Output should be premium, "Silicon Valley" quality.
 // ============ FACTORY FUNCTION ============
 
 export function createCreativeDirectorAgent(): CreativeDirectorAgent {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    return new CreativeDirectorAgent(apiKey);
+    return new CreativeDirectorAgent(getModelProvider());
 }
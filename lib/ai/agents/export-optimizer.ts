@@ -9,6 +9,8 @@
  * - Twitter headers (1500x500, 3:1)
  */
 
+import { getExportBlockers, type AuditResult } from "@/lib/types";
+
 // ============ PLATFORM TEMPLATES ============
 
 export interface PlatformTemplate {
@@ -22,6 +24,7 @@ export interface PlatformTemplate {
     guidelines: string;
     maxFileSize?: number; // in KB
     recommendedFormat?: string;
+    previewWidth?: number; // CSS px the asset is shown at on a phone; defaults to full width (360)
 }
 
 export const PLATFORM_TEMPLATES: Record<string, PlatformTemplate> = {
@@ -84,6 +87,7 @@ export const PLATFORM_TEMPLATES: Record<string, PlatformTemplate> = {
         guidelines: "Vertical, thumbnail-style, attention-grabbing",
         maxFileSize: 30720,
         recommendedFormat: "jpg",
+        previewWidth: 120,
     },
     tiktok_cover: {
         id: "tiktok_cover",
@@ -94,6 +98,7 @@ export const PLATFORM_TEMPLATES: Record<string, PlatformTemplate> = {
         height: 1920,
         aspectRatio: "9:16",
         guidelines: "Vertical format, dynamic, trend-aware, bold text",
+        previewWidth: 120,
     },
     twitter_header: {
         id: "twitter_header",
@@ -237,6 +242,7 @@ export interface BatchExportRequest {
     imageBase64: string;
     templates: string[]; // Template IDs
     options?: Partial<ExportOptions>;
+    audit?: AuditResult | null; // Export is refused while the audit blocks it
 }
 
 export interface BatchExportResult {
@@ -256,6 +262,18 @@ export function prepareBatchExport(
     const exports: OptimizedExport[] = [];
     const errors: { templateId: string; error: string }[] = [];
 
+    const blockers = getExportBlockers(request.audit);
+    if (blockers.length > 0) {
+        return {
+            success: false,
+            exports,
+            errors: request.templates.map((templateId) => ({
+                templateId,
+                error: `Export blocked: ${blockers.join("; ")}`,
+            })),
+        };
+    }
+
     for (const templateId of request.templates) {
         const template = getTemplate(templateId);
 
@@ -8,6 +8,18 @@
 // ============ TYPES ============
 export * from "./types";
 
+// ============ PLAN VALIDATION ============
+export {
+    validatePlan,
+    assertValidPlan,
+    normalizePlan,
+    PlanValidationError,
+    EXECUTABLE_ROLES,
+    type PlanIssue,
+    type PlanIssueCode,
+    type PlanValidationResult,
+} from "./plan";
+
 // ============ AGENTS ============
 
 // Orchestrator - Central coordinator
@@ -20,7 +32,7 @@ export { BrandAnalystAgent, createBrandAnalystAgent } from "./brand-analyst";
 export { CreativeDirectorAgent, createCreativeDirectorAgent } from "./creative-director";
 
 // Compliance Auditor - Brand consistency scoring
-export { ComplianceAuditorAgent, createComplianceAuditorAgent, type AuditResult, type ComplianceViolation } from "./compliance-auditor";
+export { ComplianceAuditorAgent, createComplianceAuditorAgent, type ComplianceViolation } from "./compliance-auditor";
 
 // Trend Scout - Platform trend research
 export { TrendScoutAgent, createTrendScoutAgent, type TrendResearch, type PlatformTrend } from "./trend-scout";
@@ -0,0 +1,266 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AUDIT_RESULT_VERSION, type AuditResult } from "@/lib/types";
+import { getLocalConstitution, LocalModelProvider } from "../providers";
+import { ComplianceAuditorAgent } from "./compliance-auditor";
+import { CreativeDirectorAgent } from "./creative-director";
+import { OrchestratorAgent } from "./orchestrator";
+import type { AgentResult, AgentRole, AgentTask } from "./types";
+
+function task(id: string, role: AgentRole, dependsOn?: string[]): AgentTask {
+    return { id, role, action: role, params: {}, priority: "normal", dependsOn };
+}
+
+/**
+ * An orchestrator whose tasks take `delays[id]` ms and fail when listed in
+ * `failing`; records start order and the most tasks seen running at once
+ */
+function createScheduler(options: { delays?: Record<string, number>; failing?: string[] } = {}) {
+    const orchestrator = new OrchestratorAgent(new LocalModelProvider());
+    const started: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    vi.spyOn(orchestrator, "delegateToAgent").mockImplementation(async (t): Promise<AgentResult> => {
+        started.push(t.id);
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, options.delays?.[t.id] ?? 5));
+        running--;
+        const success = !options.failing?.includes(t.id);
+        return { taskId: t.id, role: t.role, success, data: null, error: success ? undefined : "boom", duration: 0 };
+    });
+
+    return { orchestrator, started, maxRunning: () => maxRunning };
+}
+
+describe("OrchestratorAgent.executeTaskQueue", () => {
+    it("starts a task only after its dependencies complete", async () => {
+        const { orchestrator, started } = createScheduler({ delays: { analyze: 20 } });
+        await orchestrator.executeTaskQueue([
+            task("generate", "creative_director", ["analyze"]),
+            task("analyze", "brand_analyst"),
+            task("audit", "compliance_auditor", ["generate"]),
+        ]);
+        expect(started).toEqual(["analyze", "generate", "audit"]);
+    });
+
+    it("runs ready tasks concurrently within per-role limits", async () => {
+        const { orchestrator, maxRunning } = createScheduler();
+        await orchestrator.executeTaskQueue([
+            task("scout_1", "trend_scout"),
+            task("scout_2", "trend_scout"),
+            task("scout_3", "trend_scout"),
+        ]);
+        // trend_scout allows two at a time by default
+        expect(maxRunning()).toBe(2);
+    });
+
+    it("honors overridden role limits and the global limit", async () => {
+        const roleLimited = createScheduler();
+        await roleLimited.orchestrator.executeTaskQueue(
+            [task("scout_1", "trend_scout"), task("scout_2", "trend_scout")],
+            { concurrency: { trend_scout: 1 } }
+        );
+        expect(roleLimited.maxRunning()).toBe(1);
+
+        const globallyLimited = createScheduler();
+        await globallyLimited.orchestrator.executeTaskQueue(
+            [task("analyze", "brand_analyst"), task("scout", "trend_scout"), task("memory", "context_memory")],
+            { maxParallel: 2 }
+        );
+        expect(globallyLimited.maxRunning()).toBe(2);
+    });
+
+    it("returns results in plan order regardless of completion order", async () => {
+        const { orchestrator } = createScheduler({ delays: { slow: 30, fast: 1 } });
+        const results = await orchestrator.executeTaskQueue([
+            task("slow", "brand_analyst"),
+            task("fast", "trend_scout"),
+        ]);
+        expect(results.map((r) => r.taskId)).toEqual(["slow", "fast"]);
+    });
+
+    it("skips everything downstream of a failed task", async () => {
+        const { orchestrator, started } = createScheduler({ failing: ["generate"] });
+        const results = await orchestrator.executeTaskQueue([
+            task("generate", "creative_director"),
+            task("audit", "compliance_auditor", ["generate"]),
+            task("memory", "context_memory", ["audit"]),
+            task("scout", "trend_scout"),
+        ]);
+
+        expect(started.sort()).toEqual(["generate", "scout"]);
+        expect(results.map((r) => [r.taskId, r.success, r.error])).toEqual([
+            ["generate", false, "boom"],
+            ["audit", false, "Skipped: dependency generate failed"],
+            ["memory", false, "Skipped: dependency audit failed"],
+            ["scout", true, undefined],
+        ]);
+    });
+
+    it("doesn't run tasks restored from an earlier attempt", async () => {
+        const { orchestrator, started } = createScheduler();
+        orchestrator.restore([
+            { taskId: "analyze", role: "brand_analyst", success: true, data: null, duration: 0 },
+        ]);
+        const results = await orchestrator.executeTaskQueue([
+            task("analyze", "brand_analyst"),
+            task("scout", "trend_scout", ["analyze"]),
+        ]);
+
+        expect(started).toEqual(["scout"]);
+        expect(results.map((r) => r.taskId)).toEqual(["analyze", "scout"]);
+    });
+
+    it("cancels queued tasks once aborted and keeps finished results", async () => {
+        const controller = new AbortController();
+        const { orchestrator, started } = createScheduler();
+        orchestrator.onEvent((event) => {
+            if (event.type === "result") controller.abort();
+        });
+        const results = await orchestrator.executeTaskQueue([
+            task("analyze", "brand_analyst"),
+            task("generate", "creative_director", ["analyze"]),
+        ], { signal: controller.signal });
+
+        expect(started).toEqual(["analyze"]);
+        expect(results.map((r) => [r.taskId, r.success, r.error])).toEqual([
+            ["analyze", true, undefined],
+            ["generate", false, "Cancelled"],
+        ]);
+    });
+
+    it("refuses an invalid plan before running anything", async () => {
+        const { orchestrator, started } = createScheduler();
+        await expect(orchestrator.executeTaskQueue([task("a", "brand_analyst", ["a"])])).rejects.toThrow("Invalid plan");
+        expect(started).toEqual([]);
+    });
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * An orchestrator whose generations return `image:<prompt>` (refining a
+ * prompt appends "+") and whose audits score each image from `scores`,
+ * passing at 70. Audits take `auditDelays[image]` ms, generations
+ * `generationDelays[prompt]` ms.
+ */
+function createRefinementLoop(options: {
+    scores: Record<string, number>;
+    auditDelays?: Record<string, number>;
+    generationDelays?: Record<string, number>;
+}) {
+    const audited: string[] = [];
+    let generating = 0;
+    let maxGenerating = 0;
+    vi.spyOn(CreativeDirectorAgent.prototype, "generateAsset").mockImplementation(async (prompt) => {
+        maxGenerating = Math.max(maxGenerating, ++generating);
+        await sleep(options.generationDelays?.[prompt] ?? 1);
+        generating--;
+        return { taskId: "t", role: "creative_director", success: true, data: { image: `image:${prompt}` }, duration: 0 };
+    });
+    vi.spyOn(CreativeDirectorAgent.prototype, "refinePrompt").mockImplementation(async (prompt) => `${prompt}+`);
+    vi.spyOn(ComplianceAuditorAgent.prototype, "auditAsset").mockImplementation(async (image) => {
+        audited.push(image);
+        await sleep(options.auditDelays?.[image] ?? 1);
+        const score = options.scores[image] ?? 0;
+        const audit: AuditResult = {
+            version: AUDIT_RESULT_VERSION,
+            compliance_score: score,
+            pass: score >= 70,
+            decision: score >= 70 ? "APPROVE" : "REGENERATE",
+            export_blockers: [],
+            sub_scores: {},
+            violations: [],
+            strengths: [],
+            regions: [],
+            fix_instructions: "Fix it",
+        };
+        return { taskId: "t", role: "compliance_auditor", success: true, data: audit, duration: 0 };
+    });
+
+    const orchestrator = new OrchestratorAgent(new LocalModelProvider());
+    orchestrator.initialize([], getLocalConstitution());
+    return { orchestrator, audited, maxGenerating: () => maxGenerating };
+}
+
+function generate(id: string, prompt: string): AgentTask {
+    return { ...task(id, "creative_director"), params: { prompt } };
+}
+
+function auditOf(id: string, generation: string, maxAttempts = 3): AgentTask {
+    return { ...task(id, "compliance_auditor", [generation]), params: { maxAttempts } };
+}
+
+describe("OrchestratorAgent audit refinement", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("regenerates until an attempt passes and records every attempt", async () => {
+        const { orchestrator, audited } = createRefinementLoop({ scores: { "image:cat": 50, "image:cat+": 85 } });
+        const results = await orchestrator.executeTaskQueue([generate("gen", "cat"), auditOf("audit", "gen")]);
+
+        expect(audited).toEqual(["image:cat", "image:cat+"]);
+        expect(results[1].data).toMatchObject({ attempts: 2, best_attempt: 2, compliance_score: 85 });
+        const { assets, currentImage } = orchestrator.getState();
+        expect(assets.map((a) => [a.attempt_number, a.status])).toEqual([[1, "REJECTED"], [2, "APPROVED"]]);
+        expect(currentImage).toBe("image:cat+");
+    });
+
+    it("keeps the best attempt when none pass", async () => {
+        const { orchestrator } = createRefinementLoop({ scores: { "image:cat": 40, "image:cat+": 60, "image:cat++": 50 } });
+        const results = await orchestrator.executeTaskQueue([generate("gen", "cat"), auditOf("audit", "gen")]);
+
+        expect(results[1].data).toMatchObject({ attempts: 3, best_attempt: 2, compliance_score: 60 });
+        const { assets, currentImage } = orchestrator.getState();
+        expect(assets.map((a) => a.status)).toEqual(["REJECTED", "REJECTED", "REJECTED"]);
+        expect(currentImage).toBe("image:cat+");
+    });
+
+    it("sends a borderline best attempt to review when none pass", async () => {
+        const { orchestrator } = createRefinementLoop({ scores: { "image:cat": 40, "image:cat+": 67 } });
+        await orchestrator.executeTaskQueue([generate("gen", "cat"), auditOf("audit", "gen", 2)]);
+
+        const [first, best] = orchestrator.getState().assets;
+        expect(first.status).toBe("REJECTED");
+        expect(best.status).toBe("IN_REVIEW");
+        expect(best.review_reasons).toEqual(["Score 67 is within 5 of the approve band (70)"]);
+    });
+
+    it("refines each audit's own image while other generations run", async () => {
+        // Audit A is still on its first attempt when generation B finishes
+        const { orchestrator, audited } = createRefinementLoop({
+            scores: { "image:a": 50, "image:a+": 90, "image:b": 80 },
+            auditDelays: { "image:a": 30 },
+        });
+        const results = await orchestrator.executeTaskQueue([
+            generate("gen_a", "a"),
+            auditOf("audit_a", "gen_a"),
+            generate("gen_b", "b"),
+            auditOf("audit_b", "gen_b"),
+        ]);
+
+        expect(audited.filter((image) => image.startsWith("image:a"))).toEqual(["image:a", "image:a+"]);
+        expect(audited.filter((image) => image.startsWith("image:b"))).toEqual(["image:b"]);
+        expect(results[1].data).toMatchObject({ attempts: 2, compliance_score: 90 });
+        expect(results[3].data).toMatchObject({ attempts: 1, compliance_score: 80 });
+        const numbers = orchestrator.getState().assets.map((a) => a.attempt_number);
+        expect(numbers.sort()).toEqual([1, 2, 3]);
+    });
+
+    it("counts an audit's regenerations against the creative_director limit", async () => {
+        // Audit A wants to regenerate while generation B is still running
+        const { orchestrator, audited, maxGenerating } = createRefinementLoop({
+            scores: { "image:a": 50, "image:a+": 90, "image:b": 80 },
+            generationDelays: { b: 30 },
+        });
+        await orchestrator.executeTaskQueue([
+            generate("gen_a", "a"),
+            auditOf("audit_a", "gen_a"),
+            generate("gen_b", "b"),
+        ]);
+
+        expect(audited).toEqual(["image:a", "image:a+"]);
+        expect(maxGenerating()).toBe(1);
+    });
+});
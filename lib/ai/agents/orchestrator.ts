@@ -2,7 +2,7 @@
  * Orchestrator Agent
  * 
  * Central coordinator that interprets user requests and routes to specialized agents.
- * Uses gemini-3-flash-preview with thinkingConfig: high for complex reasoning.
+ * Uses the provider's JSON model (gemini-3-flash-preview by default) with thinking: high.
  * 
  * Responsibilities:
  * - Natural language intent parsing
@@ -11,29 +11,56 @@
  * - Quality gate before final output
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
+import {
+    applyFieldLocks,
+    getReviewReasons,
+    mergeUsage,
+    type Asset,
+    type AuditPolicy,
+    type AuditResult,
+    type BrandConstitution,
+    type CanvasElement,
+    type UsageSummary,
+} from "@/lib/types";
+import { getModelProvider, withAbortSignal, UsageMeter, DEFAULT_IMAGE_SIZE, type ModelProvider } from "../providers";
 import {
     type AgentRole,
     type AgentTask,
     type AgentResult,
     type OrchestrationState,
     type AgentEvent,
+    type TaskQueueOptions,
+    AGENT_CONCURRENCY,
+    MAX_PARALLEL_TASKS,
+    MAX_GENERATION_ATTEMPTS,
     ORCHESTRATOR_SYSTEM_PROMPT,
     getAgentThinkingLevel,
     generateTaskId,
+    generateAssetId,
     createOrchestrationState,
 } from "./types";
+import { assertValidPlan } from "./plan";
+import { getTemplate, PLATFORM_TEMPLATES } from "./export-optimizer";
+import type { BudgetGuard, ImageSize } from "../budget";
 
 // ============ ORCHESTRATOR AGENT ============
 
 export class OrchestratorAgent {
-    private client: GoogleGenerativeAI;
+    private provider: ModelProvider;
     private state: OrchestrationState;
     private eventCallback?: (event: AgentEvent) => void;
-
-    constructor(apiKey: string) {
-        this.client = new GoogleGenerativeAI(apiKey);
+    private usage = new UsageMeter();
+    private budget?: BudgetGuard;
+    /** Each planned task's dependencies, to find the image an audit works on */
+    private planDependencies = new Map<string, string[]>();
+    /** Generations whose usage is already on an attempt asset */
+    private attributedGenerations = new Set<string>();
+    /** Per-role limits, shared by scheduled tasks and the regenerations audits run */
+    private slots = new RoleSlots(AGENT_CONCURRENCY);
+
+    constructor(provider: ModelProvider, budget?: BudgetGuard) {
+        this.provider = provider;
+        this.budget = budget;
         this.state = createOrchestrationState();
     }
 
@@ -50,12 +77,13 @@ export class OrchestratorAgent {
     private emit(
         type: AgentEvent["type"],
         message: string,
-        data?: unknown
+        data?: unknown,
+        agent: AgentRole = "orchestrator"
     ): void {
         if (this.eventCallback) {
             this.eventCallback({
                 type,
-                agent: "orchestrator",
+                agent,
                 message,
                 data,
                 timestamp: Date.now(),
@@ -68,10 +96,29 @@ export class OrchestratorAgent {
      */
     initialize(
         canvasElements?: CanvasElement[],
-        constitution?: BrandConstitution | null
+        constitution?: BrandConstitution | null,
+        auditPolicy?: AuditPolicy | null
     ): void {
         this.state.canvasElements = canvasElements;
         this.state.constitution = constitution || null;
+        if (auditPolicy) this.state.auditPolicy = auditPolicy;
+    }
+
+    /**
+     * Seed state from an interrupted run of the same plan.
+     * Successful results are replayed in order and skipped by executeTaskQueue;
+     * the snapshot restores state results alone can't (e.g. the best refined image).
+     */
+    restore(
+        results: AgentResult[],
+        snapshot: { currentImage?: string | null; assets?: Asset[] } = {}
+    ): void {
+        for (const result of results.filter((r) => r.success)) {
+            this.state.completedTasks.push(result);
+            this.updateStateFromResult(result);
+        }
+        if (snapshot.currentImage) this.state.currentImage = snapshot.currentImage;
+        if (snapshot.assets) this.state.assets = [...snapshot.assets];
     }
 
     /**
@@ -80,11 +127,6 @@ export class OrchestratorAgent {
     async parseIntent(userMessage: string): Promise<AgentTask[]> {
         this.emit("thinking", "Analyzing user request and planning agent tasks");
 
-        const model = this.client.getGenerativeModel({
-            model: "gemini-3-flash-preview",
-            systemInstruction: ORCHESTRATOR_SYSTEM_PROMPT,
-        });
-
         const prompt = `
 <user_request>
 ${userMessage}
@@ -105,25 +147,14 @@ Example format:
   { "role": "brand_analyst", "action": "extract_constitution", "params": {}, "priority": "high" },
   { "role": "creative_director", "action": "generate_asset", "params": { "prompt": "..." }, "priority": "normal", "dependsOn": [0] }
 ]
+When the request targets a platform, set "template" in the compliance_auditor params to a platform
+template id: ${Object.keys(PLATFORM_TEMPLATES).join(", ")}.
+When the user asks for a more reliable or double-checked audit, set "judges" in the compliance_auditor
+params to the number of independent judgments (3 is typical).
 </task>
 `;
 
         try {
-            const result = await model.generateContent({
-                contents: [{ role: "user", parts: [{ text: prompt }] }],
-                generationConfig: {
-                    responseMimeType: "application/json",
-                    // @ts-expect-error - Gemini 3 thinking config
-                    thinkingConfig: {
-                        includeThoughts: true,
-                        thinkingLevel: getAgentThinkingLevel("orchestrator"),
-                    },
-                    temperature: 1.0,
-                },
-            });
-
-            const text = result.response.text();
-
             // Parse JSON - dependsOn from AI might be numeric indices
             interface ParsedTask {
                 role: AgentRole;
@@ -132,7 +163,17 @@ Example format:
                 priority: "high" | "normal" | "low";
                 dependsOn?: number[];
             }
-            const tasks: ParsedTask[] = JSON.parse(text);
+
+            const result = await this.usage.track(() => this.provider.generateJson<ParsedTask[]>({
+                role: "orchestrator",
+                operation: "parse_intent",
+                systemInstruction: ORCHESTRATOR_SYSTEM_PROMPT,
+                parts: prompt,
+                includeThoughts: true,
+                thinkingLevel: getAgentThinkingLevel("orchestrator"),
+                temperature: 1.0,
+            }));
+            const tasks = result.data;
 
             // Add IDs and resolve dependencies
             const tasksWithIds: AgentTask[] = tasks.map((task) => ({
@@ -233,118 +274,162 @@ Example format:
     }
 
     /**
-     * Execute a task queue with dependency resolution
+     * Execute a task queue with dependency resolution.
+     * The plan is validated first (throws PlanValidationError).
+     * Aborting options.signal cancels queued tasks; finished results are kept.
+     * Tasks with a successful result from restore() are skipped.
+     * Ready tasks run concurrently within per-role and global limits;
+     * tasks whose dependencies failed are skipped. Results are returned
+     * in plan order regardless of completion order.
      */
-    async executeTaskQueue(tasks: AgentTask[]): Promise<AgentResult[]> {
+    async executeTaskQueue(
+        tasks: AgentTask[],
+        options: TaskQueueOptions = {}
+    ): Promise<AgentResult[]> {
+        assertValidPlan(tasks);
+
         this.state.taskQueue = [...tasks];
+        const planOrder = new Map(tasks.map((task, index) => [task.id, index]));
+        for (const task of tasks) this.planDependencies.set(task.id, task.dependsOn ?? []);
+        const slots = new RoleSlots({ ...AGENT_CONCURRENCY, ...options.concurrency });
+        this.slots = slots;
+        const maxParallel = options.maxParallel ?? MAX_PARALLEL_TASKS;
+
         const results: AgentResult[] = [];
         const completedIds = new Set<string>();
+        const failedIds = new Set<string>();
+        const running = new Map<string, { task: AgentTask; promise: Promise<void> }>();
+
+        // Tasks already completed (restored runs) are not run again
+        const priorResults = new Map(
+            this.state.completedTasks.filter((r) => r.success).map((r) => [r.taskId, r])
+        );
+        for (const task of tasks) {
+            const prior = priorResults.get(task.id);
+            if (!prior) continue;
+            this.state.taskQueue = this.state.taskQueue.filter((t) => t.id !== task.id);
+            results.push(prior);
+            completedIds.add(task.id);
+        }
+
+        while (this.state.taskQueue.length > 0 || running.size > 0) {
+            if (options.signal?.aborted) {
+                // Stop scheduling; running tasks fail fast through the aborted provider
+                for (const task of this.state.taskQueue) {
+                    const cancelled: AgentResult = {
+                        taskId: task.id,
+                        role: task.role,
+                        success: false,
+                        data: null,
+                        error: "Cancelled",
+                        duration: 0,
+                    };
+                    results.push(cancelled);
+                    this.state.completedTasks.push(cancelled);
+                }
+                this.state.taskQueue = [];
+                this.emit("error", "Run cancelled");
+                await Promise.all(Array.from(running.values()).map((entry) => entry.promise));
+                break;
+            }
 
-        while (this.state.taskQueue.length > 0) {
-            // Find tasks with satisfied dependencies
+            // Find tasks with satisfied dependencies, in plan order
             const readyTasks = this.state.taskQueue.filter(
                 (task) =>
                     !task.dependsOn ||
                     task.dependsOn.every((depId) => completedIds.has(depId))
             );
 
-            if (readyTasks.length === 0) {
-                // Deadlock - break with error
-                this.emit("error", "Task dependency deadlock detected");
-                break;
-            }
-
-            // Execute ready tasks (could parallelize independent tasks)
+            let skippedAny = false;
             for (const task of readyTasks) {
-                this.state.currentAgent = task.role;
-                this.emit("action", `Delegating to ${task.role}: ${task.action}`);
+                const index = planOrder.get(task.id) ?? 0;
+
+                // Skip tasks whose dependencies failed - their inputs do not exist
+                const failedDep = task.dependsOn?.find((depId) => failedIds.has(depId));
+                if (failedDep) {
+                    this.state.taskQueue = this.state.taskQueue.filter((t) => t.id !== task.id);
+                    const skipped: AgentResult = {
+                        taskId: task.id,
+                        role: task.role,
+                        success: false,
+                        data: null,
+                        error: `Skipped: dependency ${failedDep} failed`,
+                        duration: 0,
+                    };
+                    results.push(skipped);
+                    completedIds.add(task.id);
+                    failedIds.add(task.id);
+                    this.state.completedTasks.push(skipped);
+                    this.emit("error", `Skipped: ${task.role}`, { taskId: task.id, index, total: tasks.length, result: skipped }, task.role);
+                    skippedAny = true;
+                    continue;
+                }
 
-                const startTime = Date.now();
-                const result = await this.delegateToAgent(task);
-                result.duration = Date.now() - startTime;
+                if (running.size >= maxParallel) break;
+                if (!slots.available(task.role)) continue;
 
-                results.push(result);
-                completedIds.add(task.id);
-                this.state.completedTasks.push(result);
+                // Remove from queue and start
+                this.state.taskQueue = this.state.taskQueue.filter((t) => t.id !== task.id);
+                slots.take(task.role);
+                this.state.currentAgent = task.role;
 
-                // Remove from queue
-                this.state.taskQueue = this.state.taskQueue.filter(
-                    (t) => t.id !== task.id
+                this.emit(
+                    "action",
+                    `Delegating to ${task.role}: ${task.action}`,
+                    { taskId: task.id, index, total: tasks.length, parallel: running.size + 1 },
+                    task.role
                 );
 
-                // Update state based on result
-                this.updateStateFromResult(result);
+                const promise = this.delegateToAgent(task).then((result) => {
+                    running.delete(task.id);
+                    slots.release(task.role);
+                    results.push(result);
+                    completedIds.add(task.id);
+                    if (!result.success) failedIds.add(task.id);
+                    this.state.completedTasks.push(result);
+
+                    // Update state based on result
+                    this.updateStateFromResult(result);
+
+                    this.emit(
+                        result.success ? "result" : "error",
+                        result.success ? `Completed: ${task.role}` : `Failed: ${task.role}`,
+                        { taskId: task.id, index, total: tasks.length, result },
+                        task.role
+                    );
+                });
+                running.set(task.id, { task, promise });
+            }
+
+            if (running.size === 0) {
+                // Skipped tasks may have unblocked others - re-evaluate before giving up
+                if (skippedAny) continue;
+
+                // Deadlock - nothing running and nothing can start
+                this.emit("error", "Task dependency deadlock detected");
+                break;
             }
+
+            // Wait for any running task to finish or a slot to free up, then re-evaluate the queue
+            await Promise.race([...Array.from(running.values()).map((entry) => entry.promise), slots.changed()]);
         }
 
         this.state.currentAgent = null;
-        return results;
+        return results.sort(
+            (a, b) => (planOrder.get(a.taskId) ?? 0) - (planOrder.get(b.taskId) ?? 0)
+        );
     }
 
     /**
-     * Delegate a task to a specialized agent
-     * This is a dispatcher - actual agent logic is in respective files
+     * Delegate a task to a specialized agent.
+     * Model usage is metered per task and counted toward the run.
      */
     async delegateToAgent(task: AgentTask): Promise<AgentResult> {
         const startTime = Date.now();
-        const apiKey = process.env.GEMINI_API_KEY!;
+        const taskUsage = new UsageMeter();
 
         try {
-            let result: unknown;
-
-            switch (task.role) {
-                case "brand_analyst": {
-                    const { BrandAnalystAgent } = await import("./brand-analyst");
-                    const agent = new BrandAnalystAgent(apiKey);
-                    result = await agent.extractConstitution(this.state.canvasElements || []);
-                    break;
-                }
-                case "creative_director": {
-                    const { CreativeDirectorAgent } = await import("./creative-director");
-                    const agent = new CreativeDirectorAgent(apiKey);
-                    const prompt = (task.params.prompt as string) || "";
-                    const variations = (task.params.variations as number) || 1;
-
-                    if (variations > 1) {
-                        // Variation logic could go here or inside the agent
-                        result = await agent.generateAsset(prompt, this.state.constitution);
-                    } else {
-                        result = await agent.generateAsset(prompt, this.state.constitution);
-                    }
-                    // Extract data from AgentResult since agent.generateAsset returns AgentResult
-                    const agentRes = result as AgentResult;
-                    if (!agentRes.success) throw new Error(agentRes.error);
-                    result = agentRes.data;
-                    break;
-                }
-                case "compliance_auditor": {
-                    const { ComplianceAuditorAgent } = await import("./compliance-auditor");
-                    const agent = new ComplianceAuditorAgent(apiKey);
-                    if (!this.state.currentImage) throw new Error("No image to audit");
-                    if (!this.state.constitution) throw new Error("No constitution for audit");
-
-                    const auditRes = await agent.auditAsset(this.state.currentImage, this.state.constitution);
-                    if (!auditRes.success) throw new Error(auditRes.error);
-                    result = auditRes.data;
-                    break;
-                }
-                case "trend_scout": {
-                    const { TrendScoutAgent } = await import("./trend-scout");
-                    const agent = new TrendScoutAgent(apiKey);
-                    const query = (task.params.query as string) || "";
-                    result = await agent.researchTrends(query);
-                    break;
-                }
-                case "context_memory": {
-                    const { getContextMemory } = await import("./context-memory");
-                    const agent = getContextMemory();
-                    // Implementation depends on specific context actions (save, load, context summary)
-                    result = { action: task.action, status: "completed" };
-                    break;
-                }
-                default:
-                    throw new Error(`Unknown agent role: ${task.role}`);
-            }
+            const result = await this.usage.track(() => taskUsage.track(() => this.runAgent(task)));
 
             return {
                 taskId: task.id,
@@ -352,6 +437,7 @@ Example format:
                 success: true,
                 data: result,
                 duration: Date.now() - startTime,
+                usage: taskUsage.summary(),
             };
         } catch (error) {
             return {
@@ -361,10 +447,249 @@ Example format:
                 data: null,
                 error: error instanceof Error ? error.message : "Unknown error",
                 duration: Date.now() - startTime,
+                usage: taskUsage.summary(),
             };
         }
     }
 
+    /**
+     * Dispatch a task - actual agent logic is in respective files
+     */
+    private async runAgent(task: AgentTask): Promise<unknown> {
+        let result: unknown;
+
+        switch (task.role) {
+            case "brand_analyst": {
+                const { BrandAnalystAgent } = await import("./brand-analyst");
+                const agent = new BrandAnalystAgent(this.provider);
+                result = await agent.extractConstitution(this.state.canvasElements || []);
+                break;
+            }
+            case "creative_director": {
+                const { CreativeDirectorAgent } = await import("./creative-director");
+                const agent = new CreativeDirectorAgent(this.provider);
+                const prompt = (task.params.prompt as string) || "";
+                const variations = (task.params.variations as number) || 1;
+                const imageSize = toImageSize(task.params.imageSize) ?? DEFAULT_IMAGE_SIZE;
+
+                // Budgets are checked before anything is spent
+                await this.budget?.reserveImage(imageSize);
+                if (variations > 1) {
+                    // Variation logic could go here or inside the agent
+                    result = await agent.generateAsset(prompt, this.state.constitution, { imageSize });
+                } else {
+                    result = await agent.generateAsset(prompt, this.state.constitution, { imageSize });
+                }
+                // Extract data from AgentResult since agent.generateAsset returns AgentResult
+                const agentRes = result as AgentResult;
+                if (!agentRes.success) throw new Error(agentRes.error);
+                result = { ...(agentRes.data as Record<string, unknown>), sourcePrompt: prompt, imageSize };
+                break;
+            }
+            case "compliance_auditor": {
+                result = await this.auditWithRefinement(task, this.resolveAuditInput(task));
+                break;
+            }
+            case "trend_scout": {
+                const { TrendScoutAgent } = await import("./trend-scout");
+                const agent = new TrendScoutAgent(this.provider);
+                const query = (task.params.query as string) || "";
+                result = await agent.researchTrends(query);
+                break;
+            }
+            case "context_memory": {
+                const { getContextMemory } = await import("./context-memory");
+                const agent = getContextMemory();
+                // Implementation depends on specific context actions (save, load, context summary)
+                result = { action: task.action, status: "completed" };
+                break;
+            }
+            default:
+                throw new Error(`Unknown agent role: ${task.role}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * The image an audit task works on: the one generated by the closest
+     * creative_director task it depends on, or the current image for audits
+     * of an existing image. It comes from the dependency's result rather
+     * than shared state, so a generation running alongside can't swap it.
+     */
+    private resolveAuditInput(task: AgentTask): GeneratedImage {
+        const results = new Map(this.state.completedTasks.filter((r) => r.success).map((r) => [r.taskId, r]));
+        const seen = new Set<string>();
+
+        // Breadth-first, so the closest generation wins
+        let frontier = task.dependsOn ?? [];
+        while (frontier.length > 0) {
+            const next: string[] = [];
+            for (const id of frontier) {
+                if (seen.has(id)) continue;
+                seen.add(id);
+                const result = results.get(id);
+                const data = result?.data as Record<string, unknown> | null | undefined;
+                if (result?.role === "creative_director" && typeof data?.image === "string") {
+                    // A generation's usage goes on one asset, however many audits read it
+                    const usage = this.attributedGenerations.has(id) ? null : result.usage ?? null;
+                    this.attributedGenerations.add(id);
+                    return {
+                        image: data.image,
+                        prompt: typeof data.sourcePrompt === "string" ? data.sourcePrompt : "",
+                        imageSize: toImageSize(data.imageSize) ?? DEFAULT_IMAGE_SIZE,
+                        usage,
+                    };
+                }
+                next.push(...(this.planDependencies.get(id) ?? []));
+            }
+            frontier = next;
+        }
+
+        if (!this.state.currentImage) throw new Error("No image to audit");
+        return { image: this.state.currentImage, prompt: "", imageSize: DEFAULT_IMAGE_SIZE, usage: null };
+    }
+
+    /**
+     * Closed loop: audit `input` and, while it fails, feed the violations
+     * into CreativeDirectorAgent.refinePrompt and regenerate at the same size.
+     * Every attempt is recorded as an Asset, with the usage spent generating
+     * and auditing it; the best-scoring image becomes the current image.
+     * A borderline or low-confidence best attempt goes to the review queue.
+     */
+    private async auditWithRefinement(task: AgentTask, input: GeneratedImage): Promise<AuditResult & {
+        attempts: number;
+        best_attempt: number;
+    }> {
+        const { ComplianceAuditorAgent, createAuditJudges } = await import("./compliance-auditor");
+        const { CreativeDirectorAgent } = await import("./creative-director");
+        const auditor = new ComplianceAuditorAgent(this.provider);
+        const director = new CreativeDirectorAgent(this.provider);
+
+        if (!this.state.constitution) throw new Error("No constitution for audit");
+        const constitution = this.state.constitution;
+        const { imageSize } = input;
+
+        const maxAttempts = Math.max(1, Number(task.params.maxAttempts) || MAX_GENERATION_ATTEMPTS);
+        auditor.setPolicy(this.state.auditPolicy);
+        if (typeof task.params.passThreshold === "number") {
+            auditor.setPassThreshold(task.params.passThreshold);
+        }
+        // Text size and legibility are judged for the target platform
+        const template = typeof task.params.template === "string" && task.params.template
+            ? getTemplate(task.params.template)
+            : undefined;
+        // Several independent judgments when asked for (or AI_AUDIT_JUDGES is set)
+        const judges = createAuditJudges(typeof task.params.judges === "number" ? task.params.judges : undefined);
+
+        let image = input.image;
+        let prompt = input.prompt;
+        let generationUsage = input.usage;
+        let best: { audit: AuditResult; image: string; asset: Asset } | null = null;
+        let attempts = 0;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const auditRes = await auditor.auditAsset(image, constitution, { template, judges });
+            if (!auditRes.success) throw new Error(auditRes.error);
+            const audit = auditRes.data as AuditResult;
+            const feedback = audit.fix_instructions;
+            const usage = mergeUsage(generationUsage, auditRes.usage);
+            attempts++;
+
+            // Numbered as recorded, so attempts of concurrent audits never share a number
+            const asset = this.createAttemptAsset(image, audit, this.state.assets.length + 1, usage);
+            this.state.assets.push(asset);
+            if (!best || audit.compliance_score > best.audit.compliance_score) {
+                best = { audit, image, asset };
+            }
+
+            const confidence = audit.confidence;
+            this.emit(
+                "thinking",
+                `Attempt ${attempt}/${maxAttempts}: score ${audit.compliance_score} (${audit.pass ? "pass" : "fail"})` +
+                (confidence ? `, ${Math.round(confidence.confidence * 100)}% confidence across ${confidence.judgments.length} judges` +
+                    (confidence.needs_review ? " - needs human review" : "") : ""),
+                {
+                    taskId: task.id,
+                    attempt: asset.attempt_number,
+                    score: audit.compliance_score,
+                    pass: audit.pass,
+                    ...(confidence ? { confidence: confidence.confidence, needsReview: confidence.needs_review } : {}),
+                },
+                "compliance_auditor"
+            );
+
+            if (audit.pass || attempt === maxAttempts) break;
+
+            // Regenerate from the refined prompt; keep the best attempt if this fails.
+            // A regeneration is creative_director work and waits for one of its slots.
+            const regenerationUsage = new UsageMeter();
+            try {
+                await this.slots.run("creative_director", () => regenerationUsage.track(async () => {
+                    prompt = await director.refinePrompt(prompt, feedback, constitution);
+                    this.emit("thinking", `Refining prompt for attempt ${attempt + 1}/${maxAttempts}`, {
+                        taskId: task.id,
+                    }, "creative_director");
+
+                    await this.budget?.reserveImage(imageSize);
+                    const generation = await director.generateAsset(prompt, constitution, { imageSize });
+                    if (!generation.success) throw new Error(generation.error);
+                    image = (generation.data as { image: string }).image;
+                }));
+                generationUsage = regenerationUsage.summary();
+            } catch (error) {
+                const message = error instanceof Error ? error.message : "Unknown error";
+                this.emit("error", `Regeneration failed: ${message}`, { taskId: task.id }, "creative_director");
+                break;
+            }
+        }
+
+        this.state.currentImage = best!.image;
+
+        const bestAttempt = best!.asset.attempt_number!;
+        const reviewReasons = getReviewReasons(best!.audit, auditor.getPolicy());
+        if (reviewReasons.length > 0) {
+            best!.asset.status = "IN_REVIEW";
+            best!.asset.review_reasons = reviewReasons;
+            this.emit("thinking", `Sent attempt ${bestAttempt} for human review: ${reviewReasons.join("; ")}`, {
+                taskId: task.id,
+                attempt: bestAttempt,
+                reviewReasons,
+            }, "compliance_auditor");
+        }
+
+        return {
+            ...best!.audit,
+            attempts,
+            best_attempt: bestAttempt,
+        };
+    }
+
+    /**
+     * Record one generate → audit attempt
+     */
+    private createAttemptAsset(
+        image: string,
+        audit: AuditResult,
+        attemptNumber: number,
+        usage: UsageSummary
+    ): Asset {
+        const now = Date.now();
+        return {
+            id: generateAssetId(),
+            campaign_id: this.state.sessionId,
+            status: audit.pass ? "APPROVED" : "REJECTED",
+            image_url: `data:image/png;base64,${image}`,
+            risk_score: 100 - audit.compliance_score,
+            sentinel_feedback: audit.fix_instructions,
+            audit_result: audit,
+            attempt_number: attemptNumber,
+            usage,
+            created_at: now,
+            updated_at: now,
+        };
+    }
+
     /**
      * Update orchestration state based on agent result
      */
@@ -376,10 +701,12 @@ Example format:
         switch (result.role) {
             case "brand_analyst":
                 if (data && typeof data === "object") {
-                    this.state.constitution = data as unknown as BrandConstitution;
+                    // Re-analysis only changes the fields that aren't locked
+                    this.state.constitution = applyFieldLocks(data as unknown as BrandConstitution, this.state.constitution);
                 }
                 break;
             case "creative_director":
+                // Audits read their image from this result; currentImage is the run's latest
                 if (data && data.image) {
                     this.state.currentImage = data.image as string;
                 }
@@ -390,6 +717,13 @@ Example format:
         }
     }
 
+    /**
+     * Model usage of the run so far: planning plus every delegated task
+     */
+    getUsage(): UsageSummary {
+        return this.usage.summary();
+    }
+
     /**
      * Get current orchestration state
      */
@@ -432,15 +766,73 @@ Example format:
     }
 }
 
+/**
+ * How many tasks of each role are running, against the role's limit
+ */
+class RoleSlots {
+    private active = new Map<AgentRole, number>();
+    private waiters: (() => void)[] = [];
+
+    constructor(private limits: Record<AgentRole, number>) {}
+
+    available(role: AgentRole): boolean {
+        return (this.active.get(role) ?? 0) < (this.limits[role] ?? 1);
+    }
+
+    take(role: AgentRole): void {
+        this.active.set(role, (this.active.get(role) ?? 0) + 1);
+    }
+
+    release(role: AgentRole): void {
+        this.active.set(role, (this.active.get(role) ?? 1) - 1);
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach((resolve) => resolve());
+    }
+
+    /** Resolves the next time a slot is released */
+    changed(): Promise<void> {
+        return new Promise((resolve) => this.waiters.push(resolve));
+    }
+
+    /** Run `fn` in a slot of `role`, waiting for one to free up */
+    async run<T>(role: AgentRole, fn: () => Promise<T>): Promise<T> {
+        while (!this.available(role)) await this.changed();
+        this.take(role);
+        try {
+            return await fn();
+        } finally {
+            this.release(role);
+        }
+    }
+}
+
+/**
+ * An image to audit, with what's needed to regenerate it
+ */
+interface GeneratedImage {
+    image: string;
+    /** Prompt it was generated from; refined when it fails */
+    prompt: string;
+    imageSize: ImageSize;
+    /** Spent generating it, not yet on an asset */
+    usage: UsageSummary | null;
+}
+
+/**
+ * Image size from task params; undefined when it isn't a valid size
+ */
+function toImageSize(value: unknown): ImageSize | undefined {
+    return value === "1K" || value === "2K" || value === "4K" ? value : undefined;
+}
+
 // ============ FACTORY FUNCTION ============
 
 /**
- * Create an orchestrator agent instance
+ * Create an orchestrator agent instance.
+ * Every model call made during the run honors the optional signal, and
+ * image generation is checked against the optional budget.
  */
-export function createOrchestratorAgent(): OrchestratorAgent {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    return new OrchestratorAgent(apiKey);
+export function createOrchestratorAgent(signal?: AbortSignal, budget?: BudgetGuard): OrchestratorAgent {
+    return new OrchestratorAgent(withAbortSignal(getModelProvider(), signal), budget);
 }
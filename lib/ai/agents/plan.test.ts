@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { assertValidPlan, normalizePlan, validatePlan, PlanValidationError } from "./plan";
+import type { AgentRole, AgentTask } from "./types";
+
+function task(id: string, role: AgentRole, dependsOn?: string[]): AgentTask {
+    return { id, role, action: role, params: {}, priority: "normal", dependsOn };
+}
+
+const VALID_PLAN = [
+    task("analyze", "brand_analyst"),
+    task("generate", "creative_director", ["analyze"]),
+    task("audit", "compliance_auditor", ["generate"]),
+];
+
+function issueCodes(tasks: AgentTask[]) {
+    return validatePlan(tasks).issues.map((issue) => issue.code);
+}
+
+describe("validatePlan", () => {
+    it("accepts a generate → audit DAG", () => {
+        expect(validatePlan(VALID_PLAN)).toEqual({ valid: true, issues: [] });
+    });
+
+    it("rejects an empty plan", () => {
+        expect(issueCodes([])).toEqual(["empty_plan"]);
+    });
+
+    it("reports duplicate ids, unknown roles and roles that can't be delegated", () => {
+        expect(issueCodes([
+            task("a", "brand_analyst"),
+            task("a", "trend_scout"),
+            task("b", "designer" as AgentRole),
+            task("c", "export_optimizer"),
+        ])).toEqual(["duplicate_id", "unknown_role", "unsupported_role"]);
+    });
+
+    it("reports unknown and self dependencies", () => {
+        const { issues } = validatePlan([task("a", "brand_analyst", ["a", "pending_4", "ghost"])]);
+        expect(issues.map((issue) => issue.code)).toEqual(["self_dependency", "unknown_dependency", "unknown_dependency"]);
+        expect(issues[1].message).toContain("task index 4");
+    });
+
+    it("reports a cycle with its path", () => {
+        const { issues } = validatePlan([
+            task("a", "brand_analyst", ["c"]),
+            task("b", "trend_scout", ["a"]),
+            task("c", "context_memory", ["b"]),
+        ]);
+        expect(issues).toHaveLength(1);
+        expect(issues[0].code).toBe("cycle");
+        expect(issues[0].related).toEqual(["a", "c", "b", "a"]);
+    });
+
+    it("requires audits to depend, transitively, on a generation", () => {
+        expect(issueCodes([
+            task("generate", "creative_director"),
+            task("audit", "compliance_auditor"),
+        ])).toEqual(["audit_before_generation"]);
+
+        expect(issueCodes([
+            task("generate", "creative_director"),
+            task("memory", "context_memory", ["generate"]),
+            task("audit", "compliance_auditor", ["memory"]),
+        ])).toEqual([]);
+    });
+
+    it("allows audits of an existing image when nothing is generated", () => {
+        expect(issueCodes([task("audit", "compliance_auditor")])).toEqual([]);
+    });
+});
+
+describe("assertValidPlan", () => {
+    it("throws every issue at once", () => {
+        const plan = [task("a", "brand_analyst", ["a"]), task("a", "trend_scout")];
+        expect(() => assertValidPlan(plan)).toThrow(PlanValidationError);
+        try {
+            assertValidPlan(plan);
+        } catch (error) {
+            expect((error as PlanValidationError).issues.map((issue) => issue.code))
+                .toEqual(["duplicate_id", "self_dependency"]);
+        }
+    });
+});
+
+describe("normalizePlan", () => {
+    it("fills in defaults and drops empty dependency lists", () => {
+        expect(normalizePlan([
+            { id: "a", role: "brand_analyst" },
+            { id: "b", role: "creative_director", priority: "urgent", dependsOn: [], params: { prompt: "x" } },
+            { id: "c", role: "compliance_auditor", action: "audit", priority: "high", dependsOn: ["b"] },
+        ])).toEqual([
+            { id: "a", role: "brand_analyst", action: "", params: {}, priority: "normal", dependsOn: undefined },
+            { id: "b", role: "creative_director", action: "", params: { prompt: "x" }, priority: "normal", dependsOn: undefined },
+            { id: "c", role: "compliance_auditor", action: "audit", params: {}, priority: "high", dependsOn: ["b"] },
+        ]);
+    });
+
+    it("rejects anything that isn't a list of tasks", () => {
+        expect(() => normalizePlan({ id: "a" })).toThrow(PlanValidationError);
+        expect(() => normalizePlan([{ id: 1, role: "brand_analyst" }])).toThrow("needs a string id and role");
+        expect(() => normalizePlan([{ id: "a", role: "brand_analyst", params: [] }])).toThrow("params must be an object");
+    });
+});
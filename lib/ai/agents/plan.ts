@@ -0,0 +1,260 @@
+/**
+ * Plan Validation
+ *
+ * Checks an AgentTask[] before execution so the scheduler only ever sees a
+ * well-formed DAG. Applies equally to AI-produced and hand-edited plans;
+ * plans arriving from clients go through normalizePlan first.
+ */
+
+import type { AgentRole, AgentTask } from "./types";
+
+// ============ TYPES ============
+
+export type PlanIssueCode =
+    | "empty_plan"
+    | "malformed_task"
+    | "duplicate_id"
+    | "unknown_role"
+    | "unsupported_role"
+    | "unknown_dependency"
+    | "self_dependency"
+    | "cycle"
+    | "audit_before_generation";
+
+export interface PlanIssue {
+    code: PlanIssueCode;
+    message: string;
+    taskId?: string;
+    /** Task ids involved (e.g. the cycle path) */
+    related?: string[];
+}
+
+export interface PlanValidationResult {
+    valid: boolean;
+    issues: PlanIssue[];
+}
+
+/**
+ * Thrown when a plan fails validation; carries every issue found
+ */
+export class PlanValidationError extends Error {
+    constructor(public issues: PlanIssue[]) {
+        super(`Invalid plan: ${issues.map((issue) => issue.message).join("; ")}`);
+        this.name = "PlanValidationError";
+    }
+}
+
+// ============ ROLES ============
+
+const KNOWN_ROLES: AgentRole[] = [
+    "orchestrator",
+    "brand_analyst",
+    "creative_director",
+    "compliance_auditor",
+    "trend_scout",
+    "context_memory",
+    "export_optimizer",
+];
+
+/**
+ * Roles the orchestrator can delegate to
+ */
+export const EXECUTABLE_ROLES: AgentRole[] = [
+    "brand_analyst",
+    "creative_director",
+    "compliance_auditor",
+    "trend_scout",
+    "context_memory",
+];
+
+// ============ VALIDATION ============
+
+/**
+ * Find one cycle in the dependency graph, returned as a task id path
+ */
+function findCycle(tasks: AgentTask[]): string[] | null {
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+        if (visiting.has(id)) {
+            return [...stack.slice(stack.indexOf(id)), id];
+        }
+        if (visited.has(id)) return null;
+
+        visiting.add(id);
+        stack.push(id);
+        for (const dep of byId.get(id)?.dependsOn || []) {
+            if (!byId.has(dep) || dep === id) continue;
+            const cycle = visit(dep);
+            if (cycle) return cycle;
+        }
+        stack.pop();
+        visiting.delete(id);
+        visited.add(id);
+        return null;
+    };
+
+    for (const task of tasks) {
+        const cycle = visit(task.id);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+/**
+ * Collect all transitive dependencies of a task
+ */
+function ancestorsOf(task: AgentTask, byId: Map<string, AgentTask>): Set<string> {
+    const ancestors = new Set<string>();
+    const pending = [...(task.dependsOn || [])];
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (ancestors.has(id) || !byId.has(id)) continue;
+        ancestors.add(id);
+        pending.push(...(byId.get(id)!.dependsOn || []));
+    }
+    return ancestors;
+}
+
+/**
+ * Validate a task plan: ids, roles, dependency references, cycles and
+ * generate-before-audit ordering
+ */
+export function validatePlan(tasks: AgentTask[]): PlanValidationResult {
+    const issues: PlanIssue[] = [];
+
+    if (tasks.length === 0) {
+        issues.push({ code: "empty_plan", message: "Plan contains no tasks" });
+        return { valid: false, issues };
+    }
+
+    const seen = new Set<string>();
+    for (const task of tasks) {
+        if (seen.has(task.id)) {
+            issues.push({ code: "duplicate_id", taskId: task.id, message: `Duplicate task id ${task.id}` });
+        }
+        seen.add(task.id);
+    }
+
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+
+    for (const task of tasks) {
+        if (!KNOWN_ROLES.includes(task.role)) {
+            issues.push({
+                code: "unknown_role",
+                taskId: task.id,
+                message: `Task ${task.id} has unknown role "${task.role}"`,
+            });
+        } else if (!EXECUTABLE_ROLES.includes(task.role)) {
+            issues.push({
+                code: "unsupported_role",
+                taskId: task.id,
+                message: `Task ${task.id} uses role "${task.role}", which cannot be delegated`,
+            });
+        }
+
+        for (const dep of task.dependsOn || []) {
+            if (dep === task.id) {
+                issues.push({
+                    code: "self_dependency",
+                    taskId: task.id,
+                    message: `Task ${task.id} depends on itself`,
+                });
+            } else if (!byId.has(dep)) {
+                issues.push({
+                    code: "unknown_dependency",
+                    taskId: task.id,
+                    related: [dep],
+                    message: dep.startsWith("pending_")
+                        ? `Task ${task.id} depends on task index ${dep.replace("pending_", "")}, which does not exist`
+                        : `Task ${task.id} depends on unknown task ${dep}`,
+                });
+            }
+        }
+    }
+
+    const cycle = findCycle(tasks);
+    if (cycle) {
+        issues.push({
+            code: "cycle",
+            taskId: cycle[0],
+            related: cycle,
+            message: `Dependency cycle: ${cycle.join(" → ")}`,
+        });
+    }
+
+    // An audit must come after the image it checks
+    const hasGeneration = tasks.some((task) => task.role === "creative_director");
+    if (hasGeneration && !cycle) {
+        for (const task of tasks.filter((t) => t.role === "compliance_auditor")) {
+            const ancestors = ancestorsOf(task, byId);
+            const auditsGeneratedImage = Array.from(ancestors).some(
+                (id) => byId.get(id)?.role === "creative_director"
+            );
+            if (!auditsGeneratedImage) {
+                issues.push({
+                    code: "audit_before_generation",
+                    taskId: task.id,
+                    message: `Audit task ${task.id} does not depend on any creative_director task`,
+                });
+            }
+        }
+    }
+
+    return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Validate and throw a PlanValidationError on failure
+ */
+export function assertValidPlan(tasks: AgentTask[]): void {
+    const { valid, issues } = validatePlan(tasks);
+    if (!valid) {
+        throw new PlanValidationError(issues);
+    }
+}
+
+/**
+ * Coerce an untrusted plan (e.g. edited in the dashboard) into AgentTask[].
+ * Throws a PlanValidationError for entries that aren't tasks; run
+ * validatePlan on the result for graph rules.
+ */
+export function normalizePlan(input: unknown): AgentTask[] {
+    if (!Array.isArray(input)) {
+        throw new PlanValidationError([{ code: "malformed_task", message: "Plan must be an array of tasks" }]);
+    }
+
+    const issues: PlanIssue[] = [];
+    const tasks: AgentTask[] = [];
+
+    input.forEach((raw, index) => {
+        const task = raw as Partial<AgentTask> | null;
+        if (!task || typeof task !== "object" || typeof task.id !== "string" || typeof task.role !== "string") {
+            issues.push({ code: "malformed_task", message: `Task ${index} needs a string id and role` });
+            return;
+        }
+        if (task.params !== undefined && (typeof task.params !== "object" || task.params === null || Array.isArray(task.params))) {
+            issues.push({ code: "malformed_task", taskId: task.id, message: `Task ${task.id} params must be an object` });
+            return;
+        }
+
+        tasks.push({
+            id: task.id,
+            role: task.role,
+            action: typeof task.action === "string" ? task.action : "",
+            params: task.params || {},
+            priority: task.priority === "high" || task.priority === "low" ? task.priority : "normal",
+            dependsOn: Array.isArray(task.dependsOn) && task.dependsOn.length > 0
+                ? task.dependsOn.map(String)
+                : undefined,
+        });
+    });
+
+    if (issues.length > 0) {
+        throw new PlanValidationError(issues);
+    }
+    return tasks;
+}
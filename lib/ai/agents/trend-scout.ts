@@ -2,28 +2,41 @@
  * Trend Scout Agent
  * 
  * Specialized agent that uses Google Search grounding to find current trends.
- * Uses gemini-3-flash-preview with google_search tool.
+ * Uses the provider's search-grounded model (gemini-3-flash-preview by default).
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { TREND_SCOUT_SYSTEM_PROMPT, getAgentThinkingLevel } from "./types";
+import { extractJson, getModelProvider, type ModelProvider } from "../providers";
+import { TREND_SCOUT_SYSTEM_PROMPT } from "./types";
+
+// ============ TYPES ============
+
+export interface PlatformTrend {
+    platform: string;
+    trending_styles: string[];
+    trending_colors: string[];
+    trending_formats: string[];
+}
+
+export interface TrendResearch {
+    platform_trends: PlatformTrend[];
+    competitor_insights: { observation: string; opportunity: string }[];
+    seasonal_relevance: string[];
+    recommendation: string;
+}
+
+// ============ TREND SCOUT AGENT ============
 
 export class TrendScoutAgent {
-    private client: GoogleGenerativeAI;
+    private provider: ModelProvider;
 
-    constructor(apiKey: string) {
-        this.client = new GoogleGenerativeAI(apiKey);
+    constructor(provider: ModelProvider) {
+        this.provider = provider;
     }
 
     /**
      * Research trends via Google Search grounding
      */
-    async researchTrends(query: string): Promise<any> {
-        const model = this.client.getGenerativeModel({
-            model: "gemini-3-flash-preview",
-            tools: [{ googleSearch: {} }] as any,
-        });
-
+    async researchTrends(query: string): Promise<TrendResearch> {
         const prompt = `
 <task>
 Research current trends and platform-specific insights related to: "${query}"
@@ -34,25 +47,29 @@ ${TREND_SCOUT_SYSTEM_PROMPT}
 `;
 
         try {
-            const result = await model.generateContent({
-                contents: [{ role: "user", parts: [{ text: prompt }] }],
-                generationConfig: {
-                    responseMimeType: "application/json",
-                    temperature: 0.7,
-                },
+            const result = await this.provider.searchGrounded({
+                role: "trend_scout",
+                operation: "research_trends",
+                parts: prompt,
+                temperature: 0.7,
             });
 
-            const text = result.response.text();
-            return JSON.parse(text);
+            return extractJson(result.text) as TrendResearch;
         } catch (error) {
             console.error("Trend research error:", error);
             // Return fallback trends if grounding fails
             return {
                 platform_trends: [],
                 competitor_insights: [],
-                seasonal_relevance: "Unable to fetch real-time data.",
+                seasonal_relevance: ["Unable to fetch real-time data."],
                 recommendation: "Focus on clean, high-contrast visual styles."
             };
         }
     }
 }
+
+// ============ FACTORY FUNCTION ============
+
+export function createTrendScoutAgent(): TrendScoutAgent {
+    return new TrendScoutAgent(getModelProvider());
+}
@@ -12,7 +12,7 @@
  * - Export Optimizer Agent
  */
 
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
+import { DEFAULT_AUDIT_POLICY, type Asset, type AuditPolicy, type BrandConstitution, type CanvasElement, type UsageSummary } from "@/lib/types";
 
 // ============ THINKING LEVELS ============
 
@@ -39,6 +39,40 @@ export const AGENT_THINKING_LEVELS: Record<string, ThinkingLevel> = {
     export_optimizer: "low",     // Straightforward formatting
 };
 
+// ============ CONCURRENCY ============
+
+/**
+ * Max tasks of each role that may run at the same time in executeTaskQueue;
+ * an audit's regenerations take a creative_director slot too. Tasks of
+ * different roles run side by side: audits read their image from the
+ * generating task's result, not shared state. Generation and analysis stay
+ * serial to pace image spend and constitution rewrites; read-only research
+ * and formatting can fan out.
+ */
+export const AGENT_CONCURRENCY: Record<AgentRole, number> = {
+    orchestrator: 1,
+    brand_analyst: 1,
+    creative_director: 1,
+    compliance_auditor: 1,
+    trend_scout: 2,
+    context_memory: 1,
+    export_optimizer: 2,
+};
+
+/**
+ * Max tasks running at once across all roles
+ */
+export const MAX_PARALLEL_TASKS = 3;
+
+// ============ REFINEMENT LOOP ============
+
+/**
+ * Generate → audit → refine budget for an audit task.
+ * Override per task with params.maxAttempts / params.passThreshold (which
+ * replaces the audit policy's approve band).
+ */
+export const MAX_GENERATION_ATTEMPTS = 3;
+
 // ============ AGENT TYPES ============
 
 /**
@@ -76,6 +110,17 @@ export interface AgentResult {
     thinking?: string;
     error?: string;
     duration: number; // ms
+    usage?: UsageSummary; // Model usage of this task
+}
+
+/**
+ * Scheduling options for executeTaskQueue
+ */
+export interface TaskQueueOptions {
+    concurrency?: Partial<Record<AgentRole, number>>;
+    maxParallel?: number;
+    /** Stops scheduling new tasks once aborted */
+    signal?: AbortSignal;
 }
 
 /**
@@ -88,7 +133,9 @@ export interface OrchestrationState {
     taskQueue: AgentTask[];
     completedTasks: AgentResult[];
     constitution: BrandConstitution | null;
-    currentImage: string | null;
+    auditPolicy: AuditPolicy; // The brand's, or the default
+    currentImage: string | null; // Latest generated or best audited image - the run's output
+    assets: Asset[]; // Every generate → audit attempt, in order
     thoughtSignatures: Map<string, string>; // Preserve for Gemini 3
     canvasElements?: CanvasElement[];
 }
@@ -286,6 +333,13 @@ export function generateTaskId(): string {
     return `task_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Generate unique asset ID
+ */
+export function generateAssetId(): string {
+    return `asset_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
 /**
  * Create initial orchestration state
  */
@@ -297,7 +351,9 @@ export function createOrchestrationState(): OrchestrationState {
         taskQueue: [],
         completedTasks: [],
         constitution: null,
+        auditPolicy: DEFAULT_AUDIT_POLICY,
         currentImage: null,
+        assets: [],
         thoughtSignatures: new Map(),
     };
 }
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { analyzeAccessibility, contrastRatio, relativeLuminance } from "./accessibility";
+import type { Rgb } from "./color";
+import type { RawImage } from "./image";
+import type { BoundingBox } from "@/lib/types";
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+const LIGHT_GRAY: Rgb = [210, 210, 210];
+
+/**
+ * A 100x100 white image with `color` text strokes (every other column) in each box
+ */
+function textImage(boxes: BoundingBox[], color: Rgb = BLACK): RawImage {
+    const data = new Uint8Array(100 * 100 * 3).fill(255);
+    for (const box of boxes) {
+        for (let y = box.y; y < box.y + box.height; y++) {
+            for (let x = box.x; x < box.x + box.width; x += 2) {
+                data.set(color, (y * 100 + x) * 3);
+            }
+        }
+    }
+    return { width: 100, height: 100, data };
+}
+
+const SQUARE = { width: 1080, height: 1080 };
+
+describe("contrastRatio", () => {
+    it("follows WCAG: 21:1 for black on white, 1:1 for a color on itself", () => {
+        expect(contrastRatio(relativeLuminance(BLACK), relativeLuminance(WHITE))).toBe(21);
+        expect(contrastRatio(relativeLuminance(WHITE), relativeLuminance(BLACK))).toBe(21);
+        expect(contrastRatio(0.5, 0.5)).toBe(1);
+    });
+});
+
+describe("analyzeAccessibility", () => {
+    it("passes large, dark text on a light background", () => {
+        const box = { x: 10, y: 10, width: 60, height: 10 };
+
+        const { analysis, violations } = analyzeAccessibility(textImage([box]), [{ text: "SUMMER SALE", box }], SQUARE);
+
+        expect(violations).toEqual([]);
+        expect(analysis.elements).toEqual([{
+            text: "SUMMER SALE",
+            box,
+            contrast_ratio: 21,
+            required_ratio: 3,
+            text_height_px: 108,
+            min_text_height_px: 43,
+            preview_height_px: 36,
+            legibility: 100,
+        }]);
+        expect(analysis).toMatchObject({ mobile_legibility: 100, score: 100, preview_width: 360, template_id: null });
+    });
+
+    it("flags low contrast as critical and suggests the better text color", () => {
+        const box = { x: 10, y: 10, width: 60, height: 10 };
+
+        const { analysis, violations } = analyzeAccessibility(textImage([box], LIGHT_GRAY), [{ text: "Faint", box }], SQUARE);
+
+        expect(analysis.elements[0].contrast_ratio).toBeLessThan(3);
+        expect(violations).toEqual([expect.objectContaining({
+            category: "accessibility",
+            severity: "critical",
+            suggestion: expect.stringContaining("Use black text"),
+            box,
+        })]);
+    });
+
+    it("flags text below the minimum height of the published size", () => {
+        const box = { x: 10, y: 10, width: 60, height: 2 };
+
+        const { analysis, violations } = analyzeAccessibility(textImage([box]), [{ text: "Terms apply", box }], SQUARE);
+
+        expect(analysis.elements[0]).toMatchObject({ text_height_px: 22, min_text_height_px: 43, legibility: 0 });
+        expect(violations).toEqual([expect.objectContaining({
+            severity: "warning",
+            description: '"Terms apply" is 22px tall at 1080x1080; text should be at least 43px.',
+        })]);
+    });
+
+    it("flags text big enough for the asset but unreadable in the mobile preview", () => {
+        const box = { x: 10, y: 10, width: 60, height: 5 };
+
+        const { analysis, violations } = analyzeAccessibility(
+            textImage([box]),
+            [{ text: "Banner", box }],
+            { id: "billboard", width: 4000, height: 1000 }
+        );
+
+        expect(analysis.elements[0]).toMatchObject({ text_height_px: 50, preview_height_px: 4.5, legibility: 0 });
+        expect(analysis.template_id).toBe("billboard");
+        expect(violations).toEqual([expect.objectContaining({
+            description: '"Banner" is 4.5px tall in a 360px-wide mobile preview, too small to read.',
+        })]);
+    });
+
+    it("skips text without a box and reports no score when nothing was measured", () => {
+        const { analysis, violations } = analyzeAccessibility(
+            textImage([]),
+            [{ text: "Unlocated" }, { text: "  ", box: { x: 0, y: 0, width: 10, height: 10 } }],
+            SQUARE
+        );
+
+        expect(violations).toEqual([]);
+        expect(analysis).toMatchObject({ elements: [], mobile_legibility: null, score: null });
+    });
+});
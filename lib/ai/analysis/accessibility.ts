@@ -0,0 +1,221 @@
+/**
+ * Accessibility Checks
+ *
+ * Legibility of the text on an image: WCAG contrast between each line and
+ * the background around it, line height against the target (platform
+ * template) size, and how large the text renders in a mobile preview.
+ * Needs located text; lines without a box are skipped.
+ */
+
+import type {
+    AccessibilityAnalysis,
+    AccessibilityElement,
+    AuditTextElement,
+    AuditViolation,
+    BoundingBox,
+} from "@/lib/types";
+import type { Rgb } from "./color";
+import type { RawImage } from "./image";
+
+// ============ TYPES ============
+
+/**
+ * Size the asset is published at. PlatformTemplate fits this shape.
+ */
+export interface AccessibilityTarget {
+    id?: string;
+    width: number;
+    height: number;
+    /** Width the asset is shown at on a phone, CSS px */
+    previewWidth?: number;
+}
+
+export interface AccessibilityCheckResult {
+    analysis: AccessibilityAnalysis;
+    violations: AuditViolation[];
+}
+
+export type { AccessibilityAnalysis, AccessibilityElement };
+
+// ============ TUNING ============
+
+/** Longest side of the copy contrast is measured on; text needs more detail than color */
+export const ACCESSIBILITY_ANALYSIS_SIZE = 1024;
+/** WCAG AA contrast for normal and large text */
+const NORMAL_TEXT_RATIO = 4.5;
+const LARGE_TEXT_RATIO = 3;
+/** WCAG large text (18pt), CSS px */
+const LARGE_TEXT_PX = 24;
+/** Lines shorter than this share of the target's shorter side are too small */
+const MIN_TEXT_HEIGHT_SHARE = 0.04;
+/** Default phone width the asset is previewed at, CSS px */
+export const MOBILE_PREVIEW_WIDTH = 360;
+/** Preview line heights from unreadable to comfortable, CSS px */
+const PREVIEW_UNREADABLE_PX = 8;
+const PREVIEW_COMFORTABLE_PX = 16;
+/** Legibility below this adds a violation (matches the export threshold) */
+const LEGIBILITY_VIOLATION_THRESHOLD = 70;
+/** Percentile of in-box pixel contrast taken as the text's; glyph cores, not edges */
+const TEXT_PIXEL_PERCENTILE = 0.9;
+
+// ============ CONTRAST ============
+
+/**
+ * WCAG relative luminance of an sRGB (0-255) color, 0-1
+ */
+export function relativeLuminance(rgb: Rgb): number {
+    const [r, g, b] = rgb.map((c) => {
+        const v = c / 255;
+        return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two relative luminances, 1-21
+ */
+export function contrastRatio(a: number, b: number): number {
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+function luminanceAt(image: RawImage, x: number, y: number): number {
+    const i = (y * image.width + x) * 3;
+    return relativeLuminance([image.data[i], image.data[i + 1], image.data[i + 2]]);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Contrast of the text in a box. The background is the median of a band
+ * around the box; the text is the pixels inside that differ most from it.
+ */
+function measureContrast(image: RawImage, box: BoundingBox): { ratio: number; background: number } {
+    const x0 = Math.min(image.width - 1, Math.floor((box.x / 100) * image.width));
+    const y0 = Math.min(image.height - 1, Math.floor((box.y / 100) * image.height));
+    const x1 = Math.max(x0 + 1, Math.min(image.width, Math.ceil(((box.x + box.width) / 100) * image.width)));
+    const y1 = Math.max(y0 + 1, Math.min(image.height, Math.ceil(((box.y + box.height) / 100) * image.height)));
+    const pad = Math.max(1, Math.round((y1 - y0) * 0.15));
+
+    const inside: number[] = [];
+    const band: number[] = [];
+    for (let y = Math.max(0, y0 - pad); y < Math.min(image.height, y1 + pad); y++) {
+        for (let x = Math.max(0, x0 - pad); x < Math.min(image.width, x1 + pad); x++) {
+            const within = x >= x0 && x < x1 && y >= y0 && y < y1;
+            (within ? inside : band).push(luminanceAt(image, x, y));
+        }
+    }
+
+    // A box covering the whole image has no band; its edge pixels stand in
+    const background = median(band.length > 0 ? band : inside.filter((_, i) => {
+        const x = i % (x1 - x0);
+        const y = Math.floor(i / (x1 - x0));
+        return x === 0 || y === 0 || x === x1 - x0 - 1 || y === y1 - y0 - 1;
+    }));
+    const ratios = inside.map((l) => contrastRatio(l, background)).sort((a, b) => a - b);
+    const ratio = ratios[Math.min(ratios.length - 1, Math.floor(ratios.length * TEXT_PIXEL_PERCENTILE))];
+
+    return { ratio: Math.round(ratio * 100) / 100, background };
+}
+
+// ============ ANALYSIS ============
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function quote(text: string): string {
+    return text.length > 40 ? `"${text.slice(0, 37)}..."` : `"${text}"`;
+}
+
+function accessibility(severity: AuditViolation["severity"], description: string, suggestion: string, box: BoundingBox): AuditViolation {
+    return { category: "accessibility", severity, description, suggestion, box };
+}
+
+/**
+ * Check contrast, text size and mobile legibility of located text.
+ * `image` should be decoded at ACCESSIBILITY_ANALYSIS_SIZE; `target` is the
+ * published size (the image's own size when there's no template).
+ */
+export function analyzeAccessibility(
+    image: RawImage,
+    elements: AuditTextElement[],
+    target: AccessibilityTarget
+): AccessibilityCheckResult {
+    const previewWidth = target.previewWidth || MOBILE_PREVIEW_WIDTH;
+    const previewScale = previewWidth / target.width;
+    const minHeight = Math.round(Math.min(target.width, target.height) * MIN_TEXT_HEIGHT_SHARE);
+
+    const measured: AccessibilityElement[] = [];
+    const violations: AuditViolation[] = [];
+    const scores: number[] = [];
+
+    for (const element of elements) {
+        const box = element.box;
+        if (!box || !element.text.trim()) continue;
+
+        const { ratio, background } = measureContrast(image, box);
+        const textHeight = Math.round((box.height / 100) * target.height);
+        const previewHeight = Math.round(textHeight * previewScale * 10) / 10;
+        const required = previewHeight >= LARGE_TEXT_PX ? LARGE_TEXT_RATIO : NORMAL_TEXT_RATIO;
+
+        const contrastFactor = clamp01((ratio - 1) / (required - 1));
+        const sizeFactor = clamp01((previewHeight - PREVIEW_UNREADABLE_PX) / (PREVIEW_COMFORTABLE_PX - PREVIEW_UNREADABLE_PX));
+        const legibility = Math.round(100 * Math.min(contrastFactor, sizeFactor));
+
+        measured.push({
+            text: element.text,
+            box,
+            contrast_ratio: ratio,
+            required_ratio: required,
+            text_height_px: textHeight,
+            min_text_height_px: minHeight,
+            preview_height_px: previewHeight,
+            legibility,
+        });
+        scores.push(Math.min(legibility, Math.round(100 * clamp01(textHeight / minHeight))));
+
+        if (ratio < required) {
+            // White text on dark backgrounds, black on light
+            const better = contrastRatio(1, background) >= contrastRatio(0, background) ? "white" : "black";
+            violations.push(accessibility(
+                ratio < LARGE_TEXT_RATIO ? "critical" : "warning",
+                `${quote(element.text)} has ${ratio}:1 contrast against its background; it needs at least ${required}:1.`,
+                `Use ${better} text, or put a solid ${better === "white" ? "light" : "dark"} backdrop behind it.`,
+                box
+            ));
+        }
+        if (textHeight < minHeight) {
+            violations.push(accessibility(
+                "warning",
+                `${quote(element.text)} is ${textHeight}px tall at ${target.width}x${target.height}; text should be at least ${minHeight}px.`,
+                `Enlarge the text to at least ${minHeight}px (${Math.round(MIN_TEXT_HEIGHT_SHARE * 100)}% of the shorter side).`,
+                box
+            ));
+        } else if (ratio >= required && legibility < LEGIBILITY_VIOLATION_THRESHOLD) {
+            violations.push(accessibility(
+                "warning",
+                `${quote(element.text)} is ${previewHeight}px tall in a ${previewWidth}px-wide mobile preview, too small to read.`,
+                "Enlarge the text or cut it to fewer, bigger words.",
+                box
+            ));
+        }
+    }
+
+    const mean = (values: number[]) => values.length > 0
+        ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+        : null;
+
+    return {
+        analysis: {
+            template_id: target.id || null,
+            width: target.width,
+            height: target.height,
+            preview_width: previewWidth,
+            elements: measured,
+            mobile_legibility: mean(measured.map((e) => e.legibility)),
+            score: mean(scores),
+        },
+        violations,
+    };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+    analyzeColorCompliance,
+    deltaE2000,
+    extractDominantColors,
+    hexToRgb,
+    labToRgb,
+    rgbToCmyk,
+    rgbToHex,
+    rgbToLab,
+    type Lab,
+    type Rgb,
+} from "./color";
+import type { RawImage } from "./image";
+
+/**
+ * A width x height image; `paint(x, y)` gives each pixel's color
+ */
+function image(width: number, height: number, paint: (x: number, y: number) => Rgb): RawImage {
+    const data = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set(paint(x, y), (y * width + x) * 3);
+        }
+    }
+    return { width, height, data };
+}
+
+const ORANGE: Rgb = [255, 87, 51];
+const GREEN: Rgb = [0, 200, 0];
+
+describe("conversions", () => {
+    it("parses short and long hex, rejecting anything else", () => {
+        expect(hexToRgb("#FF5733")).toEqual([255, 87, 51]);
+        expect(hexToRgb("f53")).toEqual([255, 85, 51]);
+        expect(hexToRgb(" #abc ")).toEqual([170, 187, 204]);
+        expect(hexToRgb("#12345")).toBeNull();
+        expect(hexToRgb("red")).toBeNull();
+    });
+
+    it("formats hex with clamping", () => {
+        expect(rgbToHex([255, 87, 51])).toBe("#ff5733");
+        expect(rgbToHex([-4, 300, 7.6])).toBe("#00ff08");
+    });
+
+    it("converts to CMYK percentages", () => {
+        expect(rgbToCmyk([0, 0, 0])).toEqual([0, 0, 0, 100]);
+        expect(rgbToCmyk([255, 255, 255])).toEqual([0, 0, 0, 0]);
+        expect(rgbToCmyk([255, 87, 51])).toEqual([0, 66, 80, 0]);
+    });
+
+    it("converts to Lab (D65) and back", () => {
+        const white = rgbToLab([255, 255, 255]);
+        expect(white[0]).toBeCloseTo(100, 2);
+        expect(white[1]).toBeCloseTo(0, 2);
+        expect(white[2]).toBeCloseTo(0, 2);
+
+        const red = rgbToLab([255, 0, 0]);
+        expect(red[0]).toBeCloseTo(53.24, 1);
+        expect(red[1]).toBeCloseTo(80.09, 1);
+        expect(red[2]).toBeCloseTo(67.2, 1);
+
+        for (const rgb of [ORANGE, GREEN, [18, 52, 86] as Rgb]) {
+            expect(labToRgb(rgbToLab(rgb))).toEqual(rgb);
+        }
+    });
+});
+
+describe("deltaE2000", () => {
+    // Reference pairs from Sharma, Wu & Dalal (2005)
+    const pairs: [Lab, Lab, number][] = [
+        [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+        [[50, 0, 0], [50, -1, 2], 2.3669],
+        [[50, 2.5, 0], [73, 25, -18], 27.1492],
+        [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+        [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+    ];
+
+    it.each(pairs)("matches the reference value for %j vs %j", (lab1, lab2, expected) => {
+        expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4);
+        expect(deltaE2000(lab2, lab1)).toBeCloseTo(expected, 4);
+    });
+
+    it("is zero for identical colors", () => {
+        expect(deltaE2000([40, 10, -20], [40, 10, -20])).toBe(0);
+    });
+});
+
+describe("extractDominantColors", () => {
+    it("finds each flat color with its share", () => {
+        const pixels = [
+            ...Array.from({ length: 75 }, () => rgbToLab(ORANGE)),
+            ...Array.from({ length: 25 }, () => rgbToLab(GREEN)),
+        ];
+        const colors = extractDominantColors(pixels);
+
+        expect(colors.map((c) => [rgbToHex(labToRgb(c.lab)), c.share])).toEqual([
+            ["#ff5733", 0.75],
+            ["#00c800", 0.25],
+        ]);
+    });
+
+    it("returns nothing for no pixels", () => {
+        expect(extractDominantColors([])).toEqual([]);
+    });
+});
+
+describe("analyzeColorCompliance", () => {
+    it("scores an on-palette image 100", () => {
+        const result = analyzeColorCompliance(image(8, 8, () => ORANGE), ["#FF5733"]);
+        expect(result).toMatchObject({ score: 100, off_palette_share: 0, off_palette_regions: [] });
+        expect(result?.dominant_colors[0]).toMatchObject({ hex: "#ff5733", share: 1, nearest_palette_hex: "#FF5733", delta_e: 0 });
+    });
+
+    it("treats near-greys as on-palette", () => {
+        const result = analyzeColorCompliance(image(8, 8, (x) => (x < 4 ? [250, 250, 250] : [20, 20, 20])), ["#FF5733"]);
+        expect(result?.score).toBe(100);
+    });
+
+    it("reports off-palette regions where they are", () => {
+        // Right half green, left half on-palette orange
+        const result = analyzeColorCompliance(image(8, 8, (x) => (x < 4 ? ORANGE : GREEN)), ["#FF5733"]);
+
+        expect(result?.score).toBe(50);
+        expect(result?.off_palette_share).toBe(0.5);
+        expect(result?.off_palette_regions).toHaveLength(8);
+        expect(result?.off_palette_regions.every((region) => region.x >= 50 && region.hex === "#00c800")).toBe(true);
+        expect(result?.off_palette_regions.map((region) => region.location)).toContain("top right");
+    });
+
+    it("needs at least one valid palette color", () => {
+        expect(analyzeColorCompliance(image(2, 2, () => ORANGE), ["not-a-color"])).toBeNull();
+    });
+});
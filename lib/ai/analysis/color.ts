@@ -0,0 +1,401 @@
+/**
+ * Color Analysis
+ *
+ * Deterministic, model-free color checks: dominant colors by median cut
+ * refined with k-means, and perceptual distance to the brand palette with
+ * CIEDE2000. All color math is in CIE Lab (D65).
+ */
+
+import type { ColorAnalysis, DominantColor, OffPaletteRegion } from "@/lib/types";
+import type { RawImage } from "./image";
+
+// ============ TYPES ============
+
+export type Rgb = [number, number, number];
+export type Lab = [number, number, number];
+/** Percent, 0-100 */
+export type Cmyk = [number, number, number, number];
+
+export type { ColorAnalysis, DominantColor, OffPaletteRegion };
+
+// ============ TUNING ============
+
+/** Pixels this close to the palette are fully compliant */
+const MATCH_DELTA_E = 10;
+/** Pixels this far from the palette score zero */
+const MISMATCH_DELTA_E = 30;
+/** Pixels further than this count as off-palette */
+export const OFF_PALETTE_DELTA_E = 20;
+/** Near-grey pixels (whites, shadows) are treated as on-palette */
+const NEUTRAL_CHROMA = 6;
+/** Regions are cells of a GRID_SIZE x GRID_SIZE grid... */
+const GRID_SIZE = 4;
+/** ...reported when at least this share of their pixels is off-palette */
+const REGION_OFF_PALETTE_SHARE = 0.25;
+const DOMINANT_COLOR_COUNT = 6;
+const KMEANS_ITERATIONS = 8;
+/** Dominant colors closer than this are reported as one */
+const MERGE_DELTA_E = 5;
+
+// ============ CONVERSIONS ============
+
+/**
+ * Parse #rgb or #rrggbb; null if invalid
+ */
+export function hexToRgb(hex: string): Rgb | null {
+    const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (!match) return null;
+    const digits = match[1].length === 3
+        ? match[1].split("").map((d) => d + d).join("")
+        : match[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+}
+
+export function rgbToHex(rgb: Rgb): string {
+    return `#${rgb.map((c) => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * sRGB (0-255) to CMYK percentages by the naive formula. Without a print
+ * profile this is a starting point for print, not a press-ready value.
+ */
+export function rgbToCmyk(rgb: Rgb): Cmyk {
+    const [r, g, b] = rgb.map((c) => c / 255);
+    const k = 1 - Math.max(r, g, b);
+    if (k === 1) return [0, 0, 0, 100];
+    return [...[r, g, b].map((c) => Math.round(((1 - c - k) / (1 - k)) * 100)), Math.round(k * 100)] as Cmyk;
+}
+
+/**
+ * sRGB (0-255) to CIE Lab, D65 white point
+ */
+export function rgbToLab(rgb: Rgb): Lab {
+    const [r, g, b] = rgb.map((c) => {
+        const v = c / 255;
+        return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    });
+
+    const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+    const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+    const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / 1.08883;
+
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * CIE Lab back to sRGB (0-255, clamped)
+ */
+export function labToRgb(lab: Lab): Rgb {
+    const fy = (lab[0] + 16) / 116;
+    const fx = fy + lab[1] / 500;
+    const fz = fy - lab[2] / 200;
+    const finv = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+
+    const x = finv(fx) * 0.95047;
+    const y = finv(fy);
+    const z = finv(fz) * 1.08883;
+
+    const linear = [
+        x * 3.2404542 - y * 1.5371385 - z * 0.4985314,
+        -x * 0.969266 + y * 1.8760108 + z * 0.041556,
+        x * 0.0556434 - y * 0.2040259 + z * 1.0572252,
+    ];
+    return linear.map((v) => {
+        const c = v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(Math.max(v, 0), 1 / 2.4) - 0.055;
+        return Math.max(0, Math.min(255, Math.round(c * 255)));
+    }) as Rgb;
+}
+
+// ============ CIEDE2000 ============
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * CIEDE2000 color difference (kL = kC = kH = 1).
+ * ~1 is barely perceptible; above ~10 colors read as different.
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+    const [l1, a1, b1] = lab1;
+    const [l2, a2, b2] = lab2;
+
+    const c1 = Math.hypot(a1, b1);
+    const c2 = Math.hypot(a2, b2);
+    const cMean = (c1 + c2) / 2;
+    const g = 0.5 * (1 - Math.sqrt(Math.pow(cMean, 7) / (Math.pow(cMean, 7) + Math.pow(25, 7))));
+
+    const a1p = (1 + g) * a1;
+    const a2p = (1 + g) * a2;
+    const c1p = Math.hypot(a1p, b1);
+    const c2p = Math.hypot(a2p, b2);
+    const hue = (b: number, a: number) => {
+        if (a === 0 && b === 0) return 0;
+        const h = toDegrees(Math.atan2(b, a));
+        return h >= 0 ? h : h + 360;
+    };
+    const h1p = hue(b1, a1p);
+    const h2p = hue(b2, a2p);
+
+    const dLp = l2 - l1;
+    const dCp = c2p - c1p;
+    let dhp = 0;
+    if (c1p * c2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+    const lMean = (l1 + l2) / 2;
+    const cpMean = (c1p + c2p) / 2;
+    let hpMean = h1p + h2p;
+    if (c1p * c2p !== 0) {
+        if (Math.abs(h1p - h2p) <= 180) hpMean /= 2;
+        else hpMean = h1p + h2p < 360 ? (hpMean + 360) / 2 : (hpMean - 360) / 2;
+    }
+
+    const t =
+        1 -
+        0.17 * Math.cos(toRadians(hpMean - 30)) +
+        0.24 * Math.cos(toRadians(2 * hpMean)) +
+        0.32 * Math.cos(toRadians(3 * hpMean + 6)) -
+        0.2 * Math.cos(toRadians(4 * hpMean - 63));
+    const dTheta = 30 * Math.exp(-Math.pow((hpMean - 275) / 25, 2));
+    const rc = 2 * Math.sqrt(Math.pow(cpMean, 7) / (Math.pow(cpMean, 7) + Math.pow(25, 7)));
+    const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+    const sc = 1 + 0.045 * cpMean;
+    const sh = 1 + 0.015 * cpMean * t;
+    const rt = -Math.sin(toRadians(2 * dTheta)) * rc;
+
+    return Math.sqrt(
+        Math.pow(dLp / sl, 2) +
+        Math.pow(dCp / sc, 2) +
+        Math.pow(dHp / sh, 2) +
+        rt * (dCp / sc) * (dHp / sh)
+    );
+}
+
+// ============ DOMINANT COLORS ============
+
+function imageToLab(image: RawImage): Lab[] {
+    const pixels: Lab[] = [];
+    for (let i = 0; i < image.data.length; i += 3) {
+        pixels.push(rgbToLab([image.data[i], image.data[i + 1], image.data[i + 2]]));
+    }
+    return pixels;
+}
+
+function meanLab(pixels: Lab[]): Lab {
+    const sum: Lab = [0, 0, 0];
+    for (const p of pixels) {
+        sum[0] += p[0];
+        sum[1] += p[1];
+        sum[2] += p[2];
+    }
+    return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+}
+
+/**
+ * Split pixels into up to k buckets, always cutting the bucket with the
+ * widest channel range at its median
+ */
+function medianCut(pixels: Lab[], k: number): Lab[][] {
+    const buckets: Lab[][] = [pixels];
+
+    while (buckets.length < k) {
+        let target = -1;
+        let targetChannel = 0;
+        let widest = 0;
+        buckets.forEach((bucket, index) => {
+            if (bucket.length < 2) return;
+            for (let channel = 0; channel < 3; channel++) {
+                let min = Infinity;
+                let max = -Infinity;
+                for (const p of bucket) {
+                    min = Math.min(min, p[channel]);
+                    max = Math.max(max, p[channel]);
+                }
+                if (max - min > widest) {
+                    widest = max - min;
+                    target = index;
+                    targetChannel = channel;
+                }
+            }
+        });
+        if (target < 0 || widest < 1) break;
+
+        const sorted = [...buckets[target]].sort((a, b) => a[targetChannel] - b[targetChannel]);
+        const middle = Math.floor(sorted.length / 2);
+        buckets.splice(target, 1, sorted.slice(0, middle), sorted.slice(middle));
+    }
+
+    return buckets;
+}
+
+function nearestIndex(pixel: Lab, centroids: Lab[]): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    centroids.forEach((c, index) => {
+        const distance = (pixel[0] - c[0]) ** 2 + (pixel[1] - c[1]) ** 2 + (pixel[2] - c[2]) ** 2;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = index;
+        }
+    });
+    return best;
+}
+
+/**
+ * Dominant colors: median cut seeds, refined by k-means in Lab space.
+ * Deterministic - the same pixels always give the same colors.
+ */
+export function extractDominantColors(pixels: Lab[], k: number = DOMINANT_COLOR_COUNT): { lab: Lab; share: number }[] {
+    if (pixels.length === 0) return [];
+
+    let centroids = medianCut(pixels, k).map(meanLab);
+    let assignments = new Array<number>(pixels.length).fill(-1);
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        let changed = false;
+        const next = pixels.map((p, i) => {
+            const index = nearestIndex(p, centroids);
+            if (index !== assignments[i]) changed = true;
+            return index;
+        });
+        assignments = next;
+        if (!changed) break;
+
+        centroids = centroids.map((centroid, index) => {
+            const members = pixels.filter((_, i) => assignments[i] === index);
+            return members.length > 0 ? meanLab(members) : centroid;
+        });
+    }
+
+    const counts = new Array<number>(centroids.length).fill(0);
+    for (const index of assignments) counts[index]++;
+
+    const colors = centroids
+        .map((lab, index) => ({ lab, share: counts[index] / pixels.length }))
+        .filter((color) => color.share > 0)
+        .sort((a, b) => b.share - a.share);
+
+    // Flat areas get split into near-identical clusters; fold them into the larger one
+    const merged: { lab: Lab; share: number }[] = [];
+    for (const color of colors) {
+        const match = merged.find((m) => deltaE2000(m.lab, color.lab) < MERGE_DELTA_E);
+        if (match) match.share += color.share;
+        else merged.push({ ...color });
+    }
+    return merged;
+}
+
+// ============ PALETTE COMPLIANCE ============
+
+function nearestPaletteColor(lab: Lab, palette: { hex: string; lab: Lab }[]): { hex: string; deltaE: number } {
+    let best = { hex: palette[0].hex, deltaE: Infinity };
+    for (const color of palette) {
+        const deltaE = deltaE2000(lab, color.lab);
+        if (deltaE < best.deltaE) best = { hex: color.hex, deltaE };
+    }
+    return best;
+}
+
+function isNeutral(lab: Lab): boolean {
+    return Math.hypot(lab[1], lab[2]) < NEUTRAL_CHROMA;
+}
+
+/**
+ * 1 at or below MATCH_DELTA_E, 0 at or above MISMATCH_DELTA_E
+ */
+function pixelCompliance(deltaE: number): number {
+    if (deltaE <= MATCH_DELTA_E) return 1;
+    if (deltaE >= MISMATCH_DELTA_E) return 0;
+    return 1 - (deltaE - MATCH_DELTA_E) / (MISMATCH_DELTA_E - MATCH_DELTA_E);
+}
+
+function describeLocation(centerX: number, centerY: number): string {
+    const row = centerY < 100 / 3 ? "top" : centerY < 200 / 3 ? "middle" : "bottom";
+    const column = centerX < 100 / 3 ? "left" : centerX < 200 / 3 ? "center" : "right";
+    return row === "middle" && column === "center" ? "center" : `${row} ${column}`;
+}
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Score an image against a brand palette.
+ * Returns null when the palette has no valid colors.
+ */
+export function analyzeColorCompliance(image: RawImage, paletteHex: string[]): ColorAnalysis | null {
+    const palette = paletteHex
+        .map((hex) => ({ hex, rgb: hexToRgb(hex) }))
+        .filter((color): color is { hex: string; rgb: Rgb } => color.rgb !== null)
+        .map((color) => ({ hex: color.hex, lab: rgbToLab(color.rgb) }));
+    if (palette.length === 0) return null;
+
+    const pixels = imageToLab(image);
+    if (pixels.length === 0) return null;
+
+    // Per-pixel distance to the palette; neutrals always match
+    const cells = Array.from({ length: GRID_SIZE * GRID_SIZE }, () => ({ total: 0, off: [] as { lab: Lab; deltaE: number }[] }));
+    let complianceSum = 0;
+    let offCount = 0;
+
+    pixels.forEach((lab, i) => {
+        const deltaE = isNeutral(lab) ? 0 : nearestPaletteColor(lab, palette).deltaE;
+        complianceSum += pixelCompliance(deltaE);
+
+        const x = i % image.width;
+        const y = Math.floor(i / image.width);
+        const cell = cells[
+            Math.min(GRID_SIZE - 1, Math.floor((y / image.height) * GRID_SIZE)) * GRID_SIZE +
+            Math.min(GRID_SIZE - 1, Math.floor((x / image.width) * GRID_SIZE))
+        ];
+        cell.total++;
+        if (deltaE > OFF_PALETTE_DELTA_E) {
+            offCount++;
+            cell.off.push({ lab, deltaE });
+        }
+    });
+
+    const cellSize = 100 / GRID_SIZE;
+    const regions: OffPaletteRegion[] = [];
+    cells.forEach((cell, index) => {
+        if (cell.total === 0 || cell.off.length / cell.total < REGION_OFF_PALETTE_SHARE) return;
+        const lab = meanLab(cell.off.map((p) => p.lab));
+        const nearest = nearestPaletteColor(lab, palette);
+        const x = (index % GRID_SIZE) * cellSize;
+        const y = Math.floor(index / GRID_SIZE) * cellSize;
+        regions.push({
+            x,
+            y,
+            width: cellSize,
+            height: cellSize,
+            share: round(cell.off.length / cell.total),
+            hex: rgbToHex(labToRgb(lab)),
+            nearest_palette_hex: nearest.hex,
+            delta_e: round(cell.off.reduce((sum, p) => sum + p.deltaE, 0) / cell.off.length, 1),
+            location: describeLocation(x + cellSize / 2, y + cellSize / 2),
+        });
+    });
+
+    const dominant = extractDominantColors(pixels).map(({ lab, share }): DominantColor => {
+        const nearest = nearestPaletteColor(lab, palette);
+        return {
+            hex: rgbToHex(labToRgb(lab)),
+            share: round(share),
+            nearest_palette_hex: nearest.hex,
+            delta_e: round(nearest.deltaE, 1),
+        };
+    });
+
+    return {
+        score: Math.round((complianceSum / pixels.length) * 100),
+        dominant_colors: dominant,
+        off_palette_share: round(offCount / pixels.length),
+        off_palette_regions: regions.sort((a, b) => b.share - a.share),
+    };
+}
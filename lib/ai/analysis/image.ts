@@ -0,0 +1,46 @@
+/**
+ * Image Decoding
+ *
+ * Decodes generated images to small raw RGB buffers for pixel analysis.
+ * Analysis runs on a downsampled copy - plenty for color statistics and
+ * fast enough to run on every audit.
+ */
+
+import sharp from "sharp";
+
+export interface RawImage {
+    width: number;
+    height: number;
+    /** RGB, 3 bytes per pixel, row-major */
+    data: Uint8Array;
+}
+
+/** Longest side of the analysis copy */
+export const ANALYSIS_SIZE = 64;
+
+function toBuffer(imageBase64: string): Buffer {
+    return Buffer.from(imageBase64.replace(/^data:[^;]+;base64,/, ""), "base64");
+}
+
+/**
+ * Full-size dimensions of a base64 image; null if they can't be read
+ */
+export async function readImageSize(imageBase64: string): Promise<{ width: number; height: number } | null> {
+    const { width, height } = await sharp(toBuffer(imageBase64)).metadata();
+    return width && height ? { width, height } : null;
+}
+
+/**
+ * Decode a base64 image (optionally a data URL) to raw RGB.
+ * Transparency is flattened onto white.
+ */
+export async function decodeImage(imageBase64: string, maxSize: number = ANALYSIS_SIZE): Promise<RawImage> {
+    const { data, info } = await sharp(toBuffer(imageBase64))
+        .flatten({ background: "#ffffff" })
+        .resize(maxSize, maxSize, { fit: "inside", withoutEnlargement: true })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    return { width: info.width, height: info.height, data: new Uint8Array(data) };
+}
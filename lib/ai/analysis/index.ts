@@ -0,0 +1,31 @@
+export { decodeImage, readImageSize, ANALYSIS_SIZE, type RawImage } from "./image";
+export {
+    analyzeColorCompliance,
+    extractDominantColors,
+    deltaE2000,
+    hexToRgb,
+    rgbToHex,
+    rgbToLab,
+    rgbToCmyk,
+    labToRgb,
+    OFF_PALETTE_DELTA_E,
+    type Rgb,
+    type Lab,
+    type Cmyk,
+    type ColorAnalysis,
+    type DominantColor,
+    type OffPaletteRegion,
+} from "./color";
+export { recognizeText } from "./ocr";
+export { analyzeText, type SpellingError, type TextCheckResult } from "./text";
+export {
+    analyzeAccessibility,
+    contrastRatio,
+    relativeLuminance,
+    ACCESSIBILITY_ANALYSIS_SIZE,
+    MOBILE_PREVIEW_WIDTH,
+    type AccessibilityTarget,
+    type AccessibilityCheckResult,
+    type AccessibilityAnalysis,
+    type AccessibilityElement,
+} from "./accessibility";
@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONSTITUTION } from "@/lib/types/constitution-schema";
+import type { BoundingBox, BrandConstitution } from "@/lib/types";
+import { analyzeText } from "./text";
+
+const createWorker = vi.hoisted(() => vi.fn());
+vi.mock("tesseract.js", () => ({ createWorker }));
+
+/** 400x200 white image reading "SUMMER SALE" over "Shop the look today" */
+const IMAGE = fs.readFileSync(path.resolve(__dirname, "../../../fixtures/ocr/summer-sale.png")).toString("base64");
+
+/** What tesseract reads on IMAGE, in pixels */
+const LINES = [
+    { text: "SUMMER SALE\n", confidence: 93.4, bbox: { x0: 40, y0: 60, x1: 360, y1: 90 } },
+    { text: "Shop the look today\n", confidence: 88.6, bbox: { x0: 40, y0: 130, x1: 280, y1: 156 } },
+    { text: "~ ,\n", confidence: 31, bbox: { x0: 380, y0: 180, x1: 392, y1: 190 } },
+    { text: "  \n", confidence: 95, bbox: { x0: 0, y0: 0, x1: 10, y1: 10 } },
+];
+
+function fakeWorker() {
+    return {
+        recognize: vi.fn(async () => ({ data: { blocks: [{ paragraphs: [{ lines: LINES }] }] } })),
+    };
+}
+
+const closeToBox = (box: BoundingBox) => ({
+    x: expect.closeTo(box.x, 5),
+    y: expect.closeTo(box.y, 5),
+    width: expect.closeTo(box.width, 5),
+    height: expect.closeTo(box.height, 5),
+});
+
+/** A fresh copy of the module, with no worker started */
+async function loadOcr() {
+    vi.resetModules();
+    return import("./ocr");
+}
+
+describe("recognizeText", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        createWorker.mockReset();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("reads confident lines, placed in percent of the image", async () => {
+        createWorker.mockResolvedValue(fakeWorker());
+        const { recognizeText } = await loadOcr();
+
+        const elements = await recognizeText(`data:image/png;base64,${IMAGE}`);
+
+        expect(elements).toEqual([
+            { text: "SUMMER SALE", confidence: 93, box: closeToBox({ x: 10, y: 30, width: 80, height: 15 }) },
+            { text: "Shop the look today", confidence: 89, box: closeToBox({ x: 10, y: 65, width: 60, height: 13 }) },
+        ]);
+    });
+
+    it("starts one worker for every call", async () => {
+        createWorker.mockResolvedValue(fakeWorker());
+        const { recognizeText } = await loadOcr();
+
+        await Promise.all([recognizeText(IMAGE), recognizeText(IMAGE)]);
+        await recognizeText(IMAGE);
+
+        expect(createWorker).toHaveBeenCalledTimes(1);
+    });
+
+    it("tries to start the worker again on a later call after a failure", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        createWorker.mockRejectedValueOnce(new Error("Language download failed")).mockResolvedValue(fakeWorker());
+        const { recognizeText } = await loadOcr();
+
+        await expect(recognizeText(IMAGE)).rejects.toThrow("Language download failed");
+        // Right after the failure OCR stays off rather than starting worker after worker
+        await expect(recognizeText(IMAGE)).rejects.toThrow("Language download failed");
+        expect(createWorker).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(60_000);
+
+        await expect(recognizeText(IMAGE)).resolves.toHaveLength(2);
+        expect(createWorker).toHaveBeenCalledTimes(2);
+    });
+
+    it("feeds located findings to the text checks", async () => {
+        createWorker.mockResolvedValue(fakeWorker());
+        const { recognizeText } = await loadOcr();
+        const constitution: BrandConstitution = {
+            ...DEFAULT_CONSTITUTION,
+            visual_identity: { ...DEFAULT_CONSTITUTION.visual_identity, forbidden_elements: ["sale"] },
+        };
+
+        const { violations } = analyzeText(await recognizeText(IMAGE), constitution);
+
+        expect(violations).toContainEqual(expect.objectContaining({
+            category: "typography",
+            severity: "critical",
+            description: 'On-image text "SUMMER SALE" uses the forbidden term "sale".',
+            box: closeToBox({ x: 10, y: 30, width: 80, height: 15 }),
+        }));
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * Local OCR
+ *
+ * Fallback text extraction with tesseract.js, used when the audit model
+ * doesn't report the text on an image. Returns lines positioned in percent.
+ * Language data is downloaded on first use unless OCR_LANG_PATH points at
+ * a directory with eng.traineddata.
+ */
+
+import os from "os";
+import type { Worker } from "tesseract.js";
+import type { AuditTextElement } from "@/lib/types";
+import { toBoundingBox } from "@/lib/utils/regions";
+import { readImageSize } from "./image";
+
+/** Lines read with less confidence than this are usually noise */
+const MIN_LINE_CONFIDENCE = 60;
+
+/** How long after a failed start OCR stays off before trying again */
+const WORKER_RETRY_DELAY_MS = 60_000;
+
+let workerPromise: Promise<Worker> | null = null;
+/** Why the last start failed, and when a later call may try again */
+let startFailure: { error: unknown; retryAt: number } | null = null;
+
+/**
+ * One worker per process, created on first use. If it can't start (usually
+ * the language download) calls fail until WORKER_RETRY_DELAY_MS has passed,
+ * then the next call starts a new one. Not sooner: tesseract.js gives no
+ * handle to clean up a worker that failed to load, so each attempt can
+ * leave threads behind.
+ */
+function getWorker(): Promise<Worker> {
+    if (workerPromise) return workerPromise;
+    if (startFailure && Date.now() < startFailure.retryAt) {
+        return Promise.reject(startFailure.error);
+    }
+
+    const starting = new Promise<Worker>((resolve, reject) => {
+        import("tesseract.js")
+            .then(({ createWorker }) => createWorker("eng", undefined, {
+                ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+                // Keep the unpacked language data out of the working directory
+                cachePath: os.tmpdir(),
+                // The default handler throws asynchronously, taking the server
+                // down, and a failed language download never settles createWorker
+                errorHandler: (error) => {
+                    console.warn("[OCR] Worker error:", error);
+                    reject(error);
+                },
+            }))
+            .then(resolve, reject);
+    });
+    workerPromise = starting;
+    startFailure = null;
+    starting.catch((error) => {
+        if (workerPromise !== starting) return;
+        workerPromise = null;
+        startFailure = { error, retryAt: Date.now() + WORKER_RETRY_DELAY_MS };
+    });
+    return starting;
+}
+
+/**
+ * Read the text lines on a base64 image (optionally a data URL)
+ */
+export async function recognizeText(imageBase64: string): Promise<AuditTextElement[]> {
+    const size = await readImageSize(imageBase64);
+    if (!size) return [];
+    const { width, height } = size;
+    const input = Buffer.from(imageBase64.replace(/^data:[^;]+;base64,/, ""), "base64");
+
+    const worker = await getWorker();
+    const { data } = await worker.recognize(input, {}, { blocks: true });
+    const lines = (data.blocks || []).flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines));
+
+    return lines
+        .filter((line) => line.text.trim() && line.confidence >= MIN_LINE_CONFIDENCE)
+        .map((line) => ({
+            text: line.text.trim(),
+            confidence: Math.round(line.confidence),
+            box: toBoundingBox({
+                x: (line.bbox.x0 / width) * 100,
+                y: (line.bbox.y0 / height) * 100,
+                width: ((line.bbox.x1 - line.bbox.x0) / width) * 100,
+                height: ((line.bbox.y1 - line.bbox.y0) / height) * 100,
+            }),
+        }));
+}
@@ -0,0 +1,305 @@
+/**
+ * Text Checks
+ *
+ * Deterministic checks of the text on an image against the constitution's
+ * voice and content rules: forbidden terms, misspelled brand vocabulary,
+ * vocabulary level and text overlay rules. Every finding is a typography
+ * violation placed on the text it concerns.
+ */
+
+import type {
+    AuditSeverity,
+    AuditTextElement,
+    AuditViolation,
+    BoundingBox,
+    BrandConstitution,
+} from "@/lib/types";
+
+// ============ TYPES ============
+
+/** A misspelling reported by the audit model */
+export interface SpellingError {
+    word: string;
+    correction: string;
+}
+
+export interface TextCheckResult {
+    /** 0-100; null when there is no text */
+    score: number | null;
+    violations: AuditViolation[];
+}
+
+// ============ TUNING ============
+
+const SEVERITY_PENALTY: Record<AuditSeverity, number> = { critical: 40, warning: 15, minor: 5 };
+/** Forbidden elements longer than this describe visuals, not words */
+const MAX_FORBIDDEN_TERM_WORDS = 4;
+/** Brand terms shorter than this are too short to call near-misses */
+const MIN_VOCABULARY_WORD_LENGTH = 4;
+const DIRECT_MAX_WORDS_PER_LINE = 8;
+const CASUAL_MAX_SYLLABLES_PER_WORD = 2;
+const HYPE_WORDS = ["amazing", "awesome", "epic", "incredible", "insane", "unbelievable", "mind-blowing"];
+
+// ============ HELPERS ============
+
+function toWords(text: string): string[] {
+    return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+}
+
+function normalize(word: string): string {
+    return word.toLowerCase().replace(/’/g, "'");
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+    const pattern = escapeRegExp(phrase.trim()).replace(/\s+/g, "\\s+");
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${pattern}($|[^\\p{L}\\p{N}])`, "iu").test(text);
+}
+
+/**
+ * Edit distance counting adjacent swaps as one edit
+ */
+function editDistance(a: string, b: string): number {
+    const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
+
+function countSyllables(word: string): number {
+    const groups = normalize(word).replace(/e$/, "").match(/[aeiouy]+/g);
+    return Math.max(1, groups?.length || 0);
+}
+
+/**
+ * Smallest box around all the given boxes; null if none are known
+ */
+function unionBox(boxes: (BoundingBox | null | undefined)[]): BoundingBox | null {
+    const known = boxes.filter((b): b is BoundingBox => !!b);
+    if (known.length === 0) return null;
+    const x = Math.min(...known.map((b) => b.x));
+    const y = Math.min(...known.map((b) => b.y));
+    return {
+        x,
+        y,
+        width: Math.max(...known.map((b) => b.x + b.width)) - x,
+        height: Math.max(...known.map((b) => b.y + b.height)) - y,
+    };
+}
+
+function typography(severity: AuditSeverity, description: string, suggestion: string, box?: BoundingBox | null): AuditViolation {
+    return { category: "typography", severity, description, suggestion, box: box ?? null };
+}
+
+// ============ CHECKS ============
+
+function checkForbiddenTerms(elements: AuditTextElement[], constitution: BrandConstitution): AuditViolation[] {
+    const terms = constitution.visual_identity.forbidden_elements
+        .filter((term) => term.trim() && toWords(term).length <= MAX_FORBIDDEN_TERM_WORDS);
+
+    return elements.flatMap((element) => terms
+        .filter((term) => containsPhrase(element.text, term))
+        .map((term) => typography(
+            "critical",
+            `On-image text "${element.text}" uses the forbidden term "${term}".`,
+            `Remove "${term}" from the copy.`,
+            element.box
+        )));
+}
+
+/**
+ * Near-misses of brand keywords and catchphrases, plus model-reported misspellings
+ */
+function checkSpelling(
+    elements: AuditTextElement[],
+    constitution: BrandConstitution,
+    spellingErrors: SpellingError[]
+): AuditViolation[] {
+    const violations: AuditViolation[] = [];
+    const flagged = new Set<string>();
+
+    // Catchphrases must be quoted exactly
+    for (const element of elements) {
+        for (const phrase of constitution.voice.catchphrases) {
+            const text = normalize(element.text.trim());
+            const target = normalize(phrase.trim());
+            if (!target || text === target) continue;
+            const distance = editDistance(text, target);
+            if (distance > 0 && distance <= Math.max(1, Math.floor(target.length * 0.15))) {
+                violations.push(typography(
+                    "warning",
+                    `"${element.text}" misquotes the catchphrase "${phrase}".`,
+                    `Use the catchphrase exactly: "${phrase}".`,
+                    element.box
+                ));
+                toWords(element.text).forEach((word) => flagged.add(normalize(word)));
+            }
+        }
+    }
+
+    const vocabulary = new Map<string, string>();
+    for (const term of [...constitution.voice.keywords, ...constitution.voice.catchphrases]) {
+        for (const word of toWords(term)) {
+            if (word.length >= MIN_VOCABULARY_WORD_LENGTH) vocabulary.set(normalize(word), word);
+        }
+    }
+
+    for (const element of elements) {
+        for (const word of toWords(element.text)) {
+            const normalized = normalize(word);
+            if (word.length < MIN_VOCABULARY_WORD_LENGTH || vocabulary.has(normalized) || flagged.has(normalized)) continue;
+
+            const maxDistance = normalized.length >= 8 ? 2 : 1;
+            for (const [term, original] of vocabulary) {
+                if (editDistance(normalized, term) <= maxDistance) {
+                    violations.push(typography(
+                        "warning",
+                        `"${word}" looks like a misspelling of the brand term "${original}".`,
+                        `Change "${word}" to "${original}".`,
+                        element.box
+                    ));
+                    flagged.add(normalized);
+                    break;
+                }
+            }
+        }
+    }
+
+    for (const error of spellingErrors) {
+        if (!error.word || flagged.has(normalize(error.word))) continue;
+        const element = elements.find((e) => containsPhrase(e.text, error.word));
+        violations.push(typography(
+            "warning",
+            `"${error.word}" is misspelled.`,
+            error.correction ? `Change "${error.word}" to "${error.correction}".` : `Correct the spelling of "${error.word}".`,
+            element?.box
+        ));
+        flagged.add(normalize(error.word));
+    }
+
+    return violations;
+}
+
+function checkVocabularyLevel(elements: AuditTextElement[], constitution: BrandConstitution): AuditViolation[] {
+    const level = constitution.voice.vocabulary_level;
+
+    return elements.flatMap((element): AuditViolation[] => {
+        const words = toWords(element.text);
+        if (words.length === 0) return [];
+
+        switch (level) {
+            case "DIRECT":
+                return words.length > DIRECT_MAX_WORDS_PER_LINE
+                    ? [typography("minor", `"${element.text}" runs long for a direct voice (${words.length} words).`,
+                        "Cut it to a short, direct line.", element.box)]
+                    : [];
+            case "CASUAL": {
+                const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0) / words.length;
+                return syllables > CASUAL_MAX_SYLLABLES_PER_WORD
+                    ? [typography("minor", `"${element.text}" reads formal for a casual voice.`,
+                        "Use shorter, everyday words.", element.box)]
+                    : [];
+            }
+            case "TECHNICAL": {
+                const hype = element.text.includes("!") || words.some((w) => HYPE_WORDS.includes(normalize(w)));
+                return hype
+                    ? [typography("minor", `"${element.text}" uses hype language that doesn't fit a technical voice.`,
+                        "State the concrete benefit instead.", element.box)]
+                    : [];
+            }
+            case "POETIC": {
+                const letters = element.text.replace(/[^\p{L}]/gu, "");
+                return letters.length >= 4 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()
+                    ? [typography("minor", `"${element.text}" is set in all caps, which shouts over a poetic voice.`,
+                        "Use sentence case.", element.box)]
+                    : [];
+            }
+            default:
+                return [];
+        }
+    });
+}
+
+const ZONE_SIZES: Record<string, number> = { third: 100 / 3, half: 50, quarter: 25 };
+
+/**
+ * The machine-checkable parts of text_overlay_rules: "no text", word
+ * limits ("max 5 words") and placement ("top third", "lower half")
+ */
+function checkOverlayRules(elements: AuditTextElement[], rules: string | undefined): AuditViolation[] {
+    if (!rules) return [];
+    const violations: AuditViolation[] = [];
+
+    if (/\bno\s+(?:text|copy|words)\b/i.test(rules)) {
+        violations.push(typography("warning", "The image has text, but the overlay rules call for none.",
+            "Remove the text overlay.", unionBox(elements.map((e) => e.box))));
+        return violations;
+    }
+
+    const limit = rules.match(/\b(?:max(?:imum)?|no more than|at most|up to|under)\s+(\d+)\s+words?\b/i);
+    if (limit) {
+        const max = Number(limit[1]);
+        const count = elements.reduce((sum, e) => sum + toWords(e.text).length, 0);
+        if (count > max) {
+            violations.push(typography("warning", `The text overlay has ${count} words; the rules allow ${max}.`,
+                `Cut the copy to ${max} words or fewer.`, unionBox(elements.map((e) => e.box))));
+        }
+    }
+
+    const zone = rules.match(/\b(top|bottom|upper|lower|left|right)\s+(third|half|quarter)\b/i);
+    if (zone) {
+        const side = zone[1].toLowerCase();
+        const size = ZONE_SIZES[zone[2].toLowerCase()];
+        for (const element of elements) {
+            const box = element.box;
+            if (!box) continue;
+            const inside =
+                side === "top" || side === "upper" ? box.y + box.height <= size + 1 :
+                side === "bottom" || side === "lower" ? box.y >= 100 - size - 1 :
+                side === "left" ? box.x + box.width <= size + 1 :
+                box.x >= 100 - size - 1;
+            if (!inside) {
+                violations.push(typography("minor", `"${element.text}" sits outside the ${zone[0].toLowerCase()}.`,
+                    `Move the text into the ${zone[0].toLowerCase()}.`, box));
+            }
+        }
+    }
+
+    return violations;
+}
+
+// ============ ANALYSIS ============
+
+/**
+ * Check on-image text against the constitution
+ */
+export function analyzeText(
+    elements: AuditTextElement[],
+    constitution: BrandConstitution,
+    spellingErrors: SpellingError[] = []
+): TextCheckResult {
+    const text = elements.filter((e) => e.text.trim());
+    if (text.length === 0) return { score: null, violations: [] };
+
+    const violations = [
+        ...checkForbiddenTerms(text, constitution),
+        ...checkSpelling(text, constitution, spellingErrors),
+        ...checkVocabularyLevel(text, constitution),
+        ...checkOverlayRules(text, constitution.content_patterns?.text_overlay_rules),
+    ];
+    const penalty = violations.reduce((sum, v) => sum + SEVERITY_PENALTY[v.severity], 0);
+
+    return { score: Math.max(0, 100 - penalty), violations };
+}
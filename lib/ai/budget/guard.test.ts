@@ -0,0 +1,180 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { emptyUsage } from "@/lib/types";
+import { BudgetExceededError, BudgetGuard, createBudgetGuard, getQuotaStatus, resolveBudgetLimits, DEFAULT_BUDGET_LIMITS } from "./guard";
+import { FileQuotaStore, dayKey, nextReset, type BudgetSubject } from "./store";
+
+const USER: BudgetSubject = { scope: "user", id: "user_1" };
+const BRAND: BudgetSubject = { scope: "brand", id: "brand_1" };
+
+describe("resolveBudgetLimits", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("uses the defaults without overrides", () => {
+        expect(resolveBudgetLimits("user")).toEqual(DEFAULT_BUDGET_LIMITS.user);
+    });
+
+    it("applies valid overrides per scope and ignores invalid ones", () => {
+        vi.stubEnv("AI_BUDGET_USER_IMAGES_PER_DAY", "3");
+        vi.stubEnv("AI_BUDGET_USER_IMAGES_4K_PER_DAY", "-1");
+        vi.stubEnv("AI_BUDGET_USER_TOKENS_PER_RUN", "lots");
+
+        expect(resolveBudgetLimits("user")).toEqual({ ...DEFAULT_BUDGET_LIMITS.user, imagesPerDay: 3 });
+        expect(resolveBudgetLimits("brand")).toEqual(DEFAULT_BUDGET_LIMITS.brand);
+    });
+});
+
+describe("BudgetGuard", () => {
+    let dir: string;
+    let store: FileQuotaStore;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "budget-test-"));
+        store = new FileQuotaStore(dir);
+        vi.stubEnv("AI_BUDGET_USER_IMAGES_PER_DAY", "2");
+        vi.stubEnv("AI_BUDGET_USER_IMAGES_4K_PER_DAY", "1");
+        vi.stubEnv("AI_BUDGET_USER_TOKENS_PER_RUN", "1000");
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function violationOf(fn: () => unknown) {
+        try {
+            await fn();
+        } catch (error) {
+            if (error instanceof BudgetExceededError) return error.violation;
+            throw error;
+        }
+        return null;
+    }
+
+    it("counts every reservation against each subject", async () => {
+        const guard = new BudgetGuard([USER, BRAND], { store });
+        await guard.reserveImage("1K");
+        await guard.reserveImage("4K");
+
+        expect(store.getDailyUsage(USER)).toMatchObject({ images: 2, images4k: 1 });
+        expect(store.getDailyUsage(BRAND)).toMatchObject({ images: 2, images4k: 1 });
+    });
+
+    it("stops generation at the daily image limit, naming the subject", async () => {
+        const guard = new BudgetGuard([BRAND, USER], { store });
+        await guard.reserveImage("1K");
+        await guard.reserveImage("1K");
+
+        const violation = await violationOf(() => guard.reserveImage("1K"));
+        expect(violation).toMatchObject({
+            code: "budget_exceeded",
+            scope: "user",
+            subjectId: "user_1",
+            limit: "imagesPerDay",
+            used: 2,
+            max: 2,
+            resetsAt: nextReset(),
+        });
+        expect(guard.violation).toEqual(violation);
+        // A refused generation isn't counted
+        expect(store.getDailyUsage(USER).images).toBe(2);
+    });
+
+    it("limits 4K generations separately", async () => {
+        const guard = new BudgetGuard([USER], { store });
+        await guard.reserveImage("4K");
+
+        expect(await violationOf(() => guard.reserveImage("4K"))).toMatchObject({ limit: "images4kPerDay", used: 1, max: 1 });
+        expect(await violationOf(() => guard.reserveImage("2K"))).toBeNull();
+    });
+
+    it("stops a run that has spent its tokens, including earlier attempts", async () => {
+        const guard = new BudgetGuard([USER], { store, priorUsage: { ...emptyUsage(), totalTokens: 1000 } });
+
+        expect(await violationOf(() => guard.check())).toMatchObject({ limit: "tokensPerRun", used: 1000, resetsAt: null });
+    });
+
+    it("shares daily counts between guards of different runs", async () => {
+        await new BudgetGuard([USER], { store }).reserveImage();
+        await new BudgetGuard([USER], { store }).reserveImage();
+
+        expect(await violationOf(() => new BudgetGuard([USER], { store }).check())).toMatchObject({ limit: "imagesPerDay" });
+    });
+
+    it("lets only one of two concurrent runs take the last generation", async () => {
+        await new BudgetGuard([USER], { store }).reserveImage();
+
+        const results = await Promise.allSettled([
+            new BudgetGuard([USER], { store }).reserveImage(),
+            new BudgetGuard([USER], { store }).reserveImage(),
+        ]);
+
+        expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+        expect(store.getDailyUsage(USER).images).toBe(2);
+    });
+});
+
+describe("createBudgetGuard", () => {
+    it("requires a user", () => {
+        expect(() => createBudgetGuard({ brandId: "brand_1" })).toThrow("needs a user");
+        expect(createBudgetGuard({ userId: "user_1", brandId: null })).toBeInstanceOf(BudgetGuard);
+    });
+});
+
+describe("getQuotaStatus", () => {
+    it("reports what is left today, never below zero", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "budget-test-"));
+        try {
+            const store = new FileQuotaStore(dir);
+            await store.addImages(USER, DEFAULT_BUDGET_LIMITS.user.imagesPerDay + 5, true);
+
+            expect(getQuotaStatus(USER, store)).toMatchObject({
+                scope: "user",
+                subjectId: "user_1",
+                remaining: { images: 0, images4k: 0 },
+                resetsAt: nextReset(),
+            });
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("FileQuotaStore", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "budget-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("keeps every one of many concurrent updates", async () => {
+        const store = new FileQuotaStore(dir);
+
+        await Promise.all(Array.from({ length: 20 }, (_, i) => store.addImages(USER, 1, i % 2 === 0)));
+
+        expect(store.getDailyUsage(USER)).toMatchObject({ images: 20, images4k: 10 });
+        expect(fs.readdirSync(path.join(dir, "user_user_1"))).toEqual([`${dayKey()}.json`]);
+    });
+
+    it("leaves the counts alone when an update is refused", async () => {
+        const store = new FileQuotaStore(dir);
+        await store.addImages(USER, 1, false);
+
+        await expect(store.addImages(USER, 1, false, () => { throw new Error("No more"); })).rejects.toThrow("No more");
+        await expect(store.addImages(USER, 1, false)).resolves.toMatchObject({ images: 2 });
+    });
+
+    it("refuses subject IDs that could leave the store", async () => {
+        const store = new FileQuotaStore(dir);
+
+        await expect(store.addImages({ scope: "user", id: "../x" }, 1, false)).rejects.toThrow("Invalid user ID");
+    });
+});
@@ -0,0 +1,225 @@
+/**
+ * Generation Budgets
+ *
+ * Per-user and per-brand limits, checked before any image generation:
+ * - imagesPerDay     generations per UTC day
+ * - images4kPerDay   4K generations per UTC day
+ * - tokensPerRun     model tokens one run may spend before generating again
+ * Override per scope with AI_BUDGET_<SCOPE>_<LIMIT>, e.g.
+ * AI_BUDGET_BRAND_IMAGES_PER_DAY=500 or AI_BUDGET_USER_TOKENS_PER_RUN=100000.
+ */
+
+import type { UsageSummary } from "@/lib/types";
+import { UsageMeter, DEFAULT_IMAGE_SIZE, type ImageGenerationRequest } from "../providers";
+import {
+    getQuotaStore,
+    nextReset,
+    type BudgetScope,
+    type BudgetSubject,
+    type DailyUsage,
+    type FileQuotaStore,
+} from "./store";
+
+// ============ LIMITS ============
+
+export interface BudgetLimits {
+    imagesPerDay: number;
+    images4kPerDay: number;
+    tokensPerRun: number;
+}
+
+export type BudgetLimitName = keyof BudgetLimits;
+
+export type ImageSize = NonNullable<ImageGenerationRequest["imageSize"]>;
+
+export const DEFAULT_BUDGET_LIMITS: Record<BudgetScope, BudgetLimits> = {
+    user: { imagesPerDay: 50, images4kPerDay: 5, tokensPerRun: 200000 },
+    brand: { imagesPerDay: 200, images4kPerDay: 20, tokensPerRun: 200000 },
+};
+
+const LIMIT_ENV_NAMES: Record<BudgetLimitName, string> = {
+    imagesPerDay: "IMAGES_PER_DAY",
+    images4kPerDay: "IMAGES_4K_PER_DAY",
+    tokensPerRun: "TOKENS_PER_RUN",
+};
+
+/**
+ * Limits for a scope, with environment overrides applied
+ */
+export function resolveBudgetLimits(scope: BudgetScope): BudgetLimits {
+    const limits = { ...DEFAULT_BUDGET_LIMITS[scope] };
+    for (const name of Object.keys(LIMIT_ENV_NAMES) as BudgetLimitName[]) {
+        const raw = process.env[`AI_BUDGET_${scope.toUpperCase()}_${LIMIT_ENV_NAMES[name]}`];
+        const value = Number(raw);
+        if (raw && Number.isInteger(value) && value >= 0) {
+            limits[name] = value;
+        }
+    }
+    return limits;
+}
+
+// ============ ERRORS ============
+
+/**
+ * Which limit stopped a generation (serialized to clients as-is)
+ */
+export interface BudgetViolation {
+    code: "budget_exceeded";
+    scope: BudgetScope;
+    subjectId: string;
+    limit: BudgetLimitName;
+    used: number;
+    max: number;
+    /** When the limit resets; null for per-run limits */
+    resetsAt: number | null;
+    message: string;
+}
+
+export class BudgetExceededError extends Error {
+    constructor(public violation: BudgetViolation) {
+        super(violation.message);
+        this.name = "BudgetExceededError";
+    }
+}
+
+// ============ QUOTA STATUS ============
+
+export interface QuotaStatus {
+    scope: BudgetScope;
+    subjectId: string;
+    limits: BudgetLimits;
+    used: { images: number; images4k: number };
+    remaining: { images: number; images4k: number };
+    resetsAt: number;
+}
+
+/**
+ * Today's usage and remaining generations for a subject
+ */
+export function getQuotaStatus(subject: BudgetSubject, store: FileQuotaStore = getQuotaStore()): QuotaStatus {
+    const limits = resolveBudgetLimits(subject.scope);
+    const daily = store.getDailyUsage(subject);
+    return {
+        scope: subject.scope,
+        subjectId: subject.id,
+        limits,
+        used: { images: daily.images, images4k: daily.images4k },
+        remaining: {
+            images: Math.max(0, limits.imagesPerDay - daily.images),
+            images4k: Math.max(0, limits.images4kPerDay - daily.images4k),
+        },
+        resetsAt: nextReset(),
+    };
+}
+
+// ============ BUDGET GUARD ============
+
+/**
+ * Enforces budgets for one run. Model calls made inside track() count
+ * toward the run's token limit; reserveImage() must be called before
+ * every image generation.
+ */
+export class BudgetGuard {
+    private usage = new UsageMeter();
+    private store: FileQuotaStore;
+    /** The limit that stopped the run, if any */
+    violation: BudgetViolation | null = null;
+
+    constructor(
+        private subjects: BudgetSubject[],
+        options: { priorUsage?: UsageSummary | null; store?: FileQuotaStore } = {}
+    ) {
+        this.usage.add(options.priorUsage);
+        this.store = options.store || getQuotaStore();
+    }
+
+    /**
+     * Run fn as part of this run, counting its model usage
+     */
+    track<T>(fn: () => Promise<T>): Promise<T> {
+        return this.usage.track(fn);
+    }
+
+    /**
+     * Throw a BudgetExceededError if generating an image now would pass a limit.
+     * Without a size, only checks that some generation is still allowed.
+     */
+    check(imageSize?: ImageSize): void {
+        const tokens = this.usage.summary().totalTokens;
+
+        for (const subject of this.subjects) {
+            const limits = resolveBudgetLimits(subject.scope);
+            if (tokens >= limits.tokensPerRun) {
+                this.fail(subject, "tokensPerRun", tokens, limits.tokensPerRun, null,
+                    `This run has used ${tokens} of its ${limits.tokensPerRun} token budget`);
+            }
+            this.checkDaily(subject, this.store.getDailyUsage(subject), imageSize);
+        }
+    }
+
+    /**
+     * Check limits, then count one generation against every subject.
+     * Each subject's daily limits are checked again as its count is taken,
+     * so concurrent runs can't both take the last generation.
+     * Generations count when attempted, whether or not they succeed.
+     */
+    async reserveImage(imageSize: ImageSize = DEFAULT_IMAGE_SIZE): Promise<void> {
+        this.check(imageSize);
+        for (const subject of this.subjects) {
+            await this.store.addImages(subject, 1, imageSize === "4K",
+                (daily) => this.checkDaily(subject, daily, imageSize));
+        }
+    }
+
+    private checkDaily(subject: BudgetSubject, daily: DailyUsage, imageSize?: ImageSize): void {
+        const limits = resolveBudgetLimits(subject.scope);
+        if (daily.images >= limits.imagesPerDay) {
+            this.fail(subject, "imagesPerDay", daily.images, limits.imagesPerDay, nextReset(),
+                `Daily image limit reached for this ${subject.scope} (${limits.imagesPerDay})`);
+        }
+        if (imageSize === "4K" && daily.images4k >= limits.images4kPerDay) {
+            this.fail(subject, "images4kPerDay", daily.images4k, limits.images4kPerDay, nextReset(),
+                `Daily 4K image limit reached for this ${subject.scope} (${limits.images4kPerDay})`);
+        }
+    }
+
+    private fail(
+        subject: BudgetSubject,
+        limit: BudgetLimitName,
+        used: number,
+        max: number,
+        resetsAt: number | null,
+        message: string
+    ): never {
+        this.violation = {
+            code: "budget_exceeded",
+            scope: subject.scope,
+            subjectId: subject.id,
+            limit,
+            used,
+            max,
+            resetsAt,
+            message,
+        };
+        throw new BudgetExceededError(this.violation);
+    }
+}
+
+// ============ FACTORY FUNCTION ============
+
+/**
+ * Create a guard for a run by a signed-in user, on a brand when known.
+ * Every run counts against its user; pass the usage of earlier attempts
+ * when resuming.
+ */
+export function createBudgetGuard(
+    owner: { userId?: string | null; brandId?: string | null },
+    priorUsage?: UsageSummary | null
+): BudgetGuard {
+    if (!owner.userId) {
+        throw new Error("A run needs a user to be budgeted");
+    }
+    const subjects: BudgetSubject[] = [{ scope: "user", id: owner.userId }];
+    if (owner.brandId) subjects.push({ scope: "brand", id: owner.brandId });
+    return new BudgetGuard(subjects, { priorUsage });
+}
@@ -0,0 +1,28 @@
+/**
+ * Generation Budgets
+ *
+ * Per-user and per-brand quotas enforced before image generation.
+ */
+
+export {
+    FileQuotaStore,
+    getQuotaStore,
+    dayKey,
+    nextReset,
+    type BudgetScope,
+    type BudgetSubject,
+    type DailyUsage,
+} from "./store";
+export {
+    BudgetGuard,
+    BudgetExceededError,
+    createBudgetGuard,
+    getQuotaStatus,
+    resolveBudgetLimits,
+    DEFAULT_BUDGET_LIMITS,
+    type BudgetLimits,
+    type BudgetLimitName,
+    type BudgetViolation,
+    type ImageSize,
+    type QuotaStatus,
+} from "./guard";
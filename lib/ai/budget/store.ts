@@ -0,0 +1,126 @@
+/**
+ * Quota Store
+ *
+ * Daily generation counters per budget subject (a user or a brand).
+ * File-based like the job store, so every server instance sees the same
+ * counts. One file per subject per UTC day:
+ * AI_QUOTA_DIR/<scope>_<id>/<yyyy-mm-dd>.json
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// ============ TYPES ============
+
+export type BudgetScope = "user" | "brand";
+
+export interface BudgetSubject {
+    scope: BudgetScope;
+    id: string;
+}
+
+export interface DailyUsage {
+    /** UTC day, yyyy-mm-dd */
+    day: string;
+    images: number;
+    images4k: number;
+}
+
+/**
+ * UTC day key for a timestamp
+ */
+export function dayKey(timestamp: number = Date.now()): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * When the current UTC day's counters reset
+ */
+export function nextReset(timestamp: number = Date.now()): number {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Subject IDs come from requests - never let them escape the store
+ */
+function isValidSubjectId(id: string): boolean {
+    return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+// ============ FILE QUOTA STORE ============
+
+export class FileQuotaStore {
+    /** Pending updates per counter file, so each update reads the one before */
+    private updates = new Map<string, Promise<unknown>>();
+
+    constructor(readonly dir: string) {}
+
+    getDailyUsage(subject: BudgetSubject, day: string = dayKey()): DailyUsage {
+        const file = this.file(subject, day);
+        if (!file || !fs.existsSync(file)) {
+            return { day, images: 0, images4k: 0 };
+        }
+        return JSON.parse(fs.readFileSync(file, "utf-8")) as DailyUsage;
+    }
+
+    /**
+     * Add generations to a subject's counters for today. Updates to the same
+     * counters run one at a time; `allow` sees the current counts first and
+     * throws to refuse the update.
+     */
+    addImages(
+        subject: BudgetSubject,
+        count: number,
+        is4k: boolean,
+        allow?: (usage: DailyUsage) => void
+    ): Promise<DailyUsage> {
+        const day = dayKey();
+        const file = this.file(subject, day);
+        if (!file) {
+            return Promise.reject(new Error(`Invalid ${subject.scope} ID: ${subject.id}`));
+        }
+
+        const update = (this.updates.get(file) || Promise.resolve())
+            .catch(() => undefined)
+            .then(() => {
+                const usage = this.getDailyUsage(subject, day);
+                allow?.(usage);
+                usage.images += count;
+                if (is4k) usage.images4k += count;
+
+                fs.mkdirSync(path.dirname(file), { recursive: true });
+                // Write a temp file of our own, then rename, so readers never
+                // see a half-written file and writers never share a temp file
+                const temp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+                fs.writeFileSync(temp, JSON.stringify(usage));
+                fs.renameSync(temp, file);
+                return usage;
+            });
+
+        this.updates.set(file, update);
+        void update.catch(() => undefined).then(() => {
+            if (this.updates.get(file) === update) this.updates.delete(file);
+        });
+        return update;
+    }
+
+    private file(subject: BudgetSubject, day: string): string | null {
+        if (!isValidSubjectId(subject.id)) return null;
+        return path.join(this.dir, `${subject.scope}_${subject.id}`, `${day}.json`);
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let storeInstance: FileQuotaStore | null = null;
+
+export function getQuotaStore(): FileQuotaStore {
+    if (!storeInstance) {
+        storeInstance = new FileQuotaStore(
+            process.env.AI_QUOTA_DIR || path.join(os.tmpdir(), "sentient-studio-quotas")
+        );
+    }
+    return storeInstance;
+}
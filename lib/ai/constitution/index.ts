@@ -0,0 +1,14 @@
+/**
+ * Brand Constitution
+ *
+ * Per-element rules and the weighted merge that builds the constitution
+ * from them.
+ */
+
+export {
+    mergeConstitutionRules,
+    type MergeSource,
+    toConstitutionRules,
+    normalizeHex,
+    ELEMENT_WEIGHTS,
+} from "./merge";
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { BrandConstitution, CanvasElementType, ConstitutionRules } from "@/lib/types";
+import { mergeConstitutionRules, normalizeHex, toConstitutionRules, type MergeSource } from "./merge";
+
+/** What merging no elements into no constitution gives: the fallback values */
+const FALLBACK = mergeConstitutionRules([], null);
+
+function source(id: string, type: CanvasElementType, rules: ConstitutionRules): MergeSource {
+    return { asset: { type, extracted_rules: rules, timestamp: 0 }, element_ids: [id] };
+}
+
+const sourcesOf = (constitution: BrandConstitution, field: string, value: string) =>
+    constitution.provenance?.find((p) => p.field === field && p.value === value)?.element_ids;
+
+describe("normalizeHex", () => {
+    it("expands and upper-cases hex colors", () => {
+        expect(normalizeHex("#abc")).toBe("#AABBCC");
+        expect(normalizeHex(" 1a1a2e ")).toBe("#1A1A2E");
+        expect(normalizeHex("#1A1A2E")).toBe("#1A1A2E");
+    });
+
+    it("rejects anything else", () => {
+        expect(normalizeHex("red")).toBeNull();
+        expect(normalizeHex("#12345")).toBeNull();
+    });
+});
+
+describe("toConstitutionRules", () => {
+    it("drops missing, empty and malformed fields", () => {
+        const rules = toConstitutionRules({
+            visual_identity: {
+                color_palette_hex: ["#f00", "not a color", ""],
+                photography_style: "  ",
+                fonts: [],
+                visual_density: "CLUTTERED",
+            },
+            voice: { tone: " Bold ", vocabulary_level: "CASUAL" },
+            risk_thresholds: { nudity: "ANYTHING" },
+        });
+
+        expect(rules).toEqual({
+            visual_identity: { color_palette_hex: ["#FF0000"] },
+            voice: { tone: "Bold", vocabulary_level: "CASUAL" },
+        });
+    });
+
+    it("reads non-objects as no rules", () => {
+        expect(toConstitutionRules(null)).toEqual({});
+        expect(toConstitutionRules("rules")).toEqual({});
+    });
+});
+
+describe("mergeConstitutionRules", () => {
+    it("counts near-identical colors as one and ranks them by weight", () => {
+        const merged = mergeConstitutionRules([
+            source("img_1", "image", { visual_identity: { color_palette_hex: ["#FF0000", "#00FF00"] } }),
+            source("img_2", "image", { visual_identity: { color_palette_hex: ["#FE0101"] } }),
+            source("note_1", "note", { visual_identity: { color_palette_hex: ["#0000FF"] } }),
+        ], null);
+
+        expect(merged.visual_identity.color_palette_hex).toEqual(["#FF0000", "#0000FF", "#00FF00"]);
+        expect(sourcesOf(merged, "visual_identity.color_palette_hex", "#FF0000")).toEqual(["img_1", "img_2"]);
+    });
+
+    it("drops list items too little of the weight agrees on", () => {
+        const merged = mergeConstitutionRules([
+            source("a", "image", { visual_identity: { composition_rules: ["Rule of thirds", "Dutch angle"] } }),
+            source("b", "image", { visual_identity: { composition_rules: ["rule of thirds"] } }),
+            source("c", "image", { visual_identity: { composition_rules: ["Rule of thirds"] } }),
+            source("d", "image", { visual_identity: { composition_rules: ["Rule of thirds"] } }),
+            source("e", "image", { visual_identity: { composition_rules: ["Rule of thirds"] } }),
+        ], null);
+
+        expect(merged.visual_identity.composition_rules).toEqual(["Rule of thirds"]);
+    });
+
+    it("lets notes outweigh images on enum fields", () => {
+        const merged = mergeConstitutionRules([
+            source("img_1", "image", { visual_identity: { visual_density: "COMPLEX" } }),
+            source("note_1", "note", { visual_identity: { visual_density: "MINIMAL" } }),
+        ], null);
+
+        expect(merged.visual_identity.visual_density).toBe("MINIMAL");
+        expect(sourcesOf(merged, "visual_identity.visual_density", "MINIMAL")).toEqual(["note_1"]);
+    });
+
+    it("picks the text closest to the others, backed by similar texts", () => {
+        const merged = mergeConstitutionRules([
+            source("a", "image", { voice: { tone: "Bold and energetic" } }),
+            source("b", "image", { voice: { tone: "bold energetic playful" } }),
+            source("c", "image", { voice: { tone: "Calm and quiet" } }),
+        ], null);
+
+        expect(merged.voice.tone).toBe("Bold and energetic");
+        expect(sourcesOf(merged, "voice.tone", "Bold and energetic")).toEqual(["a", "b"]);
+    });
+
+    it("keeps the strictest risk threshold", () => {
+        const merged = mergeConstitutionRules([
+            source("a", "image", { risk_thresholds: { political: "ALLOW_SATIRE" } }),
+            source("b", "image", { risk_thresholds: { political: "STRICT_ZERO_TOLERANCE" } }),
+        ], null);
+
+        expect(merged.risk_thresholds.political).toBe("STRICT_ZERO_TOLERANCE");
+    });
+
+    it("keeps the current value of fields no element speaks to", () => {
+        const base: BrandConstitution = {
+            ...FALLBACK,
+            visual_identity: { ...FALLBACK.visual_identity, fonts: ["Futura"] },
+        };
+        const merged = mergeConstitutionRules([source("a", "note", { voice: { tone: "Warm" } })], base);
+
+        expect(merged.visual_identity.fonts).toEqual(["Futura"]);
+        expect(merged.brand_essence).toBe(base.brand_essence);
+        expect(merged.voice.tone).toBe("Warm");
+    });
+
+    it("takes a removed element's votes away", () => {
+        const note = source("note_1", "note", { visual_identity: { visual_density: "MINIMAL" } });
+        const image = source("img_1", "image", { visual_identity: { visual_density: "COMPLEX" } });
+
+        const before = mergeConstitutionRules([image, note], null);
+        const after = mergeConstitutionRules([image], before);
+
+        expect(before.visual_identity.visual_density).toBe("MINIMAL");
+        expect(after.visual_identity.visual_density).toBe("COMPLEX");
+    });
+
+    it("leaves locked fields and their provenance alone", () => {
+        const base: BrandConstitution = {
+            ...FALLBACK,
+            voice: { ...FALLBACK.voice, tone: "Hand-tuned" },
+            locked_fields: ["voice.tone"],
+            provenance: [{ field: "voice.tone", value: "Hand-tuned", element_ids: ["note_0"] }],
+        };
+        const merged = mergeConstitutionRules([
+            source("a", "note", { voice: { tone: "Loud", keywords: ["sale"] } }),
+        ], base);
+
+        expect(merged.voice.tone).toBe("Hand-tuned");
+        expect(merged.voice.keywords).toEqual(["sale"]);
+        expect(merged.locked_fields).toEqual(["voice.tone"]);
+        expect(sourcesOf(merged, "voice.tone", "Hand-tuned")).toEqual(["note_0"]);
+        expect(sourcesOf(merged, "voice.tone", "Loud")).toBeUndefined();
+    });
+});
@@ -0,0 +1,364 @@
+/**
+ * Incremental Constitution Merge
+ *
+ * Each moodboard element is analyzed on its own and its rules are stored
+ * on Brand.processed_assets. The constitution is rebuilt from all of them
+ * by weighted voting, so adding an image refines the brand DNA instead of
+ * replacing it, and removing one takes its votes away.
+ *
+ * - List fields keep the items enough of the weight agrees on (colors that
+ *   are within a few ΔE of each other count as one)
+ * - Enum fields take the weighted plurality; risk thresholds take the
+ *   strictest value any element asks for
+ * - Free text takes the candidate most similar to all the others
+ * - Fields no element speaks to keep their current value, as do fields
+ *   locked by hand (BrandConstitution.locked_fields)
+ *
+ * Each merged rule keeps the ids of the canvas elements that voted for it
+ * (BrandConstitution.provenance), so the UI can point back to its sources.
+ */
+
+import type {
+    BrandConstitution,
+    CanvasElementType,
+    ConstitutionRules,
+    ProcessedAsset,
+    RuleProvenance,
+} from "@/lib/types";
+import {
+    applyFieldLocks,
+    DEFAULT_CONSTITUTION,
+    FaceProminenceSchema,
+    NudityThresholdSchema,
+    PoliticalThresholdSchema,
+    VisualDensitySchema,
+    VocabularyLevelSchema,
+} from "@/lib/types";
+import { deltaE2000, hexToRgb, rgbToLab } from "../analysis";
+
+// ============ TUNING ============
+
+/** Notes and swatches are stated intent; images are inferred */
+export const ELEMENT_WEIGHTS: Record<CanvasElementType, number> = {
+    image: 1,
+    note: 2,
+    color: 2,
+};
+
+/** Share of the voting weight an item needs to stay in a list */
+const LIST_VOTE_SHARE = 0.25;
+/** Most items kept per list field */
+const LIST_LIMITS: Record<ListField, number> = {
+    color_palette_hex: 8,
+    fonts: 4,
+    composition_rules: 8,
+    forbidden_elements: 10,
+    signature_elements: 8,
+    catchphrases: 6,
+    keywords: 12,
+};
+/** Colors closer than this (CIEDE2000) are the same palette entry */
+const SAME_COLOR_DELTA_E = 8;
+/** Word overlap with the winning text at which an element counts as backing it */
+const TEXT_SUPPORT_SIMILARITY = 0.3;
+
+// ============ SANITIZING ============
+
+type ListField =
+    | "color_palette_hex"
+    | "fonts"
+    | "composition_rules"
+    | "forbidden_elements"
+    | "signature_elements"
+    | "catchphrases"
+    | "keywords";
+
+
+/**
+ * "#abc" / "aabbcc" / "#AABBCC" -> "#AABBCC"; null if it isn't a hex color
+ */
+export function normalizeHex(value: string): string | null {
+    const hex = value.trim().replace(/^#/, "");
+    if (/^[0-9a-f]{3}$/i.test(hex)) return `#${hex.split("").map((c) => c + c).join("")}`.toUpperCase();
+    if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`.toUpperCase();
+    return null;
+}
+
+const text = (value: unknown): string | undefined =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const list = (value: unknown): string[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const items = value.map(text).filter((v): v is string => v !== undefined);
+    return items.length > 0 ? items : undefined;
+};
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]): T | undefined =>
+    options.includes(value as T) ? value as T : undefined;
+
+/**
+ * Keep only defined values; Firestore rejects undefined
+ */
+function compact<T extends object>(value: T): T | undefined {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+}
+
+/**
+ * Read a model's per-element answer as ConstitutionRules, dropping anything
+ * missing, empty or malformed
+ */
+export function toConstitutionRules(value: unknown): ConstitutionRules {
+    if (!value || typeof value !== "object") return {};
+    const raw = value as Record<string, Record<string, unknown> | undefined>;
+    const visual = raw.visual_identity || {};
+    const voice = raw.voice || {};
+    const content = raw.content_patterns || {};
+    const risk = raw.risk_thresholds || {};
+
+    const palette = list(visual.color_palette_hex)
+        ?.map(normalizeHex)
+        .filter((hex): hex is string => hex !== null);
+
+    const rules: ConstitutionRules = {
+        visual_identity: compact({
+            color_palette_hex: palette && palette.length > 0 ? palette : undefined,
+            photography_style: text(visual.photography_style),
+            fonts: list(visual.fonts),
+            composition_rules: list(visual.composition_rules),
+            forbidden_elements: list(visual.forbidden_elements),
+            signature_elements: list(visual.signature_elements),
+            visual_density: oneOf(visual.visual_density, VisualDensitySchema.options),
+        }),
+        voice: compact({
+            tone: text(voice.tone),
+            catchphrases: list(voice.catchphrases),
+            vocabulary_level: oneOf(voice.vocabulary_level, VocabularyLevelSchema.options),
+            keywords: list(voice.keywords),
+        }),
+        content_patterns: compact({
+            thumbnail_structure: text(content.thumbnail_structure),
+            text_overlay_rules: text(content.text_overlay_rules),
+            face_prominence: oneOf(content.face_prominence, FaceProminenceSchema.options),
+        }),
+        risk_thresholds: compact({
+            nudity: oneOf(risk.nudity, NudityThresholdSchema.options),
+            political: oneOf(risk.political, PoliticalThresholdSchema.options),
+        }),
+        brand_essence: text((value as Record<string, unknown>).brand_essence),
+    };
+    return compact(rules) || {};
+}
+
+// ============ VOTING ============
+
+interface Vote<T> {
+    value: T;
+    weight: number;
+    /** Canvas elements casting the vote */
+    sources: string[];
+}
+
+/** A vote's winning value and the elements that back it */
+interface Outcome<T> {
+    value: T;
+    sources: string[];
+}
+
+const union = (ids: string[][]): string[] => [...new Set(ids.flat())];
+
+/**
+ * Items enough of the weight agrees on, most-voted first. `sameAs` decides
+ * which items are the same; the first spelling seen is kept.
+ */
+function voteList(votes: Vote<string[]>[], limit: number, sameAs: (a: string, b: string) => boolean): Outcome<string>[] {
+    const totalWeight = votes.reduce((sum, v) => sum + v.weight, 0);
+    const tallies: { item: string; weight: number; sources: string[][] }[] = [];
+
+    for (const vote of votes) {
+        const counted: typeof tallies = [];
+        for (const item of vote.value) {
+            const tally = tallies.find((t) => sameAs(t.item, item));
+            // One vote per element, however many times it lists the item
+            if (tally && counted.includes(tally)) continue;
+            if (tally) {
+                tally.weight += vote.weight;
+                tally.sources.push(vote.sources);
+                counted.push(tally);
+            } else {
+                tallies.push({ item, weight: vote.weight, sources: [vote.sources] });
+                counted.push(tallies[tallies.length - 1]);
+            }
+        }
+    }
+
+    const ranked = [...tallies].sort((a, b) => b.weight - a.weight);
+    const agreed = ranked.filter((t) => t.weight >= totalWeight * LIST_VOTE_SHARE);
+    // When nothing is agreed on, every item is equally weak; keep the top ones
+    return (agreed.length > 0 ? agreed : ranked)
+        .slice(0, limit)
+        .map((t) => ({ value: t.item, sources: union(t.sources) }));
+}
+
+/**
+ * Weighted plurality; ties go to the value voted first
+ */
+function voteEnum<T extends string>(votes: Vote<T>[]): Outcome<T> | undefined {
+    const tallies = new Map<T, number>();
+    for (const vote of votes) {
+        tallies.set(vote.value, (tallies.get(vote.value) || 0) + vote.weight);
+    }
+    let best: T | undefined;
+    for (const [value, weight] of tallies) {
+        if (best === undefined || weight > tallies.get(best)!) best = value;
+    }
+    return best === undefined ? undefined : { value: best, sources: sourcesOf(votes, best) };
+}
+
+function sourcesOf<T>(votes: Vote<T>[], value: T): string[] {
+    return union(votes.filter((v) => v.value === value).map((v) => v.sources));
+}
+
+function words(value: string): Set<string> {
+    return new Set(value.toLowerCase().match(/[a-z0-9]+/g) || []);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    for (const word of a) if (b.has(word)) shared++;
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * The candidate text closest to all the others (weighted word overlap):
+ * the description most of the moodboard agrees with. It's backed by every
+ * element whose own text is close enough to it.
+ */
+function voteText(votes: Vote<string>[]): Outcome<string> | undefined {
+    const bags = votes.map((v) => words(v.value));
+    let best: { index: number; score: number } | undefined;
+    votes.forEach((_, i) => {
+        const score = votes.reduce((sum, other, j) => sum + other.weight * similarity(bags[i], bags[j]), 0);
+        if (!best || score > best.score) best = { index: i, score };
+    });
+    if (!best) return undefined;
+    const winner = bags[best.index];
+    return {
+        value: votes[best.index].value,
+        sources: union(votes.filter((_, j) => similarity(winner, bags[j]) >= TEXT_SUPPORT_SIMILARITY).map((v) => v.sources)),
+    };
+}
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function sameColor(a: string, b: string): boolean {
+    const rgbA = hexToRgb(a);
+    const rgbB = hexToRgb(b);
+    if (!rgbA || !rgbB) return sameText(a, b);
+    return deltaE2000(rgbToLab(rgbA), rgbToLab(rgbB)) < SAME_COLOR_DELTA_E;
+}
+
+// ============ MERGE ============
+
+/**
+ * A processed element's rules and the canvas elements it stands for
+ * (elements with the same content share one processed asset)
+ */
+export interface MergeSource {
+    asset: ProcessedAsset;
+    element_ids: string[];
+}
+
+/**
+ * Rebuild the constitution from every processed element's rules. Fields no
+ * element speaks to keep their value from `base` (the current constitution).
+ * Every merged rule records the elements that back it in `provenance`.
+ * Fields locked on `base` keep their value whatever the elements say.
+ */
+export function mergeConstitutionRules(
+    sources: MergeSource[],
+    base: BrandConstitution | null
+): BrandConstitution {
+    // Constitutions from the legacy analyzer leave some fields out
+    const current: BrandConstitution = {
+        ...DEFAULT_CONSTITUTION,
+        ...base,
+        visual_identity: { ...DEFAULT_CONSTITUTION.visual_identity, ...base?.visual_identity },
+        voice: { ...DEFAULT_CONSTITUTION.voice, ...base?.voice },
+        content_patterns: { ...DEFAULT_CONSTITUTION.content_patterns, ...base?.content_patterns },
+        risk_thresholds: { ...DEFAULT_CONSTITUTION.risk_thresholds, ...base?.risk_thresholds },
+    };
+    const provenance: RuleProvenance[] = [];
+
+    const collect = <T>(pick: (rules: ConstitutionRules) => T | undefined): Vote<T>[] =>
+        sources.flatMap(({ asset, element_ids }) => {
+            const value = pick(asset.extracted_rules || {});
+            return value === undefined
+                ? []
+                : [{ value, weight: ELEMENT_WEIGHTS[asset.type] ?? 1, sources: element_ids }];
+        });
+
+    const record = <T extends string, F>(field: string, outcome: Outcome<T> | undefined, fallback: F): T | F => {
+        if (!outcome) return fallback;
+        provenance.push({ field, value: outcome.value, element_ids: outcome.sources });
+        return outcome.value;
+    };
+
+    const mergeList = (
+        pick: (rules: ConstitutionRules) => string[] | undefined,
+        group: string,
+        field: ListField,
+        fallback: string[],
+        sameAs: (a: string, b: string) => boolean = sameText
+    ): string[] => {
+        const votes = collect(pick);
+        if (votes.length === 0) return fallback;
+        return voteList(votes, LIST_LIMITS[field], sameAs).map((outcome) => record(`${group}.${field}`, outcome, outcome.value));
+    };
+
+    // Any element asking for zero tolerance keeps it
+    const strictest = <T extends string>(pick: (rules: ConstitutionRules) => T | undefined, field: string, fallback: T): T => {
+        const votes = collect(pick);
+        if (votes.length === 0) return fallback;
+        const value = votes.find((v) => v.value === "STRICT_ZERO_TOLERANCE")?.value ?? votes[0].value;
+        return record(`risk_thresholds.${field}`, { value, sources: sourcesOf(votes, value) }, value);
+    };
+
+    const visual = (r: ConstitutionRules) => r.visual_identity;
+    const voice = (r: ConstitutionRules) => r.voice;
+    const content = (r: ConstitutionRules) => r.content_patterns;
+    const cv = current.visual_identity;
+    const cvo = current.voice;
+    const cc = current.content_patterns;
+    const vi = "visual_identity";
+
+    const constitution: BrandConstitution = {
+        visual_identity: {
+            color_palette_hex: mergeList((r) => visual(r)?.color_palette_hex, vi, "color_palette_hex", cv.color_palette_hex, sameColor),
+            photography_style: record(`${vi}.photography_style`, voteText(collect((r) => visual(r)?.photography_style)), cv.photography_style),
+            fonts: mergeList((r) => visual(r)?.fonts, vi, "fonts", cv.fonts),
+            composition_rules: mergeList((r) => visual(r)?.composition_rules, vi, "composition_rules", cv.composition_rules),
+            forbidden_elements: mergeList((r) => visual(r)?.forbidden_elements, vi, "forbidden_elements", cv.forbidden_elements),
+            signature_elements: mergeList((r) => visual(r)?.signature_elements, vi, "signature_elements", cv.signature_elements),
+            visual_density: record(`${vi}.visual_density`, voteEnum(collect((r) => visual(r)?.visual_density)), cv.visual_density),
+        },
+        voice: {
+            tone: record("voice.tone", voteText(collect((r) => voice(r)?.tone)), cvo.tone),
+            catchphrases: mergeList((r) => voice(r)?.catchphrases, "voice", "catchphrases", cvo.catchphrases),
+            vocabulary_level: record("voice.vocabulary_level", voteEnum(collect((r) => voice(r)?.vocabulary_level)), cvo.vocabulary_level),
+            keywords: mergeList((r) => voice(r)?.keywords, "voice", "keywords", cvo.keywords),
+        },
+        content_patterns: compact({
+            thumbnail_structure: record("content_patterns.thumbnail_structure", voteText(collect((r) => content(r)?.thumbnail_structure)), cc.thumbnail_structure),
+            text_overlay_rules: record("content_patterns.text_overlay_rules", voteText(collect((r) => content(r)?.text_overlay_rules)), cc.text_overlay_rules),
+            face_prominence: record("content_patterns.face_prominence", voteEnum(collect((r) => content(r)?.face_prominence)), cc.face_prominence),
+        }) || {},
+        risk_thresholds: {
+            nudity: strictest((r) => r.risk_thresholds?.nudity, "nudity", current.risk_thresholds.nudity),
+            political: strictest((r) => r.risk_thresholds?.political, "political", current.risk_thresholds.political),
+        },
+        brand_essence: record("brand_essence", voteText(collect((r) => r.brand_essence)), current.brand_essence),
+    };
+    return applyFieldLocks({ ...constitution, provenance }, base);
+}
@@ -0,0 +1,180 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONSTITUTION } from "@/lib/types/constitution-schema";
+import type { CanvasElement } from "@/lib/types";
+import { auditImageCompliance, executeTool, runAgentLoop } from "./gemini";
+import { BudgetGuard, FileQuotaStore } from "./budget";
+import {
+    createModelProvider,
+    LocalModelProvider,
+    RecordingModelProvider,
+    ReplayModelProvider,
+    setModelProvider,
+    type JsonModelRequest,
+    type JsonModelResponse,
+} from "./providers";
+import type { AgentAction, AgentState } from "./tools";
+
+const STATE: AgentState = {
+    step: 0,
+    phase: "planning",
+    constitution: null,
+    currentImage: null,
+    auditScore: null,
+    attempts: 0,
+    maxAttempts: 3,
+    history: [],
+};
+
+describe("executeTool", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-test-"));
+        setModelProvider(new LocalModelProvider());
+    });
+
+    afterEach(() => {
+        setModelProvider(null);
+        vi.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("generates an image at the size it reserved", async () => {
+        const generateImage = vi.spyOn(LocalModelProvider.prototype, "generateImage");
+        const budget = new BudgetGuard([{ scope: "user", id: "user_1" }], { store: new FileQuotaStore(dir) });
+        const reserveImage = vi.spyOn(budget, "reserveImage");
+
+        const { result } = await executeTool("generate_image", { prompt: "A poster", image_size: "4K" }, STATE, budget);
+
+        expect(result).toEqual({ success: true, image_generated: true });
+        expect(reserveImage).toHaveBeenCalledWith("4K");
+        expect(generateImage).toHaveBeenCalledWith(expect.objectContaining({ imageSize: "4K" }));
+    });
+
+    it("generates at the default size when none is asked for", async () => {
+        const generateImage = vi.spyOn(LocalModelProvider.prototype, "generateImage");
+        const budget = new BudgetGuard([{ scope: "user", id: "user_1" }], { store: new FileQuotaStore(dir) });
+        const reserveImage = vi.spyOn(budget, "reserveImage");
+
+        await executeTool("generate_image", { prompt: "A poster" }, STATE, budget);
+
+        const [reserved] = reserveImage.mock.calls[0];
+        expect(generateImage.mock.calls[0][0].imageSize).toBe(reserved);
+    });
+});
+
+/**
+ * Answers every JSON request with the given data, like a model would
+ */
+class JsonAnswerProvider extends LocalModelProvider {
+    constructor(private answer: unknown) {
+        super();
+    }
+
+    async generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>> {
+        const response = await super.generateJson<T>(request);
+        return { ...response, data: this.answer as T };
+    }
+}
+
+describe("auditImageCompliance", () => {
+    afterEach(() => {
+        setModelProvider(null);
+    });
+
+    it("turns reported issues into regions, preferring boxes to points", async () => {
+        setModelProvider(new JsonAnswerProvider({
+            compliance_score: 60,
+            heatmap_coordinates: [
+                { issue: "Logo too small", box_2d: [900, 800, 700, 1000] },
+                { description: "Off-brand red", x: 30, y: 40, box: { x: 10, y: 10, width: "wide", height: 5 } },
+                "Busy background",
+                null,
+            ],
+        }));
+
+        const result = await auditImageCompliance("aW1hZ2U=", DEFAULT_CONSTITUTION);
+
+        expect(result.regions).toEqual([
+            { x: 90, y: 80, issue: "Logo too small", box: { x: 80, y: 70, width: 20, height: 20 } },
+            { x: 30, y: 40, issue: "Off-brand red" },
+            { x: 40, y: 40, issue: "Busy background" },
+            { x: 60, y: 60, issue: "null" },
+        ]);
+    });
+
+    it("reads answers that aren't objects as unscored", async () => {
+        setModelProvider(new JsonAnswerProvider("not an audit"));
+
+        const result = await auditImageCompliance("aW1hZ2U=", DEFAULT_CONSTITUTION);
+
+        expect(result).toMatchObject({ compliance_score: 50, regions: [], violations: [] });
+    });
+});
+
+/**
+ * Replays a recorded function-calling run from fixtures/agent-loop-run.
+ * After changing the agent prompt or tools, re-record it (from the local
+ * provider unless AI_RECORD_PROVIDER says otherwise):
+ *
+ *   RECORD_FIXTURES=1 npx vitest run lib/ai/gemini.test.ts
+ */
+const AGENT_LOOP_FIXTURES_DIR = path.resolve(__dirname, "../../fixtures/agent-loop-run");
+
+const CANVAS: CanvasElement[] = [
+    { id: "swatch_1", type: "color", color: "#FF5733", x: 0, y: 0, createdAt: 0 },
+    { id: "note_1", type: "note", text: "Bold, playful and direct. Never use clip art.", x: 0, y: 120, createdAt: 0 },
+];
+
+describe("runAgentLoop (replay)", () => {
+    afterEach(() => {
+        setModelProvider(null);
+    });
+
+    it("runs a recorded loop through the same tool calls", async () => {
+        setModelProvider(process.env.RECORD_FIXTURES
+            ? new RecordingModelProvider(createModelProvider(process.env.AI_RECORD_PROVIDER || "local"), AGENT_LOOP_FIXTURES_DIR)
+            : new ReplayModelProvider(AGENT_LOOP_FIXTURES_DIR));
+
+        const actions: AgentAction[] = [];
+        const result = await runAgentLoop("Create a summer sale banner for Instagram", CANVAS, (action) => { actions.push(action); });
+
+        // The only image the run made, as recorded
+        const blobs = path.join(AGENT_LOOP_FIXTURES_DIR, "blobs");
+        const image = fs.readFileSync(path.join(blobs, fs.readdirSync(blobs)[0]), "utf8");
+
+        expect(actions).toEqual(result.history);
+        expect(actions.map(({ tool, input }) => [tool, input])).toEqual([
+            ["analyze_canvas", { canvas_elements: [] }],
+            ["generate_image", { prompt: "Create a summer sale banner for Instagram" }],
+            ["audit_compliance", {}],
+            ["complete_task", { success: true, message: "Completed with local provider" }],
+        ]);
+        expect(actions.map((action) => action.output)).toEqual([
+            { success: true, constitution: result.constitution },
+            { success: true, image_generated: true },
+            {
+                success: true,
+                compliance_score: 92,
+                pass: true,
+                issues: [],
+                fix_instructions: "No changes needed.",
+                next_action: "CALL complete_task NOW - image passed audit!",
+            },
+            { success: true, message: "Completed with local provider", final_image: image },
+        ]);
+        expect(result).toMatchObject({
+            success: true,
+            image,
+            message: "Completed with local provider",
+            constitution: {
+                visual_identity: { color_palette_hex: ["#1A1A2E", "#E94560", "#F5F5F5"], forbidden_elements: ["Clip art"] },
+                voice: { tone: "Confident and direct" },
+            },
+            usage: { calls: 7, imageCount: 1 },
+        });
+    }, 60000);
+});
@@ -1,28 +1,32 @@
+import type { BrandConstitution, CanvasElement, UsageSummary } from "@/lib/types";
 import {
-    GoogleGenerativeAI,
-    FunctionCallingMode,
-    type FunctionDeclaration,
-    type Part,
-} from "@google/generative-ai";
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
-import type { AuditResult } from "@/lib/types";
+    applyAuditPolicy,
+    applyFieldLocks,
+    AUDIT_RESULT_VERSION,
+    DEFAULT_AUDIT_POLICY,
+    DEFAULT_CONSTITUTION,
+    evaluateAuditPolicy,
+    normalizeConstitution,
+    type AuditPolicy,
+    type AuditRegion,
+    type AuditResult,
+} from "@/lib/types";
+import { boxCenter, toBoundingBox } from "@/lib/utils/regions";
 import { AGENT_TOOLS, type AgentState, type AgentAction } from "./tools";
+import { BudgetExceededError, type BudgetGuard } from "./budget";
 import {
     BrandConstitutionSchema,
     AuditResultSchema,
     zodToGeminiSchema,
     type ImageConfig,
 } from "./schemas";
-
-// ============ CLIENT INITIALIZATION ============
-
-function getGeminiClient(): GoogleGenerativeAI {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    return new GoogleGenerativeAI(apiKey);
-}
+import {
+    getModelProvider,
+    UsageMeter,
+    DEFAULT_IMAGE_SIZE,
+    type ModelPart,
+    type ModelResponse,
+} from "./providers";
 
 // ============ THINKING MODE ============
 
@@ -64,12 +68,6 @@ export async function generateThinking(
     context: string,
     action: string
 ): Promise<string> {
-    const client = getGeminiClient();
-    // Use Gemini 3 Flash with thinking config
-    const model = client.getGenerativeModel({
-        model: "gemini-3-flash-preview",
-    });
-
     const prompt = `You are explaining your thought process as an AI agent.
 
 CONTEXT: ${context}
@@ -79,18 +77,16 @@ Explain your reasoning in 2-3 sentences. Be specific about WHY you chose this ac
 Write in first person ("I noticed...", "I'm choosing to...").`;
 
     try {
-        const result = await model.generateContent({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            generationConfig: {
-                // @ts-expect-error - thinking config is valid in Gemini 3
-                thinkingConfig: {
-                    includeThoughts: true,
-                    thinkingLevel: getThinkingLevel("generate_thinking"),
-                },
-                temperature: 1.0,
-            },
-        }, { timeout: 30000 }); // 30s max for thinking explanation
-        return result.response.text().trim();
+        const result = await getModelProvider().generateText({
+            role: "orchestrator",
+            operation: "generate_thinking",
+            parts: prompt,
+            includeThoughts: true,
+            thinkingLevel: getThinkingLevel("generate_thinking"),
+            temperature: 1.0,
+            timeoutMs: 30000, // 30s max for thinking explanation
+        });
+        return result.text.trim();
     } catch (error) {
         console.error("Thinking generation error:", error);
         return `Executing ${action}...`;
@@ -103,20 +99,15 @@ Write in first person ("I noticed...", "I'm choosing to...").`;
  * Search the web for brand/trend research using Gemini with Google Search
  */
 export async function searchWebForContext(query: string): Promise<string> {
-    const client = getGeminiClient();
-    const model = client.getGenerativeModel({
-        model: "gemini-3-flash-preview",
-        // @ts-expect-error - tools with google search is valid
-        tools: [{ googleSearch: {} }],
-        generationConfig: { temperature: 1.0 },
-    });
-
     try {
-        const result = await model.generateContent(
-            `Search and summarize: ${query}. Focus on visual trends, colors, and design patterns.`,
-            { timeout: 600000 }
-        );
-        return result.response.text();
+        const result = await getModelProvider().searchGrounded({
+            role: "trend_scout",
+            operation: "search_trends",
+            parts: `Search and summarize: ${query}. Focus on visual trends, colors, and design patterns.`,
+            temperature: 1.0,
+            timeoutMs: 600000,
+        });
+        return result.text;
     } catch (error) {
         console.error("Search error:", error);
         return "";
@@ -144,7 +135,7 @@ function summarizeFunctionResponse(toolName: string, result: object): object {
                 compliance_score: obj.compliance_score,
                 pass: obj.pass,
                 fix_instructions: obj.fix_instructions,
-                issue_count: Array.isArray(obj.heatmap_coordinates) ? obj.heatmap_coordinates.length : 0,
+                issue_count: Array.isArray(obj.issues) ? obj.issues.length : 0,
             };
         case "analyze_canvas":
             // Keep constitution but it's already small
@@ -168,11 +159,13 @@ function summarizeFunctionResponse(toolName: string, result: object): object {
  * 
  * NOTE: Thinking is now handled natively by the agent loop's thinkingConfig.
  * We removed the duplicate generateThinking() call to save tokens (~50% reduction).
+ * With a budget, generate_image is refused once a limit is reached.
  */
 export async function executeTool(
     toolName: string,
     args: Record<string, unknown>,
-    state: AgentState
+    state: AgentState,
+    budget?: BudgetGuard
 ): Promise<{ result: unknown; state: AgentState }> {
 
     switch (toolName) {
@@ -187,7 +180,8 @@ export async function executeTool(
                 };
             }
             console.log(`Analyzing ${elements.length} canvas elements with image data...`);
-            const constitution = await analyzeCanvasForConstitution(elements);
+            // A saved constitution's locked fields survive re-analysis
+            const constitution = applyFieldLocks(await analyzeCanvasForConstitution(elements), state.constitution);
             return {
                 result: { success: true, constitution },
                 state: { ...state, constitution, phase: "analyzing" },
@@ -200,7 +194,18 @@ export async function executeTool(
             const colorPalette = args.color_palette as string[] | undefined;
             const forbidden = args.forbidden_elements as string[] | undefined;
             const aspectRatio = args.aspect_ratio as ImageConfig["aspectRatio"] | undefined;
-            const imageSize = args.image_size as ImageConfig["imageSize"] | undefined;
+            const imageSize = (args.image_size as ImageConfig["imageSize"] | undefined) || DEFAULT_IMAGE_SIZE;
+
+            // Checked once per tool call (retries included), before anything is spent
+            try {
+                await budget?.reserveImage(imageSize);
+            } catch (error) {
+                if (!(error instanceof BudgetExceededError)) throw error;
+                return {
+                    result: { success: false, error: error.message, budget_exceeded: error.violation },
+                    state,
+                };
+            }
 
             // Retry logic with exponential backoff for resilience
             let imageBase64: string | null = null;
@@ -264,8 +269,8 @@ export async function executeTool(
                 };
             }
 
-            const auditResult = await auditImageCompliance(imageBase64, constitution);
-            const passes = auditResult.pass || auditResult.compliance_score >= 90;
+            const auditResult = await auditImageCompliance(imageBase64, constitution, state.auditPolicy);
+            const passes = auditResult.pass;
 
             // If audit passes, signal that we should auto-complete
             return {
@@ -273,7 +278,7 @@ export async function executeTool(
                     success: true,
                     compliance_score: auditResult.compliance_score,
                     pass: passes,
-                    issues: (auditResult.heatmap_coordinates || []).map((h) => h.issue),
+                    issues: auditResult.regions.map((r) => r.issue),
                     fix_instructions: auditResult.fix_instructions,
                     // Signal to agent: if pass is true, call complete_task immediately
                     next_action: passes ? "CALL complete_task NOW - image passed audit!" : "refine and retry",
@@ -355,13 +360,12 @@ export async function generateImageWithNanoBanana(
         imageSize?: "1K" | "2K" | "4K";
     }
 ): Promise<string> {
-    const client = getGeminiClient();
     const {
         styleGuide,
         colorPalette,
         forbiddenElements,
         aspectRatio = "1:1",
-        imageSize = "2K",
+        imageSize = DEFAULT_IMAGE_SIZE,
     } = options || {};
 
     // Build enhanced prompt with brand constraints
@@ -389,53 +393,29 @@ export async function generateImageWithNanoBanana(
     // Inject resolution intent into prompt to ensure high quality
     enhancedPrompt += `\n\nRESOLUTION: Please target ${imageSize} (${sizeMap[imageSize as keyof typeof sizeMap]}) quality with extreme detail.`;
 
-    // Use Nano Banana Pro (gemini-3-pro-image-preview) 
-    const model = client.getGenerativeModel({
-        model: "gemini-3-pro-image-preview",
-        generationConfig: {
-            // @ts-expect-error - Gemini 3 preview properties not in SDK types
-            responseModalities: ["image", "text"],
-            imageConfig: {
-                aspectRatio,
-            },
-            // Note: thinkingLevel is not supported for gemini-3-pro-image-preview
-            // The model thinks by default when generating images.
-            temperature: 1.0,
-        },
-    });
-
+    // Use Nano Banana Pro (gemini-3-pro-image-preview by default)
+    // Note: thinkingLevel is not supported for the image model - it thinks by default.
     try {
-        const response = await model.generateContent(enhancedPrompt, { timeout: 600000 });
-        const parts = response.response.candidates?.[0]?.content?.parts || [];
-
-        // Debug logging
-        console.log(`[NanoBanana] Response has ${parts.length} parts`);
-        for (let i = 0; i < parts.length; i++) {
-            const part = parts[i];
-            if (part.inlineData) {
-                console.log(`[NanoBanana] Part ${i}: inlineData mimeType=${part.inlineData.mimeType}, dataLength=${part.inlineData.data?.length || 0}`);
-            } else if (part.text) {
-                console.log(`[NanoBanana] Part ${i}: text (${part.text.length} chars)`);
-            } else {
-                console.log(`[NanoBanana] Part ${i}: unknown type`, Object.keys(part));
-            }
-        }
+        const response = await getModelProvider().generateImage({
+            role: "creative_director",
+            operation: "generate_image",
+            parts: enhancedPrompt,
+            aspectRatio,
+            imageSize,
+            temperature: 1.0,
+            timeoutMs: 600000,
+        });
 
-        for (const part of parts) {
-            if (part.inlineData?.mimeType?.startsWith("image/")) {
-                const base64Data = part.inlineData.data;
-                if (base64Data && base64Data.length > 100) {
-                    console.log(`[NanoBanana] SUCCESS: Returning image data (${base64Data.length} chars)`);
-                    return base64Data; // Base64 encoded image
-                }
+        for (const image of response.images) {
+            if (image.mimeType?.startsWith("image/") && image.data.length > 100) {
+                return image.data; // Base64 encoded image
             }
         }
 
-        // If we got here, no valid image in response - log the full parts for debugging
-        console.error("[NanoBanana] No valid image in response. Parts:", JSON.stringify(parts.map(p => ({
-            hasInlineData: !!p.inlineData,
-            inlineDataMime: p.inlineData?.mimeType,
-            textLength: p.text?.length,
+        // If we got here, no valid image in response - log what we got for debugging
+        console.error("[NanoBanana] No valid image in response. Images:", JSON.stringify(response.images.map(img => ({
+            mimeType: img.mimeType,
+            dataLength: img.data.length,
         }))));
         throw new Error("No image generated in response");
     } catch (error) {
@@ -454,21 +434,11 @@ export async function generateImageWithNanoBanana(
 export async function analyzeCanvasForConstitution(
     elements: CanvasElement[]
 ): Promise<BrandConstitution> {
-    const client = getGeminiClient();
-
     // NOTE: responseSchema does NOT work reliably with multimodal image content
-    // It causes Gemini to return nulls. We use responseMimeType for JSON + prompt enforcement.
-    const model = client.getGenerativeModel({
-        model: "gemini-3-flash-preview",
-        generationConfig: {
-            responseMimeType: "application/json",
-            // responseSchema removed - conflicts with multimodal content
-            temperature: 1.0,
-        },
-    }, { timeout: 90000 }); // 90s for image analysis
+    // It causes Gemini to return nulls. We use JSON mode + prompt enforcement.
 
     // Build multimodal content with actual images
-    const contentParts: Part[] = [];
+    const contentParts: ModelPart[] = [];
 
     // Collect text context and image data separately
     const textDescriptions: string[] = [];
@@ -562,49 +532,22 @@ BE SPECIFIC AND DETAILED. Do NOT return generic defaults. Analyze what you actua
 
     console.log(`Analyzing canvas with ${imageElements.length} images...`);
 
-    const result = await model.generateContent(contentParts);
-    const responseText = result.response.text();
-
-    // Balanced brace extraction to handle cases where the model returns extra text
-    let braceCount = 0;
-    let startIndex = responseText.indexOf('{');
-    let jsonStr = "";
-
-    // DEBUG: Log raw response
-    console.log(`[Gemini Response] Length: ${responseText.length}, First 500 chars:`);
-    console.log(responseText.slice(0, 500));
-
-    if (startIndex !== -1) {
-        for (let i = startIndex; i < responseText.length; i++) {
-            if (responseText[i] === '{') braceCount++;
-            else if (responseText[i] === '}') braceCount--;
+    try {
+        // JSON extraction (fences, extra text) is handled by the provider
+        const result = await getModelProvider().generateJson<Record<string, unknown>>({
+            role: "brand_analyst",
+            operation: "analyze_canvas",
+            parts: contentParts,
+            temperature: 1.0,
+            timeoutMs: 90000, // 90s for image analysis
+        });
 
-            if (braceCount === 0) {
-                jsonStr = responseText.substring(startIndex, i + 1);
-                break;
-            }
-        }
+        return validateAndSanitizeConstitution(result.data);
+    } catch (err) {
+        console.error(`[JSON Parse] FAILED:`, err);
+        // Fall through to default
     }
 
-    console.log(`[JSON Extraction] Found JSON: ${jsonStr.length > 0 ? 'YES' : 'NO'}, Length: ${jsonStr.length}`);
-
-    if (jsonStr) {
-        try {
-            const parsed = JSON.parse(jsonStr);
-            console.log(`[JSON Parse] SUCCESS - Keys: ${Object.keys(parsed).join(', ')}`);
-            const result = validateAndSanitizeConstitution(parsed);
-            console.log(`[Constitution] Colors: ${result.visual_identity.color_palette_hex.join(', ')}`);
-            return result;
-        } catch (err) {
-            console.error(`[JSON Parse] FAILED:`, err);
-            console.log(`[JSON String] First 200 chars: ${jsonStr.slice(0, 200)}`);
-            // Fall through to default
-        }
-    } else {
-        console.log(`[JSON Extraction] NO JSON FOUND in response`);
-    }
-
-    console.log(`[Constitution] Returning DEFAULT constitution`);
     return getDefaultConstitution();
 }
 
@@ -680,44 +623,41 @@ function validateAndSanitizeConstitution(data: any): BrandConstitution {
 
     console.log(`[validateAndSanitize] Extracted ${colorPalette.length} colors: ${colorPalette.slice(0, 3).join(', ')}...`);
 
-    return {
+    // The nested format's other fields are kept; the schema fills or repairs the rest
+    const nested = (value: unknown) => value && typeof value === "object" && !Array.isArray(value) ? value : {};
+    const { constitution, issues } = normalizeConstitution({
+        ...data,
         visual_identity: {
+            ...nested(data.visual_identity),
             color_palette_hex: colorPalette,
             photography_style: photographyStyle,
             forbidden_elements: forbiddenElements,
         },
         voice: {
+            ...nested(data.voice),
             tone: voiceTone,
             keywords: keywords,
         },
-        risk_thresholds: {
-            nudity: nudity as "STRICT_ZERO_TOLERANCE" | "ALLOW_ARTISTIC",
-            political: political as "STRICT_ZERO_TOLERANCE" | "ALLOW_SATIRE",
-        },
-    };
+        risk_thresholds: { nudity, political },
+    }, defaultConst);
+    if (issues.length > 0) {
+        console.warn(`[validateAndSanitize] Repaired ${issues.length} field(s): ${issues.join("; ")}`);
+    }
+    return constitution;
 }
 
 // ============ COMPLIANCE AUDIT ============
 
 /**
- * Audit an image against brand constitution
+ * Audit an image against brand constitution, decided under the brand's policy
  * NOTE: responseSchema + thinkingConfig removed - they conflict with multimodal content
  */
 export async function auditImageCompliance(
     imageBase64: string,
-    constitution: BrandConstitution
+    constitution: BrandConstitution,
+    policy: AuditPolicy = DEFAULT_AUDIT_POLICY
 ): Promise<AuditResult> {
-    const client = getGeminiClient();
-    const model = client.getGenerativeModel({
-        model: "gemini-3-flash-preview",
-        generationConfig: {
-            responseMimeType: "application/json",
-            // responseSchema removed - conflicts with multimodal content
-            temperature: 1.0,
-        },
-    }, { timeout: 45000 }); // 45s max for audit
-
-    const imagePart: Part = {
+    const imagePart: ModelPart = {
         inlineData: {
             mimeType: "image/png",
             // Strip data:image/png;base64, prefix if present
@@ -727,12 +667,13 @@ export async function auditImageCompliance(
 
     const prompt = `You are the Brand Compliance Auditor.
 Audit this generated image against the following Brand Constitution:
-${JSON.stringify(constitution, null, 2)}
+${JSON.stringify({ ...constitution, provenance: undefined }, null, 2)}
 
 REQUIREMENTS:
 1. Provide a compliance score (0-100).
-2. Pass is true if score >= 90.
-3. Include heatmap coordinates for any issues.
+2. Pass is true if score >= ${policy.bands.approve}.
+3. Include heatmap coordinates for any issues: the center of the issue and, when it covers an area,
+   a box around it. All values are percent of the image width/height (0-100) from the top-left corner.
 4. Provide clear fix instructions.
 
 You MUST respond with this EXACT JSON structure:
@@ -740,7 +681,8 @@ You MUST respond with this EXACT JSON structure:
   "compliance_score": <number 0-100>,
   "pass": <boolean>,
   "heatmap_coordinates": [
-    {"x": <number 0-100>, "y": <number 0-100>, "issue": "<description>"}
+    {"x": <number 0-100>, "y": <number 0-100>, "issue": "<description>",
+     "box": {"x": <number>, "y": <number>, "width": <number>, "height": <number>} | null}
   ],
   "fix_instructions": "<detailed instructions>"
 }
@@ -748,48 +690,60 @@ You MUST respond with this EXACT JSON structure:
 OUTPUT ONLY VALID JSON.`;
 
     try {
-        const result = await model.generateContent([prompt, imagePart], { timeout: 600000 });
-        const responseText = result.response.text();
-
-        // Balanced brace extraction to handle cases where the model returns extra text
-        let braceCount = 0;
-        let startIndex = responseText.indexOf('{');
-        let jsonStr = "";
-
-        if (startIndex !== -1) {
-            for (let i = startIndex; i < responseText.length; i++) {
-                if (responseText[i] === '{') braceCount++;
-                else if (responseText[i] === '}') braceCount--;
-
-                if (braceCount === 0) {
-                    jsonStr = responseText.substring(startIndex, i + 1);
-                    break;
-                }
-            }
-        }
-
-        if (jsonStr) {
-            const parsed = JSON.parse(jsonStr);
-            // Flexible validation - handle various response formats
-            return validateAndSanitizeAuditResult(parsed);
-        }
+        // responseSchema omitted - conflicts with multimodal content
+        const result = await getModelProvider().generateJson({
+            role: "compliance_auditor",
+            operation: "audit_compliance",
+            parts: [{ text: prompt }, imagePart],
+            temperature: 1.0,
+            timeoutMs: 600000,
+        });
 
-        throw new Error("No valid JSON object found in response");
+        // Flexible validation - handle various response formats
+        return applyAuditPolicy(validateAndSanitizeAuditResult(result.data, policy), policy);
     } catch (error) {
         console.error("Audit error:", error);
-        return {
+        return evaluateAuditPolicy({
+            version: AUDIT_RESULT_VERSION,
             compliance_score: 50,
             pass: false,
-            heatmap_coordinates: [],
+            decision: "REGENERATE",
+            export_blockers: [],
+            sub_scores: {},
+            violations: [],
+            strengths: [],
+            regions: [],
             fix_instructions: "Unable to complete audit due to technical error.",
-        };
+        }, policy);
     }
 }
 
+/**
+ * One reported issue as a region: an object with a box or a center point,
+ * or a bare description
+ */
+function toAuditRegion(raw: unknown, index: number): AuditRegion {
+    const issue = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+    // Boxes locate an issue better than a model-picked center point
+    const box = toBoundingBox(issue.box ?? issue.box_2d);
+    const center = box ? boxCenter(box) : {
+        x: typeof issue.x === 'number' ? issue.x : (index * 20) % 100,
+        y: typeof issue.y === 'number' ? issue.y : (index * 20) % 100,
+    };
+    const description = [issue.issue, issue.description].find((v): v is string => typeof v === 'string' && v !== '');
+    return {
+        ...center,
+        issue: description ?? String(raw),
+        ...(box ? { box } : {}),
+    };
+}
+
 /**
  * Ensures audit result matches expected structure, handling various Gemini response formats
  */
-function validateAndSanitizeAuditResult(data: any): AuditResult {
+function validateAndSanitizeAuditResult(raw: unknown, policy: AuditPolicy): AuditResult {
+    const data = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+
     // Handle compliance_score - can be at root or nested
     const score = typeof data.compliance_score === 'number' ? data.compliance_score :
         typeof data.score === 'number' ? data.score : 50;
@@ -797,16 +751,13 @@ function validateAndSanitizeAuditResult(data: any): AuditResult {
     // Handle pass - can be boolean or string
     const pass = typeof data.pass === 'boolean' ? data.pass :
         data.pass === 'true' ? true :
-            score >= 90;
+            score >= policy.bands.approve;
 
     // Handle heatmap_coordinates - can be at root or nested
-    const coords = Array.isArray(data.heatmap_coordinates) ? data.heatmap_coordinates :
+    const rawCoords: unknown[] = Array.isArray(data.heatmap_coordinates) ? data.heatmap_coordinates :
         Array.isArray(data.coordinates) ? data.coordinates :
-            Array.isArray(data.issues) ? data.issues.map((issue: any, i: number) => ({
-                x: issue.x || (i * 20) % 100,
-                y: issue.y || (i * 20) % 100,
-                issue: issue.issue || issue.description || String(issue)
-            })) : [];
+            Array.isArray(data.issues) ? data.issues : [];
+    const regions = rawCoords.map(toAuditRegion);
 
     // Handle fix_instructions - can be string or array
     const fixInstructions = typeof data.fix_instructions === 'string' ? data.fix_instructions :
@@ -815,9 +766,16 @@ function validateAndSanitizeAuditResult(data: any): AuditResult {
                 "No specific fix instructions provided.";
 
     return {
+        version: AUDIT_RESULT_VERSION,
         compliance_score: Math.max(0, Math.min(100, score)),
         pass,
-        heatmap_coordinates: coords,
+        // Decided by the policy
+        decision: pass ? "APPROVE" : "REGENERATE",
+        export_blockers: [],
+        sub_scores: {},
+        violations: Array.isArray(data.violations) ? data.violations : [],
+        strengths: Array.isArray(data.strengths) ? data.strengths : [],
+        regions,
         fix_instructions: fixInstructions,
     };
 }
@@ -832,18 +790,6 @@ export async function refinePromptBasedOnFeedback(
     feedback: string,
     issues?: string[]
 ): Promise<string> {
-    const client = getGeminiClient();
-    const model = client.getGenerativeModel({
-        model: "gemini-3-flash-preview",
-        generationConfig: {
-            // @ts-expect-error - thinking config is valid in Gemini 3
-            thinkingConfig: {
-                thinkingLevel: getThinkingLevel("refine_prompt"),
-            },
-            temperature: 1.0,
-        }
-    }, { timeout: 30000 }); // 30s max for refinement
-
     const prompt = `You are a prompt engineer.
 
 ORIGINAL PROMPT: "${originalPrompt}"
@@ -853,48 +799,56 @@ ${issues ? `SPECIFIC ISSUES: ${issues.join(", ")}` : ""}
 
 Rewrite the prompt to fix these issues. Output ONLY the refined prompt, nothing else.`;
 
-    const result = await model.generateContent(prompt, { timeout: 600000 });
-    return result.response.text().trim();
+    const result = await getModelProvider().generateText({
+        role: "creative_director",
+        operation: "refine_prompt",
+        parts: prompt,
+        thinkingLevel: getThinkingLevel("refine_prompt"),
+        temperature: 1.0,
+        timeoutMs: 30000, // 30s max for refinement
+    });
+    return result.text.trim();
 }
 
 // ============ FUNCTION CALLING AGENT ============
 
 /**
  * Run the agent loop with function calling
- * This is the core agentic behavior - AI decides what to do
+ * This is the core agentic behavior - AI decides what to do.
+ * Reports the model usage of every call the loop and its tools made,
+ * and enforces the optional budget on image generation.
  */
 export async function runAgentLoop(
     userPrompt: string,
     canvasElements: CanvasElement[],
     onAction: (action: AgentAction) => void,
-    savedConstitution?: BrandConstitution | null
-): Promise<{ success: boolean; image?: string; message: string; history: AgentAction[]; constitution?: BrandConstitution }> {
-    const client = getGeminiClient();
-
-    // Convert our tools to Gemini's function declaration format
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const functionDeclarations: FunctionDeclaration[] = AGENT_TOOLS.map((tool) => ({
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.parameters as unknown as FunctionDeclaration["parameters"],
-    }));
+    savedConstitution?: BrandConstitution | null,
+    budget?: BudgetGuard,
+    auditPolicy: AuditPolicy = DEFAULT_AUDIT_POLICY
+): Promise<{ success: boolean; image?: string; message: string; history: AgentAction[]; constitution?: BrandConstitution; usage: UsageSummary }> {
+    const usage = new UsageMeter();
+    const run = () => agentLoop(userPrompt, canvasElements, onAction, savedConstitution, budget, auditPolicy);
+    const result = await usage.track(() => (budget ? budget.track(run) : run()));
+    return { ...result, usage: usage.summary() };
+}
 
-    const model = client.getGenerativeModel({
-        model: "gemini-3-flash-preview",
-        tools: [{ functionDeclarations }],
-        toolConfig: {
-            functionCallingConfig: {
-                mode: FunctionCallingMode.AUTO,
-            },
-        },
-        generationConfig: {
-            // @ts-expect-error - thinking config for Gemini 3 (docs only show includeThoughts, not thinkingLevel)
-            thinkingConfig: {
-                includeThoughts: true,
-            },
-            temperature: 1.0,
-        },
-    }, { timeout: 120000 }); // 120s per call (image generation can take 30-60s)
+async function agentLoop(
+    userPrompt: string,
+    canvasElements: CanvasElement[],
+    onAction: (action: AgentAction) => void,
+    savedConstitution: BrandConstitution | null | undefined,
+    budget: BudgetGuard | undefined,
+    auditPolicy: AuditPolicy
+): Promise<{ success: boolean; image?: string; message: string; history: AgentAction[]; constitution?: BrandConstitution }> {
+    // Tools are converted to function declarations by the provider
+    const chat = getModelProvider().startChat({
+        role: "agent_loop",
+        operation: "agent_loop",
+        tools: AGENT_TOOLS,
+        includeThoughts: true,
+        temperature: 1.0,
+        timeoutMs: 120000, // 120s per call (image generation can take 30-60s)
+    });
 
     // Initialize agent state with memory and original canvas elements
     let state: AgentState = {
@@ -903,6 +857,7 @@ export async function runAgentLoop(
         constitution: savedConstitution || null,
         currentImage: null,
         auditScore: null,
+        auditPolicy,
         attempts: 0,
         maxAttempts: 3,
         history: [],
@@ -911,7 +866,7 @@ export async function runAgentLoop(
 
     // Build the initial prompt with memory context
     const memoryContext = savedConstitution
-        ? `\n\nMEMORY: You have a saved Brand Constitution from a previous session:\n${JSON.stringify(savedConstitution, null, 2)}\nYou may skip analyze_canvas if this constitution is still relevant.`
+        ? `\n\nMEMORY: You have a saved Brand Constitution from a previous session:\n${JSON.stringify({ ...savedConstitution, provenance: undefined }, null, 2)}\nYou may skip analyze_canvas if this constitution is still relevant.`
         : "";
 
     // Create a lightweight summary of canvas elements (NO base64 data - that causes timeouts!)
@@ -941,7 +896,7 @@ ${savedConstitution ? `IMPORTANT: You already have a SAVED Brand Constitution (s
 2. Optionally call search_trends for current design trends (recommended for better results).
 3. Call generate_image with a detailed prompt based on the brand constitution.
 4. Call audit_compliance to check the generated image against brand guidelines.
-5. If audit fails (score < 90), call refine_prompt and generate_image again.
+5. If audit fails (score < ${auditPolicy.bands.approve} or pass is false), call refine_prompt and generate_image again.
 6. Maximum 3 attempts. After that, complete with best result.
 7. When done, call complete_task.
 
@@ -955,17 +910,15 @@ Explain your reasoning before each action.`;
         console.log(`[Agent Init] Constitution size: ${JSON.stringify(savedConstitution).length} chars`);
     }
 
-    const chat = model.startChat();
-
     // Initial message with exponential backoff and jitter for robustness
-    let response;
+    let response: ModelResponse | undefined;
     let initialRetry = 0;
     const maxInitRetries = 3;
 
     while (initialRetry <= maxInitRetries) {
         try {
             console.log(`[Agent Init] Attempt ${initialRetry + 1}/${maxInitRetries + 1}...`);
-            response = await chat.sendMessage(systemMessage, { timeout: 90000 }); // 90s for init
+            response = await chat.send(systemMessage, { timeoutMs: 90000 }); // 90s for init
             console.log(`[Agent Init] Success on attempt ${initialRetry + 1}`);
             break;
         } catch (error) {
@@ -999,20 +952,11 @@ Explain your reasoning before each action.`;
 
     // response is guaranteed to be defined here since we throw in the retry loop if all attempts fail
     for (let i = 0; i < maxIterations; i++) {
-        const candidate = response!.response.candidates?.[0];
-        if (!candidate) break;
-
         // Check for function calls
-        const functionCalls = candidate.content.parts
-            .filter((part) => part.functionCall)
-            .map((part) => part.functionCall!);
+        const functionCalls = response!.functionCalls;
 
-        // Extract thoughts from the model (Gemini 3 native thinking feature)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const thoughts = candidate.content.parts
-            .map((part: unknown) => (part as { thought?: string }).thought)
-            .filter(Boolean)
-            .join("\n");
+        // Thoughts from the model (Gemini 3 native thinking feature)
+        const thoughts = response!.thoughts;
 
         if (functionCalls.length === 0) {
             // No function call, agent is done or stuck
@@ -1020,7 +964,7 @@ Explain your reasoning before each action.`;
         }
 
         // Execute each function call
-        const functionResponses: Part[] = [];
+        const functionResponses: ModelPart[] = [];
 
         for (const fc of functionCalls) {
             state.step++;
@@ -1029,7 +973,8 @@ Explain your reasoning before each action.`;
             const { result, state: newState } = await executeTool(
                 fc.name,
                 fc.args as Record<string, unknown>,
-                state
+                state,
+                budget
             );
             state = newState;
 
@@ -1068,7 +1013,7 @@ Explain your reasoning before each action.`;
         }
 
         // Send function results back to model
-        // IMPORTANT: Using original chat.sendMessage() to preserve thought_signature
+        // IMPORTANT: Using the same chat session to preserve thought_signature
         // Gemini 3 with thinkingConfig requires thought signatures in function call history
         // Fresh chat approach breaks this - signatures must be preserved across turns
         let retryCount = 0;
@@ -1082,7 +1027,7 @@ Explain your reasoning before each action.`;
                 console.log(`[Agent Loop] Sending ${functionResponses.length} responses, payload size: ${payloadSize} bytes, step: ${state.step}`);
 
                 // Use the original chat which preserves thought_signature in history
-                response = await chat.sendMessage(functionResponses, { timeout: 120000 }); // 120s timeout for accumulated history
+                response = await chat.send(functionResponses, { timeoutMs: 120000 }); // 120s timeout for accumulated history
                 apiCallSucceeded = true;
                 break; // Success
             } catch (error) {
@@ -1139,19 +1084,18 @@ Explain your reasoning before each action.`;
 
 function getDefaultConstitution(): BrandConstitution {
     return {
+        ...DEFAULT_CONSTITUTION,
         visual_identity: {
+            ...DEFAULT_CONSTITUTION.visual_identity,
             color_palette_hex: ["#00FFCC", "#FF00FF", "#000000"],
             photography_style: "Modern, bold, high contrast",
             forbidden_elements: [],
         },
         voice: {
+            ...DEFAULT_CONSTITUTION.voice,
             tone: "Professional yet approachable",
             keywords: ["Innovation", "Quality"],
         },
-        risk_thresholds: {
-            nudity: "STRICT_ZERO_TOLERANCE",
-            political: "STRICT_ZERO_TOLERANCE",
-        },
     };
 }
 
@@ -0,0 +1,106 @@
+/**
+ * Asset Image Storage
+ *
+ * Every attempt of a run keeps its image as a URL, so campaigns, the
+ * review queue and brand books can show it long after the run. Images go
+ * to Vercel Blob when BLOB_READ_WRITE_TOKEN is set, otherwise to files
+ * under ASSET_IMAGES_DIR served by GET /api/assets/:name.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { put } from "@vercel/blob";
+import type { Asset } from "@/lib/types";
+
+export interface AssetImageStorage {
+    /** Store a PNG under `name` and return the URL it's served from */
+    save(name: string, png: Buffer): Promise<string>;
+}
+
+/**
+ * Asset image names come from URLs - never let them escape the directory
+ */
+function isValidImageName(name: string): boolean {
+    return /^[A-Za-z0-9_-]+\.png$/.test(name);
+}
+
+// ============ VERCEL BLOB ============
+
+export class BlobAssetImageStorage implements AssetImageStorage {
+    async save(name: string, png: Buffer): Promise<string> {
+        const blob = await put(`assets/${name}`, png, {
+            access: "public",
+            contentType: "image/png",
+            addRandomSuffix: false,
+            allowOverwrite: true,
+        });
+        return blob.url;
+    }
+}
+
+// ============ FILES ============
+
+export class FileAssetImageStorage implements AssetImageStorage {
+    constructor(readonly dir: string) {}
+
+    async save(name: string, png: Buffer): Promise<string> {
+        if (!isValidImageName(name)) throw new Error(`Invalid asset image name: ${name}`);
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.writeFileSync(path.join(this.dir, name), png);
+        return `/api/assets/${name}`;
+    }
+
+    /**
+     * A stored image's bytes; null for unknown names
+     */
+    read(name: string): Buffer | null {
+        if (!isValidImageName(name)) return null;
+        const file = path.join(this.dir, name);
+        return fs.existsSync(file) ? fs.readFileSync(file) : null;
+    }
+}
+
+// ============ SINGLETON INSTANCES ============
+
+let fileStorageInstance: FileAssetImageStorage | null = null;
+
+export function getFileAssetImageStorage(): FileAssetImageStorage {
+    if (!fileStorageInstance) {
+        fileStorageInstance = new FileAssetImageStorage(
+            process.env.ASSET_IMAGES_DIR || path.join(os.tmpdir(), "sentient-studio-assets")
+        );
+    }
+    return fileStorageInstance;
+}
+
+export function getAssetImageStorage(): AssetImageStorage {
+    return process.env.BLOB_READ_WRITE_TOKEN ? new BlobAssetImageStorage() : getFileAssetImageStorage();
+}
+
+// ============ ASSETS ============
+
+const DATA_URL_PREFIX = "data:image/png;base64,";
+
+/**
+ * Replace each asset's inline image with a stored one. Assets already
+ * stored (e.g. from before a resume) are kept as they are; an image that
+ * can't be stored leaves the asset without one rather than an inline
+ * image too large for a campaign document.
+ */
+export async function storeAssetImages(
+    runId: string,
+    assets: Asset[],
+    storage: AssetImageStorage = getAssetImageStorage()
+): Promise<Asset[]> {
+    return Promise.all(assets.map(async (asset) => {
+        if (!asset.image_url?.startsWith(DATA_URL_PREFIX)) return asset;
+        try {
+            const png = Buffer.from(asset.image_url.slice(DATA_URL_PREFIX.length), "base64");
+            return { ...asset, image_url: await storage.save(`${runId}_${asset.id}.png`, png) };
+        } catch (error) {
+            console.error(`[Asset Images] Failed to store image of asset ${asset.id}:`, error);
+            return { ...asset, image_url: null };
+        }
+    }));
+}
@@ -0,0 +1,30 @@
+/**
+ * Durable Agent Jobs
+ *
+ * Persisted, reconnectable and resumable agent runs.
+ */
+
+export {
+    FileJobStore,
+    getJobStore,
+    TERMINAL_JOB_STATUSES,
+    type AgentJob,
+    type AgentJobInput,
+    type JobEvent,
+    type JobStatus,
+} from "./store";
+export {
+    startAgentJob,
+    resumeAgentJob,
+    streamJobEvents,
+    JobNotResumableError,
+    SSE_HEADERS,
+} from "./runner";
+export {
+    storeAssetImages,
+    getAssetImageStorage,
+    getFileAssetImageStorage,
+    BlobAssetImageStorage,
+    FileAssetImageStorage,
+    type AssetImageStorage,
+} from "./assets";
@@ -0,0 +1,278 @@
+/**
+ * Agent Job Runner
+ *
+ * Runs orchestrated agents as durable jobs. Every update is persisted as a
+ * numbered event before any client sees it, and clients stream by tailing
+ * the store - so a dropped connection can reconnect with Last-Event-ID, and
+ * a failed run can be resumed from its last successful task.
+ */
+
+import { mergeUsage } from "@/lib/types";
+import { runOrchestratedAgent, type OrchestrationResume, type OrchestrationUpdate } from "../orchestrated";
+import type { AgentResult, AgentTask } from "../agents/types";
+import { startRun, finishRun, isRunActive } from "../runs";
+import { createBudgetGuard, type BudgetGuard } from "../budget";
+import { storeAssetImages } from "./assets";
+import {
+    getJobStore,
+    TERMINAL_JOB_STATUSES,
+    type AgentJob,
+    type AgentJobInput,
+    type JobEvent,
+    type JobStatus,
+} from "./store";
+
+const POLL_INTERVAL_MS = 250;
+// Keep-alive heartbeat (every 5s for Vercel Hobby plan)
+const HEARTBEAT_INTERVAL_MS = 5000;
+// A running job with no activity this long, and no live run here, was interrupted
+const INTERRUPTED_AFTER_MS = 5 * 60 * 1000;
+
+export const SSE_HEADERS = {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+};
+
+export class JobNotResumableError extends Error {
+    constructor(public runId: string, public status: JobStatus) {
+        super(`Run ${runId} is ${status} and cannot be resumed`);
+        this.name = "JobNotResumableError";
+    }
+}
+
+// ============ STARTING RUNS ============
+
+/**
+ * Create a job and run it in the background.
+ * With a plan (approved in plan mode) intent parsing is skipped.
+ * Throws a BudgetExceededError, before creating anything, when the
+ * user or brand has no generations left.
+ */
+export function startAgentJob(input: AgentJobInput, plan?: AgentTask[]): AgentJob {
+    const budget = createBudgetGuard(input);
+    budget.check();
+
+    const { runId, signal } = startRun();
+    const job = getJobStore().createJob(runId, input, plan || null);
+    void executeJob(job, signal, budget);
+    return job;
+}
+
+/**
+ * Continue a failed, cancelled or interrupted run from its last successful task.
+ * Returns null for unknown runs. Budgets are checked as for new runs, with
+ * earlier attempts counting toward the run's token limit.
+ */
+export function resumeAgentJob(runId: string): AgentJob | null {
+    const store = getJobStore();
+    const existing = store.getJob(runId);
+    if (!existing) return null;
+
+    // "running" with nothing behind it means the process died mid-run
+    if (existing.status === "completed" || (existing.status === "running" && isRunActive(runId))) {
+        throw new JobNotResumableError(runId, existing.status);
+    }
+
+    const budget = createBudgetGuard(existing.input, existing.usage);
+    budget.check();
+
+    const { signal } = startRun(runId);
+    const job = store.updateJob(runId, (j) => {
+        j.status = "running";
+        j.message = null;
+        j.resumeCount++;
+    });
+    void executeJob(job, signal, budget);
+    return job;
+}
+
+// ============ EXECUTION ============
+
+async function executeJob(job: AgentJob, signal: AbortSignal, budget: BudgetGuard): Promise<void> {
+    const store = getJobStore();
+    const { runId } = job;
+    let nextEventId = store.lastEventId(runId) + 1;
+
+    const emit = (event: string, data: unknown) => {
+        store.appendEvent(runId, { id: nextEventId++, event, data, timestamp: Date.now() });
+    };
+
+    let status: JobStatus = "failed";
+    try {
+        emit("start", {
+            runId,
+            resumed: job.resumeCount > 0,
+            message: job.resumeCount > 0 ? "Resuming agent run..." : "Agent orchestration starting...",
+            timestamp: Date.now(),
+        });
+
+        // A stored plan is either approved up front or kept from the failed attempt
+        const resume: OrchestrationResume | undefined = job.plan && job.resumeCount > 0
+            ? { taskResults: job.taskResults, image: job.image, assets: job.assets }
+            : undefined;
+
+        const result = await runOrchestratedAgent(
+            job.input.prompt,
+            job.input.canvasElements,
+            async (update: OrchestrationUpdate) => {
+                // Persist progress as it happens so an interrupted run can resume
+                if (update.phase === "planning" && update.taskQueue) {
+                    const plan = update.taskQueue;
+                    store.updateJob(runId, (j) => {
+                        j.plan = plan;
+                    });
+                }
+                if (update.result) {
+                    const taskResult = update.result;
+                    store.updateJob(runId, (j) => {
+                        j.taskResults = upsertResult(j.taskResults, taskResult);
+                    });
+                }
+
+                emit("action", {
+                    step: Date.now(),
+                    phase: update.phase,
+                    tool: update.agentRole || "orchestrator",
+                    progress: update.progress,
+                    thinking: update.thinking || update.message,
+                    input: update.currentTask?.params || {},
+                    output: update.result?.data || null,
+                    ...(update.planErrors ? { planErrors: update.planErrors } : {}),
+                    ...(update.budgetExceeded ? { budgetExceeded: update.budgetExceeded } : {}),
+                });
+            },
+            job.input.savedConstitution,
+            { signal, plan: job.plan || undefined, resume, budget, auditPolicy: job.input.auditPolicy }
+        );
+
+        status = result.cancelled ? "cancelled" : result.success ? "completed" : "failed";
+        // Every attempt's image is stored, so assets carry a lasting URL
+        const assets = await storeAssetImages(runId, result.assets);
+        const saved = store.updateJob(runId, (j) => {
+            if (result.taskResults.length > 0) j.taskResults = result.taskResults;
+            j.image = result.image || j.image;
+            j.constitution = result.constitution || j.constitution;
+            j.assets = assets;
+            j.message = result.message;
+            j.usage = mergeUsage(j.usage, result.usage);
+        });
+
+        // Partial images are shown for stopped runs, not failed ones
+        const showImage = !!result.image && (result.success || !!result.cancelled);
+
+        emit("complete", {
+            runId,
+            success: result.success,
+            cancelled: !!result.cancelled,
+            resumable: status !== "completed",
+            message: result.message,
+            hasImage: showImage,
+            imageUrl: showImage ? `/api/agent/${runId}/image` : null,
+            constitution: result.constitution,
+            taskCount: result.taskResults.length,
+            duration: result.duration,
+            attempts: assets.map((asset) => ({
+                attempt_number: asset.attempt_number,
+                status: asset.status,
+                compliance_score: asset.audit_result?.compliance_score ?? null,
+                feedback: asset.sentinel_feedback,
+            })),
+            assets,
+            // Totals include earlier attempts of a resumed run
+            usage: saved.usage,
+            tasks: saved.taskResults.map((r) => ({
+                taskId: r.taskId,
+                role: r.role,
+                success: r.success,
+                duration: r.duration,
+                usage: r.usage ?? null,
+            })),
+            ...(result.planErrors ? { planErrors: result.planErrors } : {}),
+            ...(result.budgetExceeded ? { budgetExceeded: result.budgetExceeded } : {}),
+        });
+    } catch (error) {
+        console.error("Agent job error:", error);
+        const message = error instanceof Error ? error.message : "Unknown error";
+        store.updateJob(runId, (j) => {
+            j.message = message;
+        });
+        emit("error", { runId, message, resumable: true });
+    } finally {
+        // Status goes last: streams close once they see it, after reading every event
+        store.updateJob(runId, (j) => {
+            j.status = status;
+        });
+        finishRun(runId);
+    }
+}
+
+/**
+ * Replace a task's earlier result (e.g. a failed attempt before resuming)
+ */
+function upsertResult(results: AgentResult[], result: AgentResult): AgentResult[] {
+    return [...results.filter((r) => r.taskId !== result.taskId), result];
+}
+
+// ============ STREAMING ============
+
+function formatEvent(event: JobEvent): string {
+    return `id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Stream a job's events after afterId, then follow it until it finishes.
+ * Returns null for unknown runs.
+ */
+export function streamJobEvents(runId: string, afterId: number = 0): ReadableStream<Uint8Array> | null {
+    const store = getJobStore();
+    if (!store.getJobStatus(runId)) return null;
+
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    return new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (chunk: string) => {
+                if (!closed) controller.enqueue(encoder.encode(chunk));
+            };
+            const heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+            let lastId = afterId;
+            let lastActivity = Date.now();
+            try {
+                while (!closed) {
+                    // Read status before events: a terminal status means every event is written
+                    const job = store.getJobStatus(runId);
+                    const events = store.readEvents(runId, lastId);
+                    for (const event of events) {
+                        send(formatEvent(event));
+                        lastId = event.id;
+                    }
+
+                    if (!job || TERMINAL_JOB_STATUSES.includes(job.status)) break;
+
+                    if (events.length > 0) lastActivity = Date.now();
+                    const idleFor = Date.now() - Math.max(lastActivity, job.updatedAt);
+                    if (!isRunActive(runId) && idleFor > INTERRUPTED_AFTER_MS) {
+                        send(`event: error\ndata: ${JSON.stringify({
+                            runId,
+                            message: "Run was interrupted. Resume it to continue.",
+                            resumable: true,
+                        })}\n\n`);
+                        break;
+                    }
+
+                    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+                }
+            } finally {
+                clearInterval(heartbeat);
+                if (!closed) controller.close();
+            }
+        },
+        cancel() {
+            // Client disconnected - the run keeps going and can be reconnected to
+            closed = true;
+        },
+    });
+}
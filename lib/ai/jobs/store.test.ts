@@ -0,0 +1,57 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileJobStore } from "./store";
+
+const INPUT = { prompt: "Summer sale", canvasElements: [], savedConstitution: null, userId: "user_1" };
+
+describe("FileJobStore", () => {
+    let dir: string;
+    let store: FileJobStore;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "job-store-test-"));
+        store = new FileJobStore(dir);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("stores large strings out of line and restores them", () => {
+        const image = "A".repeat(10000);
+        store.updateJob(store.createJob("run_1", INPUT).runId, (job) => { job.image = image; });
+
+        expect(fs.readFileSync(path.join(dir, "run_1", "job.json"), "utf-8")).not.toContain(image);
+        expect(store.getJob("run_1")?.image).toBe(image);
+    });
+
+    it("reads status and owner without loading blobs", () => {
+        store.updateJob(store.createJob("run_1", INPUT).runId, (job) => {
+            job.image = "A".repeat(10000);
+            job.status = "completed";
+        });
+        fs.rmSync(path.join(dir, "run_1", "blobs"), { recursive: true });
+
+        expect(store.getJobStatus("run_1")).toMatchObject({ status: "completed" });
+        expect(store.getJobOwner("run_1")).toBe("user_1");
+        expect(() => store.getJob("run_1")).toThrow();
+    });
+
+    it("reports unknown and invalid runs as missing", () => {
+        expect(store.getJobStatus("run_missing")).toBeNull();
+        expect(store.getJobStatus("../escape")).toBeNull();
+        expect(store.getJobOwner("run_missing")).toBeNull();
+    });
+
+    it("returns events after an id, in order", () => {
+        store.createJob("run_1", INPUT);
+        for (let id = 1; id <= 3; id++) {
+            store.appendEvent("run_1", { id, event: "update", data: { id }, timestamp: id });
+        }
+
+        expect(store.readEvents("run_1", 1).map((event) => event.id)).toEqual([2, 3]);
+        expect(store.lastEventId("run_1")).toBe(3);
+    });
+});
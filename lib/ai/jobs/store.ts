@@ -0,0 +1,261 @@
+/**
+ * Agent Job Store
+ *
+ * Persists agent runs so they survive dropped connections: the original
+ * request, the plan, per-task results, the latest image and every streamed
+ * event. File-based for the same reason as the image store - separate
+ * Next.js server instances don't share memory.
+ *
+ * Layout of a job directory (AGENT_JOBS_DIR/<runId>):
+ * - job.json          run state
+ * - events.jsonl      streamed events, one per line, ids ascending from 1
+ * - blobs/<sha256>.b64 large strings (base64 images) referenced from both files
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { emptyUsage, type Asset, type AuditPolicy, type BrandConstitution, type CanvasElement, type UsageSummary } from "@/lib/types";
+import type { AgentResult, AgentTask } from "../agents/types";
+
+// ============ TYPES ============
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface AgentJobInput {
+    prompt: string;
+    canvasElements: CanvasElement[];
+    savedConstitution: BrandConstitution | null;
+    /** The brand's audit policy, kept so a resumed run audits the same way */
+    auditPolicy?: AuditPolicy | null;
+    /** Budget subjects (see ../budget); userId is the signed-in user who started the run */
+    userId?: string | null;
+    brandId?: string | null;
+}
+
+export interface AgentJob {
+    runId: string;
+    status: JobStatus;
+    input: AgentJobInput;
+    plan: AgentTask[] | null;
+    /** Latest result per task, in completion order */
+    taskResults: AgentResult[];
+    image: string | null;
+    constitution: BrandConstitution | null;
+    assets: Asset[];
+    message: string | null;
+    /** Model usage across every attempt of the run */
+    usage: UsageSummary;
+    /** Number of times the run has been resumed */
+    resumeCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface JobEvent {
+    id: number;
+    event: string;
+    data: unknown;
+    timestamp: number;
+}
+
+/**
+ * Statuses a run never leaves on its own
+ */
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+// ============ BLOBS ============
+
+/** Strings at least this long are stored out of line */
+const BLOB_THRESHOLD = 4096;
+
+interface BlobRef {
+    $blob: string;
+}
+
+function isBlobRef(value: unknown): value is BlobRef {
+    return typeof value === "object" && value !== null && typeof (value as BlobRef).$blob === "string";
+}
+
+/**
+ * Run IDs come from URLs - never let them escape the store
+ */
+function isValidRunId(runId: string): boolean {
+    return /^[A-Za-z0-9_-]+$/.test(runId);
+}
+
+// ============ FILE JOB STORE ============
+
+export class FileJobStore {
+    constructor(readonly dir: string) {}
+
+    createJob(runId: string, input: AgentJobInput, plan: AgentTask[] | null = null): AgentJob {
+        const now = Date.now();
+        const job: AgentJob = {
+            runId,
+            status: "running",
+            input,
+            plan,
+            taskResults: [],
+            image: null,
+            constitution: input.savedConstitution,
+            assets: [],
+            message: null,
+            usage: emptyUsage(),
+            resumeCount: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+        fs.mkdirSync(this.jobDir(runId), { recursive: true });
+        this.saveJob(job);
+        return job;
+    }
+
+    getJob(runId: string): AgentJob | null {
+        const job = this.readJobFile(runId);
+        return job ? this.inflate(runId, job) as AgentJob : null;
+    }
+
+    /**
+     * A run's status without loading its blobs, for polling
+     */
+    getJobStatus(runId: string): Pick<AgentJob, "status" | "updatedAt"> | null {
+        const job = this.readJobFile(runId);
+        return job ? { status: job.status as JobStatus, updatedAt: job.updatedAt as number } : null;
+    }
+
+    /**
+     * The user who started a run; null for unknown runs and runs from
+     * before runs required a user. Doesn't load the run's blobs. Routes
+     * answer other users' runs as not found.
+     */
+    getJobOwner(runId: string): string | null {
+        const input = this.readJobFile(runId)?.input as { userId?: unknown } | undefined;
+        return typeof input?.userId === "string" ? input.userId : null;
+    }
+
+    saveJob(job: AgentJob): void {
+        job.updatedAt = Date.now();
+        const file = path.join(this.jobDir(job.runId), "job.json");
+        // Write then rename so readers never see a half-written job
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.deflate(job.runId, job), null, 2));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+
+    /**
+     * Apply a change to the stored job and save it
+     */
+    updateJob(runId: string, change: (job: AgentJob) => void): AgentJob {
+        const job = this.getJob(runId);
+        if (!job) {
+            throw new Error(`Unknown run: ${runId}`);
+        }
+        change(job);
+        this.saveJob(job);
+        return job;
+    }
+
+    appendEvent(runId: string, event: JobEvent): void {
+        fs.appendFileSync(
+            path.join(this.jobDir(runId), "events.jsonl"),
+            `${JSON.stringify(this.deflate(runId, event))}\n`
+        );
+    }
+
+    /**
+     * Events with id greater than afterId, in order
+     */
+    readEvents(runId: string, afterId: number = 0): JobEvent[] {
+        if (!isValidRunId(runId)) return [];
+        const file = path.join(this.jobDir(runId), "events.jsonl");
+        if (!fs.existsSync(file)) return [];
+
+        return fs
+            .readFileSync(file, "utf-8")
+            .split("\n")
+            .filter(Boolean)
+            .map((line) => JSON.parse(line) as JobEvent)
+            .filter((event) => event.id > afterId)
+            .map((event) => this.inflate(runId, event) as JobEvent);
+    }
+
+    lastEventId(runId: string): number {
+        if (!isValidRunId(runId)) return 0;
+        const file = path.join(this.jobDir(runId), "events.jsonl");
+        if (!fs.existsSync(file)) return 0;
+        const lines = fs.readFileSync(file, "utf-8").split("\n").filter(Boolean);
+        return lines.length > 0 ? (JSON.parse(lines[lines.length - 1]) as JobEvent).id : 0;
+    }
+
+    /**
+     * job.json as stored, with blob references left in place
+     */
+    private readJobFile(runId: string): Record<string, unknown> | null {
+        if (!isValidRunId(runId)) return null;
+        const file = path.join(this.jobDir(runId), "job.json");
+        if (!fs.existsSync(file)) return null;
+        return JSON.parse(fs.readFileSync(file, "utf-8"));
+    }
+
+    private jobDir(runId: string): string {
+        if (!isValidRunId(runId)) {
+            throw new Error(`Invalid run ID: ${runId}`);
+        }
+        return path.join(this.dir, runId);
+    }
+
+    /**
+     * Replace large strings with blob references
+     */
+    private deflate(runId: string, value: unknown): unknown {
+        if (typeof value === "string") {
+            if (value.length < BLOB_THRESHOLD) return value;
+            const hash = createHash("sha256").update(value).digest("hex");
+            const blobDir = path.join(this.jobDir(runId), "blobs");
+            const file = path.join(blobDir, `${hash}.b64`);
+            if (!fs.existsSync(file)) {
+                fs.mkdirSync(blobDir, { recursive: true });
+                fs.writeFileSync(file, value, "utf-8");
+            }
+            return { $blob: hash } satisfies BlobRef;
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => this.deflate(runId, item));
+        }
+        if (value && typeof value === "object") {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.deflate(runId, item)])
+            );
+        }
+        return value;
+    }
+
+    private inflate(runId: string, value: unknown): unknown {
+        if (isBlobRef(value)) {
+            return fs.readFileSync(path.join(this.jobDir(runId), "blobs", `${value.$blob}.b64`), "utf-8");
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => this.inflate(runId, item));
+        }
+        if (value && typeof value === "object") {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, this.inflate(runId, item)])
+            );
+        }
+        return value;
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let storeInstance: FileJobStore | null = null;
+
+export function getJobStore(): FileJobStore {
+    if (!storeInstance) {
+        storeInstance = new FileJobStore(
+            process.env.AGENT_JOBS_DIR || path.join(os.tmpdir(), "sentient-studio-jobs")
+        );
+    }
+    return storeInstance;
+}
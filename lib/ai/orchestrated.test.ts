@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import type { CanvasElement } from "@/lib/types";
+import type { AgentTask } from "./agents/types";
+import { runOrchestratedAgent, type OrchestrationUpdate } from "./orchestrated";
+import {
+    createModelProvider,
+    setModelProvider,
+    LocalModelProvider,
+    RecordingModelProvider,
+    ReplayModelProvider,
+    type ImageGenerationRequest,
+    type ModelResponse,
+} from "./providers";
+
+/**
+ * Runs the whole pipeline - planning, analysis, generation and audit -
+ * against fixtures committed under fixtures/orchestrated-run. After changing
+ * prompts or the pipeline, re-record them (from the local provider unless
+ * AI_RECORD_PROVIDER says otherwise):
+ *
+ *   RECORD_FIXTURES=1 npx vitest run lib/ai/orchestrated.test.ts
+ */
+const FIXTURES_DIR = path.resolve(__dirname, "../../fixtures/orchestrated-run");
+
+const CANVAS: CanvasElement[] = [
+    { id: "swatch_1", type: "color", color: "#FF5733", x: 0, y: 0, createdAt: 0 },
+    { id: "swatch_2", type: "color", color: "#1A1A2E", x: 120, y: 0, createdAt: 0 },
+    { id: "note_1", type: "note", text: "Bold, playful and direct. Never use clip art.", x: 0, y: 120, createdAt: 0 },
+];
+
+describe("runOrchestratedAgent (replay)", () => {
+    afterAll(() => setModelProvider(null));
+
+    it("runs a recorded pipeline to the same result", async () => {
+        setModelProvider(process.env.RECORD_FIXTURES
+            ? new RecordingModelProvider(createModelProvider(process.env.AI_RECORD_PROVIDER || "local"), FIXTURES_DIR)
+            : new ReplayModelProvider(FIXTURES_DIR));
+
+        const updates: OrchestrationUpdate[] = [];
+        const result = await runOrchestratedAgent(
+            "Create a summer sale banner for Instagram",
+            CANVAS,
+            async (update) => { updates.push(update); }
+        );
+
+        // The only image the run made, as recorded
+        const blobs = path.join(FIXTURES_DIR, "blobs");
+        const image = fs.readFileSync(path.join(blobs, fs.readdirSync(blobs)[0]), "utf8");
+        const plan = updates.find((update) => update.phase === "planning")?.taskQueue ?? [];
+
+        expect(plan.map(({ role, action, dependsOn }) => [role, action, dependsOn])).toEqual([
+            ["brand_analyst", "extract_constitution", undefined],
+            ["creative_director", "generate_asset", [plan[0].id]],
+            ["compliance_auditor", "audit_asset", [plan[1].id]],
+        ]);
+        expect(result.taskResults.map(({ taskId, role, success }) => [taskId, role, success])).toEqual(
+            plan.map((task) => [task.id, task.role, true])
+        );
+        expect(updates.map((update) => update.phase)).toEqual([
+            "parsing", "planning", ...Array(7).fill("executing"), "complete",
+        ]);
+
+        expect(result).toMatchObject({ success: true, image, message: "Generation complete" });
+        expect(result.constitution).toEqual(result.taskResults[0].data);
+        expect(result.constitution?.visual_identity.color_palette_hex).toEqual(["#1A1A2E", "#E94560", "#F5F5F5"]);
+        expect(result.taskResults[1].data).toMatchObject({ image, sourcePrompt: "Create a summer sale banner for Instagram" });
+        expect(result.assets).toHaveLength(1);
+        expect(result.assets[0]).toMatchObject({
+            status: "APPROVED",
+            image_url: `data:image/png;base64,${image}`,
+            audit_result: { compliance_score: 96, decision: "APPROVE", violations: [] },
+        });
+    }, 60000);
+});
+
+/**
+ * Image generation stays in flight until its signal aborts, like a slow
+ * network call; `onGenerate` fires when it starts
+ */
+class SlowImageProvider extends LocalModelProvider {
+    constructor(private onGenerate: () => void) {
+        super();
+    }
+
+    async generateImage(request: ImageGenerationRequest): Promise<ModelResponse> {
+        return new Promise((_, reject) => {
+            request.signal?.addEventListener("abort", () => reject(request.signal!.reason), { once: true });
+            this.onGenerate();
+        });
+    }
+}
+
+const PLAN: AgentTask[] = [
+    { id: "task_1", role: "creative_director", action: "Generate", params: { prompt: "A poster" }, priority: "high" },
+    { id: "task_2", role: "compliance_auditor", action: "Audit", params: {}, priority: "normal", dependsOn: ["task_1"] },
+];
+
+describe("runOrchestratedAgent (cancellation)", () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => { unhandled.push(reason); };
+
+    afterEach(() => {
+        setModelProvider(null);
+        process.off("unhandledRejection", onUnhandled);
+    });
+
+    it("stops an in-flight generation and ends the run cancelled", async () => {
+        process.on("unhandledRejection", onUnhandled);
+        const controller = new AbortController();
+        setModelProvider(new SlowImageProvider(() => controller.abort()));
+
+        const updates: OrchestrationUpdate[] = [];
+        const result = await runOrchestratedAgent(
+            "Create a poster",
+            CANVAS,
+            async (update) => { updates.push(update); },
+            null,
+            { signal: controller.signal, plan: PLAN }
+        );
+        // Give stray rejections a chance to surface
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(result).toMatchObject({ success: false, cancelled: true, message: "Run cancelled" });
+        expect(result.taskResults.map((r) => [r.taskId, r.success, r.error])).toEqual([
+            ["task_1", false, expect.stringContaining("abort")],
+            ["task_2", false, "Cancelled"],
+        ]);
+        expect(updates.at(-1)?.phase).toBe("cancelled");
+        expect(unhandled).toEqual([]);
+    });
+});
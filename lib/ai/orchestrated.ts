@@ -5,19 +5,22 @@
  * Replaces the monolithic runAgentLoop with modular agent delegation.
  */
 
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
+import type { Asset, AuditPolicy, BrandConstitution, CanvasElement, UsageSummary } from "@/lib/types";
 import {
     type AgentTask,
     type AgentResult,
     type AgentRole,
+    type AgentEvent,
 } from "./agents/types";
-import { OrchestratorAgent } from "./agents/orchestrator";
+import { createOrchestratorAgent } from "./agents/orchestrator";
+import { PlanValidationError, validatePlan, type PlanIssue } from "./agents/plan";
 import { getTemplate } from "./agents/export-optimizer";
+import type { BudgetGuard, BudgetViolation } from "./budget";
 
 // ============ TYPES ============
 
 export interface OrchestrationUpdate {
-    phase: "parsing" | "planning" | "executing" | "complete" | "error";
+    phase: "parsing" | "planning" | "executing" | "complete" | "cancelled" | "error";
     taskQueue?: AgentTask[];
     currentTask?: AgentTask;
     agentRole?: AgentRole;
@@ -25,6 +28,8 @@ export interface OrchestrationUpdate {
     message: string;
     thinking?: string;
     result?: AgentResult;
+    planErrors?: PlanIssue[];
+    budgetExceeded?: BudgetViolation;
 }
 
 export interface OrchestrationResult {
@@ -33,7 +38,39 @@ export interface OrchestrationResult {
     message: string;
     constitution?: BrandConstitution;
     taskResults: AgentResult[];
+    /** Every generate → audit attempt, in order */
+    assets: Asset[];
     duration: number;
+    /** Model usage of this run (restored tasks are not counted again) */
+    usage: UsageSummary;
+    planErrors?: PlanIssue[];
+    /** Set when a budget stopped a generation (the run may still have succeeded) */
+    budgetExceeded?: BudgetViolation;
+    /** True when the run was stopped; image/constitution/assets hold partial results */
+    cancelled?: boolean;
+}
+
+/**
+ * State persisted from an earlier run of the same plan
+ */
+export interface OrchestrationResume {
+    /** Successful results are kept; everything else runs again */
+    taskResults: AgentResult[];
+    image?: string | null;
+    assets?: Asset[];
+}
+
+export interface OrchestrationOptions {
+    /** Aborting stops scheduling and cancels in-flight model calls */
+    signal?: AbortSignal;
+    /** Run this plan (e.g. approved in plan mode) instead of parsing intent */
+    plan?: AgentTask[];
+    /** Continue a failed or interrupted run of `plan` */
+    resume?: OrchestrationResume;
+    /** Limits checked before every image generation */
+    budget?: BudgetGuard;
+    /** The brand's audit policy; the default when unset */
+    auditPolicy?: AuditPolicy | null;
 }
 
 // ============ ORCHESTRATED RUNNER ============
@@ -42,93 +79,122 @@ export async function runOrchestratedAgent(
     userPrompt: string,
     canvasElements: CanvasElement[],
     onUpdate: (update: OrchestrationUpdate) => Promise<void>,
-    savedConstitution?: BrandConstitution | null
+    savedConstitution?: BrandConstitution | null,
+    options: OrchestrationOptions = {}
+): Promise<OrchestrationResult> {
+    const run = () => runOrchestration(userPrompt, canvasElements, onUpdate, savedConstitution, options);
+    // The budget counts every model call of the run toward its token limit
+    const result = await (options.budget ? options.budget.track(run) : run());
+    const budgetExceeded = options.budget?.violation;
+    return budgetExceeded ? { ...result, budgetExceeded } : result;
+}
+
+async function runOrchestration(
+    userPrompt: string,
+    canvasElements: CanvasElement[],
+    onUpdate: (update: OrchestrationUpdate) => Promise<void>,
+    savedConstitution: BrandConstitution | null | undefined,
+    options: OrchestrationOptions
 ): Promise<OrchestrationResult> {
     const startTime = Date.now();
-    const taskResults: AgentResult[] = [];
-    let currentConstitution = savedConstitution || null;
-    let generatedImage: string | undefined;
+    const { signal } = options;
+    let taskResults: AgentResult[] = [];
 
-    try {
-        // Phase 1: Parse intent and create task queue
+    const orchestrator = createOrchestratorAgent(signal, options.budget);
+
+    // Keep whatever finished before the stop
+    const cancelledResult = async (): Promise<OrchestrationResult> => {
+        const state = orchestrator.getState();
         await onUpdate({
-            phase: "parsing",
-            progress: 5,
-            message: "Understanding your request...",
-            thinking: "Analyzing user intent and determining required agents",
+            phase: "cancelled",
+            progress: 100,
+            message: "Run cancelled",
         });
+        return {
+            success: false,
+            cancelled: true,
+            image: state.currentImage || undefined,
+            message: "Run cancelled",
+            constitution: state.constitution || undefined,
+            taskResults,
+            assets: state.assets,
+            duration: Date.now() - startTime,
+            usage: orchestrator.getUsage(),
+        };
+    };
 
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
-            throw new Error("GEMINI_API_KEY environment variable is not set");
-        }
-
-        const orchestrator = new OrchestratorAgent(apiKey);
-
+    try {
         // Initialize orchestrator with context
-        orchestrator.initialize(canvasElements, currentConstitution);
+        orchestrator.initialize(canvasElements, savedConstitution || null, options.auditPolicy);
 
-        // Parse intent - returns AgentTask[] directly
-        const taskQueue = await orchestrator.parseIntent(userPrompt);
+        let taskQueue: AgentTask[];
+        const { plan, resume } = options;
+        if (plan) {
+            // Approved or resumed plan - validated below like any other
+            taskQueue = plan;
+            if (resume) {
+                orchestrator.restore(resume.taskResults, { currentImage: resume.image, assets: resume.assets });
+            }
+        } else {
+            // Phase 1: Parse intent and create task queue
+            await onUpdate({
+                phase: "parsing",
+                progress: 5,
+                message: "Understanding your request...",
+                thinking: "Analyzing user intent and determining required agents",
+            });
+
+            // Parse intent - returns AgentTask[] directly
+            taskQueue = await orchestrator.parseIntent(userPrompt);
+            if (signal?.aborted) return cancelledResult();
+        }
 
-        if (!taskQueue || taskQueue.length === 0) {
-            throw new Error("Failed to parse intent - no tasks generated");
+        // Validate the dependency graph before anything runs
+        const validation = validatePlan(taskQueue);
+        if (!validation.valid) {
+            throw new PlanValidationError(validation.issues);
         }
 
+        const restoredCount = orchestrator.getState().completedTasks.length;
+
         // Phase 2: Planning complete
         await onUpdate({
             phase: "planning",
             taskQueue,
             progress: 15,
-            message: `Planned ${taskQueue.length} task(s)`,
+            message: restoredCount > 0
+                ? `Resuming: ${restoredCount} of ${taskQueue.length} task(s) already complete`
+                : `Planned ${taskQueue.length} task(s)`,
             thinking: `Task queue: ${taskQueue.map(t => t.role).join(" → ")}`,
         });
 
-        // Phase 3: Execute tasks
-        for (let i = 0; i < taskQueue.length; i++) {
-            const task = taskQueue[i];
-            const progress = 15 + Math.floor((i / taskQueue.length) * 75);
-
-            await onUpdate({
-                phase: "executing",
-                taskQueue,
-                currentTask: task,
-                agentRole: task.role,
-                progress,
-                message: getTaskMessage(task.role),
-                thinking: `Delegating ${task.action} to ${task.role}`,
-            });
-
-            // Delegate to orchestrator which handles agent instantiation and execution
-            const result = await orchestrator.delegateToAgent(task);
+        // Phase 3: Execute tasks through the DAG scheduler.
+        // Agent events are forwarded in emission order as orchestration updates.
+        let pendingUpdates = Promise.resolve();
+        let finishedCount = restoredCount;
+        const tasksById = new Map(taskQueue.map((task) => [task.id, task]));
 
-            taskResults.push(result);
+        orchestrator.onEvent((event) => {
+            const update = toExecutionUpdate(event, tasksById, taskQueue, finishedCount);
+            if (!update) return;
+            if (update.result) finishedCount++;
+            pendingUpdates = pendingUpdates.then(() => onUpdate(update));
+        });
 
-            // Update local state for final result
-            if (result.success) {
-                if (result.role === "brand_analyst") {
-                    currentConstitution = result.data as unknown as BrandConstitution;
-                }
-                if (result.role === "creative_director" && (result.data as any).image) {
-                    generatedImage = (result.data as any).image;
-                }
-            }
+        taskResults = await orchestrator.executeTaskQueue(taskQueue, { signal });
+        await pendingUpdates;
+        if (signal?.aborted) return cancelledResult();
 
-            await onUpdate({
-                phase: "executing",
-                currentTask: task,
-                agentRole: task.role,
-                progress: progress + 5,
-                message: result.success ? `Completed: ${task.role}` : `Failed: ${task.role}`,
-                result,
-            });
-
-            // If critical task failed, stop execution
-            if (!result.success && isCriticalRole(task.role)) {
-                throw new Error(`Critical task failed in ${task.role}: ${result.error}`);
-            }
+        // If a critical task failed, the run failed (dependents were skipped)
+        const criticalFailure = taskResults.find(
+            (result) => !result.success && isCriticalRole(result.role)
+        );
+        if (criticalFailure) {
+            throw new Error(`Critical task failed in ${criticalFailure.role}: ${criticalFailure.error}`);
         }
 
+        const state = orchestrator.getState();
+
         // Phase 4: Complete
         await onUpdate({
             phase: "complete",
@@ -138,30 +204,101 @@ export async function runOrchestratedAgent(
 
         return {
             success: true,
-            image: generatedImage,
+            image: state.currentImage || undefined,
             message: "Generation complete",
-            constitution: currentConstitution || undefined,
+            constitution: state.constitution || undefined,
             taskResults,
+            assets: state.assets,
             duration: Date.now() - startTime,
+            usage: orchestrator.getUsage(),
         };
     } catch (error) {
+        if (signal?.aborted) return cancelledResult();
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        const planErrors = error instanceof PlanValidationError ? error.issues : undefined;
 
         await onUpdate({
             phase: "error",
             progress: 0,
             message: errorMessage,
+            planErrors,
+            budgetExceeded: options.budget?.violation || undefined,
         });
 
+        // Partial state is returned so the run can be resumed
+        const state = orchestrator.getState();
         return {
             success: false,
+            image: state.currentImage || undefined,
             message: errorMessage,
+            constitution: state.constitution || undefined,
             taskResults,
+            assets: state.assets,
             duration: Date.now() - startTime,
+            usage: orchestrator.getUsage(),
+            planErrors,
         };
     }
 }
 
+/**
+ * Map an orchestrator event to an orchestration update.
+ * Task events carry { taskId, index, total } and, once finished, the result.
+ */
+function toExecutionUpdate(
+    event: AgentEvent,
+    tasksById: Map<string, AgentTask>,
+    taskQueue: AgentTask[],
+    finishedCount: number
+): OrchestrationUpdate | null {
+    const data = (event.data || {}) as { taskId?: string; result?: AgentResult };
+    const task = data.taskId ? tasksById.get(data.taskId) : undefined;
+    if (!task) {
+        // Scheduler-level messages (e.g. deadlock)
+        return event.type === "error"
+            ? { phase: "executing", progress: progressFor(finishedCount, taskQueue.length), message: event.message }
+            : null;
+    }
+
+    if (data.result) {
+        return {
+            phase: "executing",
+            currentTask: task,
+            agentRole: task.role,
+            progress: progressFor(finishedCount + 1, taskQueue.length),
+            message: event.message,
+            result: data.result,
+        };
+    }
+
+    if (event.type !== "action") {
+        // Progress inside a running task (e.g. refinement attempts)
+        return {
+            phase: "executing",
+            currentTask: task,
+            agentRole: event.agent,
+            progress: progressFor(finishedCount, taskQueue.length),
+            message: event.message,
+            thinking: event.message,
+        };
+    }
+
+    return {
+        phase: "executing",
+        taskQueue,
+        currentTask: task,
+        agentRole: task.role,
+        progress: progressFor(finishedCount, taskQueue.length),
+        message: getTaskMessage(task.role),
+        thinking: `Delegating ${task.action} to ${task.role}`,
+    };
+}
+
+function progressFor(finished: number, total: number): number {
+    return 15 + Math.floor((finished / Math.max(total, 1)) * 80);
+}
+
 // Helper to determine task message
 function getTaskMessage(role: AgentRole): string {
     switch (role) {
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { AbortableModelProvider, withAbortSignal } from "./abortable";
+import { LocalModelProvider } from "./local";
+import type { ModelRequest, ModelResponse } from "./types";
+
+/**
+ * A provider whose text calls stay in flight until their signal aborts,
+ * like a network request
+ */
+class InFlightProvider extends LocalModelProvider {
+    requests: ModelRequest[] = [];
+
+    async generateText(request: ModelRequest): Promise<ModelResponse> {
+        this.requests.push(request);
+        return new Promise((_, reject) => {
+            request.signal?.addEventListener("abort", () => reject(request.signal!.reason), { once: true });
+        });
+    }
+}
+
+const REQUEST: ModelRequest = { role: "orchestrator", operation: "test", parts: "Hello" };
+
+describe("AbortableModelProvider", () => {
+    it("cancels a call that is already in flight", async () => {
+        const inner = new InFlightProvider();
+        const controller = new AbortController();
+        const provider = new AbortableModelProvider(inner, controller.signal);
+
+        const call = provider.generateText(REQUEST);
+        controller.abort();
+
+        await expect(call).rejects.toMatchObject({ name: "AbortError" });
+        expect(inner.requests[0].signal?.aborted).toBe(true);
+    });
+
+    it("fails new calls once aborted without reaching the provider", async () => {
+        const inner = new InFlightProvider();
+        const generateJson = vi.spyOn(inner, "generateJson");
+        const controller = new AbortController();
+        const provider = new AbortableModelProvider(inner, controller.signal);
+        controller.abort();
+
+        await expect(provider.generateText(REQUEST)).rejects.toMatchObject({ name: "AbortError" });
+        await expect(provider.generateJson({ ...REQUEST, responseSchema: {} })).rejects.toMatchObject({ name: "AbortError" });
+        expect(inner.requests).toEqual([]);
+        expect(generateJson).not.toHaveBeenCalled();
+    });
+
+    it("still honors the request's own signal", async () => {
+        const inner = new InFlightProvider();
+        const provider = new AbortableModelProvider(inner, new AbortController().signal);
+        const request = new AbortController();
+
+        const call = provider.generateText({ ...REQUEST, signal: request.signal });
+        request.abort();
+
+        await expect(call).rejects.toMatchObject({ name: "AbortError" });
+    });
+});
+
+describe("withAbortSignal", () => {
+    it("leaves the provider as it is without a signal", () => {
+        const provider = new LocalModelProvider();
+
+        expect(withAbortSignal(provider)).toBe(provider);
+        expect(withAbortSignal(provider, new AbortController().signal)).toBeInstanceOf(AbortableModelProvider);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Abortable Model Provider
+ *
+ * Binds an AbortSignal to every call made through a provider, so a whole
+ * agent run can be cancelled without threading the signal through each agent.
+ */
+
+import type {
+    ChatOptions,
+    ImageGenerationRequest,
+    JsonModelRequest,
+    JsonModelResponse,
+    ModelChatSession,
+    ModelProvider,
+    ModelRequest,
+    ModelResponse,
+} from "./types";
+
+export class AbortableModelProvider implements ModelProvider {
+    readonly name: string;
+
+    constructor(private inner: ModelProvider, private signal: AbortSignal) {
+        this.name = inner.name;
+    }
+
+    async generateText(request: ModelRequest): Promise<ModelResponse> {
+        return this.inner.generateText(this.bind(request));
+    }
+
+    async generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>> {
+        return this.inner.generateJson<T>(this.bind(request));
+    }
+
+    async generateImage(request: ImageGenerationRequest): Promise<ModelResponse> {
+        return this.inner.generateImage(this.bind(request));
+    }
+
+    async editImage(request: ModelRequest): Promise<ModelResponse> {
+        return this.inner.editImage(this.bind(request));
+    }
+
+    async searchGrounded(request: ModelRequest): Promise<ModelResponse> {
+        return this.inner.searchGrounded(this.bind(request));
+    }
+
+    startChat(options: ChatOptions): ModelChatSession {
+        return this.inner.startChat(this.bind(options));
+    }
+
+    /**
+     * Fail fast once aborted (calls reject rather than throw); otherwise
+     * attach the signal to the request
+     */
+    private bind<T extends { signal?: AbortSignal }>(request: T): T {
+        this.signal.throwIfAborted();
+        const signal = request.signal ? AbortSignal.any([request.signal, this.signal]) : this.signal;
+        return { ...request, signal };
+    }
+}
+
+/**
+ * Wrap a provider so every call honors the given signal
+ */
+export function withAbortSignal(provider: ModelProvider, signal?: AbortSignal): ModelProvider {
+    return signal ? new AbortableModelProvider(provider, signal) : provider;
+}
@@ -0,0 +1,34 @@
+/**
+ * Model Configuration
+ *
+ * Resolves the concrete model for a (role, capability) pair.
+ * Override from the environment, most specific first:
+ * - AI_MODEL_<ROLE>_<CAPABILITY>  e.g. AI_MODEL_CREATIVE_DIRECTOR_IMAGE_GENERATION
+ * - AI_MODEL_<CAPABILITY>         e.g. AI_MODEL_JSON
+ */
+
+import type { ModelCapability, ModelRole } from "./types";
+
+/**
+ * Default models per capability (Gemini 3)
+ */
+export const DEFAULT_MODELS: Record<ModelCapability, string> = {
+    text: "gemini-3-flash-preview",
+    json: "gemini-3-flash-preview",
+    multimodal: "gemini-3-flash-preview",
+    search: "gemini-3-flash-preview",
+    image_generation: "gemini-3-pro-image-preview",
+    image_edit: "gemini-3-pro-image-preview",
+};
+
+/**
+ * Resolve the model name for a role and capability
+ */
+export function resolveModel(role: ModelRole, capability: ModelCapability): string {
+    const cap = capability.toUpperCase();
+    return (
+        process.env[`AI_MODEL_${role.toUpperCase()}_${cap}`] ||
+        process.env[`AI_MODEL_${cap}`] ||
+        DEFAULT_MODELS[capability]
+    );
+}
@@ -0,0 +1,269 @@
+/**
+ * Gemini Model Provider
+ *
+ * The only place that constructs a GoogleGenerativeAI client.
+ * Maps provider-agnostic requests onto the Gemini 3 API, including the
+ * preview fields (thinkingConfig, imageConfig, responseModalities) that
+ * SDK 0.21 does not type yet.
+ */
+
+import {
+    GoogleGenerativeAI,
+    FunctionCallingMode,
+    type Content,
+    type EnhancedGenerateContentResponse,
+    type FunctionDeclaration,
+    type GenerationConfig,
+    type Part,
+    type SingleRequestOptions,
+} from "@google/generative-ai";
+import { resolveModel } from "./config";
+import { extractJson } from "./json";
+import type {
+    ChatOptions,
+    ImageGenerationRequest,
+    InlineImage,
+    JsonModelRequest,
+    JsonModelResponse,
+    ModelCapability,
+    ModelChatSession,
+    ModelFunctionCall,
+    ModelPart,
+    ModelProvider,
+    ModelRequest,
+    ModelResponse,
+    ModelUsage,
+} from "./types";
+
+// ============ HELPERS ============
+
+function toContents(parts: string | ModelPart[]): Content[] {
+    const sdkParts: Part[] = typeof parts === "string" ? [{ text: parts }] : (parts as Part[]);
+    return [{ role: "user", parts: sdkParts }];
+}
+
+function hasImageParts(parts: string | ModelPart[]): boolean {
+    return typeof parts !== "string" && parts.some((part) => "inlineData" in part);
+}
+
+function requestOptions(timeoutMs?: number, signal?: AbortSignal): SingleRequestOptions | undefined {
+    if (!timeoutMs && !signal) return undefined;
+    return {
+        ...(timeoutMs ? { timeout: timeoutMs } : {}),
+        ...(signal ? { signal } : {}),
+    };
+}
+
+/**
+ * Build generation config, including Gemini 3 preview fields
+ */
+function buildGenerationConfig(
+    request: ModelRequest,
+    extra: Record<string, unknown> = {}
+): GenerationConfig {
+    const config: Record<string, unknown> = { ...extra };
+
+    if (request.temperature !== undefined) {
+        config.temperature = request.temperature;
+    }
+    if (request.thinkingLevel || request.includeThoughts) {
+        config.thinkingConfig = {
+            ...(request.includeThoughts ? { includeThoughts: true } : {}),
+            ...(request.thinkingLevel ? { thinkingLevel: request.thinkingLevel } : {}),
+        };
+    }
+
+    return config as GenerationConfig;
+}
+
+/**
+ * Read token counts from usageMetadata (thoughtsTokenCount is not in SDK 0.21 types)
+ */
+function toModelUsage(response: EnhancedGenerateContentResponse): ModelUsage | undefined {
+    const metadata = response.usageMetadata as
+        | (NonNullable<EnhancedGenerateContentResponse["usageMetadata"]> & { thoughtsTokenCount?: number })
+        | undefined;
+    if (!metadata) return undefined;
+
+    const inputTokens = metadata.promptTokenCount || 0;
+    const outputTokens = metadata.candidatesTokenCount || 0;
+    const thinkingTokens = metadata.thoughtsTokenCount || 0;
+    return {
+        inputTokens,
+        outputTokens,
+        thinkingTokens,
+        totalTokens: metadata.totalTokenCount || inputTokens + outputTokens + thinkingTokens,
+    };
+}
+
+/**
+ * Normalize an SDK response into a ModelResponse
+ */
+function toModelResponse(model: string, response: EnhancedGenerateContentResponse): ModelResponse {
+    if (!response.candidates?.length && response.promptFeedback?.blockReason) {
+        throw new Error(`Request blocked: ${response.promptFeedback.blockReason}`);
+    }
+
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    const texts: string[] = [];
+    const thoughts: string[] = [];
+    const images: InlineImage[] = [];
+    const functionCalls: ModelFunctionCall[] = [];
+
+    for (const part of parts) {
+        // Gemini 3 marks thought parts with `thought: true` (older previews used a string)
+        const thought = (part as { thought?: boolean | string }).thought;
+        if (typeof thought === "string") {
+            thoughts.push(thought);
+        } else if (thought === true && part.text) {
+            thoughts.push(part.text);
+            continue;
+        }
+
+        if (part.text) texts.push(part.text);
+        if (part.inlineData?.data) {
+            images.push({ mimeType: part.inlineData.mimeType, data: part.inlineData.data });
+        }
+        if (part.functionCall) {
+            functionCalls.push({
+                name: part.functionCall.name,
+                args: (part.functionCall.args || {}) as Record<string, unknown>,
+            });
+        }
+    }
+
+    return {
+        model,
+        text: texts.join(""),
+        thoughts: thoughts.length > 0 ? thoughts.join("\n") : undefined,
+        images,
+        functionCalls,
+        usage: toModelUsage(response),
+    };
+}
+
+// ============ GEMINI PROVIDER ============
+
+export class GeminiProvider implements ModelProvider {
+    readonly name = "gemini";
+    private client: GoogleGenerativeAI;
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generateText(request: ModelRequest): Promise<ModelResponse> {
+        const capability: ModelCapability = hasImageParts(request.parts) ? "multimodal" : "text";
+        return this.generate(request, capability, buildGenerationConfig(request));
+    }
+
+    async generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>> {
+        const capability: ModelCapability = hasImageParts(request.parts) ? "multimodal" : "json";
+        const response = await this.generate(
+            request,
+            capability,
+            buildGenerationConfig(request, {
+                responseMimeType: "application/json",
+                ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+            })
+        );
+        return { ...response, data: extractJson(response.text) as T };
+    }
+
+    async generateImage(request: ImageGenerationRequest): Promise<ModelResponse> {
+        return this.generate(
+            request,
+            "image_generation",
+            buildGenerationConfig(request, {
+                responseModalities: ["TEXT", "IMAGE"],
+                imageConfig: {
+                    aspectRatio: request.aspectRatio || "1:1",
+                    ...(request.imageSize ? { imageSize: request.imageSize } : {}),
+                },
+            })
+        );
+    }
+
+    async editImage(request: ModelRequest): Promise<ModelResponse> {
+        return this.generate(
+            request,
+            "image_edit",
+            buildGenerationConfig(request, { responseModalities: ["TEXT", "IMAGE"] })
+        );
+    }
+
+    async searchGrounded(request: ModelRequest): Promise<ModelResponse> {
+        const modelName = request.model || resolveModel(request.role, "search");
+        const model = this.client.getGenerativeModel({
+            model: modelName,
+            systemInstruction: request.systemInstruction,
+            // @ts-expect-error - googleSearch tool is valid for Gemini 3 (not in SDK 0.21 types)
+            tools: [{ googleSearch: {} }],
+            generationConfig: buildGenerationConfig(request),
+        });
+
+        const result = await model.generateContent(
+            { contents: toContents(request.parts) },
+            requestOptions(request.timeoutMs, request.signal)
+        );
+        return toModelResponse(modelName, result.response);
+    }
+
+    startChat(options: ChatOptions): ModelChatSession {
+        const modelName = resolveModel(options.role, "text");
+        const functionDeclarations: FunctionDeclaration[] = options.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters as unknown as FunctionDeclaration["parameters"],
+        }));
+
+        const model = this.client.getGenerativeModel({
+            model: modelName,
+            systemInstruction: options.systemInstruction,
+            tools: [{ functionDeclarations }],
+            toolConfig: {
+                functionCallingConfig: {
+                    mode: FunctionCallingMode.AUTO,
+                },
+            },
+            generationConfig: buildGenerationConfig({
+                role: options.role,
+                operation: options.operation,
+                parts: [],
+                temperature: options.temperature,
+                includeThoughts: options.includeThoughts,
+            }),
+        }, options.timeoutMs ? { timeout: options.timeoutMs } : undefined);
+
+        // The SDK chat keeps history, which preserves thought signatures across turns
+        const chat = model.startChat();
+
+        return {
+            async send(parts, sendOptions) {
+                const result = await chat.sendMessage(
+                    typeof parts === "string" ? parts : (parts as Part[]),
+                    requestOptions(sendOptions?.timeoutMs, sendOptions?.signal || options.signal)
+                );
+                return toModelResponse(modelName, result.response);
+            },
+        };
+    }
+
+    private async generate(
+        request: ModelRequest,
+        capability: ModelCapability,
+        generationConfig: GenerationConfig
+    ): Promise<ModelResponse> {
+        const modelName = request.model || resolveModel(request.role, capability);
+        const model = this.client.getGenerativeModel({
+            model: modelName,
+            systemInstruction: request.systemInstruction,
+        });
+
+        const result = await model.generateContent(
+            { contents: toContents(request.parts), generationConfig },
+            requestOptions(request.timeoutMs, request.signal)
+        );
+        return toModelResponse(modelName, result.response);
+    }
+}
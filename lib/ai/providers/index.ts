@@ -0,0 +1,80 @@
+/**
+ * Model Providers
+ *
+ * Every model call in Sentient Studio goes through a ModelProvider.
+ * Select with AI_PROVIDER:
+ * - "gemini" (default)
+ * - "local"  deterministic offline stand-in
+ * - "record" wrap AI_RECORD_PROVIDER (default gemini) and write fixtures to AI_FIXTURES_DIR
+ * - "replay" serve fixtures from AI_FIXTURES_DIR without network
+ * Pick models per role with AI_MODEL_* (see ./config).
+ * The active provider is always metered (see ./usage).
+ */
+
+import { GeminiProvider } from "./gemini";
+import { LocalModelProvider } from "./local";
+import { RecordingModelProvider, ReplayModelProvider } from "./recording";
+import { withUsageMetering } from "./usage";
+import type { ModelProvider } from "./types";
+
+const DEFAULT_FIXTURES_DIR = "fixtures/models";
+
+export * from "./types";
+export { DEFAULT_MODELS, resolveModel } from "./config";
+export { extractJson } from "./json";
+export { GeminiProvider } from "./gemini";
+export { LocalModelProvider, createSolidPng, getLocalConstitution } from "./local";
+export { AbortableModelProvider, withAbortSignal } from "./abortable";
+export { UsageMeter, MeteredModelProvider, withUsageMetering } from "./usage";
+export { MODEL_PRICES, getModelPrice, estimateCost, type ModelPrice } from "./pricing";
+export {
+    RecordingModelProvider,
+    ReplayModelProvider,
+    FixtureNotFoundError,
+    requestKey,
+    type ModelFixture,
+} from "./recording";
+
+/**
+ * Create a provider by name
+ */
+export function createModelProvider(name: string = process.env.AI_PROVIDER || "gemini"): ModelProvider {
+    switch (name) {
+        case "gemini": {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) {
+                throw new Error("GEMINI_API_KEY environment variable is not set");
+            }
+            return new GeminiProvider(apiKey);
+        }
+        case "local":
+            return new LocalModelProvider();
+        case "record":
+            return new RecordingModelProvider(
+                createModelProvider(process.env.AI_RECORD_PROVIDER || "gemini"),
+                process.env.AI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+            );
+        case "replay":
+            return new ReplayModelProvider(process.env.AI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+        default:
+            throw new Error(`Unknown AI_PROVIDER: ${name}`);
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let providerInstance: ModelProvider | null = null;
+
+export function getModelProvider(): ModelProvider {
+    if (!providerInstance) {
+        providerInstance = withUsageMetering(createModelProvider());
+    }
+    return providerInstance;
+}
+
+/**
+ * Replace the active provider (tests, record/replay). Pass null to reset.
+ */
+export function setModelProvider(provider: ModelProvider | null): void {
+    providerInstance = provider ? withUsageMetering(provider) : null;
+}
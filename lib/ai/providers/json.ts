@@ -0,0 +1,50 @@
+/**
+ * JSON extraction for model responses
+ *
+ * Models sometimes wrap JSON in markdown fences or surround it with prose.
+ * Balanced bracket extraction handles both objects and arrays.
+ */
+
+export function extractJson(text: string): unknown {
+    const trimmed = text.trim();
+
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        // Fall through to extraction
+    }
+
+    const objectStart = trimmed.indexOf("{");
+    const arrayStart = trimmed.indexOf("[");
+    const startIndex =
+        objectStart === -1 ? arrayStart :
+            arrayStart === -1 ? objectStart :
+                Math.min(objectStart, arrayStart);
+
+    if (startIndex === -1) {
+        throw new Error("No valid JSON found in response");
+    }
+
+    const open = trimmed[startIndex];
+    const close = open === "{" ? "}" : "]";
+    let depth = 0;
+    let inString = false;
+
+    for (let i = startIndex; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (inString) {
+            if (char === "\\") i++;
+            else if (char === "\"") inString = false;
+            continue;
+        }
+        if (char === "\"") inString = true;
+        else if (char === open) depth++;
+        else if (char === close) depth--;
+
+        if (depth === 0) {
+            return JSON.parse(trimmed.substring(startIndex, i + 1));
+        }
+    }
+
+    throw new Error("No valid JSON found in response");
+}
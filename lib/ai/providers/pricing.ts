@@ -0,0 +1,44 @@
+/**
+ * Model Pricing
+ *
+ * USD list prices per million tokens, used to estimate spend from reported
+ * usage. Thinking tokens bill as output. Image models bill generated images
+ * as output tokens (~1120 tokens per 1K/2K image), so their output rate is
+ * the image rate. Unknown models (e.g. the local provider) cost nothing.
+ */
+
+import type { ModelUsage } from "./types";
+
+export interface ModelPrice {
+    /** USD per 1M input tokens */
+    input: number;
+    /** USD per 1M output and thinking tokens */
+    output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    "gemini-3-flash-preview": { input: 0.5, output: 3 },
+    "gemini-3-pro-preview": { input: 2, output: 12 },
+    "gemini-3-pro-image-preview": { input: 2, output: 120 },
+};
+
+/**
+ * Price for a model, matching versioned names by prefix
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+    if (MODEL_PRICES[model]) return MODEL_PRICES[model];
+    const base = Object.keys(MODEL_PRICES).find((name) => model.startsWith(name));
+    return base ? MODEL_PRICES[base] : null;
+}
+
+/**
+ * Estimated USD cost of one call
+ */
+export function estimateCost(model: string, usage: ModelUsage): number {
+    const price = getModelPrice(model);
+    if (!price) return 0;
+    return (
+        (usage.inputTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) /
+        1_000_000
+    );
+}
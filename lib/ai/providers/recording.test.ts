@@ -0,0 +1,71 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalModelProvider } from "./local";
+import { RecordingModelProvider, ReplayModelProvider, requestKey } from "./recording";
+import type { ModelRequest, ModelResponse } from "./types";
+
+/** Answers generateText with the given texts in turn */
+class ScriptedProvider extends LocalModelProvider {
+    constructor(private texts: string[]) {
+        super();
+    }
+
+    async generateText(): Promise<ModelResponse> {
+        return { model: "scripted", text: this.texts.shift() ?? "", images: [], functionCalls: [] };
+    }
+}
+
+function request(text: string): ModelRequest {
+    return { role: "orchestrator", operation: "parse_intent", parts: text };
+}
+
+describe("requestKey", () => {
+    it("ignores ids that change between runs", () => {
+        const key = (text: string) => requestKey({ parts: [{ text }] });
+        expect(key("run_1760000000000_ab12cd task_1760000000000_x9y8z7a"))
+            .toBe(key("run_1760000099999_zz99yy task_1760000012345_q1w2e3r"));
+        expect(key("asset_1760000000000_abc1234")).toBe(key("asset_1760000000001_def5678"));
+        expect(key("run_1760000000000_ab12cd")).not.toBe(key("run_1760000000000_ab12cd extra"));
+    });
+});
+
+describe("RecordingModelProvider", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "recording-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("replays repeated requests in recorded order, then repeats the last", async () => {
+        const recorder = new RecordingModelProvider(new ScriptedProvider(["first", "second"]), dir);
+        await recorder.generateText(request("plan"));
+        await recorder.generateText(request("plan"));
+
+        const replay = new ReplayModelProvider(dir);
+        const texts = [];
+        for (let i = 0; i < 3; i++) texts.push((await replay.generateText(request("plan"))).text);
+        expect(texts).toEqual(["first", "second", "second"]);
+    });
+
+    it("merges a new session into existing fixtures instead of overwriting them", async () => {
+        const first = new RecordingModelProvider(new ScriptedProvider(["a1", "a2", "b1"]), dir);
+        await first.generateText(request("a"));
+        await first.generateText(request("a"));
+        await first.generateText(request("b"));
+
+        // A later session (a new process) re-records only the first "a"
+        const second = new RecordingModelProvider(new ScriptedProvider(["a1'"]), dir);
+        await second.generateText(request("a"));
+
+        const replay = new ReplayModelProvider(dir);
+        expect((await replay.generateText(request("a"))).text).toBe("a1'");
+        expect((await replay.generateText(request("a"))).text).toBe("a2");
+        expect((await replay.generateText(request("b"))).text).toBe("b1");
+    });
+});
@@ -0,0 +1,421 @@
+/**
+ * Record / Replay Providers
+ *
+ * Recording wraps a real provider and writes every request/response pair to
+ * fixture files. Replay serves those fixtures back without network, keyed by
+ * a normalized request hash, so whole agent pipelines run deterministically.
+ *
+ * Layout of a fixture directory:
+ * - <operation>-<hash>.json  request summary + ordered responses for that key
+ * - blobs/<sha256>.b64       inline image data (requests and responses), deduplicated
+ *
+ * Identical requests made more than once get their responses in recorded order;
+ * once exhausted the last response repeats. Recording again merges into the
+ * existing files: the nth identical request of a session replaces the nth
+ * recorded response and later ones are kept.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type {
+    ChatOptions,
+    ImageGenerationRequest,
+    InlineImage,
+    JsonModelRequest,
+    JsonModelResponse,
+    ModelChatSession,
+    ModelPart,
+    ModelProvider,
+    ModelRequest,
+    ModelResponse,
+} from "./types";
+
+// ============ FIXTURE FORMAT ============
+
+type ProviderMethod = "generateText" | "generateJson" | "generateImage" | "editImage" | "searchGrounded" | "chat";
+
+/** Inline data is stored by reference to keep fixtures small and diffable */
+interface BlobRef {
+    mimeType: string;
+    blob: string;
+}
+
+type RecordedPart =
+    | { text: string }
+    | { inlineData: BlobRef }
+    | { functionCall: { name: string; args: Record<string, unknown> } }
+    | { functionResponse: { name: string; response: object } };
+
+interface RecordedResponse {
+    model: string;
+    text: string;
+    thoughts?: string;
+    images: BlobRef[];
+    functionCalls: ModelResponse["functionCalls"];
+    usage?: ModelResponse["usage"];
+    data?: unknown;
+    error?: string;
+}
+
+export interface ModelFixture {
+    key: string;
+    method: ProviderMethod;
+    role: string;
+    operation: string;
+    request: Record<string, unknown>;
+    responses: RecordedResponse[];
+}
+
+export class FixtureNotFoundError extends Error {
+    constructor(public key: string, public operation: string, public fixtureDir: string) {
+        super(`No recorded fixture for ${operation} (${key}) in ${fixtureDir}`);
+        this.name = "FixtureNotFoundError";
+    }
+}
+
+// ============ NORMALIZATION ============
+
+/**
+ * Volatile identifiers that differ between runs but not between equivalent requests
+ */
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+    [/task_\d{13}_[a-z0-9]+/g, "task_*"],
+    [/session_\d{13}/g, "session_*"],
+    [/img_\d{13}_[a-z0-9]+/g, "img_*"],
+    [/run_\d{13}_[a-z0-9]+/g, "run_*"],
+    [/asset_\d{13}(_[a-z0-9]+)?/g, "asset_*"],
+];
+
+function normalizeText(text: string): string {
+    return VOLATILE_PATTERNS.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), text);
+}
+
+function sha256(value: string): string {
+    return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Stable JSON: sorted keys, volatile ids normalized
+ */
+function stableStringify(value: unknown): string {
+    if (typeof value === "string") return JSON.stringify(normalizeText(value));
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function toPartList(parts: string | ModelPart[]): ModelPart[] {
+    return typeof parts === "string" ? [{ text: parts }] : parts;
+}
+
+// ============ FIXTURE STORE ============
+
+class FixtureStore {
+    constructor(public dir: string) { }
+
+    private get blobDir(): string {
+        return path.join(this.dir, "blobs");
+    }
+
+    private fixturePath(operation: string, key: string): string {
+        const safeOperation = operation.replace(/[^a-z0-9_-]/gi, "_");
+        return path.join(this.dir, `${safeOperation}-${key.slice(0, 16)}.json`);
+    }
+
+    putBlob(image: InlineImage): BlobRef {
+        const blob = sha256(image.data);
+        fs.mkdirSync(this.blobDir, { recursive: true });
+        const blobPath = path.join(this.blobDir, `${blob}.b64`);
+        if (!fs.existsSync(blobPath)) {
+            fs.writeFileSync(blobPath, image.data, "utf-8");
+        }
+        return { mimeType: image.mimeType, blob };
+    }
+
+    getBlob(ref: BlobRef): InlineImage {
+        const blobPath = path.join(this.blobDir, `${ref.blob}.b64`);
+        if (!fs.existsSync(blobPath)) {
+            throw new Error(`Missing fixture blob ${ref.blob} in ${this.blobDir}`);
+        }
+        return { mimeType: ref.mimeType, data: fs.readFileSync(blobPath, "utf-8") };
+    }
+
+    read(operation: string, key: string): ModelFixture | null {
+        const fixturePath = this.fixturePath(operation, key);
+        if (!fs.existsSync(fixturePath)) return null;
+        const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf-8")) as ModelFixture;
+        return fixture.key === key ? fixture : null;
+    }
+
+    write(fixture: ModelFixture): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.writeFileSync(
+            this.fixturePath(fixture.operation, fixture.key),
+            JSON.stringify(fixture, null, 2),
+            "utf-8"
+        );
+    }
+}
+
+/**
+ * Convert parts for storage; inline data becomes blob references.
+ * Without a store the reference is computed but nothing is written (replay).
+ */
+function recordParts(store: FixtureStore | null, parts: string | ModelPart[]): RecordedPart[] {
+    return toPartList(parts).map((part) => {
+        if ("inlineData" in part) {
+            return {
+                inlineData: store
+                    ? store.putBlob(part.inlineData)
+                    : { mimeType: part.inlineData.mimeType, blob: sha256(part.inlineData.data) },
+            };
+        }
+        return part;
+    });
+}
+
+/**
+ * Request summary used for both the hash key and the fixture file.
+ * Transport details (timeouts, abort signals) are excluded - they never change the answer.
+ */
+function describeRequest(
+    store: FixtureStore | null,
+    method: ProviderMethod,
+    request: ModelRequest & Partial<JsonModelRequest & ImageGenerationRequest>
+): Record<string, unknown> {
+    return {
+        method,
+        role: request.role,
+        operation: request.operation,
+        model: request.model,
+        systemInstruction: request.systemInstruction,
+        parts: recordParts(store, request.parts),
+        temperature: request.temperature,
+        thinkingLevel: request.thinkingLevel,
+        includeThoughts: request.includeThoughts,
+        responseSchema: request.responseSchema,
+        aspectRatio: request.aspectRatio,
+        imageSize: request.imageSize,
+    };
+}
+
+function describeChatTurn(
+    store: FixtureStore | null,
+    options: ChatOptions,
+    history: RecordedPart[][],
+    parts: string | ModelPart[]
+): Record<string, unknown> {
+    return {
+        method: "chat",
+        role: options.role,
+        operation: options.operation,
+        systemInstruction: options.systemInstruction,
+        tools: options.tools.map((tool) => tool.name),
+        temperature: options.temperature,
+        includeThoughts: options.includeThoughts,
+        history: [...history],
+        parts: recordParts(store, parts),
+    };
+}
+
+export function requestKey(description: Record<string, unknown>): string {
+    return sha256(stableStringify(description));
+}
+
+// ============ RECORDING PROVIDER ============
+
+export class RecordingModelProvider implements ModelProvider {
+    readonly name: string;
+    private store: FixtureStore;
+    /** Responses captured during this process, per key (for repeated identical requests) */
+    private captured = new Map<string, number>();
+
+    constructor(private inner: ModelProvider, fixtureDir: string) {
+        this.name = `record(${inner.name})`;
+        this.store = new FixtureStore(fixtureDir);
+    }
+
+    generateText(request: ModelRequest): Promise<ModelResponse> {
+        return this.capture("generateText", request, () => this.inner.generateText(request));
+    }
+
+    generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>> {
+        return this.capture("generateJson", request, () => this.inner.generateJson<T>(request));
+    }
+
+    generateImage(request: ImageGenerationRequest): Promise<ModelResponse> {
+        return this.capture("generateImage", request, () => this.inner.generateImage(request));
+    }
+
+    editImage(request: ModelRequest): Promise<ModelResponse> {
+        return this.capture("editImage", request, () => this.inner.editImage(request));
+    }
+
+    searchGrounded(request: ModelRequest): Promise<ModelResponse> {
+        return this.capture("searchGrounded", request, () => this.inner.searchGrounded(request));
+    }
+
+    startChat(options: ChatOptions): ModelChatSession {
+        const session = this.inner.startChat(options);
+        const history: RecordedPart[][] = [];
+
+        return {
+            send: async (parts, sendOptions) => {
+                const description = describeChatTurn(this.store, options, history, parts);
+                history.push(description.parts as RecordedPart[]);
+
+                const response = await this.persist(
+                    requestKey(description),
+                    "chat",
+                    options,
+                    description,
+                    () => session.send(parts, sendOptions)
+                );
+                history.push(response.functionCalls.map((functionCall) => ({ functionCall })));
+                return response;
+            },
+        };
+    }
+
+    private capture<R extends ModelResponse>(
+        method: ProviderMethod,
+        request: ModelRequest,
+        call: () => Promise<R>
+    ): Promise<R> {
+        const description = describeRequest(this.store, method, request);
+        return this.persist(requestKey(description), method, request, description, call);
+    }
+
+    private async persist<R extends ModelResponse>(
+        key: string,
+        method: ProviderMethod,
+        source: { role: string; operation: string },
+        description: Record<string, unknown>,
+        call: () => Promise<R>
+    ): Promise<R> {
+        const index = this.captured.get(key) || 0;
+        this.captured.set(key, index + 1);
+        // Re-read on every write: other processes may be recording into the same directory
+        const save = (recorded: RecordedResponse) => {
+            const fixture = this.store.read(source.operation, key) || {
+                key,
+                method,
+                role: source.role,
+                operation: source.operation,
+                request: description,
+                responses: [],
+            };
+            fixture.responses[Math.min(index, fixture.responses.length)] = recorded;
+            this.store.write(fixture);
+        };
+
+        try {
+            const response = await call();
+            save({
+                model: response.model,
+                text: response.text,
+                thoughts: response.thoughts,
+                images: response.images.map((image) => this.store.putBlob(image)),
+                functionCalls: response.functionCalls,
+                ...(response.usage ? { usage: response.usage } : {}),
+                ...("data" in response ? { data: (response as JsonModelResponse).data } : {}),
+            });
+            return response;
+        } catch (error) {
+            save({
+                model: "",
+                text: "",
+                images: [],
+                functionCalls: [],
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
+    }
+}
+
+// ============ REPLAY PROVIDER ============
+
+export class ReplayModelProvider implements ModelProvider {
+    readonly name = "replay";
+    private store: FixtureStore;
+    private served = new Map<string, number>();
+
+    constructor(fixtureDir: string) {
+        this.store = new FixtureStore(fixtureDir);
+    }
+
+    async generateText(request: ModelRequest): Promise<ModelResponse> {
+        return this.serve("generateText", request);
+    }
+
+    async generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>> {
+        const response = this.serve("generateJson", request);
+        return { ...response, data: response.data as T };
+    }
+
+    async generateImage(request: ImageGenerationRequest): Promise<ModelResponse> {
+        return this.serve("generateImage", request);
+    }
+
+    async editImage(request: ModelRequest): Promise<ModelResponse> {
+        return this.serve("editImage", request);
+    }
+
+    async searchGrounded(request: ModelRequest): Promise<ModelResponse> {
+        return this.serve("searchGrounded", request);
+    }
+
+    startChat(options: ChatOptions): ModelChatSession {
+        const history: RecordedPart[][] = [];
+
+        return {
+            send: async (parts, sendOptions) => {
+                (sendOptions?.signal || options.signal)?.throwIfAborted();
+                const description = describeChatTurn(null, options, history, parts);
+                history.push(description.parts as RecordedPart[]);
+                const key = requestKey(description);
+                const response = this.replay(key, options.operation);
+                history.push(response.functionCalls.map((functionCall) => ({ functionCall })));
+                return response;
+            },
+        };
+    }
+
+    private serve(method: ProviderMethod, request: ModelRequest): ModelResponse & { data?: unknown } {
+        request.signal?.throwIfAborted();
+        return this.replay(requestKey(describeRequest(null, method, request)), request.operation);
+    }
+
+    private replay(key: string, operation: string): ModelResponse & { data?: unknown } {
+        const fixture = this.store.read(operation, key);
+        if (!fixture || fixture.responses.length === 0) {
+            throw new FixtureNotFoundError(key, operation, this.store.dir);
+        }
+
+        const index = this.served.get(key) || 0;
+        this.served.set(key, index + 1);
+        const recorded = fixture.responses[Math.min(index, fixture.responses.length - 1)];
+
+        if (recorded.error) {
+            throw new Error(recorded.error);
+        }
+
+        return {
+            model: recorded.model,
+            text: recorded.text,
+            thoughts: recorded.thoughts,
+            images: recorded.images.map((ref) => this.store.getBlob(ref)),
+            functionCalls: recorded.functionCalls,
+            usage: recorded.usage,
+            data: recorded.data,
+        };
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Model Provider Types
+ *
+ * Provider-agnostic request/response shapes used by every agent.
+ * Agents describe WHAT they need (role, operation, parts); the provider
+ * decides which concrete model serves it and how to talk to it.
+ */
+
+import type { AgentRole, ThinkingLevel } from "../agents/types";
+
+// ============ ROLES & CAPABILITIES ============
+
+/**
+ * Who is asking - used to pick a model per role from config.
+ * Agent roles plus the legacy function-calling loop and the canvas image editor.
+ */
+export type ModelRole = AgentRole | "agent_loop" | "image_editor";
+
+/**
+ * What kind of call is being made
+ */
+export type ModelCapability =
+    | "text"
+    | "json"
+    | "multimodal"
+    | "image_generation"
+    | "image_edit"
+    | "search";
+
+// ============ CONTENT ============
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // base64, no data: prefix
+}
+
+export interface ModelFunctionCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export type ModelPart =
+    | { text: string }
+    | { inlineData: InlineImage }
+    | { functionCall: ModelFunctionCall }
+    | { functionResponse: { name: string; response: object } };
+
+export interface ModelToolDeclaration {
+    name: string;
+    description: string;
+    parameters: object;
+}
+
+// ============ REQUESTS ============
+
+export interface ModelRequest {
+    role: ModelRole;
+    /** Stable operation name, e.g. "parse_intent" or "audit_asset" */
+    operation: string;
+    parts: string | ModelPart[];
+    /** Concrete model to use instead of the one configured for the role */
+    model?: string;
+    systemInstruction?: string;
+    temperature?: number;
+    thinkingLevel?: ThinkingLevel;
+    includeThoughts?: boolean;
+    timeoutMs?: number;
+    /** Cancels the call (transport only, never part of the fixture key) */
+    signal?: AbortSignal;
+}
+
+export interface JsonModelRequest extends ModelRequest {
+    /** JSON schema for structured output (avoid with image parts) */
+    responseSchema?: object;
+}
+
+export interface ImageGenerationRequest extends ModelRequest {
+    aspectRatio?: "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
+    imageSize?: "1K" | "2K" | "4K";
+}
+
+/** Size generated, and counted against budgets, when none is asked for */
+export const DEFAULT_IMAGE_SIZE: NonNullable<ImageGenerationRequest["imageSize"]> = "2K";
+
+export interface ChatOptions {
+    role: ModelRole;
+    operation: string;
+    tools: ModelToolDeclaration[];
+    systemInstruction?: string;
+    temperature?: number;
+    includeThoughts?: boolean;
+    timeoutMs?: number;
+    /** Applies to every turn of the session */
+    signal?: AbortSignal;
+}
+
+// ============ RESPONSES ============
+
+/**
+ * Token counts reported by the model for one call
+ */
+export interface ModelUsage {
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    totalTokens: number;
+}
+
+export interface ModelResponse {
+    model: string;
+    text: string;
+    thoughts?: string;
+    images: InlineImage[];
+    functionCalls: ModelFunctionCall[];
+    /** Absent when the provider doesn't report usage */
+    usage?: ModelUsage;
+}
+
+export interface JsonModelResponse<T = unknown> extends ModelResponse {
+    data: T;
+}
+
+export interface ChatSendOptions {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Multi-turn function-calling session.
+ * Implementations keep their own history (Gemini 3 needs thought signatures preserved).
+ */
+export interface ModelChatSession {
+    send(parts: string | ModelPart[], options?: ChatSendOptions): Promise<ModelResponse>;
+}
+
+// ============ PROVIDER ============
+
+export interface ModelProvider {
+    readonly name: string;
+    /** Text or multimodal (image parts) -> text */
+    generateText(request: ModelRequest): Promise<ModelResponse>;
+    /** Text or multimodal -> parsed JSON */
+    generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>>;
+    /** Prompt -> image(s) */
+    generateImage(request: ImageGenerationRequest): Promise<ModelResponse>;
+    /** Image (+ optional mask) + instructions -> edited image */
+    editImage(request: ModelRequest): Promise<ModelResponse>;
+    /** Google Search grounded text */
+    searchGrounded(request: ModelRequest): Promise<ModelResponse>;
+    /** Function-calling chat */
+    startChat(options: ChatOptions): ModelChatSession;
+}
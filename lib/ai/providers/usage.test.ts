@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { LocalModelProvider } from "./local";
+import { MeteredModelProvider, UsageMeter, withUsageMetering } from "./usage";
+import type { ModelRequest, ModelResponse } from "./types";
+
+/**
+ * Each call reports `parts` as "<tokens>" or "<tokens>@<delay ms>"
+ */
+class TokenProvider extends LocalModelProvider {
+    async generateText(request: ModelRequest): Promise<ModelResponse> {
+        const [tokens, delay] = String(request.parts).split("@").map(Number);
+        if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+        return {
+            model: "test-model",
+            text: "ok",
+            images: [],
+            functionCalls: [],
+            usage: { inputTokens: tokens, outputTokens: 0, thinkingTokens: 0, totalTokens: tokens },
+        };
+    }
+}
+
+const provider = new MeteredModelProvider(new TokenProvider());
+const call = (parts: string) => provider.generateText({ role: "orchestrator", operation: "test", parts });
+
+describe("MeteredModelProvider", () => {
+    it("records a call on every meter tracking the caller", async () => {
+        const run = new UsageMeter();
+        const task = new UsageMeter();
+
+        await run.track(async () => {
+            await call("5");
+            await task.track(async () => {
+                await call("10");
+                await call("20");
+            });
+        });
+
+        expect(task.summary()).toMatchObject({ calls: 2, totalTokens: 30, models: ["test-model"] });
+        expect(run.summary()).toMatchObject({ calls: 3, totalTokens: 35, models: ["test-model"] });
+    });
+
+    it("adds up sibling meters to their enclosing meter's total", async () => {
+        const run = new UsageMeter();
+        const tasks = [new UsageMeter(), new UsageMeter()];
+
+        await run.track(() => Promise.all([
+            tasks[0].track(async () => { await call("7@10"); await call("3"); }),
+            tasks[1].track(async () => { await call("11"); await call("13@5"); }),
+        ]));
+
+        expect(tasks.map((t) => t.summary().totalTokens)).toEqual([10, 24]);
+        expect(run.summary().totalTokens).toBe(34);
+        expect(run.summary().calls).toBe(4);
+    });
+
+    it("keeps concurrent runs apart", async () => {
+        const first = new UsageMeter();
+        const second = new UsageMeter();
+
+        // The calls interleave: each run resumes while the other waits
+        await Promise.all([
+            first.track(async () => {
+                for (const parts of ["1@15", "2@5", "4@15"]) await call(parts);
+            }),
+            second.track(async () => {
+                for (const parts of ["100@5", "200@15", "400@5"]) await call(parts);
+            }),
+        ]);
+
+        expect(first.summary()).toMatchObject({ calls: 3, totalTokens: 7 });
+        expect(second.summary()).toMatchObject({ calls: 3, totalTokens: 700 });
+    });
+
+    it("counts a call once on a meter tracked again inside itself", async () => {
+        const meter = new UsageMeter();
+
+        await meter.track(() => meter.track(() => call("9")));
+
+        expect(meter.summary()).toMatchObject({ calls: 1, totalTokens: 9 });
+    });
+
+    it("records nothing for calls outside any meter", async () => {
+        const meter = new UsageMeter();
+
+        await call("9");
+        await meter.track(async () => undefined);
+
+        expect(meter.summary().calls).toBe(0);
+    });
+});
+
+describe("withUsageMetering", () => {
+    it("wraps a provider once", () => {
+        const metered = withUsageMetering(new TokenProvider());
+
+        expect(metered).toBeInstanceOf(MeteredModelProvider);
+        expect(withUsageMetering(metered)).toBe(metered);
+    });
+});
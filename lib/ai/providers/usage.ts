@@ -0,0 +1,126 @@
+/**
+ * Usage Metering
+ *
+ * Records tokens, images, wall time and estimated cost for every model call.
+ * Meters are scoped with AsyncLocalStorage rather than passed around: a call
+ * counts toward every meter tracking the code that made it, so one call can
+ * be attributed to its task, its asset and its run at once - including the
+ * legacy gemini.ts functions that use the shared provider directly.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { emptyUsage, mergeUsage, type UsageSummary } from "@/lib/types";
+import { estimateCost } from "./pricing";
+import type {
+    ChatOptions,
+    ImageGenerationRequest,
+    JsonModelRequest,
+    JsonModelResponse,
+    ModelChatSession,
+    ModelProvider,
+    ModelRequest,
+    ModelResponse,
+} from "./types";
+
+const activeMeters = new AsyncLocalStorage<UsageMeter[]>();
+
+// ============ USAGE METER ============
+
+export class UsageMeter {
+    private usage: UsageSummary = emptyUsage();
+
+    /**
+     * Run fn with this meter active, in addition to any enclosing meters
+     */
+    track<T>(fn: () => Promise<T>): Promise<T> {
+        const meters = activeMeters.getStore() || [];
+        if (meters.includes(this)) return fn();
+        return activeMeters.run([...meters, this], fn);
+    }
+
+    /**
+     * Record one completed model call
+     */
+    record(response: ModelResponse, latencyMs: number): void {
+        const tokens = response.usage;
+        this.add({
+            calls: 1,
+            inputTokens: tokens?.inputTokens || 0,
+            outputTokens: tokens?.outputTokens || 0,
+            thinkingTokens: tokens?.thinkingTokens || 0,
+            totalTokens: tokens?.totalTokens || 0,
+            imageCount: response.images.length,
+            latencyMs,
+            costUsd: tokens ? estimateCost(response.model, tokens) : 0,
+            models: response.model ? [response.model] : [],
+        });
+    }
+
+    /**
+     * Add usage recorded elsewhere (e.g. by an earlier attempt of the run)
+     */
+    add(usage: UsageSummary | null | undefined): void {
+        this.usage = mergeUsage(this.usage, usage);
+    }
+
+    summary(): UsageSummary {
+        return mergeUsage(this.usage);
+    }
+}
+
+// ============ METERED PROVIDER ============
+
+/**
+ * Times every call and records it on the meters active for the caller
+ */
+export class MeteredModelProvider implements ModelProvider {
+    readonly name: string;
+
+    constructor(private inner: ModelProvider) {
+        this.name = inner.name;
+    }
+
+    generateText(request: ModelRequest): Promise<ModelResponse> {
+        return this.measure(() => this.inner.generateText(request));
+    }
+
+    generateJson<T = unknown>(request: JsonModelRequest): Promise<JsonModelResponse<T>> {
+        return this.measure(() => this.inner.generateJson<T>(request));
+    }
+
+    generateImage(request: ImageGenerationRequest): Promise<ModelResponse> {
+        return this.measure(() => this.inner.generateImage(request));
+    }
+
+    editImage(request: ModelRequest): Promise<ModelResponse> {
+        return this.measure(() => this.inner.editImage(request));
+    }
+
+    searchGrounded(request: ModelRequest): Promise<ModelResponse> {
+        return this.measure(() => this.inner.searchGrounded(request));
+    }
+
+    startChat(options: ChatOptions): ModelChatSession {
+        const session = this.inner.startChat(options);
+        return {
+            send: (parts, sendOptions) => this.measure(() => session.send(parts, sendOptions)),
+        };
+    }
+
+    private async measure<T extends ModelResponse>(call: () => Promise<T>): Promise<T> {
+        const startTime = Date.now();
+        const response = await call();
+        const latencyMs = Date.now() - startTime;
+        for (const meter of activeMeters.getStore() || []) {
+            meter.record(response, latencyMs);
+        }
+        return response;
+    }
+}
+
+/**
+ * Wrap a provider so its calls are metered (idempotent)
+ */
+export function withUsageMetering(provider: ModelProvider): ModelProvider {
+    return provider instanceof MeteredModelProvider ? provider : new MeteredModelProvider(provider);
+}
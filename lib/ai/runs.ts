@@ -0,0 +1,50 @@
+/**
+ * Active Agent Runs
+ *
+ * Tracks an AbortController per agent run so a run can be stopped from
+ * another request (DELETE /api/agent/:runId). Runs only live in the process
+ * that started them; their state is persisted by the job store.
+ */
+
+interface ActiveRun {
+    controller: AbortController;
+    startedAt: number;
+}
+
+// Kept on globalThis so dev-mode module reloads don't orphan running agents
+const globalRuns = globalThis as unknown as { __agentRuns?: Map<string, ActiveRun> };
+const activeRuns = (globalRuns.__agentRuns ??= new Map<string, ActiveRun>());
+
+/**
+ * Register a run and return its ID and cancellation signal.
+ * Pass an existing ID when resuming a stored run.
+ */
+export function startRun(
+    runId: string = `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+): { runId: string; signal: AbortSignal } {
+    const controller = new AbortController();
+    activeRuns.set(runId, { controller, startedAt: Date.now() });
+    return { runId, signal: controller.signal };
+}
+
+/**
+ * Abort a run. Returns false if the run is unknown or already finished.
+ */
+export function cancelRun(runId: string): boolean {
+    const run = activeRuns.get(runId);
+    if (!run) return false;
+    run.controller.abort(new DOMException("Run cancelled", "AbortError"));
+    activeRuns.delete(runId);
+    return true;
+}
+
+/**
+ * Forget a run once it has completed
+ */
+export function finishRun(runId: string): void {
+    activeRuns.delete(runId);
+}
+
+export function isRunActive(runId: string): boolean {
+    return activeRuns.has(runId);
+}
@@ -4,37 +4,16 @@
  */
 
 import { z } from "zod";
+import type { ExtractedConstitutionSchema } from "@/lib/types";
+import { DEFAULT_IMAGE_SIZE } from "./providers/types";
 
 /**
- * Brand Constitution - The AI-extracted "DNA" of a brand
+ * Brand Constitution - The AI-extracted "DNA" of a brand. Defined with the
+ * rest of the constitution types; re-exported here for structured output.
  */
-export const BrandConstitutionSchema = z.object({
-    visual_identity: z.object({
-        color_palette_hex: z
-            .array(z.string())
-            .describe("Array of hex color codes from the brand moodboard"),
-        photography_style: z
-            .string()
-            .describe("DEEP DIVE: Provide a professional, evocative description (MINIMUM 50 WORDS) of the photography and visual style, including lighting, composition, and texture."),
-        forbidden_elements: z
-            .array(z.string())
-            .describe("Elements that should never appear in brand assets"),
-    }),
-    voice: z.object({
-        tone: z
-            .string()
-            .describe("DEEP DIVE: Provide a detailed breakdown (MINIMUM 50 WORDS) of the brand's voice and tone. Explain the emotional impact and communication style."),
-        keywords: z
-            .array(z.string())
-            .describe("Key terms that represent the brand essence"),
-    }),
-    risk_thresholds: z.object({
-        nudity: z.enum(["STRICT_ZERO_TOLERANCE", "ALLOW_ARTISTIC"]),
-        political: z.enum(["STRICT_ZERO_TOLERANCE", "ALLOW_SATIRE"]),
-    }),
-});
+export { BrandConstitutionSchema, ExtractedConstitutionSchema, ConstitutionRulesSchema } from "@/lib/types";
 
-export type BrandConstitutionOutput = z.infer<typeof BrandConstitutionSchema>;
+export type BrandConstitutionOutput = z.infer<typeof ExtractedConstitutionSchema>;
 
 /**
  * Audit Result - Brand compliance check output
@@ -54,6 +33,16 @@ export const AuditResultSchema = z.object({
                 x: z.number().min(0).max(100),
                 y: z.number().min(0).max(100),
                 issue: z.string(),
+                box: z
+                    .object({
+                        x: z.number().min(0).max(100),
+                        y: z.number().min(0).max(100),
+                        width: z.number().min(0).max(100),
+                        height: z.number().min(0).max(100),
+                    })
+                    .nullable()
+                    .optional()
+                    .describe("Area the issue covers, in percent of the image"),
             })
         )
         .describe("Coordinates of issues found in the image"),
@@ -75,31 +64,32 @@ export const ImageConfigSchema = z.object({
     imageSize: z
         .enum(["1K", "2K", "4K"])
         .optional()
-        .default("2K"),
+        .default(DEFAULT_IMAGE_SIZE),
 });
 
 export type ImageConfig = z.infer<typeof ImageConfigSchema>;
 
+/** JSON schema keywords Gemini's responseSchema rejects */
+const UNSUPPORTED_KEYWORDS = ["$schema", "definitions", "$defs", "additionalProperties"];
+
+function stripUnsupported(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(stripUnsupported);
+    if (!value || typeof value !== "object") return value;
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([key]) => !UNSUPPORTED_KEYWORDS.includes(key))
+            .map(([key, child]) => [key, stripUnsupported(child)])
+    );
+}
+
 /**
  * Convert Zod schema to JSON Schema for Gemini API
  */
-export function zodToGeminiSchema(schema: z.ZodType): any {
+export function zodToGeminiSchema(schema: z.ZodType): Record<string, unknown> {
     try {
-        // eslint-disable-next-line @typescript-eslint/no-require-imports
-        const { zodToJsonSchema } = require("zod-to-json-schema");
-        const jsonSchema = zodToJsonSchema(schema, { target: "openApi3" });
-
-        // Gemini 3 responseSchema doesn't like $schema or definitions at the top level
-        // It wants the actual schema object
-        if (jsonSchema && typeof jsonSchema === "object") {
-            const cleanSchema = { ...jsonSchema };
-            delete (cleanSchema as any).$schema;
-            delete (cleanSchema as any).definitions;
-            return cleanSchema;
-        }
-        return jsonSchema;
+        return stripUnsupported(z.toJSONSchema(schema, { target: "openapi-3.0" })) as Record<string, unknown>;
     } catch (error) {
-        console.warn("zod-to-json-schema error:", error);
+        console.warn("Zod to JSON schema error:", error);
         return {};
     }
 }
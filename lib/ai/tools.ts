@@ -1,4 +1,4 @@
-import type { BrandConstitution, CanvasElement } from "@/lib/types";
+import type { AuditPolicy, BrandConstitution, CanvasElement } from "@/lib/types";
 
 /**
  * Tool definitions for Gemini function calling
@@ -170,6 +170,7 @@ export interface AgentState {
     constitution: BrandConstitution | null;
     currentImage: string | null; // base64
     auditScore: number | null;
+    auditPolicy?: AuditPolicy; // Decides audit_compliance; the default when unset
     attempts: number;
     maxAttempts: number;
     history: AgentAction[];
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type jsPDF from "jspdf";
+import type { Asset, AssetStatus, BrandConstitution, Campaign } from "@/lib/types";
+import { DEFAULT_CONSTITUTION } from "@/lib/types/constitution-schema";
+import { createBrandBook, selectBrandBookExamples } from "./brandBook";
+
+const CONSTITUTION: BrandConstitution = {
+    ...structuredClone(DEFAULT_CONSTITUTION),
+    visual_identity: {
+        ...structuredClone(DEFAULT_CONSTITUTION.visual_identity),
+        color_palette_hex: ["#1A1A2E", "#e94560"],
+        fonts: ["Space Grotesk"],
+        composition_rules: ["Rule of thirds"],
+        signature_elements: [],
+        forbidden_elements: ["Clip art"],
+        visual_density: "MINIMAL",
+    },
+    voice: { ...DEFAULT_CONSTITUTION.voice, tone: "Bold and warm", keywords: ["launch"], catchphrases: [] },
+    brand_essence: "Loud launches for quiet products.",
+};
+
+function asset(id: string, status: AssetStatus, changes: Partial<Asset> = {}): Asset {
+    return {
+        id,
+        campaign_id: "campaign_1",
+        status,
+        image_url: `https://example.com/${id}.png`,
+        risk_score: null,
+        sentinel_feedback: null,
+        audit_result: null,
+        attempt_number: 1,
+        created_at: 0,
+        updated_at: 0,
+        ...changes,
+    };
+}
+
+function campaign(title: string, assets: Asset[]): Campaign {
+    return {
+        id: title,
+        brand_id: "brand_1",
+        title,
+        user_prompt: "",
+        status: "COMPLETED",
+        assets,
+        created_at: 0,
+        updated_at: 0,
+    };
+}
+
+/** The text drawn on each page of the PDF, in drawing order; bullets are WinAnsi-encoded */
+function pageTexts(pdf: jsPDF): string[][] {
+    return Array.from({ length: pdf.getNumberOfPages() }, (_, i) => {
+        const stream = (pdf.internal as unknown as { pages: string[][] }).pages[i + 1].join("\n");
+        return [...stream.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map((m) => m[1].replace(/\\(.)/g, "$1").replace(/\x95/g, "•"));
+    });
+}
+
+describe("selectBrandBookExamples", () => {
+    it("captions approved and rejected assets with the reviewer's or audit's words", () => {
+        const { dos, donts } = selectBrandBookExamples([campaign("Summer sale", [
+            asset("a", "APPROVED", { review: { decision: "APPROVE", reviewer_id: "u1", reviewer_name: "Ada", reason: "On brand", reviewed_at: 0 } }),
+            asset("b", "APPROVED"),
+            asset("c", "REJECTED", { sentinel_feedback: "Off-palette background" }),
+            asset("d", "IN_REVIEW"),
+        ])]);
+
+        expect(dos).toEqual([
+            { image_url: "https://example.com/a.png", caption: "On brand" },
+            { image_url: "https://example.com/b.png", caption: "Summer sale" },
+        ]);
+        expect(donts).toEqual([{ image_url: "https://example.com/c.png", caption: "Off-palette background" }]);
+    });
+
+    it("puts assets with images first and keeps at most four per side", () => {
+        const assets = [asset("old", "APPROVED", { image_url: null }), ...["a", "b", "c", "d"].map((id) => asset(id, "APPROVED"))];
+
+        const { dos } = selectBrandBookExamples([campaign("Launch", assets)]);
+
+        expect(dos.map((example) => example.image_url)).toEqual(["a", "b", "c", "d"].map((id) => `https://example.com/${id}.png`));
+    });
+});
+
+describe("createBrandBook", () => {
+    it("writes a cover and one page per section", async () => {
+        const pdf = await createBrandBook("Acme", CONSTITUTION, []);
+        const pages = pageTexts(pdf);
+
+        expect(pages).toHaveLength(6);
+        expect(pages[0]).toEqual(expect.arrayContaining(["BRAND GUIDELINES", "Acme", "Loud launches for quiet products."]));
+        expect(pages.slice(1).map((page) => page[1])).toEqual([
+            "Color Palette",
+            "Typography",
+            "Photography & Composition",
+            "Voice & Tone",
+            "Do's & Don'ts",
+        ]);
+        expect(pages[2]).toEqual(expect.arrayContaining(["Acme Brand Guidelines", "3 / 6"]));
+    });
+
+    it("lists each brand color with its RGB and CMYK values", async () => {
+        const pages = pageTexts(await createBrandBook("Acme", CONSTITUTION, []));
+
+        expect(pages[1]).toEqual(expect.arrayContaining([
+            "#1A1A2E", "RGB 26, 26, 46", "CMYK 43, 43, 0, 82",
+            "#E94560", "RGB 233, 69, 96", "CMYK 0, 70, 59, 9",
+        ]));
+    });
+
+    it("writes the rules and marks what the constitution leaves empty", async () => {
+        const pages = pageTexts(await createBrandBook("Acme", CONSTITUTION, []));
+
+        expect(pages[2]).toContain("Space Grotesk");
+        expect(pages[3]).toEqual(expect.arrayContaining(["minimal", "•  Rule of thirds", "None specified", "•  Clip art"]));
+        expect(pages[4]).toEqual(expect.arrayContaining(["Bold and warm", "•  launch", "None specified"]));
+        expect(pages[5]).toEqual(expect.arrayContaining(["No approved assets yet.", "No rejected assets yet."]));
+    });
+
+    it("says so when the constitution has no colors or fonts", async () => {
+        const empty: BrandConstitution = {
+            ...CONSTITUTION,
+            visual_identity: { ...CONSTITUTION.visual_identity, color_palette_hex: [], fonts: [] },
+        };
+
+        const pages = pageTexts(await createBrandBook("Acme", empty, []));
+
+        expect(pages[1]).toContain("No brand colors specified");
+        expect(pages[2]).toContain("No brand fonts specified");
+    });
+
+    it("shows examples without a stored image as unavailable", async () => {
+        const campaigns = [campaign("Launch", [asset("a", "REJECTED", { image_url: null, sentinel_feedback: "Clip art used" })])];
+
+        const pages = pageTexts(await createBrandBook("Acme", CONSTITUTION, campaigns));
+
+        expect(pages[5]).toEqual(expect.arrayContaining(["No approved assets yet.", "Image unavailable", "Clip art used"]));
+    });
+});
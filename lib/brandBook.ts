@@ -0,0 +1,367 @@
+/**
+ * Brand Book
+ *
+ * Renders a brand's constitution as printable guidelines: the palette with
+ * hex, RGB and CMYK values, fonts, photography and composition, voice and
+ * do/don't examples drawn from approved and rejected assets. Runs in the
+ * browser: example images are loaded through a canvas.
+ */
+
+import jsPDF from "jspdf";
+import { hexToRgb, rgbToCmyk, type Rgb } from "@/lib/ai/analysis/color";
+import type { BrandConstitution, Campaign } from "@/lib/types";
+
+// ============ EXAMPLES ============
+
+export interface BrandBookExample {
+    /** Null for assets recorded before run images were stored */
+    image_url: string | null;
+    caption: string;
+}
+
+/** Examples shown per side of the do/don't page */
+const MAX_EXAMPLES = 4;
+
+/**
+ * Approved assets as "do" examples and rejected ones as "don't", captioned
+ * with what the audit or reviewer said. Assets with an image come first,
+ * then newest campaign first.
+ */
+export function selectBrandBookExamples(campaigns: Campaign[]): { dos: BrandBookExample[]; donts: BrandBookExample[] } {
+    const assets = campaigns
+        .flatMap((campaign) => campaign.assets.map((asset) => ({ campaign, asset, image_url: asset.image_url })))
+        .sort((a, b) => Number(!!b.image_url) - Number(!!a.image_url));
+    const dos = assets
+        .filter(({ asset }) => asset.status === "APPROVED")
+        .slice(0, MAX_EXAMPLES)
+        .map(({ campaign, asset, image_url }) => ({
+            image_url,
+            caption: asset.review?.reason || asset.audit_result?.strengths[0] || campaign.title,
+        }));
+    const donts = assets
+        .filter(({ asset }) => asset.status === "REJECTED")
+        .slice(0, MAX_EXAMPLES)
+        .map(({ campaign, asset, image_url }) => ({
+            image_url,
+            caption: asset.review?.reason
+                || asset.audit_result?.violations[0]?.description
+                || asset.sentinel_feedback
+                || campaign.title,
+        }));
+    return { dos, donts };
+}
+
+/** Longest side of an example image in the PDF, px; keeps the file small */
+const EXAMPLE_IMAGE_SIZE = 800;
+
+/**
+ * An image as a JPEG data URL; null when it can't be loaded or read
+ * (e.g. a cross-origin image without CORS headers)
+ */
+function loadImage(url: string): Promise<{ data: string; width: number; height: number } | null> {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        img.onload = () => {
+            try {
+                const scale = Math.min(1, EXAMPLE_IMAGE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+                const canvas = document.createElement("canvas");
+                canvas.width = Math.round(img.naturalWidth * scale);
+                canvas.height = Math.round(img.naturalHeight * scale);
+                canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+                resolve({ data: canvas.toDataURL("image/jpeg", 0.85), width: canvas.width, height: canvas.height });
+            } catch {
+                resolve(null);
+            }
+        };
+        img.onerror = () => resolve(null);
+        img.src = url;
+    });
+}
+
+// ============ LAYOUT ============
+
+/** A4 portrait, mm */
+const PAGE = { width: 210, height: 297, margin: 20 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const COLUMN_GAP = 8;
+const FIELD_LABEL_WIDTH = 45;
+
+const INK: Rgb = [15, 23, 42];
+const MUTED: Rgb = [100, 116, 139];
+const ACCENT: Rgb = [79, 70, 229];
+const RULE: Rgb = [226, 232, 240];
+const DO_COLOR: Rgb = [5, 150, 105];
+const DONT_COLOR: Rgb = [220, 38, 38];
+
+/** mm per point, for line heights */
+const PT = 0.3528;
+
+/**
+ * Writes top to bottom, starting a new page when the next block doesn't fit
+ */
+class BrandBookWriter {
+    private y = PAGE.margin;
+
+    constructor(private readonly pdf: jsPDF) {}
+
+    /** Start a section on a new page */
+    section(title: string, subtitle: string) {
+        this.pdf.addPage();
+        this.y = PAGE.margin;
+        this.text(subtitle.toUpperCase(), { size: 8, color: ACCENT, bold: true });
+        this.text(title, { size: 24, bold: true });
+        this.pdf.setDrawColor(...RULE);
+        this.pdf.line(PAGE.margin, this.y, PAGE.width - PAGE.margin, this.y);
+        this.y += 8;
+    }
+
+    heading(text: string) {
+        this.ensure(14);
+        this.y += 4;
+        this.text(text, { size: 12, bold: true });
+        this.y += 1;
+    }
+
+    paragraph(text: string, empty = "Not specified") {
+        this.text(text.trim() || empty, { size: 10, color: text.trim() ? INK : MUTED, width: CONTENT_WIDTH });
+        this.y += 2;
+    }
+
+    bullets(items: string[], empty = "None specified") {
+        if (items.length === 0) return this.paragraph("", empty);
+        for (const item of items) {
+            this.text(`•  ${item}`, { size: 10, width: CONTENT_WIDTH });
+        }
+        this.y += 2;
+    }
+
+    /** A label with its value beside it */
+    field(label: string, value: string) {
+        this.pdf.setFont("helvetica", "normal").setFontSize(10);
+        const lines: string[] = this.pdf.splitTextToSize(value, CONTENT_WIDTH - FIELD_LABEL_WIDTH);
+        const lineHeight = 10 * PT * 1.4;
+        this.ensure(lines.length * lineHeight);
+        this.pdf.setFont("helvetica", "bold").setTextColor(...MUTED);
+        this.pdf.text(label, PAGE.margin, this.y, { baseline: "top" });
+        this.pdf.setFont("helvetica", "normal").setTextColor(...INK);
+        this.pdf.text(lines, PAGE.margin + FIELD_LABEL_WIDTH, this.y, { baseline: "top", lineHeightFactor: 1.4 });
+        this.y += lines.length * lineHeight + 1.5;
+    }
+
+    text(
+        text: string,
+        { size, color = INK, bold = false, width }: { size: number; color?: Rgb; bold?: boolean; width?: number }
+    ) {
+        this.pdf.setFont("helvetica", bold ? "bold" : "normal").setFontSize(size).setTextColor(...color);
+        const lines: string[] = width ? this.pdf.splitTextToSize(text, width) : [text];
+        const lineHeight = size * PT * 1.4;
+        for (const line of lines) {
+            this.ensure(lineHeight);
+            this.pdf.text(line, PAGE.margin, this.y, { baseline: "top" });
+            this.y += lineHeight;
+        }
+    }
+
+    /** Reserve `height` mm, moving to a new page if it doesn't fit */
+    ensure(height: number): number {
+        if (this.y + height > PAGE.height - PAGE.margin) {
+            this.pdf.addPage();
+            this.y = PAGE.margin;
+        }
+        return this.y;
+    }
+
+    advance(height: number) {
+        this.y += height;
+    }
+}
+
+// ============ PAGES ============
+
+function drawCover(pdf: jsPDF, brandName: string, constitution: BrandConstitution) {
+    const colors = constitution.visual_identity.color_palette_hex;
+    pdf.setFont("helvetica", "bold").setFontSize(10).setTextColor(...ACCENT);
+    pdf.text("BRAND GUIDELINES", PAGE.margin, 70, { baseline: "top" });
+    pdf.setFontSize(40).setTextColor(...INK);
+    const title: string[] = pdf.splitTextToSize(brandName, CONTENT_WIDTH);
+    pdf.text(title, PAGE.margin, 80, { baseline: "top" });
+
+    const essenceTop = 80 + title.length * 40 * PT * 1.2 + 8;
+    pdf.setFont("helvetica", "normal").setFontSize(14).setTextColor(...MUTED);
+    pdf.text(pdf.splitTextToSize(constitution.brand_essence, CONTENT_WIDTH), PAGE.margin, essenceTop, { baseline: "top" });
+
+    pdf.setFontSize(9);
+    pdf.text(`Generated ${new Date().toLocaleDateString()} by Sentient Studio`, PAGE.margin, PAGE.height - 70, { baseline: "top" });
+
+    // The palette as a band across the foot of the page
+    const bandWidth = PAGE.width / Math.max(colors.length, 1);
+    colors.forEach((hex, i) => {
+        pdf.setFillColor(...(hexToRgb(hex) ?? INK));
+        pdf.rect(i * bandWidth, PAGE.height - 50, bandWidth + 0.5, 50, "F");
+    });
+}
+
+/** Swatches per row on the palette page */
+const SWATCH_COLUMNS = 3;
+const SWATCH_HEIGHT = 30;
+
+function drawPalette(writer: BrandBookWriter, pdf: jsPDF, constitution: BrandConstitution) {
+    writer.section("Color Palette", "Visual identity");
+    const colors = constitution.visual_identity.color_palette_hex;
+    if (colors.length === 0) return writer.paragraph("", "No brand colors specified");
+
+    const cellWidth = (CONTENT_WIDTH - COLUMN_GAP * (SWATCH_COLUMNS - 1)) / SWATCH_COLUMNS;
+    const cellHeight = SWATCH_HEIGHT + 22;
+    for (let row = 0; row < colors.length; row += SWATCH_COLUMNS) {
+        const top = writer.ensure(cellHeight);
+        colors.slice(row, row + SWATCH_COLUMNS).forEach((hex, i) => {
+            const rgb = hexToRgb(hex) ?? [0, 0, 0];
+            const [c, m, y, k] = rgbToCmyk(rgb);
+            const left = PAGE.margin + i * (cellWidth + COLUMN_GAP);
+            pdf.setFillColor(...rgb).setDrawColor(...RULE);
+            pdf.rect(left, top, cellWidth, SWATCH_HEIGHT, "FD");
+            pdf.setFont("helvetica", "bold").setFontSize(10).setTextColor(...INK);
+            pdf.text(hex.toUpperCase(), left, top + SWATCH_HEIGHT + 3, { baseline: "top" });
+            pdf.setFont("helvetica", "normal").setFontSize(8).setTextColor(...MUTED);
+            pdf.text(
+                [`RGB ${rgb.join(", ")}`, `CMYK ${c}, ${m}, ${y}, ${k}`],
+                left,
+                top + SWATCH_HEIGHT + 8,
+                { baseline: "top", lineHeightFactor: 1.4 }
+            );
+        });
+        writer.advance(cellHeight + 4);
+    }
+    writer.text("CMYK values are converted without a print profile; proof them before going to press.", {
+        size: 8,
+        color: MUTED,
+        width: CONTENT_WIDTH,
+    });
+}
+
+function drawTypography(writer: BrandBookWriter, constitution: BrandConstitution) {
+    writer.section("Typography", "Visual identity");
+    const { fonts } = constitution.visual_identity;
+    if (fonts.length === 0) return writer.paragraph("", "No brand fonts specified");
+
+    for (const font of fonts) {
+        writer.ensure(30);
+        writer.text(font, { size: 20, bold: true });
+        writer.text("Aa Bb Cc Dd Ee Ff Gg Hh Ii Jj Kk 0123456789", { size: 12, color: MUTED });
+        writer.advance(6);
+    }
+    writer.text("Samples are set in Helvetica; use the named families in production.", { size: 8, color: MUTED });
+}
+
+function drawImagery(writer: BrandBookWriter, constitution: BrandConstitution) {
+    const identity = constitution.visual_identity;
+    writer.section("Photography & Composition", "Visual identity");
+    writer.heading("Photography style");
+    writer.paragraph(identity.photography_style);
+    writer.field("Visual density", identity.visual_density.toLowerCase());
+    writer.heading("Composition rules");
+    writer.bullets(identity.composition_rules);
+    writer.heading("Signature elements");
+    writer.bullets(identity.signature_elements);
+    writer.heading("Never use");
+    writer.bullets(identity.forbidden_elements);
+}
+
+function drawVoice(writer: BrandBookWriter, constitution: BrandConstitution) {
+    const { voice, content_patterns: patterns } = constitution;
+    writer.section("Voice & Tone", "Communication");
+    writer.heading("Tone");
+    writer.paragraph(voice.tone);
+    writer.field("Vocabulary level", voice.vocabulary_level.toLowerCase());
+    writer.heading("Keywords");
+    writer.bullets(voice.keywords);
+    writer.heading("Catchphrases");
+    writer.bullets(voice.catchphrases);
+    writer.heading("Content patterns");
+    writer.field("Thumbnails", patterns.thumbnail_structure || "Not specified");
+    writer.field("Text overlays", patterns.text_overlay_rules || "Not specified");
+    writer.field("Face prominence", patterns.face_prominence?.toLowerCase() || "Not specified");
+}
+
+/** Example images per row and their box, mm */
+const EXAMPLE_COLUMNS = 2;
+const EXAMPLE_HEIGHT = 60;
+
+async function drawExamples(
+    writer: BrandBookWriter,
+    pdf: jsPDF,
+    title: string,
+    color: Rgb,
+    examples: BrandBookExample[],
+    empty: string
+) {
+    writer.heading(title);
+    if (examples.length === 0) return writer.paragraph("", empty);
+
+    const images = await Promise.all(examples.map((example) => example.image_url ? loadImage(example.image_url) : null));
+    const cellWidth = (CONTENT_WIDTH - COLUMN_GAP * (EXAMPLE_COLUMNS - 1)) / EXAMPLE_COLUMNS;
+    for (let row = 0; row < examples.length; row += EXAMPLE_COLUMNS) {
+        const top = writer.ensure(EXAMPLE_HEIGHT + 20);
+        examples.slice(row, row + EXAMPLE_COLUMNS).forEach((example, i) => {
+            const left = PAGE.margin + i * (cellWidth + COLUMN_GAP);
+            const image = images[row + i];
+            pdf.setDrawColor(...color).setLineWidth(0.8);
+            pdf.rect(left, top, cellWidth, EXAMPLE_HEIGHT, "S");
+            if (image) {
+                // Fit inside the box, keeping the aspect ratio
+                const scale = Math.min((cellWidth - 2) / image.width, (EXAMPLE_HEIGHT - 2) / image.height);
+                const [w, h] = [image.width * scale, image.height * scale];
+                pdf.addImage(image.data, "JPEG", left + (cellWidth - w) / 2, top + (EXAMPLE_HEIGHT - h) / 2, w, h);
+            } else {
+                pdf.setFont("helvetica", "normal").setFontSize(8).setTextColor(...MUTED);
+                pdf.text("Image unavailable", left + cellWidth / 2, top + EXAMPLE_HEIGHT / 2, { align: "center", baseline: "middle" });
+            }
+            pdf.setFont("helvetica", "normal").setFontSize(8).setTextColor(...INK);
+            const caption: string[] = pdf.splitTextToSize(example.caption, cellWidth);
+            pdf.text(caption.slice(0, 3), left, top + EXAMPLE_HEIGHT + 3, { baseline: "top", lineHeightFactor: 1.4 });
+        });
+        pdf.setLineWidth(0.2);
+        writer.advance(EXAMPLE_HEIGHT + 20);
+    }
+}
+
+/** Page numbers and the brand name at the foot of every page but the cover */
+function drawFooters(pdf: jsPDF, brandName: string) {
+    const pages = pdf.getNumberOfPages();
+    for (let page = 2; page <= pages; page++) {
+        pdf.setPage(page);
+        pdf.setFont("helvetica", "normal").setFontSize(8).setTextColor(...MUTED);
+        pdf.text(`${brandName} Brand Guidelines`, PAGE.margin, PAGE.height - 10);
+        pdf.text(`${page} / ${pages}`, PAGE.width - PAGE.margin, PAGE.height - 10, { align: "right" });
+    }
+}
+
+// ============ BRAND BOOK ============
+
+/**
+ * The full brand book for a constitution, with do/don't examples from the
+ * brand's campaigns
+ */
+export async function createBrandBook(
+    brandName: string,
+    constitution: BrandConstitution,
+    campaigns: Campaign[]
+): Promise<jsPDF> {
+    const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+    const writer = new BrandBookWriter(pdf);
+
+    drawCover(pdf, brandName, constitution);
+    drawPalette(writer, pdf, constitution);
+    drawTypography(writer, constitution);
+    drawImagery(writer, constitution);
+    drawVoice(writer, constitution);
+
+    const { dos, donts } = selectBrandBookExamples(campaigns);
+    writer.section("Do's & Don'ts", "In practice");
+    await drawExamples(writer, pdf, "Do", DO_COLOR, dos, "No approved assets yet.");
+    await drawExamples(writer, pdf, "Don't", DONT_COLOR, donts, "No rejected assets yet.");
+
+    drawFooters(pdf, brandName);
+    return pdf;
+}
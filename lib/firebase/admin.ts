@@ -0,0 +1,54 @@
+/**
+ * Firebase Admin (server only)
+ *
+ * Verifies the ID tokens the client sends as `Authorization: Bearer <token>`
+ * so API routes know who is calling rather than trusting a userId in the body,
+ * and checks which brands they may use.
+ */
+
+import { getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+let adminApp: App;
+
+export function getFirebaseAdminApp(): App {
+    if (!adminApp) {
+        const existingApps = getApps();
+        // Verifying ID tokens only needs the project ID; reading brands uses the
+        // host's default credentials (GOOGLE_APPLICATION_CREDENTIALS)
+        adminApp = existingApps.length > 0
+            ? existingApps[0]
+            : initializeApp({ projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID });
+    }
+    return adminApp;
+}
+
+/**
+ * The signed-in user's ID for a request; null when it carries no valid ID token
+ */
+export async function getRequestUserId(request: Request): Promise<string | null> {
+    const header = request.headers.get("authorization");
+    const token = header?.match(/^Bearer (.+)$/)?.[1];
+    if (!token) return null;
+
+    try {
+        const decoded = await getAuth(getFirebaseAdminApp()).verifyIdToken(token);
+        return decoded.uid;
+    } catch (error) {
+        console.warn("[Auth] Rejected ID token:", error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Whether a user may run the agent on a brand (and spend its budget): the
+ * brand exists and they own it. Brands created before owners were recorded
+ * have none and are open to every signed-in user.
+ */
+export async function canUseBrand(userId: string, brandId: string): Promise<boolean> {
+    const brand = await getFirestore(getFirebaseAdminApp()).collection("brands").doc(brandId).get();
+    if (!brand.exists) return false;
+    const ownerId = brand.get("owner_id") as string | null | undefined;
+    return !ownerId || ownerId === userId;
+}
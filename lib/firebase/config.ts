@@ -42,6 +42,15 @@ export function getFirebaseAuth(): Auth {
     return auth;
 }
 
+/**
+ * Authorization header carrying the signed-in user's ID token, for API
+ * routes that act on behalf of a user (see lib/firebase/admin.ts)
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await getFirebaseAuth().currentUser?.getIdToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 // Check if Firebase is configured
 export function isFirebaseConfigured(): boolean {
     return Boolean(
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONSTITUTION } from "@/lib/types/constitution-schema";
+import { saveConstitution } from "./firestore";
+
+const firestore = vi.hoisted(() => ({
+    brand: {} as Record<string, unknown>,
+    set: vi.fn(),
+    update: vi.fn(),
+}));
+
+vi.mock("./config", () => ({ getDb: () => ({}) }));
+
+vi.mock("firebase/firestore", () => ({
+    collection: (_db: unknown, ...path: string[]) => path.join("/"),
+    doc: (parent: unknown, ...path: string[]) => [typeof parent === "string" ? parent : "", ...path].filter(Boolean).join("/"),
+    serverTimestamp: () => "now",
+    runTransaction: (_db: unknown, update: (transaction: unknown) => Promise<unknown>) => update({
+        get: async () => ({ exists: () => true, data: () => structuredClone(firestore.brand) }),
+        set: firestore.set,
+        update: firestore.update,
+    }),
+}));
+
+const CHANGE = { trigger: "manual_edit", author_id: "u1", author_name: "Ada" } as const;
+
+describe("saveConstitution", () => {
+    beforeEach(() => {
+        firestore.set.mockReset();
+        firestore.update.mockReset();
+    });
+
+    it("records no version when only the stored cache's missing defaults differ", async () => {
+        const { photography_style: _, ...visualIdentity } = DEFAULT_CONSTITUTION.visual_identity;
+        firestore.brand = { constitution_version: 3, constitution_cache: { ...DEFAULT_CONSTITUTION, visual_identity: visualIdentity } };
+
+        await saveConstitution("brand_1", DEFAULT_CONSTITUTION, CHANGE);
+
+        expect(firestore.set).not.toHaveBeenCalled();
+        expect(firestore.update).toHaveBeenCalledWith("brands/brand_1", expect.objectContaining({ constitution_version: 3 }));
+    });
+
+    it("records a real change as the next version", async () => {
+        firestore.brand = { constitution_version: 3, constitution_cache: DEFAULT_CONSTITUTION };
+        const constitution = { ...DEFAULT_CONSTITUTION, brand_essence: "Loud and bright" };
+
+        await saveConstitution("brand_1", constitution, CHANGE);
+
+        expect(firestore.set).toHaveBeenCalledWith(
+            "brands/brand_1/constitution_versions/4",
+            expect.objectContaining({ version: 4, constitution, trigger: "manual_edit" })
+        );
+    });
+});
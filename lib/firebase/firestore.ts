@@ -14,13 +14,47 @@ import {
     serverTimestamp,
     arrayUnion,
     arrayRemove,
+    runTransaction,
+    type DocumentData,
+    type Timestamp,
 } from "firebase/firestore";
 import { getDb } from "./config";
 import type { Brand, CanvasElement, BrandConstitution, ProcessedAsset } from "@/lib/types";
-import type { Campaign, Asset } from "@/lib/types";
+import {
+    createEmptyBrand,
+    diffConstitutions,
+    normalizeAuditPolicy,
+    normalizeConstitution,
+    normalizeAuditResult,
+    REVIEW_DECISION_STATUS,
+    validateConstitution,
+    type AssetReview,
+    type AuditPolicy,
+    type Campaign,
+    type ConstitutionChangeInfo,
+    type ConstitutionVersion,
+    type Asset,
+    type UsageSummary,
+} from "@/lib/types";
 
 // ============ BRANDS ============
 
+/**
+ * Constitutions written before the schema covered every field are
+ * completed with defaults on read
+ */
+function readConstitution(value: unknown): BrandConstitution | null {
+    if (!value) return null;
+    const { constitution, issues } = normalizeConstitution(value);
+    if (issues.length > 0) console.warn(`[Firestore] Stored constitution repaired: ${issues.join("; ")}`);
+    return constitution;
+}
+
+function toBrand(data: DocumentData): Brand {
+    const brand = data as Brand;
+    return { ...brand, constitution_cache: readConstitution(brand.constitution_cache) };
+}
+
 /**
  * Create a new brand
  */
@@ -39,6 +73,23 @@ export async function createBrand(brand: Omit<Brand, "id">): Promise<string> {
     return newDocRef.id;
 }
 
+/**
+ * Create a brand seeded with a constitution (e.g. from imported design
+ * tokens), recorded as its first version
+ */
+export async function createBrandFromConstitution(
+    name: string,
+    constitution: BrandConstitution,
+    change: ConstitutionChangeInfo
+): Promise<string> {
+    const validation = validateConstitution(constitution);
+    if (!validation.success) throw new Error(validation.error);
+    const { id: _, ...brand } = createEmptyBrand("", name);
+    const brandId = await createBrand({ ...brand, owner_id: change.author_id });
+    await commitConstitution(brandId, validation.constitution, change, null);
+    return brandId;
+}
+
 /**
  * Get a brand by ID
  */
@@ -48,7 +99,7 @@ export async function getBrand(brandId: string): Promise<Brand | null> {
     const brandSnap = await getDoc(brandRef);
 
     if (!brandSnap.exists()) return null;
-    return brandSnap.data() as Brand;
+    return toBrand(brandSnap.data());
 }
 
 /**
@@ -60,7 +111,7 @@ export async function getAllBrands(): Promise<Brand[]> {
     const q = query(brandsRef, orderBy("created_at", "desc"));
     const snapshot = await getDocs(q);
 
-    return snapshot.docs.map((doc) => doc.data() as Brand);
+    return snapshot.docs.map((doc) => toBrand(doc.data()));
 }
 
 /**
@@ -96,21 +147,16 @@ export async function addCanvasElement(
 }
 
 /**
- * Update constitution cache
+ * Update constitution cache after an analysis, with the processed assets
+ * it was merged from
  */
 export async function updateConstitution(
     brandId: string,
     constitution: BrandConstitution,
-    processedAssets: Record<string, ProcessedAsset>
+    processedAssets: Record<string, ProcessedAsset>,
+    change: ConstitutionChangeInfo
 ): Promise<void> {
-    const db = getDb();
-    const brandRef = doc(db, "brands", brandId);
-
-    await updateDoc(brandRef, {
-        constitution_cache: constitution,
-        processed_assets: processedAssets,
-        last_updated: serverTimestamp(),
-    });
+    await commitConstitution(brandId, constitution, change, null, { processed_assets: processedAssets });
 }
 
 /**
@@ -126,13 +172,131 @@ export async function getConstitution(brandId: string): Promise<BrandConstitutio
  */
 export async function saveConstitution(
     brandId: string,
-    constitution: BrandConstitution
+    constitution: BrandConstitution,
+    change: ConstitutionChangeInfo
+): Promise<void> {
+    await commitConstitution(brandId, constitution, change, null);
+}
+
+// ============ CONSTITUTION HISTORY ============
+
+function constitutionVersionsRef(brandId: string) {
+    return collection(getDb(), "brands", brandId, "constitution_versions");
+}
+
+/**
+ * Make `constitution` the brand's current one and record it as the next
+ * numbered version. A change that leaves every rule as it was isn't a new
+ * version. `extra` is written to the brand in the same transaction.
+ */
+async function commitConstitution(
+    brandId: string,
+    constitution: BrandConstitution,
+    change: ConstitutionChangeInfo,
+    restoredFrom: number | null,
+    extra: DocumentData = {}
+): Promise<number> {
+    const validation = validateConstitution(constitution);
+    if (!validation.success) throw new Error(validation.error);
+    const db = getDb();
+    const brandRef = doc(db, "brands", brandId);
+
+    return runTransaction(db, async (transaction) => {
+        const brandSnap = await transaction.get(brandRef);
+        if (!brandSnap.exists()) throw new Error(`Brand ${brandId} not found`);
+        // Legacy caches are completed first, so only real changes make a version
+        const brand = toBrand(brandSnap.data());
+        let latest = brand.constitution_version || 0;
+
+        // Brands from before versioning keep their constitution as version 1
+        if (latest === 0 && brand.constitution_cache) {
+            latest = 1;
+            transaction.set(doc(constitutionVersionsRef(brandId), "1"), {
+                trigger: "analysis",
+                author_id: null,
+                author_name: "Unknown",
+                version: 1,
+                constitution: brand.constitution_cache,
+                restored_from: null,
+                // last_updated is a server timestamp once written
+                created_at: (brand.last_updated as unknown as Timestamp)?.toMillis?.() ?? Date.now(),
+            } satisfies ConstitutionVersion);
+        }
+
+        if (diffConstitutions(brand.constitution_cache, constitution).length > 0 || latest === 0) {
+            const version: ConstitutionVersion = {
+                trigger: change.trigger,
+                author_id: change.author_id,
+                author_name: change.author_name,
+                version: latest + 1,
+                constitution,
+                restored_from: restoredFrom,
+                created_at: Date.now(),
+            };
+            latest = version.version;
+            transaction.set(doc(constitutionVersionsRef(brandId), String(version.version)), version);
+        }
+
+        transaction.update(brandRef, {
+            ...extra,
+            constitution_cache: constitution,
+            constitution_version: latest,
+            last_updated: serverTimestamp(),
+        });
+        return latest;
+    });
+}
+
+/**
+ * A brand's constitution versions, newest first
+ */
+export async function getConstitutionVersions(brandId: string): Promise<ConstitutionVersion[]> {
+    const q = query(constitutionVersionsRef(brandId), orderBy("version", "desc"));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((doc) => {
+        const version = doc.data() as ConstitutionVersion;
+        return { ...version, constitution: readConstitution(version.constitution)! };
+    });
+}
+
+/**
+ * Restore an earlier constitution version. The restore is itself a new
+ * version, so it can be undone the same way; returns the brand's
+ * constitution and version afterwards.
+ */
+export async function rollbackConstitution(
+    brandId: string,
+    version: number,
+    change: ConstitutionChangeInfo
+): Promise<{ constitution: BrandConstitution; version: number }> {
+    const versionSnap = await getDoc(doc(constitutionVersionsRef(brandId), String(version)));
+    if (!versionSnap.exists()) {
+        throw new Error(`Constitution version ${version} not found for brand ${brandId}`);
+    }
+    const constitution = readConstitution((versionSnap.data() as ConstitutionVersion).constitution)!;
+    return { constitution, version: await commitConstitution(brandId, constitution, change, version) };
+}
+
+/**
+ * A brand's audit policy, with defaults for anything unset
+ */
+export async function getAuditPolicy(brandId: string): Promise<AuditPolicy> {
+    const brand = await getBrand(brandId);
+    return normalizeAuditPolicy(brand?.audit_policy);
+}
+
+/**
+ * Save a brand's audit policy
+ */
+export async function saveAuditPolicy(
+    brandId: string,
+    policy: AuditPolicy
 ): Promise<void> {
     const db = getDb();
     const brandRef = doc(db, "brands", brandId);
 
     await updateDoc(brandRef, {
-        constitution_cache: constitution,
+        audit_policy: policy,
         last_updated: serverTimestamp(),
     });
 }
@@ -149,7 +313,7 @@ export function subscribeToBrand(
 
     return onSnapshot(brandRef, (snapshot) => {
         if (snapshot.exists()) {
-            callback(snapshot.data() as Brand);
+            callback(toBrand(snapshot.data()));
         } else {
             callback(null);
         }
@@ -178,6 +342,57 @@ export async function createCampaign(
     return newDocRef.id;
 }
 
+/**
+ * Record a finished agent run as a campaign, with its assets and model usage.
+ * Assets keep the URL of their stored image; an inline data URL (an image
+ * that couldn't be stored) is dropped, as it can exceed Firestore's 1MB
+ * document limit.
+ */
+export async function createCampaignFromRun(run: {
+    brandId: string;
+    title: string;
+    prompt: string;
+    success: boolean;
+    assets: Asset[];
+    usage: UsageSummary | null;
+}): Promise<string> {
+    const db = getDb();
+    const newDocRef = doc(collection(db, "campaigns"));
+
+    await setDoc(newDocRef, {
+        id: newDocRef.id,
+        brand_id: run.brandId,
+        title: run.title,
+        user_prompt: run.prompt,
+        status: run.success ? "COMPLETED" : "FAILED",
+        assets: run.assets.map((asset) => ({
+            ...asset,
+            campaign_id: newDocRef.id,
+            image_url: asset.image_url?.startsWith("data:") ? null : asset.image_url,
+        })),
+        usage: run.usage,
+        created_at: serverTimestamp(),
+        updated_at: serverTimestamp(),
+    });
+
+    return newDocRef.id;
+}
+
+/**
+ * Campaign from a stored document. Audits saved in older formats are
+ * upgraded so every asset has the current AuditResult shape.
+ */
+function toCampaign(data: DocumentData): Campaign {
+    const campaign = data as Campaign;
+    return {
+        ...campaign,
+        assets: (campaign.assets || []).map((asset) => ({
+            ...asset,
+            audit_result: normalizeAuditResult(asset.audit_result),
+        })),
+    };
+}
+
 /**
  * Get a campaign by ID
  */
@@ -187,7 +402,7 @@ export async function getCampaign(campaignId: string): Promise<Campaign | null>
     const campaignSnap = await getDoc(campaignRef);
 
     if (!campaignSnap.exists()) return null;
-    return campaignSnap.data() as Campaign;
+    return toCampaign(campaignSnap.data());
 }
 
 /**
@@ -203,7 +418,7 @@ export async function getCampaignsByBrand(brandId: string): Promise<Campaign[]>
     );
     const snapshot = await getDocs(q);
 
-    return snapshot.docs.map((doc) => doc.data() as Campaign);
+    return snapshot.docs.map((doc) => toCampaign(doc.data()));
 }
 
 /**
@@ -238,6 +453,50 @@ export async function addAssetToCampaign(
     });
 }
 
+// ============ REVIEW QUEUE ============
+
+/**
+ * A brand's assets awaiting or past review, newest campaign first, with
+ * the campaign each belongs to
+ */
+export async function getReviewableAssets(brandId: string): Promise<{ campaign: Campaign; asset: Asset }[]> {
+    const campaigns = await getCampaignsByBrand(brandId);
+    return campaigns.flatMap((campaign) =>
+        campaign.assets
+            .filter((asset) => asset.status === "IN_REVIEW" || asset.review)
+            .map((asset) => ({ campaign, asset }))
+    );
+}
+
+/**
+ * Record a reviewer's decision on an asset and move it to the matching status
+ */
+export async function reviewAsset(
+    campaignId: string,
+    assetId: string,
+    review: AssetReview
+): Promise<void> {
+    const db = getDb();
+    const campaignRef = doc(db, "campaigns", campaignId);
+
+    // Assets live in an array on the campaign, so the whole list is rewritten;
+    // the transaction keeps a concurrent review of another asset from being lost
+    await runTransaction(db, async (transaction) => {
+        const campaignSnap = await transaction.get(campaignRef);
+        const assets = campaignSnap.exists() ? (campaignSnap.data().assets || []) as Asset[] : [];
+        if (!assets.some((asset) => asset.id === assetId)) {
+            throw new Error(`Asset ${assetId} not found in campaign ${campaignId}`);
+        }
+
+        transaction.update(campaignRef, {
+            assets: assets.map((asset) => asset.id === assetId
+                ? { ...asset, status: REVIEW_DECISION_STATUS[review.decision], review, updated_at: Date.now() }
+                : asset),
+            updated_at: serverTimestamp(),
+        });
+    });
+}
+
 /**
  * Subscribe to campaign updates (real-time)
  */
@@ -250,7 +509,7 @@ export function subscribeToCampaign(
 
     return onSnapshot(campaignRef, (snapshot) => {
         if (snapshot.exists()) {
-            callback(snapshot.data() as Campaign);
+            callback(toCampaign(snapshot.data()));
         } else {
             callback(null);
         }
@@ -1,2 +1,2 @@
-export { getFirebaseApp, getDb, isFirebaseConfigured } from "./config";
+export { getFirebaseApp, getDb, getAuthHeaders, isFirebaseConfigured } from "./config";
 export * from "./firestore";
@@ -11,6 +11,9 @@ interface CanvasState {
     // AI-generated constitution
     constitution: BrandConstitution | null;
 
+    // Canvas elements behind the constitution rule being hovered
+    highlightedElementIds: string[];
+
     // Processing states
     isAnalyzing: boolean;
     isSaving: boolean;
@@ -25,6 +28,7 @@ interface CanvasState {
     removeElement: (id: string) => void;
     updateElementPosition: (id: string, x: number, y: number) => void;
     setConstitution: (constitution: BrandConstitution | null) => void;
+    setHighlightedElementIds: (ids: string[]) => void;
     setIsAnalyzing: (analyzing: boolean) => void;
     setIsSaving: (saving: boolean) => void;
     setError: (error: string | null) => void;
@@ -35,6 +39,7 @@ const initialState = {
     currentBrand: null,
     elements: [],
     constitution: null,
+    highlightedElementIds: [],
     isAnalyzing: false,
     isSaving: false,
     error: null,
@@ -71,6 +76,8 @@ export const useCanvasStore = create<CanvasState>((set) => ({
 
     setConstitution: (constitution) => set({ constitution }),
 
+    setHighlightedElementIds: (highlightedElementIds) => set({ highlightedElementIds }),
+
     setIsAnalyzing: (isAnalyzing) => set({ isAnalyzing }),
 
     setIsSaving: (isSaving) => set({ isSaving }),
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { AUDIT_RESULT_VERSION, type AuditResult } from "./audit";
+import {
+    applyAuditPolicy,
+    DEFAULT_AUDIT_POLICY,
+    evaluateAuditPolicy,
+    getReviewReasons,
+    normalizeAuditPolicy,
+    weightedComplianceScore,
+    type AuditPolicy,
+} from "./audit-policy";
+
+function audit(overrides: Partial<AuditResult> = {}): AuditResult {
+    return {
+        version: AUDIT_RESULT_VERSION,
+        compliance_score: 80,
+        pass: false,
+        decision: "REGENERATE",
+        export_blockers: [],
+        sub_scores: {},
+        violations: [],
+        strengths: [],
+        regions: [],
+        fix_instructions: "",
+        ...overrides,
+    };
+}
+
+function policy(overrides: Partial<AuditPolicy> = {}): AuditPolicy {
+    return { ...DEFAULT_AUDIT_POLICY, ...overrides };
+}
+
+describe("normalizeAuditPolicy", () => {
+    it("uses the default for anything that isn't a policy", () => {
+        expect(normalizeAuditPolicy(null)).toBe(DEFAULT_AUDIT_POLICY);
+        expect(normalizeAuditPolicy("strict")).toBe(DEFAULT_AUDIT_POLICY);
+    });
+
+    it("keeps valid values and repairs the rest", () => {
+        const normalized = normalizeAuditPolicy({
+            weights: { color: 2, typography: -1, style: "high" },
+            minimums: { color: 150, composition: 40 },
+            blocking_severities: ["warning", "fatal"],
+            bands: { approve: 60, regenerate: 90 },
+            review_margin: 80,
+        });
+
+        expect(normalized.weights).toEqual({ ...DEFAULT_AUDIT_POLICY.weights, color: 2 });
+        // An explicit minimums object replaces the default accessibility minimum
+        expect(normalized.minimums).toEqual({ color: 100, composition: 40 });
+        expect(normalized.blocking_severities).toEqual(["warning"]);
+        // The regenerate band never sits above the approve band
+        expect(normalized.bands).toEqual({ approve: 60, regenerate: 60 });
+        expect(normalized.review_margin).toBe(50);
+    });
+
+    it("keeps the default minimums when none are given", () => {
+        expect(normalizeAuditPolicy({ bands: { approve: 80 } })).toMatchObject({
+            minimums: DEFAULT_AUDIT_POLICY.minimums,
+            bands: { approve: 80, regenerate: 50 },
+        });
+    });
+});
+
+describe("weightedComplianceScore", () => {
+    it("weights the scored categories", () => {
+        const weights = { ...DEFAULT_AUDIT_POLICY.weights, color: 3, typography: 1 };
+        expect(weightedComplianceScore(audit({ sub_scores: { color: 100, typography: 60 } }), policy({ weights })))
+            .toBe(90);
+    });
+
+    it("leaves out categories weighted zero", () => {
+        const weights = { ...DEFAULT_AUDIT_POLICY.weights, typography: 0 };
+        expect(weightedComplianceScore(audit({ sub_scores: { color: 90, typography: 10 } }), policy({ weights })))
+            .toBe(90);
+    });
+
+    it("keeps the model's score without weighted sub-scores", () => {
+        expect(weightedComplianceScore(audit({ compliance_score: 42 }), DEFAULT_AUDIT_POLICY)).toBe(42);
+    });
+});
+
+describe("evaluateAuditPolicy", () => {
+    it("decides by band", () => {
+        expect(evaluateAuditPolicy(audit({ compliance_score: 70 }), DEFAULT_AUDIT_POLICY))
+            .toMatchObject({ decision: "APPROVE", pass: true, export_blockers: [] });
+        expect(evaluateAuditPolicy(audit({ compliance_score: 69 }), DEFAULT_AUDIT_POLICY))
+            .toMatchObject({ decision: "REGENERATE", pass: false, export_blockers: [] });
+        expect(evaluateAuditPolicy(audit({ compliance_score: 49 }), DEFAULT_AUDIT_POLICY))
+            .toMatchObject({ decision: "REJECT", pass: false, export_blockers: ["Score 49 is below 50"] });
+    });
+
+    it("won't approve below a category minimum or with a blocking violation", () => {
+        const result = evaluateAuditPolicy(audit({
+            compliance_score: 95,
+            sub_scores: { accessibility: 60 },
+            violations: [
+                { category: "forbidden", severity: "critical", description: "Shows a competitor logo", suggestion: "" },
+                { category: "style", severity: "minor", description: "Slightly busy", suggestion: "" },
+            ],
+        }), DEFAULT_AUDIT_POLICY);
+
+        expect(result.decision).toBe("REGENERATE");
+        expect(result.export_blockers).toEqual(["Accessibility score 60 is below 70", "Shows a competitor logo"]);
+    });
+});
+
+describe("applyAuditPolicy", () => {
+    it("rescores from sub-scores before deciding", () => {
+        const result = applyAuditPolicy(audit({
+            compliance_score: 95,
+            sub_scores: { color: 40, typography: 40, composition: 40, style: 40, forbidden: 40, accessibility: 80 },
+        }), DEFAULT_AUDIT_POLICY);
+
+        expect(result.compliance_score).toBe(46);
+        expect(result.decision).toBe("REJECT");
+    });
+});
+
+describe("getReviewReasons", () => {
+    it("sends scores close to the approve band to review", () => {
+        expect(getReviewReasons(audit({ compliance_score: 73 }), DEFAULT_AUDIT_POLICY))
+            .toEqual(["Score 73 is within 5 of the approve band (70)"]);
+        expect(getReviewReasons(audit({ compliance_score: 75 }), DEFAULT_AUDIT_POLICY)).toEqual([]);
+        expect(getReviewReasons(audit({ compliance_score: 70 }), policy({ review_margin: 0 }))).toEqual([]);
+    });
+
+    it("sends audits whose judges disagree to review", () => {
+        const confidence = {
+            judgments: [
+                { model: "a", temperature: 0.2, compliance_score: 90, decision: "APPROVE" as const },
+                { model: "b", temperature: 0.8, compliance_score: 40, decision: "REJECT" as const },
+            ],
+            mean_score: 65,
+            std_dev: 25,
+            agreement: 0.5,
+            confidence: 0.3,
+            needs_review: true,
+        };
+        expect(getReviewReasons(audit({ compliance_score: 90, confidence }), DEFAULT_AUDIT_POLICY))
+            .toEqual(["Judges disagree (30% confidence across 2)"]);
+    });
+});
@@ -0,0 +1,169 @@
+/**
+ * Audit policy
+ *
+ * How a brand turns category scores and violations into a decision:
+ * category weights, per-category minimums, which severities block export
+ * the approve / regenerate / reject bands and how close to the approve band
+ * an asset goes to human review instead. Stored with each brand and
+ * applied by every audit path, so the same asset gets the same verdict
+ * whether it was audited by the agent, the legacy loop or /api/audit.
+ */
+
+import {
+    ACCESSIBILITY_EXPORT_THRESHOLD,
+    AUDIT_CATEGORIES,
+    type AuditCategory,
+    type AuditDecision,
+    type AuditResult,
+    type AuditSeverity,
+} from "./audit";
+
+const SEVERITIES: AuditSeverity[] = ["critical", "warning", "minor"];
+
+export interface AuditPolicy {
+    /** Relative weight of each category in compliance_score; 0 leaves it out */
+    weights: Record<AuditCategory, number>;
+    /** Categories scoring below their minimum can't be approved or exported */
+    minimums: Partial<Record<AuditCategory, number>>;
+    /** Violations of these severities block export */
+    blocking_severities: AuditSeverity[];
+    /** approve <= score: APPROVE; regenerate <= score < approve: REGENERATE; below: REJECT */
+    bands: {
+        approve: number;
+        regenerate: number;
+    };
+    /** Scores within this many points of the approve band go to human review */
+    review_margin: number;
+}
+
+export const DEFAULT_AUDIT_POLICY: AuditPolicy = {
+    weights: {
+        color: 0.3,
+        typography: 0.15,
+        composition: 0.15,
+        style: 0.15,
+        forbidden: 0.1,
+        accessibility: 0.15,
+    },
+    minimums: {
+        accessibility: ACCESSIBILITY_EXPORT_THRESHOLD,
+    },
+    blocking_severities: ["critical"],
+    bands: {
+        approve: 70,
+        regenerate: 50,
+    },
+    review_margin: 5,
+};
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * Read a stored or client-supplied policy, filling anything missing or
+ * invalid from the defaults
+ */
+export function normalizeAuditPolicy(value: unknown): AuditPolicy {
+    if (!value || typeof value !== "object") return DEFAULT_AUDIT_POLICY;
+    const raw = value as Partial<Record<keyof AuditPolicy, unknown>>;
+    const rawWeights = (raw.weights || {}) as Record<string, unknown>;
+    const rawMinimums = (raw.minimums || {}) as Record<string, unknown>;
+    const rawBands = (raw.bands || {}) as Record<string, unknown>;
+
+    const weights = { ...DEFAULT_AUDIT_POLICY.weights };
+    const minimums: AuditPolicy["minimums"] = {};
+    for (const category of AUDIT_CATEGORIES) {
+        const weight = rawWeights[category];
+        if (typeof weight === "number" && Number.isFinite(weight) && weight >= 0) weights[category] = weight;
+        const minimum = raw.minimums ? rawMinimums[category] : DEFAULT_AUDIT_POLICY.minimums[category];
+        if (typeof minimum === "number" && Number.isFinite(minimum)) minimums[category] = clampScore(minimum);
+    }
+
+    const approve = typeof rawBands.approve === "number" ? clampScore(rawBands.approve) : DEFAULT_AUDIT_POLICY.bands.approve;
+    const regenerate = typeof rawBands.regenerate === "number" ? clampScore(rawBands.regenerate) : DEFAULT_AUDIT_POLICY.bands.regenerate;
+
+    return {
+        weights,
+        minimums,
+        blocking_severities: Array.isArray(raw.blocking_severities)
+            ? SEVERITIES.filter((s) => (raw.blocking_severities as unknown[]).includes(s))
+            : DEFAULT_AUDIT_POLICY.blocking_severities,
+        bands: { approve, regenerate: Math.min(regenerate, approve) },
+        review_margin: typeof raw.review_margin === "number" && Number.isFinite(raw.review_margin)
+            ? Math.max(0, Math.min(50, raw.review_margin))
+            : DEFAULT_AUDIT_POLICY.review_margin,
+    };
+}
+
+/**
+ * compliance_score from the category sub-scores, weighted by the policy.
+ * Without any weighted sub-score the model's overall score stands.
+ */
+export function weightedComplianceScore(audit: AuditResult, policy: AuditPolicy): number {
+    let total = 0;
+    let weight = 0;
+    for (const category of AUDIT_CATEGORIES) {
+        const score = audit.sub_scores[category];
+        if (score === undefined || !(policy.weights[category] > 0)) continue;
+        total += score * policy.weights[category];
+        weight += policy.weights[category];
+    }
+    return weight > 0 ? Math.round(total / weight) : audit.compliance_score;
+}
+
+/**
+ * Decide an audit under a policy: its decision, pass and export blockers.
+ * The score is taken as is; see applyAuditPolicy to rescore as well.
+ */
+export function evaluateAuditPolicy(audit: AuditResult, policy: AuditPolicy): AuditResult {
+    const score = audit.compliance_score;
+    const failures: string[] = [];
+
+    for (const category of AUDIT_CATEGORIES) {
+        const minimum = policy.minimums[category];
+        const value = audit.sub_scores[category];
+        if (minimum !== undefined && value !== undefined && value < minimum) {
+            failures.push(`${category[0].toUpperCase()}${category.slice(1)} score ${value} is below ${minimum}`);
+        }
+    }
+    failures.push(...audit.violations
+        .filter((v) => policy.blocking_severities.includes(v.severity))
+        .map((v) => v.description));
+
+    const decision: AuditDecision =
+        score < policy.bands.regenerate ? "REJECT" :
+        score < policy.bands.approve || failures.length > 0 ? "REGENERATE" :
+        "APPROVE";
+
+    return {
+        ...audit,
+        pass: decision === "APPROVE",
+        decision,
+        export_blockers: decision === "REJECT"
+            ? [`Score ${score} is below ${policy.bands.regenerate}`, ...failures]
+            : failures,
+    };
+}
+
+/**
+ * Rescore an audit from its sub-scores and decide it under a policy
+ */
+export function applyAuditPolicy(audit: AuditResult, policy: AuditPolicy): AuditResult {
+    return evaluateAuditPolicy({ ...audit, compliance_score: weightedComplianceScore(audit, policy) }, policy);
+}
+
+/**
+ * Why an audited asset needs a person to decide it rather than the policy:
+ * a score too close to the approve band, or judges that disagree.
+ * Empty when the audit's decision can stand.
+ */
+export function getReviewReasons(audit: AuditResult, policy: AuditPolicy): string[] {
+    const reasons: string[] = [];
+    const distance = Math.abs(audit.compliance_score - policy.bands.approve);
+    if (policy.review_margin > 0 && distance < policy.review_margin) {
+        reasons.push(`Score ${audit.compliance_score} is within ${policy.review_margin} of the approve band (${policy.bands.approve})`);
+    }
+    if (audit.confidence?.needs_review) {
+        reasons.push(`Judges disagree (${Math.round(audit.confidence.confidence * 100)}% confidence across ${audit.confidence.judgments.length})`);
+    }
+    return reasons;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { AUDIT_RESULT_VERSION, getExportBlockers, normalizeAuditResult, type AuditResult, type LegacyAuditResult } from "./audit";
+
+const LEGACY: LegacyAuditResult = {
+    compliance_score: 82,
+    pass: true,
+    heatmap_coordinates: [{ x: 20, y: 30, issue: "Logo too close to the edge" }],
+    fix_instructions: "Move the logo inward.",
+    strengths: ["On-palette colors"],
+    sub_scores: { color: 90, typography: 75, vibes: 100 },
+};
+
+describe("normalizeAuditResult", () => {
+    it("converts a legacy result to the current version", () => {
+        expect(normalizeAuditResult(LEGACY)).toEqual({
+            version: AUDIT_RESULT_VERSION,
+            compliance_score: 82,
+            pass: true,
+            decision: "APPROVE",
+            export_blockers: [],
+            sub_scores: { color: 90, typography: 75 },
+            violations: [],
+            strengths: ["On-palette colors"],
+            regions: [{ x: 20, y: 30, issue: "Logo too close to the edge" }],
+            fix_instructions: "Move the logo inward.",
+        });
+    });
+
+    it("decides failed legacy results as regenerate", () => {
+        expect(normalizeAuditResult({ ...LEGACY, pass: false })).toMatchObject({ pass: false, decision: "REGENERATE" });
+        expect(normalizeAuditResult({ ...LEGACY, pass: "true" })).toMatchObject({ pass: false, decision: "REGENERATE" });
+    });
+
+    it("blocks export of legacy results with low accessibility, as before policies", () => {
+        const blocked = normalizeAuditResult({ ...LEGACY, sub_scores: { accessibility: 55 } });
+        const allowed = normalizeAuditResult({ ...LEGACY, sub_scores: { accessibility: 70 } });
+
+        expect(getExportBlockers(blocked)).toEqual(["Accessibility score 55 is below 70"]);
+        expect(getExportBlockers(allowed)).toEqual([]);
+    });
+
+    it("clamps scores and drops unusable regions", () => {
+        const result = normalizeAuditResult({
+            ...LEGACY,
+            compliance_score: 140,
+            sub_scores: { color: -5 },
+            heatmap_coordinates: [
+                { x: 120, y: 50 },
+                { x: "10", y: 20, issue: "String coordinates" },
+                null,
+            ],
+        });
+
+        expect(result?.compliance_score).toBe(100);
+        expect(result?.sub_scores).toEqual({ color: 0 });
+        expect(result?.regions).toEqual([{ x: 100, y: 50, issue: "" }]);
+    });
+
+    it("keeps a current result as it is", () => {
+        const current: AuditResult = {
+            version: AUDIT_RESULT_VERSION,
+            compliance_score: 64,
+            pass: false,
+            decision: "REJECT",
+            export_blockers: ["Forbidden element: clip art"],
+            sub_scores: { forbidden: 20 },
+            violations: [{
+                category: "forbidden",
+                severity: "critical",
+                description: "Clip art in the corner",
+                suggestion: "Remove it",
+                box: { x: 70, y: 70, width: 20, height: 20 },
+            }],
+            strengths: [],
+            regions: [{ x: 80, y: 80, issue: "Clip art in the corner", box: { x: 70, y: 70, width: 20, height: 20 }, severity: "critical" }],
+            fix_instructions: "",
+        };
+
+        expect(normalizeAuditResult(current)).toEqual(current);
+        expect(normalizeAuditResult(normalizeAuditResult(LEGACY))).toEqual(normalizeAuditResult(LEGACY));
+    });
+
+    it("rejects anything that isn't an audit", () => {
+        expect(normalizeAuditResult(null)).toBeNull();
+        expect(normalizeAuditResult("82")).toBeNull();
+        expect(normalizeAuditResult({ pass: true, heatmap_coordinates: [] })).toBeNull();
+    });
+});
@@ -0,0 +1,293 @@
+/**
+ * Audit result types
+ *
+ * One model for every audit path (the compliance auditor agent, the legacy
+ * /api/audit flow and stored assets). Results are versioned; anything read
+ * from storage goes through normalizeAuditResult so older shapes still load.
+ */
+
+import { toBoundingBox } from "@/lib/utils/regions";
+
+/** Current AuditResult.version */
+export const AUDIT_RESULT_VERSION = 2;
+
+/**
+ * Rectangle on an image, in percent of its width and height (0-100)
+ */
+export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type AuditCategory = "color" | "typography" | "composition" | "style" | "forbidden" | "accessibility";
+
+export const AUDIT_CATEGORIES: AuditCategory[] = ["color", "typography", "composition", "style", "forbidden", "accessibility"];
+
+/** Default accessibility minimum; scores below it block export */
+export const ACCESSIBILITY_EXPORT_THRESHOLD = 70;
+
+export type AuditSeverity = "critical" | "warning" | "minor";
+
+/** What to do with an audited asset, decided by the brand's AuditPolicy */
+export type AuditDecision = "APPROVE" | "REGENERATE" | "REJECT";
+
+/**
+ * A specific compliance problem, located when it affects part of the image
+ */
+export interface AuditViolation {
+    category: AuditCategory;
+    severity: AuditSeverity;
+    description: string;
+    suggestion: string;
+    /** Area the problem covers; null when it applies to the whole image */
+    box?: BoundingBox | null;
+}
+
+/**
+ * A located issue, drawn on the image
+ */
+export interface AuditRegion {
+    /** Center of the issue, percent */
+    x: number;
+    y: number;
+    issue: string;
+    /** Area the issue covers, when known */
+    box?: BoundingBox;
+    severity?: AuditSeverity;
+}
+
+// ============ COLOR ANALYSIS ============
+
+export interface DominantColor {
+    hex: string;
+    /** Fraction of pixels, 0-1 */
+    share: number;
+    nearest_palette_hex: string | null;
+    /** CIEDE2000 distance to nearest_palette_hex */
+    delta_e: number | null;
+}
+
+/**
+ * A part of the image that is mostly off-palette.
+ * Position and size are percentages of the image, like regions.
+ */
+export interface OffPaletteRegion extends BoundingBox {
+    /** Fraction of the region's pixels that are off-palette */
+    share: number;
+    /** Average off-palette color in the region */
+    hex: string;
+    nearest_palette_hex: string;
+    delta_e: number;
+    /** e.g. "top left" */
+    location: string;
+}
+
+/**
+ * Pixel-level palette check
+ */
+export interface ColorAnalysis {
+    /** 0-100, how closely pixels stick to the palette */
+    score: number;
+    dominant_colors: DominantColor[];
+    /** Fraction of pixels off-palette, 0-1 */
+    off_palette_share: number;
+    off_palette_regions: OffPaletteRegion[];
+}
+
+// ============ TEXT ANALYSIS ============
+
+/**
+ * A line or block of text found on the image
+ */
+export interface AuditTextElement {
+    text: string;
+    box?: BoundingBox | null;
+    /** OCR confidence 0-100; absent for model-reported text */
+    confidence?: number;
+}
+
+/**
+ * Deterministic checks of the text on the image
+ */
+export interface TextAnalysis {
+    /** Who read the text: the audit model, or local OCR when it didn't */
+    source: "model" | "ocr";
+    elements: AuditTextElement[];
+    /** 0-100; null when the image has no text */
+    score: number | null;
+}
+
+// ============ ACCESSIBILITY ANALYSIS ============
+
+/**
+ * Legibility of one text element
+ */
+export interface AccessibilityElement {
+    text: string;
+    box: BoundingBox;
+    /** WCAG contrast ratio between the text and its background, 1-21 */
+    contrast_ratio: number;
+    /** 4.5 for normal text, 3 for large text */
+    required_ratio: number;
+    /** Line height at the target size, px */
+    text_height_px: number;
+    min_text_height_px: number;
+    /** Line height in the mobile preview, CSS px */
+    preview_height_px: number;
+    /** 0-100 */
+    legibility: number;
+}
+
+/**
+ * Contrast, text size and mobile legibility of the text on the image
+ */
+export interface AccessibilityAnalysis {
+    /** Platform template the sizes were measured against, if any */
+    template_id: string | null;
+    /** Size the asset is checked at, px */
+    width: number;
+    height: number;
+    /** Width of the mobile preview, CSS px */
+    preview_width: number;
+    elements: AccessibilityElement[];
+    /** 0-100, mean legibility in the mobile preview; null without located text */
+    mobile_legibility: number | null;
+    /** 0-100; null without located text */
+    score: number | null;
+}
+
+// ============ ENSEMBLE ============
+
+/**
+ * One independent model judgment of an asset
+ */
+export interface AuditJudgment {
+    model: string;
+    temperature: number;
+    /** 0-100, with the measured sub-scores substituted in */
+    compliance_score: number;
+    /** This judge's verdict under the brand's policy */
+    decision: AuditDecision;
+}
+
+/**
+ * How much the judges of an ensemble audit agreed
+ */
+export interface AuditConfidence {
+    judgments: AuditJudgment[];
+    /** Mean and standard deviation of the judges' compliance scores */
+    mean_score: number;
+    std_dev: number;
+    /** Share of judges whose verdict matches the audit's decision, 0-1 */
+    agreement: number;
+    /** 0-1; falls with disagreement and score spread */
+    confidence: number;
+    /** Too uncertain to act on without a human look */
+    needs_review: boolean;
+}
+
+// ============ AUDIT RESULT ============
+
+export interface AuditResult {
+    version: typeof AUDIT_RESULT_VERSION;
+    compliance_score: number;
+    /** decision === "APPROVE" */
+    pass: boolean;
+    decision: AuditDecision;
+    /** Why the asset can't be exported; empty when it can */
+    export_blockers: string[];
+    /** Per-category scores 0-100, for the categories that were scored */
+    sub_scores: Partial<Record<AuditCategory, number>>;
+    violations: AuditViolation[];
+    strengths: string[];
+    regions: AuditRegion[];
+    fix_instructions: string;
+    color_analysis?: ColorAnalysis;
+    text_analysis?: TextAnalysis;
+    accessibility_analysis?: AccessibilityAnalysis;
+    /** Present when the audit was judged by more than one model call */
+    confidence?: AuditConfidence;
+}
+
+/**
+ * Stored before versioning: a score, issue points and free-text fixes
+ */
+export interface LegacyAuditResult {
+    compliance_score: number;
+    pass: boolean;
+    heatmap_coordinates: { x: number; y: number; issue: string }[];
+    fix_instructions: string;
+    violations?: AuditViolation[];
+    strengths?: string[];
+    sub_scores?: Record<string, number>;
+}
+
+const clampScore = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.min(100, value)) : fallback;
+
+function toRegion(value: unknown): AuditRegion | null {
+    if (!value || typeof value !== "object") return null;
+    const raw = value as Record<string, unknown>;
+    if (typeof raw.x !== "number" || typeof raw.y !== "number") return null;
+    const box = toBoundingBox(raw.box);
+    return {
+        x: clampScore(raw.x, 0),
+        y: clampScore(raw.y, 0),
+        issue: typeof raw.issue === "string" ? raw.issue : "",
+        ...(box ? { box } : {}),
+        ...(typeof raw.severity === "string" ? { severity: raw.severity as AuditSeverity } : {}),
+    };
+}
+
+/**
+ * Read any stored or model-produced audit as the current version:
+ * v2 results, legacy heatmap results and the unversioned agent results.
+ * Returns null for anything that isn't an audit.
+ */
+export function normalizeAuditResult(value: unknown): AuditResult | null {
+    if (!value || typeof value !== "object") return null;
+    const raw = value as Partial<AuditResult> & Partial<LegacyAuditResult>;
+    if (typeof raw.compliance_score !== "number") return null;
+
+    const subScores: Partial<Record<AuditCategory, number>> = {};
+    for (const category of AUDIT_CATEGORIES) {
+        const score = (raw.sub_scores as Record<string, unknown> | undefined)?.[category];
+        if (typeof score === "number") subScores[category] = clampScore(score, 0);
+    }
+
+    const rawRegions: unknown[] = Array.isArray(raw.regions) ? raw.regions
+        : Array.isArray(raw.heatmap_coordinates) ? raw.heatmap_coordinates : [];
+    const pass = raw.pass === true;
+
+    // Audits from before policies: accessibility below the threshold blocked export
+    const exportBlockers = Array.isArray(raw.export_blockers) ? raw.export_blockers
+        : subScores.accessibility !== undefined && subScores.accessibility < ACCESSIBILITY_EXPORT_THRESHOLD
+            ? [`Accessibility score ${subScores.accessibility} is below ${ACCESSIBILITY_EXPORT_THRESHOLD}`]
+            : [];
+
+    return {
+        version: AUDIT_RESULT_VERSION,
+        compliance_score: clampScore(raw.compliance_score, 0),
+        pass,
+        decision: raw.decision || (pass ? "APPROVE" : "REGENERATE"),
+        export_blockers: exportBlockers,
+        sub_scores: subScores,
+        violations: Array.isArray(raw.violations) ? raw.violations : [],
+        strengths: Array.isArray(raw.strengths) ? raw.strengths : [],
+        regions: rawRegions.map(toRegion).filter((r): r is AuditRegion => r !== null),
+        fix_instructions: typeof raw.fix_instructions === "string" ? raw.fix_instructions : "",
+        ...(raw.color_analysis ? { color_analysis: raw.color_analysis } : {}),
+        ...(raw.text_analysis ? { text_analysis: raw.text_analysis } : {}),
+        ...(raw.accessibility_analysis ? { accessibility_analysis: raw.accessibility_analysis } : {}),
+        ...(raw.confidence ? { confidence: raw.confidence } : {}),
+    };
+}
+
+/**
+ * Reasons an audited asset can't be exported; empty when it can
+ */
+export function getExportBlockers(audit: AuditResult | null | undefined): string[] {
+    return audit?.export_blockers || [];
+}
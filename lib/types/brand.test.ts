@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { applyFieldLocks, getRuleSources, isFieldLocked, setConstitutionField, type BrandConstitution } from "./brand";
+
+const CONSTITUTION: BrandConstitution = {
+    visual_identity: {
+        color_palette_hex: ["#000000"],
+        photography_style: "Professional and clean",
+        fonts: ["Inter", "System Sans"],
+        composition_rules: ["Balanced", "Rule of thirds"],
+        forbidden_elements: [],
+        signature_elements: [],
+        visual_density: "BALANCED",
+    },
+    voice: {
+        tone: "Professional",
+        catchphrases: [],
+        vocabulary_level: "DIRECT",
+        keywords: [],
+    },
+    content_patterns: {
+        thumbnail_structure: "",
+        text_overlay_rules: "",
+        face_prominence: "MEDIUM",
+    },
+    risk_thresholds: {
+        nudity: "STRICT_ZERO_TOLERANCE",
+        political: "STRICT_ZERO_TOLERANCE",
+    },
+    brand_essence: "A modern, professional brand.",
+};
+
+function withChanges(changes: (c: BrandConstitution) => void): BrandConstitution {
+    const constitution = structuredClone(CONSTITUTION);
+    changes(constitution);
+    return constitution;
+}
+
+describe("applyFieldLocks", () => {
+    it("returns the proposal as it is when nothing is locked", () => {
+        const proposed = withChanges((c) => { c.voice.tone = "Loud"; });
+
+        expect(applyFieldLocks(proposed, null)).toBe(proposed);
+        expect(applyFieldLocks(proposed, CONSTITUTION)).toBe(proposed);
+    });
+
+    it("keeps locked fields and takes the proposal for the rest", () => {
+        const current = withChanges((c) => {
+            c.voice.tone = "Hand-tuned";
+            c.visual_identity.fonts = ["Futura"];
+            c.locked_fields = ["voice.tone", "visual_identity.fonts"];
+        });
+        const proposed = withChanges((c) => {
+            c.voice.tone = "Loud";
+            c.voice.keywords = ["sale"];
+            c.visual_identity.fonts = ["Comic Sans"];
+        });
+
+        const result = applyFieldLocks(proposed, current);
+
+        expect(result.voice.tone).toBe("Hand-tuned");
+        expect(result.visual_identity.fonts).toEqual(["Futura"]);
+        expect(result.voice.keywords).toEqual(["sale"]);
+        expect(result.locked_fields).toEqual(["voice.tone", "visual_identity.fonts"]);
+    });
+
+    it("drops a locked field unset on the current constitution", () => {
+        const current = withChanges((c) => {
+            delete c.content_patterns.text_overlay_rules;
+            c.locked_fields = ["content_patterns.text_overlay_rules"];
+        });
+        const proposed = withChanges((c) => { c.content_patterns.text_overlay_rules = "Max 4 words"; });
+
+        const result = applyFieldLocks(proposed, current);
+
+        expect(result.content_patterns).not.toHaveProperty("text_overlay_rules");
+    });
+
+    it("keeps the current provenance of locked fields only", () => {
+        const current = withChanges((c) => {
+            c.locked_fields = ["voice.tone"];
+            c.provenance = [
+                { field: "voice.tone", value: "Professional", element_ids: ["note_0"] },
+                { field: "voice.keywords", value: "old", element_ids: ["note_0"] },
+            ];
+        });
+        const proposed = withChanges((c) => {
+            c.provenance = [
+                { field: "voice.tone", value: "Loud", element_ids: ["img_1"] },
+                { field: "voice.keywords", value: "sale", element_ids: ["img_1"] },
+            ];
+        });
+
+        expect(applyFieldLocks(proposed, current).provenance).toEqual([
+            { field: "voice.keywords", value: "sale", element_ids: ["img_1"] },
+            { field: "voice.tone", value: "Professional", element_ids: ["note_0"] },
+        ]);
+    });
+
+    it("leaves the proposal untouched", () => {
+        const current = withChanges((c) => { c.locked_fields = ["voice.tone"]; });
+        const proposed = withChanges((c) => { c.voice.tone = "Loud"; });
+
+        applyFieldLocks(proposed, current);
+
+        expect(proposed.voice.tone).toBe("Loud");
+        expect(proposed.locked_fields).toBeUndefined();
+    });
+});
+
+describe("isFieldLocked", () => {
+    it("checks the constitution's locked fields", () => {
+        const constitution = withChanges((c) => { c.locked_fields = ["voice.tone"]; });
+
+        expect(isFieldLocked(constitution, "voice.tone")).toBe(true);
+        expect(isFieldLocked(constitution, "voice.keywords")).toBe(false);
+        expect(isFieldLocked(null, "voice.tone")).toBe(false);
+    });
+});
+
+describe("getRuleSources", () => {
+    it("matches rule values regardless of case", () => {
+        const constitution = withChanges((c) => {
+            c.provenance = [{ field: "visual_identity.color_palette_hex", value: "#FF0000", element_ids: ["a", "b"] }];
+        });
+
+        expect(getRuleSources(constitution, "visual_identity.color_palette_hex", "#ff0000")).toEqual(["a", "b"]);
+        expect(getRuleSources(constitution, "visual_identity.color_palette_hex", "#0000FF")).toEqual([]);
+    });
+});
+
+describe("setConstitutionField", () => {
+    const traced = withChanges((c) => {
+        c.visual_identity.color_palette_hex = ["#000000", "#FF0000"];
+        c.provenance = [
+            { field: "voice.tone", value: "Professional", element_ids: ["note_1"] },
+            { field: "visual_identity.color_palette_hex", value: "#000000", element_ids: ["img_1"] },
+            { field: "visual_identity.color_palette_hex", value: "#FF0000", element_ids: ["img_2"] },
+        ];
+    });
+
+    it("stops tracing a text rule once it is edited", () => {
+        const edited = setConstitutionField(traced, "voice.tone", "Playful");
+
+        expect(edited.voice.tone).toBe("Playful");
+        expect(getRuleSources(edited, "voice.tone", "Playful")).toEqual([]);
+        expect(getRuleSources(edited, "voice.tone", "Professional")).toEqual([]);
+        expect(getRuleSources(edited, "visual_identity.color_palette_hex", "#000000")).toEqual(["img_1"]);
+    });
+
+    it("keeps the sources of a text rule only re-cased", () => {
+        const edited = setConstitutionField(traced, "voice.tone", "professional");
+
+        expect(getRuleSources(edited, "voice.tone", "professional")).toEqual(["note_1"]);
+    });
+
+    it("keeps the sources of list items that survive the edit", () => {
+        const added = setConstitutionField(traced, "visual_identity.color_palette_hex", ["#000000", "#FF0000", "#00FF00"]);
+        const removed = setConstitutionField(added, "visual_identity.color_palette_hex", ["#000000", "#00FF00"]);
+
+        expect(getRuleSources(added, "visual_identity.color_palette_hex", "#FF0000")).toEqual(["img_2"]);
+        expect(getRuleSources(removed, "visual_identity.color_palette_hex", "#000000")).toEqual(["img_1"]);
+        expect(getRuleSources(removed, "visual_identity.color_palette_hex", "#FF0000")).toEqual([]);
+        expect(getRuleSources(removed, "visual_identity.color_palette_hex", "#00FF00")).toEqual([]);
+        expect(removed.provenance).toHaveLength(2);
+    });
+
+    it("leaves the original constitution untouched", () => {
+        setConstitutionField(traced, "visual_identity.color_palette_hex", []);
+
+        expect(traced.visual_identity.color_palette_hex).toEqual(["#000000", "#FF0000"]);
+        expect(traced.provenance).toHaveLength(3);
+    });
+});
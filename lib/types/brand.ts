@@ -1,33 +1,108 @@
+import type { z } from "zod";
+import type { AuditPolicy } from "./audit-policy";
+import type { BrandConstitutionSchema, ConstitutionRulesSchema, RuleProvenanceSchema } from "./constitution-schema";
+
 /**
  * Brand Constitution - The AI-generated "DNA" of a brand
- * Generated by Agent A (The Archivist) from moodboard analysis
+ * Generated by Agent A (The Archivist) from moodboard analysis; the shape
+ * is defined by BrandConstitutionSchema
  */
-export interface BrandConstitution {
-    visual_identity: {
-        color_palette_hex: string[];
-        photography_style: string;
-        fonts: string[];
-        composition_rules: string[];
-        forbidden_elements: string[];
-        signature_elements: string[];
-        visual_density: "MINIMAL" | "BALANCED" | "COMPLEX";
-    };
-    voice: {
-        tone: string;
-        catchphrases: string[];
-        vocabulary_level: "TECHNICAL" | "CASUAL" | "POETIC" | "DIRECT";
-        keywords: string[];
-    };
-    content_patterns: {
-        thumbnail_structure?: string;
-        text_overlay_rules?: string;
-        face_prominence?: "HIGH" | "MEDIUM" | "LOW" | "NONE";
-    };
-    risk_thresholds: {
-        nudity: "STRICT_ZERO_TOLERANCE" | "ALLOW_ARTISTIC";
-        political: "STRICT_ZERO_TOLERANCE" | "ALLOW_SATIRE";
-    };
-    brand_essence: string;
+export type BrandConstitution = z.infer<typeof BrandConstitutionSchema>;
+
+/**
+ * The canvas elements supporting one constitution rule. `field` is the
+ * dotted path (e.g. "visual_identity.color_palette_hex"); `value` is the
+ * list item or text it backs.
+ */
+export type RuleProvenance = z.infer<typeof RuleProvenanceSchema>;
+
+/**
+ * Ids of the canvas elements behind a constitution rule; empty for rules
+ * added by hand or kept from before the elements were analyzed
+ */
+export function getRuleSources(
+    constitution: BrandConstitution | null | undefined,
+    field: string,
+    value: string
+): string[] {
+    const entry = constitution?.provenance?.find(
+        (p) => p.field === field && p.value.toLowerCase() === value.toLowerCase()
+    );
+    return entry?.element_ids ?? [];
+}
+
+/**
+ * Copy of `constitution` with the field at dotted path `field` set to
+ * `value`. Values edited away lose their provenance, so a rule typed by
+ * hand is never shown as coming from the canvas.
+ */
+export function setConstitutionField(
+    constitution: BrandConstitution,
+    field: string,
+    value: string | string[]
+): BrandConstitution {
+    const result = JSON.parse(JSON.stringify(constitution)) as BrandConstitution;
+    const path = field.split(".");
+    const key = path.pop()!;
+    let node = result as unknown as Record<string, unknown>;
+    for (const part of path) {
+        node[part] = node[part] ?? {};
+        node = node[part] as Record<string, unknown>;
+    }
+    node[key] = value;
+
+    if (result.provenance) {
+        const kept = (Array.isArray(value) ? value : [value]).map((v) => v.toLowerCase());
+        result.provenance = result.provenance.filter(
+            (p) => p.field !== field || kept.includes(p.value.toLowerCase())
+        );
+    }
+    return result;
+}
+
+/**
+ * Whether re-analysis must leave `field` as it is
+ */
+export function isFieldLocked(constitution: BrandConstitution | null | undefined, field: string): boolean {
+    return constitution?.locked_fields?.includes(field) ?? false;
+}
+
+/**
+ * Keep `current`'s locked fields (and their provenance) in a constitution
+ * proposed by re-analysis; only unlocked fields take the proposed values
+ */
+export function applyFieldLocks(
+    proposed: BrandConstitution,
+    current: BrandConstitution | null | undefined
+): BrandConstitution {
+    const locked = current?.locked_fields ?? [];
+    if (!current || locked.length === 0) return proposed;
+
+    const result = JSON.parse(JSON.stringify(proposed)) as BrandConstitution;
+    for (const field of locked) {
+        const path = field.split(".");
+        const key = path.pop()!;
+        const from = path.reduce<Record<string, unknown> | undefined>(
+            (node, part) => node?.[part] as Record<string, unknown> | undefined,
+            current as unknown as Record<string, unknown>
+        );
+        let to = result as unknown as Record<string, unknown>;
+        for (const part of path) {
+            to[part] = to[part] ?? {};
+            to = to[part] as Record<string, unknown>;
+        }
+        // Firestore rejects undefined, so a field unset in current is dropped
+        if (from?.[key] === undefined) delete to[key];
+        else to[key] = from[key];
+    }
+
+    const keep = (p: RuleProvenance) => locked.includes(p.field);
+    result.provenance = [
+        ...(result.provenance ?? []).filter((p) => !keep(p)),
+        ...(current.provenance ?? []).filter(keep),
+    ];
+    result.locked_fields = [...locked];
+    return result;
 }
 
 /**
@@ -55,11 +130,18 @@ export interface CanvasElement {
 }
 
 /**
- * Processed asset cache entry - used for deduplication
+ * What one moodboard element says about the brand. Fields the element gives
+ * no evidence for are left out, so they don't vote in the merge.
+ */
+export type ConstitutionRules = z.infer<typeof ConstitutionRulesSchema>;
+
+/**
+ * Processed asset cache entry, keyed by element hash: used for
+ * deduplication and merged with the others into the constitution
  */
 export interface ProcessedAsset {
     type: CanvasElementType;
-    extracted_rules: Partial<BrandConstitution>;
+    extracted_rules: ConstitutionRules;
     timestamp: number;
 }
 
@@ -69,9 +151,15 @@ export interface ProcessedAsset {
 export interface Brand {
     id: string;
     name: string;
+    /** Firebase uid of the user who created the brand; unset on older brands */
+    owner_id?: string | null;
     canvas_elements: CanvasElement[];
     constitution_cache: BrandConstitution | null;
+    /** Number of the current constitution version; see constitution-history */
+    constitution_version?: number;
     processed_assets: Record<string, ProcessedAsset>;
+    /** How audits are scored and decided; DEFAULT_AUDIT_POLICY when unset */
+    audit_policy?: AuditPolicy;
     last_updated: number;
     created_at: number;
 }
@@ -1,3 +1,6 @@
+import type { AuditResult } from "./audit";
+import type { UsageSummary } from "./usage";
+
 /**
  * Asset status in the generation/audit pipeline
  */
@@ -6,25 +9,33 @@ export type AssetStatus =
     | "AUDITING"
     | "APPROVED"
     | "REJECTED"
-    | "FAILED";
+    | "FAILED"
+    /** Borderline or low-confidence audit, waiting for a person */
+    | "IN_REVIEW"
+    | "CHANGES_REQUESTED";
 
 /**
- * Heatmap coordinate for compliance issues
+ * What a reviewer decided about an asset in the review queue
  */
-export interface HeatmapCoordinate {
-    x: number;
-    y: number;
-    issue: string;
-}
+export type ReviewDecision = "APPROVE" | "REJECT" | "REQUEST_CHANGES";
+
+/** Asset status each review decision leads to */
+export const REVIEW_DECISION_STATUS: Record<ReviewDecision, AssetStatus> = {
+    APPROVE: "APPROVED",
+    REJECT: "REJECTED",
+    REQUEST_CHANGES: "CHANGES_REQUESTED",
+};
 
 /**
- * Sentinel audit result
+ * A reviewer's decision on an asset
  */
-export interface AuditResult {
-    compliance_score: number;
-    pass: boolean;
-    heatmap_coordinates: HeatmapCoordinate[];
-    fix_instructions: string;
+export interface AssetReview {
+    decision: ReviewDecision;
+    /** Reviewer's user id and display name */
+    reviewer_id: string;
+    reviewer_name: string;
+    reason: string;
+    reviewed_at: number;
 }
 
 /**
@@ -39,6 +50,12 @@ export interface Asset {
     sentinel_feedback: string | null;
     audit_result: AuditResult | null;
     attempt_number: number;
+    /** Model usage spent producing and auditing this asset */
+    usage?: UsageSummary | null;
+    /** Why the asset was sent for review (see getReviewReasons) */
+    review_reasons?: string[];
+    /** Set once a reviewer has decided */
+    review?: AssetReview | null;
     created_at: number;
     updated_at: number;
 }
@@ -53,6 +70,8 @@ export interface Campaign {
     user_prompt: string;
     status: "PENDING" | "GENERATING" | "COMPLETED" | "FAILED";
     assets: Asset[];
+    /** Total model usage of the campaign's runs */
+    usage?: UsageSummary | null;
     created_at: number;
     updated_at: number;
 }
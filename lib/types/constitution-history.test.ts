@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { createChangeInfo, diffConstitutions } from "./constitution-history";
+import type { BrandConstitution } from "./brand";
+
+const CONSTITUTION: BrandConstitution = {
+    visual_identity: {
+        color_palette_hex: ["#000000"],
+        photography_style: "Professional and clean",
+        fonts: ["Inter", "System Sans"],
+        composition_rules: ["Balanced", "Rule of thirds"],
+        forbidden_elements: [],
+        signature_elements: [],
+        visual_density: "BALANCED",
+    },
+    voice: {
+        tone: "Professional",
+        catchphrases: [],
+        vocabulary_level: "DIRECT",
+        keywords: [],
+    },
+    content_patterns: {
+        thumbnail_structure: "",
+        text_overlay_rules: "",
+        face_prominence: "MEDIUM",
+    },
+    risk_thresholds: {
+        nudity: "STRICT_ZERO_TOLERANCE",
+        political: "STRICT_ZERO_TOLERANCE",
+    },
+    brand_essence: "A modern, professional brand.",
+};
+
+function withChanges(changes: (c: BrandConstitution) => void): BrandConstitution {
+    const constitution = structuredClone(CONSTITUTION);
+    changes(constitution);
+    return constitution;
+}
+
+describe("diffConstitutions", () => {
+    it("finds no changes between equal constitutions", () => {
+        expect(diffConstitutions(CONSTITUTION, structuredClone(CONSTITUTION))).toEqual([]);
+    });
+
+    it("compares list fields item by item, ignoring case", () => {
+        const before = withChanges((c) => { c.visual_identity.color_palette_hex = ["#000000", "#FF0000"]; });
+        const after = withChanges((c) => { c.visual_identity.color_palette_hex = ["#ff0000", "#0000FF"]; });
+
+        expect(diffConstitutions(before, after)).toEqual([
+            { field: "visual_identity.color_palette_hex", kind: "removed", before: "#000000", after: null },
+            { field: "visual_identity.color_palette_hex", kind: "added", before: null, after: "#0000FF" },
+        ]);
+    });
+
+    it("reports changed, added and removed text fields", () => {
+        const before = withChanges((c) => { c.content_patterns.thumbnail_structure = "Face left"; });
+        const after = withChanges((c) => {
+            c.voice.tone = "Playful";
+            c.content_patterns.thumbnail_structure = "";
+            c.content_patterns.text_overlay_rules = "Max 4 words";
+        });
+
+        expect(diffConstitutions(before, after)).toEqual([
+            { field: "voice.tone", kind: "changed", before: "Professional", after: "Playful" },
+            { field: "content_patterns.thumbnail_structure", kind: "removed", before: "Face left", after: null },
+            { field: "content_patterns.text_overlay_rules", kind: "added", before: null, after: "Max 4 words" },
+        ]);
+    });
+
+    it("ignores provenance", () => {
+        const after = withChanges((c) => {
+            c.provenance = [{ field: "voice.tone", value: "Professional", element_ids: ["note_1"] }];
+        });
+
+        expect(diffConstitutions(CONSTITUTION, after)).toEqual([]);
+    });
+
+    it("treats every field as added to the first constitution", () => {
+        const changes = diffConstitutions(null, CONSTITUTION);
+
+        expect(changes.every((c) => c.kind === "added")).toBe(true);
+        expect(changes).toContainEqual({ field: "brand_essence", kind: "added", before: null, after: CONSTITUTION.brand_essence });
+    });
+
+    it("leaves nothing to change after restoring an earlier version", () => {
+        const earlier = withChanges((c) => { c.voice.keywords = ["sale"]; });
+        const current = withChanges((c) => { c.voice.keywords = ["launch"]; c.voice.tone = "Loud"; });
+
+        expect(diffConstitutions(current, earlier)).toHaveLength(3);
+        expect(diffConstitutions(earlier, structuredClone(earlier))).toEqual([]);
+    });
+});
+
+describe("createChangeInfo", () => {
+    it("names the author by display name, then email, then uid", () => {
+        expect(createChangeInfo("manual_edit", { uid: "u1", displayName: "Ada", email: "ada@example.com" }))
+            .toEqual({ trigger: "manual_edit", author_id: "u1", author_name: "Ada" });
+        expect(createChangeInfo("rollback", { uid: "u1", email: "ada@example.com" }).author_name).toBe("ada@example.com");
+        expect(createChangeInfo("rollback", { uid: "u1" }).author_name).toBe("u1");
+    });
+
+    it("records changes without a user as anonymous", () => {
+        expect(createChangeInfo("analysis", null)).toEqual({ trigger: "analysis", author_id: null, author_name: "Anonymous" });
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Constitution history
+ *
+ * Every change to a brand's constitution - an analysis of the moodboard,
+ * an agent run, a manual edit or a design tokens import - is stored as a
+ * numbered version with who made it and why, so any two versions can be
+ * compared field by field and an earlier one restored.
+ */
+
+import type { BrandConstitution } from "./brand";
+
+/** What produced a constitution version */
+export type ConstitutionTrigger = "analysis" | "agent" | "manual_edit" | "rollback" | "import";
+
+/** Who made a constitution change and why */
+export interface ConstitutionChangeInfo {
+    trigger: ConstitutionTrigger;
+    /** Null for changes made without a signed-in user */
+    author_id: string | null;
+    author_name: string;
+}
+
+export interface ConstitutionVersion extends ConstitutionChangeInfo {
+    /** 1 for the brand's first constitution, counting up */
+    version: number;
+    constitution: BrandConstitution;
+    /** For rollbacks, the version restored */
+    restored_from: number | null;
+    created_at: number;
+}
+
+export const CONSTITUTION_TRIGGER_LABELS: Record<ConstitutionTrigger, string> = {
+    analysis: "Moodboard analysis",
+    agent: "Agent run",
+    manual_edit: "Manual edit",
+    rollback: "Rollback",
+    import: "Design tokens import",
+};
+
+/**
+ * Change info for a signed-in user's (or an anonymous) constitution change
+ */
+export function createChangeInfo(
+    trigger: ConstitutionTrigger,
+    user: { uid: string; displayName?: string | null; email?: string | null } | null
+): ConstitutionChangeInfo {
+    return {
+        trigger,
+        author_id: user?.uid ?? null,
+        author_name: user ? user.displayName || user.email || user.uid : "Anonymous",
+    };
+}
+
+/**
+ * One field-level difference between two constitutions. List fields are
+ * compared item by item, so adding a color is one "added" change.
+ */
+export interface ConstitutionChange {
+    /** Dotted field path, e.g. "visual_identity.color_palette_hex" */
+    field: string;
+    kind: "added" | "removed" | "changed";
+    before: string | null;
+    after: string | null;
+}
+
+type FieldValue = string | string[];
+
+/**
+ * Flatten a constitution into dotted field paths. Provenance is
+ * bookkeeping, not a rule, so it isn't compared.
+ */
+function flatten(value: unknown, prefix = "", fields = new Map<string, FieldValue>()): Map<string, FieldValue> {
+    if (value === null || value === undefined) return fields;
+    if (Array.isArray(value)) {
+        fields.set(prefix, value.map(String));
+    } else if (typeof value === "object") {
+        for (const [key, child] of Object.entries(value)) {
+            if (!prefix && key === "provenance") continue;
+            flatten(child, prefix ? `${prefix}.${key}` : key, fields);
+        }
+    } else if (String(value) !== "") {
+        fields.set(prefix, String(value));
+    }
+    return fields;
+}
+
+const includesItem = (items: string[], item: string) =>
+    items.some((i) => i.toLowerCase() === item.toLowerCase());
+
+/**
+ * Field-level changes from `before` to `after`, in field order
+ */
+export function diffConstitutions(
+    before: BrandConstitution | null,
+    after: BrandConstitution | null
+): ConstitutionChange[] {
+    const a = flatten(before);
+    const b = flatten(after);
+    const fields = [...new Set([...a.keys(), ...b.keys()])];
+    const changes: ConstitutionChange[] = [];
+
+    for (const field of fields) {
+        const from = a.get(field);
+        const to = b.get(field);
+        if (Array.isArray(from) || Array.isArray(to)) {
+            const fromItems = Array.isArray(from) ? from : from ? [from] : [];
+            const toItems = Array.isArray(to) ? to : to ? [to] : [];
+            for (const item of fromItems) {
+                if (!includesItem(toItems, item)) changes.push({ field, kind: "removed", before: item, after: null });
+            }
+            for (const item of toItems) {
+                if (!includesItem(fromItems, item)) changes.push({ field, kind: "added", before: null, after: item });
+            }
+        } else if (from === undefined && to !== undefined) {
+            changes.push({ field, kind: "added", before: null, after: to });
+        } else if (from !== undefined && to === undefined) {
+            changes.push({ field, kind: "removed", before: from, after: null });
+        } else if (from !== to) {
+            changes.push({ field, kind: "changed", before: from!, after: to! });
+        }
+    }
+    return changes;
+}
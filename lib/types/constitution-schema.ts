@@ -0,0 +1,218 @@
+/**
+ * Brand Constitution schema
+ *
+ * The single source of truth for the constitution's shape: the TypeScript
+ * type, the JSON schema sent to the model for structured output and the
+ * runtime validation of everything read from or written to a brand are
+ * all derived from these Zod schemas.
+ */
+
+import { z } from "zod";
+import type { BrandConstitution } from "./brand";
+
+// ============ FIELDS ============
+
+// Spelled out rather than /i: the pattern is also sent to the model as JSON schema
+const HEX_COLOR = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+export const VisualDensitySchema = z.enum(["MINIMAL", "BALANCED", "COMPLEX"]);
+export const VocabularyLevelSchema = z.enum(["TECHNICAL", "CASUAL", "POETIC", "DIRECT"]);
+export const FaceProminenceSchema = z.enum(["HIGH", "MEDIUM", "LOW", "NONE"]);
+export const NudityThresholdSchema = z.enum(["STRICT_ZERO_TOLERANCE", "ALLOW_ARTISTIC"]);
+export const PoliticalThresholdSchema = z.enum(["STRICT_ZERO_TOLERANCE", "ALLOW_SATIRE"]);
+
+export const VisualIdentitySchema = z.object({
+    color_palette_hex: z
+        .array(z.string().regex(HEX_COLOR, "Expected a hex color like #1A2B3C"))
+        .describe("Array of hex color codes from the brand moodboard"),
+    photography_style: z
+        .string()
+        .describe("DEEP DIVE: Provide a professional, evocative description (MINIMUM 50 WORDS) of the photography and visual style, including lighting, composition, and texture."),
+    fonts: z
+        .array(z.string())
+        .describe("Font families the brand uses or that match its style"),
+    composition_rules: z
+        .array(z.string())
+        .describe("How brand images are composed, e.g. 'Rule of thirds'"),
+    forbidden_elements: z
+        .array(z.string())
+        .describe("Elements that should never appear in brand assets"),
+    signature_elements: z
+        .array(z.string())
+        .describe("Recurring visual motifs that make assets recognizably on-brand"),
+    visual_density: VisualDensitySchema.describe("How much is going on in a typical brand visual"),
+});
+
+export const VoiceSchema = z.object({
+    tone: z
+        .string()
+        .describe("DEEP DIVE: Provide a detailed breakdown (MINIMUM 50 WORDS) of the brand's voice and tone. Explain the emotional impact and communication style."),
+    catchphrases: z
+        .array(z.string())
+        .describe("Phrases the brand repeats in its copy"),
+    vocabulary_level: VocabularyLevelSchema.describe("The register of the brand's language"),
+    keywords: z
+        .array(z.string())
+        .describe("Key terms that represent the brand essence"),
+});
+
+export const ContentPatternsSchema = z.object({
+    thumbnail_structure: z.string().optional().describe("Typical layout of a thumbnail"),
+    text_overlay_rules: z.string().optional().describe("Rules for text placed on images"),
+    face_prominence: FaceProminenceSchema.optional().describe("How prominent faces are in brand visuals"),
+});
+
+export const RiskThresholdsSchema = z.object({
+    nudity: NudityThresholdSchema,
+    political: PoliticalThresholdSchema,
+});
+
+export const RuleProvenanceSchema = z.object({
+    field: z.string(),
+    value: z.string(),
+    element_ids: z.array(z.string()),
+});
+
+// ============ CONSTITUTION ============
+
+/**
+ * The rules a model extracts from a moodboard
+ */
+export const ExtractedConstitutionSchema = z.object({
+    visual_identity: VisualIdentitySchema,
+    voice: VoiceSchema,
+    content_patterns: ContentPatternsSchema,
+    risk_thresholds: RiskThresholdsSchema,
+    brand_essence: z
+        .string()
+        .describe("One or two sentences on what the brand is and stands for"),
+});
+
+/**
+ * A stored constitution: the extracted rules plus the app's bookkeeping
+ */
+export const BrandConstitutionSchema = ExtractedConstitutionSchema.extend({
+    provenance: z.array(RuleProvenanceSchema).optional(),
+    locked_fields: z.array(z.string()).optional(),
+});
+
+/**
+ * What a single moodboard element says about the brand; every field optional
+ */
+export const ConstitutionRulesSchema = z.object({
+    visual_identity: VisualIdentitySchema.partial().optional(),
+    voice: VoiceSchema.partial().optional(),
+    content_patterns: ContentPatternsSchema.optional(),
+    risk_thresholds: RiskThresholdsSchema.partial().optional(),
+    brand_essence: z.string().optional(),
+});
+
+/** Used for fields nothing has spoken to when there is no constitution yet */
+export const DEFAULT_CONSTITUTION: BrandConstitution = {
+    visual_identity: {
+        color_palette_hex: ["#000000"],
+        photography_style: "Professional and clean",
+        fonts: ["Inter", "System Sans"],
+        composition_rules: ["Balanced", "Rule of thirds"],
+        forbidden_elements: [],
+        signature_elements: [],
+        visual_density: "BALANCED",
+    },
+    voice: {
+        tone: "Professional",
+        catchphrases: [],
+        vocabulary_level: "DIRECT",
+        keywords: [],
+    },
+    content_patterns: {
+        thumbnail_structure: "",
+        text_overlay_rules: "",
+        face_prominence: "MEDIUM",
+    },
+    risk_thresholds: {
+        nudity: "STRICT_ZERO_TOLERANCE",
+        political: "STRICT_ZERO_TOLERANCE",
+    },
+    brand_essence: "A modern, professional brand.",
+};
+
+// ============ VALIDATION ============
+
+export type ConstitutionValidation =
+    | { success: true; constitution: BrandConstitution }
+    | { success: false; error: string; issues: string[] };
+
+function describeIssues(error: z.ZodError): string[] {
+    return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Check a constitution strictly; errors name the exact field, e.g.
+ * "visual_identity.color_palette_hex.2: Expected a hex color like #1A2B3C"
+ */
+export function validateConstitution(value: unknown): ConstitutionValidation {
+    const result = BrandConstitutionSchema.safeParse(value);
+    if (result.success) return { success: true, constitution: result.data };
+    const issues = describeIssues(result.error);
+    return { success: false, error: `Invalid brand constitution: ${issues.join("; ")}`, issues };
+}
+
+/** Most repair passes before giving up on the value */
+const MAX_REPAIR_PASSES = 3;
+
+type Node = Record<string | number, unknown>;
+
+/**
+ * Read a constitution that may be incomplete or partly malformed (model
+ * output, legacy documents). Invalid list items are dropped, other missing
+ * or invalid fields take their value from `fallback`; `issues` lists what
+ * was repaired, by field path.
+ */
+export function normalizeConstitution(
+    value: unknown,
+    fallback: BrandConstitution = DEFAULT_CONSTITUTION
+): { constitution: BrandConstitution; issues: string[] } {
+    let candidate: unknown = value && typeof value === "object" ? structuredClone(value) : {};
+    const issues: string[] = [];
+
+    for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+        const result = BrandConstitutionSchema.safeParse(candidate);
+        if (result.success) return { constitution: result.data, issues };
+        issues.push(...describeIssues(result.error));
+
+        // Deepest paths first and later list items first, so dropping an
+        // item doesn't shift the ones still to be visited
+        const paths = result.error.issues
+            .map((issue) => issue.path as (string | number)[])
+            .sort((a, b) => {
+                const [lastA, lastB] = [a[a.length - 1], b[b.length - 1]];
+                const byIndex = typeof lastA === "number" && typeof lastB === "number" ? lastB - lastA : 0;
+                return b.length - a.length || byIndex;
+            });
+        for (const path of paths) {
+            if (path.length === 0) {
+                candidate = structuredClone(fallback);
+                break;
+            }
+            const parent = path.slice(0, -1).reduce<Node | undefined>((node, key) => node?.[key] as Node | undefined, candidate as Node);
+            const key = path[path.length - 1];
+            if (Array.isArray(parent) && typeof key === "number") {
+                parent.splice(key, 1);
+                continue;
+            }
+            // Rebuild the parents the fallback value goes into
+            let node = candidate as Node;
+            let from = fallback as unknown as Node | undefined;
+            for (const part of path.slice(0, -1)) {
+                if (!node[part] || typeof node[part] !== "object") node[part] = {};
+                node = node[part] as Node;
+                from = from?.[part] as Node | undefined;
+            }
+            if (from?.[key] === undefined) delete node[key];
+            else node[key] = structuredClone(from[key]);
+        }
+    }
+
+    issues.push("(root): could not be repaired; using the fallback constitution");
+    return { constitution: structuredClone(fallback), issues };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { exportDesignTokens, importDesignTokens, toAsePalette, toCssVariables, toTailwindTheme } from "./design-tokens";
+import { DEFAULT_CONSTITUTION } from "./constitution-schema";
+import type { BrandConstitution } from "./brand";
+
+const CONSTITUTION: BrandConstitution = {
+    ...structuredClone(DEFAULT_CONSTITUTION),
+    visual_identity: {
+        ...structuredClone(DEFAULT_CONSTITUTION.visual_identity),
+        color_palette_hex: ["#1A1A2E", "#E94560"],
+        fonts: ["Space Grotesk", "Inter"],
+        forbidden_elements: ["Clip art"],
+    },
+    voice: { ...DEFAULT_CONSTITUTION.voice, tone: "Bold", keywords: ["launch"] },
+};
+
+describe("exportDesignTokens", () => {
+    it("round-trips a constitution through design tokens JSON", () => {
+        const json = exportDesignTokens(
+            { ...CONSTITUTION, provenance: [{ field: "voice.tone", value: "Bold", element_ids: ["note_1"] }] },
+            "Acme",
+            "tokens"
+        ) as string;
+
+        const imported = importDesignTokens(json);
+
+        expect(imported).toEqual({ success: true, constitution: CONSTITUTION, issues: [] });
+    });
+
+    it("exports the palette and fonts as a Tailwind preset", () => {
+        const theme = toTailwindTheme(CONSTITUTION, "Acme");
+
+        expect(theme).toContain('"DEFAULT": "#1A1A2E"');
+        expect(theme).toContain('"2": "#E94560"');
+        expect(theme).toContain('"Space Grotesk"');
+    });
+
+    it("exports CSS custom properties with quoted font names", () => {
+        const css = toCssVariables(CONSTITUTION, "Acme */ evil");
+
+        expect(css).toContain("--color-brand-1: #1A1A2E;");
+        expect(css).toContain('--font-brand-1: "Space Grotesk";');
+        expect(css.split("\n")[0]).toBe("/* Acme  evil brand tokens, exported from Sentient Studio */");
+    });
+
+    it("exports an ASE file with a group holding one swatch per color", () => {
+        const ase = toAsePalette({ ...CONSTITUTION, visual_identity: { ...CONSTITUTION.visual_identity, color_palette_hex: ["#f00"] } }, "Acme");
+        const view = new DataView(ase.buffer);
+
+        expect(String.fromCharCode(...ase.slice(0, 4))).toBe("ASEF");
+        expect(view.getUint32(8)).toBe(3);
+        expect(view.getUint16(12)).toBe(0xc001);
+        // Group block: header, then the name "Acme" (length 5 incl. terminator)
+        const swatch = 12 + 6 + 2 + 5 * 2;
+        expect(view.getUint16(swatch)).toBe(0x0001);
+        // Swatch name "#FF0000", then the color model and the red channel
+        const model = swatch + 6 + 2 + 8 * 2;
+        expect(String.fromCharCode(...ase.slice(model, model + 4))).toBe("RGB ");
+        expect(view.getFloat32(model + 4)).toBe(1);
+        expect(view.getFloat32(model + 8)).toBe(0);
+    });
+});
+
+describe("importDesignTokens", () => {
+    it("reads color and font tokens from files made elsewhere", () => {
+        const json = JSON.stringify({
+            base: {
+                $type: "color",
+                navy: { $value: "#1a1a2e" },
+                red: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+                translucent: { $value: "#E9456080" },
+            },
+            semantic: {
+                primary: { $type: "color", $value: "{base.navy}" },
+                broken: { $type: "color", $value: "rgb(1, 2, 3)" },
+            },
+            type: {
+                heading: { $type: "fontFamily", $value: ["Space Grotesk", "sans-serif"] },
+                body: { $type: "fontFamily", $value: "Inter" },
+            },
+            spacing: { small: { $type: "dimension", $value: "4px" } },
+        });
+
+        const imported = importDesignTokens(json);
+
+        expect(imported.success).toBe(true);
+        if (!imported.success) return;
+        expect(imported.constitution.visual_identity.color_palette_hex).toEqual(["#1A1A2E", "#FF0000", "#E94560"]);
+        expect(imported.constitution.visual_identity.fonts).toEqual(["Space Grotesk", "Inter"]);
+        expect(imported.constitution.voice).toEqual(DEFAULT_CONSTITUTION.voice);
+        expect(imported.issues).toEqual(["semantic.broken: unreadable color"]);
+    });
+
+    it("stops following alias cycles", () => {
+        const json = JSON.stringify({
+            $type: "color",
+            a: { $value: "{b}" },
+            b: { $value: "{a}" },
+            ok: { $value: "#FFFFFF" },
+        });
+
+        const imported = importDesignTokens(json);
+
+        expect(imported.success && imported.issues).toEqual(["a: unreadable color", "b: unreadable color"]);
+    });
+
+    it("rejects files that aren't design tokens", () => {
+        expect(importDesignTokens("{")).toEqual({ success: false, error: "The file isn't valid JSON" });
+        expect(importDesignTokens("[]")).toEqual({ success: false, error: "Expected a design tokens object" });
+        expect(importDesignTokens(JSON.stringify({ spacing: { $type: "dimension", $value: "4px" } })))
+            .toEqual({ success: false, error: "No color or font family tokens found" });
+    });
+});
@@ -0,0 +1,286 @@
+/**
+ * Design tokens
+ *
+ * A brand constitution as design tokens - W3C design tokens JSON, a
+ * Tailwind theme extension, CSS custom properties and an Adobe ASE
+ * palette - so Figma and code can use the palette and fonts Sentient
+ * Studio enforces, and a design tokens file can seed a new brand.
+ */
+
+import type { BrandConstitution } from "./brand";
+import { DEFAULT_CONSTITUTION, normalizeConstitution } from "./constitution-schema";
+
+export type DesignTokenFormat = "tokens" | "tailwind" | "css" | "ase";
+
+export const DESIGN_TOKEN_FORMATS: Record<DesignTokenFormat, { label: string; extension: string; mimeType: string }> = {
+    tokens: { label: "Design Tokens (JSON)", extension: "tokens.json", mimeType: "application/json" },
+    tailwind: { label: "Tailwind Theme", extension: "tailwind.js", mimeType: "text/javascript" },
+    css: { label: "CSS Variables", extension: "css", mimeType: "text/css" },
+    ase: { label: "Adobe Swatches (ASE)", extension: "ase", mimeType: "application/octet-stream" },
+};
+
+/** Where the rest of the constitution travels in a tokens file */
+const EXTENSION_KEY = "studio.sentient";
+
+// ============ EXPORT ============
+
+/** Token name of a palette color or font: its 1-based position */
+const tokenName = (index: number) => String(index + 1);
+
+/** "#RGB" as "#RRGGBB", which every format understands */
+const fullHex = (hex: string) =>
+    hex.length === 4 ? "#" + [...hex.slice(1)].map((d) => d + d).join("") : hex;
+
+/**
+ * W3C design tokens (DTCG) for the palette and fonts. The other rules go
+ * in `$extensions` so importing the file restores the whole constitution.
+ */
+export function toDesignTokens(constitution: BrandConstitution, brandName: string): Record<string, unknown> {
+    const { provenance: _, ...rules } = constitution;
+    const { fonts } = constitution.visual_identity;
+    const colors = constitution.visual_identity.color_palette_hex.map(fullHex);
+    return {
+        $description: `${brandName} brand tokens, exported from Sentient Studio`,
+        color: {
+            $type: "color",
+            brand: Object.fromEntries(colors.map((hex, i) => [tokenName(i), { $value: hex }])),
+        },
+        font: {
+            $type: "fontFamily",
+            brand: Object.fromEntries(fonts.map((font, i) => [tokenName(i), { $value: font }])),
+        },
+        $extensions: { [EXTENSION_KEY]: { constitution: rules } },
+    };
+}
+
+/**
+ * A Tailwind config with the palette as `brand-*` colors and the fonts as
+ * `font-brand`, to use as a preset
+ */
+export function toTailwindTheme(constitution: BrandConstitution, brandName: string): string {
+    const { fonts } = constitution.visual_identity;
+    const colors = constitution.visual_identity.color_palette_hex.map(fullHex);
+    const brandColors: Record<string, string> = Object.fromEntries(colors.map((hex, i) => [tokenName(i), hex]));
+    if (colors.length > 0) brandColors.DEFAULT = colors[0];
+    const theme = {
+        theme: {
+            extend: {
+                colors: { brand: brandColors },
+                fontFamily: { brand: fonts },
+            },
+        },
+    };
+    return [
+        `// ${brandName} brand theme, exported from Sentient Studio`,
+        "/** @type {import('tailwindcss').Config} */",
+        `module.exports = ${JSON.stringify(theme, null, 4)};`,
+        "",
+    ].join("\n");
+}
+
+const cssString = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+/**
+ * `--color-brand-*` and `--font-brand-*` custom properties on :root
+ */
+export function toCssVariables(constitution: BrandConstitution, brandName: string): string {
+    const { fonts } = constitution.visual_identity;
+    const colors = constitution.visual_identity.color_palette_hex.map(fullHex);
+    return [
+        `/* ${brandName.replace(/\*\//g, "")} brand tokens, exported from Sentient Studio */`,
+        ":root {",
+        ...colors.map((hex, i) => `    --color-brand-${tokenName(i)}: ${hex};`),
+        ...fonts.map((font, i) => `    --font-brand-${tokenName(i)}: ${cssString(font)};`),
+        "}",
+        "",
+    ].join("\n");
+}
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+const ASE_COLOR_TYPE_GLOBAL = 0;
+
+/** Length-prefixed, null-terminated UTF-16BE name as ASE stores it */
+function aseName(name: string): number[] {
+    const length = name.length + 1;
+    const bytes = [length >> 8, length & 0xff];
+    for (let i = 0; i < name.length; i++) {
+        const code = name.charCodeAt(i);
+        bytes.push(code >> 8, code & 0xff);
+    }
+    return [...bytes, 0, 0];
+}
+
+const hexToRgb = (hex: string) =>
+    [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+
+/**
+ * The palette as an Adobe Swatch Exchange file: one group named after the
+ * brand, holding a global RGB swatch per color
+ */
+export function toAsePalette(constitution: BrandConstitution, brandName: string): Uint8Array {
+    const blocks: { type: number; body: number[] }[] = [{ type: ASE_GROUP_START, body: aseName(brandName) }];
+    for (const hex of constitution.visual_identity.color_palette_hex.map(fullHex)) {
+        const rgb = new DataView(new ArrayBuffer(12));
+        hexToRgb(hex).forEach((channel, i) => rgb.setFloat32(i * 4, channel));
+        blocks.push({
+            type: ASE_COLOR,
+            body: [
+                ...aseName(hex.toUpperCase()),
+                ..."RGB ".split("").map((c) => c.charCodeAt(0)),
+                ...new Uint8Array(rgb.buffer),
+                0, ASE_COLOR_TYPE_GLOBAL,
+            ],
+        });
+    }
+    blocks.push({ type: ASE_GROUP_END, body: [] });
+
+    const size = 12 + blocks.reduce((total, block) => total + 6 + block.body.length, 0);
+    const view = new DataView(new ArrayBuffer(size));
+    [..."ASEF"].forEach((c, i) => view.setUint8(i, c.charCodeAt(0)));
+    view.setUint16(4, 1); // version 1.0
+    view.setUint16(6, 0);
+    view.setUint32(8, blocks.length);
+    let offset = 12;
+    for (const block of blocks) {
+        view.setUint16(offset, block.type);
+        view.setUint32(offset + 2, block.body.length);
+        block.body.forEach((byte, i) => view.setUint8(offset + 6 + i, byte));
+        offset += 6 + block.body.length;
+    }
+    return new Uint8Array(view.buffer);
+}
+
+/**
+ * A constitution in one of the export formats, ready to download
+ */
+export function exportDesignTokens(
+    constitution: BrandConstitution,
+    brandName: string,
+    format: DesignTokenFormat
+): string | Uint8Array {
+    switch (format) {
+        case "tokens":
+            return JSON.stringify(toDesignTokens(constitution, brandName), null, 4);
+        case "tailwind":
+            return toTailwindTheme(constitution, brandName);
+        case "css":
+            return toCssVariables(constitution, brandName);
+        case "ase":
+            return toAsePalette(constitution, brandName);
+    }
+}
+
+// ============ IMPORT ============
+
+export type DesignTokensImport =
+    | { success: true; constitution: BrandConstitution; issues: string[] }
+    | { success: false; error: string };
+
+type TokenNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is TokenNode =>
+    !!value && typeof value === "object" && !Array.isArray(value);
+
+/** Most alias hops followed before giving up, so cycles end */
+const MAX_ALIAS_DEPTH = 10;
+
+/** Follow a "{group.token}" alias to the value it names */
+function resolveAlias(root: TokenNode, value: unknown, depth = 0): unknown {
+    if (typeof value !== "string" || !/^\{[^}]+\}$/.test(value) || depth >= MAX_ALIAS_DEPTH) return value;
+    const target = value.slice(1, -1).split(".").reduce<unknown>(
+        (node, part) => (isNode(node) ? node[part] : undefined),
+        root
+    );
+    return isNode(target) ? resolveAlias(root, target.$value, depth + 1) : undefined;
+}
+
+/** "#RGB", "#RRGGBB", with or without alpha, or a DTCG sRGB color object, as "#RRGGBB" */
+function readColor(value: unknown): string | null {
+    if (isNode(value)) {
+        if (typeof value.hex === "string") return readColor(value.hex);
+        const { colorSpace, components } = value;
+        if (colorSpace !== "srgb" || !Array.isArray(components) || components.length !== 3) return null;
+        if (!components.every((c) => typeof c === "number" && c >= 0 && c <= 1)) return null;
+        return "#" + components.map((c) => Math.round(c * 255).toString(16).padStart(2, "0")).join("").toUpperCase();
+    }
+    if (typeof value !== "string") return null;
+    const match = value.trim().match(/^#([0-9a-f]{3,8})$/i);
+    if (!match) return null;
+    const digits = match[1];
+    if (digits.length === 3 || digits.length === 4) return fullHex("#" + digits.slice(0, 3)).toUpperCase();
+    if (digits.length === 6 || digits.length === 8) return "#" + digits.slice(0, 6).toUpperCase();
+    return null;
+}
+
+/** A fontFamily value is a name or a fallback stack; the first name is the brand font */
+function readFont(value: unknown): string | null {
+    const family = Array.isArray(value) ? value[0] : value;
+    return typeof family === "string" && family.trim() ? family.trim() : null;
+}
+
+/**
+ * Seed a constitution from a W3C design tokens file. Color tokens become
+ * the palette and fontFamily tokens the fonts; the other rules come from
+ * a Sentient Studio export's `$extensions` or, for tokens made elsewhere,
+ * the defaults. `issues` lists tokens that couldn't be read.
+ */
+export function importDesignTokens(json: string): DesignTokensImport {
+    let root: unknown;
+    try {
+        root = JSON.parse(json);
+    } catch {
+        return { success: false, error: "The file isn't valid JSON" };
+    }
+    if (!isNode(root)) return { success: false, error: "Expected a design tokens object" };
+
+    const colors: string[] = [];
+    const fonts: string[] = [];
+    const issues: string[] = [];
+
+    // $type is inherited from the closest group that sets it
+    const walk = (node: TokenNode, path: string[], inheritedType: unknown) => {
+        const type = node.$type ?? inheritedType;
+        if ("$value" in node) {
+            const value = resolveAlias(root as TokenNode, node.$value);
+            const name = path.join(".");
+            if (type === "color") {
+                const hex = readColor(value);
+                if (!hex) issues.push(`${name}: unreadable color`);
+                else if (!colors.includes(hex)) colors.push(hex);
+            } else if (type === "fontFamily") {
+                const font = readFont(value);
+                if (!font) issues.push(`${name}: unreadable font family`);
+                else if (!fonts.includes(font)) fonts.push(font);
+            }
+            return;
+        }
+        for (const [key, child] of Object.entries(node)) {
+            if (!key.startsWith("$") && isNode(child)) walk(child, [...path, key], type);
+        }
+    };
+    walk(root, [], undefined);
+
+    const extension = isNode(root.$extensions) ? root.$extensions[EXTENSION_KEY] : undefined;
+    const saved = isNode(extension) ? extension.constitution : undefined;
+    if (colors.length === 0 && fonts.length === 0 && !saved) {
+        return { success: false, error: "No color or font family tokens found" };
+    }
+
+    const base = normalizeConstitution(saved ?? DEFAULT_CONSTITUTION);
+    if (saved) issues.push(...base.issues);
+    const { provenance: _, ...constitution } = base.constitution;
+    return {
+        success: true,
+        constitution: {
+            ...constitution,
+            visual_identity: {
+                ...constitution.visual_identity,
+                color_palette_hex: colors.length > 0 ? colors : constitution.visual_identity.color_palette_hex,
+                fonts: fonts.length > 0 ? fonts : constitution.visual_identity.fonts,
+            },
+        },
+        issues,
+    };
+}
@@ -1,2 +1,8 @@
 export * from "./brand";
+export * from "./constitution-schema";
+export * from "./audit";
+export * from "./audit-policy";
 export * from "./campaign";
+export * from "./usage";
+export * from "./constitution-history";
+export * from "./design-tokens";
@@ -0,0 +1,66 @@
+/**
+ * Aggregated model usage for a task, run, asset or campaign
+ */
+export interface UsageSummary {
+    /** Number of model calls */
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    totalTokens: number;
+    /** Images returned by the model */
+    imageCount: number;
+    /** Summed wall time of the calls (parallel calls overlap) */
+    latencyMs: number;
+    /** Estimated spend in USD */
+    costUsd: number;
+    /** Models that served the calls */
+    models: string[];
+}
+
+/**
+ * Usage with nothing recorded
+ */
+export function emptyUsage(): UsageSummary {
+    return {
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        thinkingTokens: 0,
+        totalTokens: 0,
+        imageCount: 0,
+        latencyMs: 0,
+        costUsd: 0,
+        models: [],
+    };
+}
+
+/**
+ * Add usage summaries together (missing entries count as empty)
+ */
+export function mergeUsage(...summaries: (UsageSummary | null | undefined)[]): UsageSummary {
+    const total = emptyUsage();
+    for (const usage of summaries) {
+        if (!usage) continue;
+        total.calls += usage.calls;
+        total.inputTokens += usage.inputTokens;
+        total.outputTokens += usage.outputTokens;
+        total.thinkingTokens += usage.thinkingTokens;
+        total.totalTokens += usage.totalTokens;
+        total.imageCount += usage.imageCount;
+        total.latencyMs += usage.latencyMs;
+        total.costUsd += usage.costUsd;
+        for (const model of usage.models) {
+            if (!total.models.includes(model)) total.models.push(model);
+        }
+    }
+    return total;
+}
+
+/**
+ * Format a USD cost for display, keeping sub-cent spend visible
+ */
+export function formatCost(costUsd: number): string {
+    if (costUsd > 0 && costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+    return `$${costUsd.toFixed(2)}`;
+}
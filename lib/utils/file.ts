@@ -0,0 +1,6 @@
+/**
+ * A name made safe for a download file name, e.g. "Acme Co." -> "acme-co"
+ */
+export function toFileSlug(name: string, fallback = "brand"): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || fallback;
+}
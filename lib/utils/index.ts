@@ -1,2 +1,4 @@
 export { cn } from "./cn";
 export { calculateFileHash, calculateStringHash } from "./hash";
+export { toBoundingBox, boxCenter, regionsFromViolations, regionBox } from "./regions";
+export { toFileSlug } from "./file";
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { AuditViolation } from "@/lib/types";
+import { boxCenter, regionBox, regionsFromViolations, toBoundingBox } from "./regions";
+
+describe("toBoundingBox", () => {
+    it("reads percent boxes as they are", () => {
+        expect(toBoundingBox({ x: 10, y: 20, width: 30, height: 40 })).toEqual({ x: 10, y: 20, width: 30, height: 40 });
+    });
+
+    it("converts Gemini's box_2d from 0-1000 [ymin, xmin, ymax, xmax]", () => {
+        expect(toBoundingBox([100, 200, 500, 900])).toEqual({ x: 20, y: 10, width: 70, height: 40 });
+    });
+
+    it("swaps box_2d corners given in the wrong order", () => {
+        expect(toBoundingBox([500, 900, 100, 200])).toEqual({ x: 20, y: 10, width: 70, height: 40 });
+    });
+
+    it("clamps boxes to the image", () => {
+        expect(toBoundingBox({ x: -10, y: 90, width: 30, height: 30 })).toEqual({ x: 0, y: 90, width: 20, height: 10 });
+        expect(toBoundingBox([-50, 0, 1200, 1000])).toEqual({ x: 0, y: 0, width: 100, height: 100 });
+    });
+
+    it("rejects malformed and empty boxes", () => {
+        expect(toBoundingBox(null)).toBeNull();
+        expect(toBoundingBox("10,20,30,40")).toBeNull();
+        expect(toBoundingBox([100, 200, 500])).toBeNull();
+        expect(toBoundingBox([100, "200", 500, 900])).toBeNull();
+        expect(toBoundingBox({ x: 10, y: 20, width: "30", height: 40 })).toBeNull();
+        expect(toBoundingBox({ x: 10, y: 20, width: NaN, height: 40 })).toBeNull();
+        expect(toBoundingBox({ x: 10, y: 20, width: 0, height: 40 })).toBeNull();
+        expect(toBoundingBox({ x: 110, y: 20, width: 10, height: 40 })).toBeNull();
+    });
+});
+
+describe("regionsFromViolations", () => {
+    it("makes a region centered on each located violation", () => {
+        const violations: AuditViolation[] = [
+            { category: "color", severity: "critical", description: "Off-brand red", suggestion: "Use #FF5733", box: { x: 10, y: 10, width: 20, height: 40 } },
+            { category: "style", severity: "minor", description: "Feels busy", suggestion: "Simplify" },
+        ];
+
+        expect(regionsFromViolations(violations)).toEqual([{
+            x: 20,
+            y: 30,
+            issue: "Off-brand red",
+            box: { x: 10, y: 10, width: 20, height: 40 },
+            severity: "critical",
+        }]);
+    });
+});
+
+describe("regionBox", () => {
+    it("uses a region's box for its mask", () => {
+        const box = { x: 10, y: 10, width: 20, height: 40 };
+
+        expect(regionBox({ ...boxCenter(box), issue: "Logo", box })).toBe(box);
+    });
+
+    it("masks a square around point regions, clamped to the image", () => {
+        expect(regionBox({ x: 50, y: 50, issue: "Text" })).toEqual({ x: 45, y: 45, width: 10, height: 10 });
+        expect(regionBox({ x: 2, y: 98, issue: "Corner" })).toEqual({ x: 0, y: 93, width: 7, height: 7 });
+    });
+});
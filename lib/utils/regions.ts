@@ -0,0 +1,70 @@
+import type { AuditRegion, AuditViolation, BoundingBox } from "@/lib/types";
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * Read a model-reported box. Accepts {x, y, width, height} in percent or
+ * Gemini's native box_2d [ymin, xmin, ymax, xmax] on a 0-1000 scale (corners
+ * given in the wrong order are swapped). Boxes are clamped to the image.
+ * Returns null for anything unusable.
+ */
+export function toBoundingBox(value: unknown): BoundingBox | null {
+    if (Array.isArray(value) && value.length === 4 && value.every((v) => typeof v === "number")) {
+        const [y1, x1, y2, x2] = value.map((v) => v / 10);
+        const [xmin, xmax] = x1 <= x2 ? [x1, x2] : [x2, x1];
+        const [ymin, ymax] = y1 <= y2 ? [y1, y2] : [y2, y1];
+        return toBoundingBox({ x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin });
+    }
+    if (!value || typeof value !== "object") return null;
+
+    const { x, y, width, height } = value as Record<string, unknown>;
+    if (![x, y, width, height].every((v) => typeof v === "number" && Number.isFinite(v))) return null;
+
+    const left = clampPercent(x as number);
+    const top = clampPercent(y as number);
+    const box = {
+        x: left,
+        y: top,
+        // Edges are clamped, so a box hanging off the image keeps its visible part
+        width: clampPercent((x as number) + (width as number)) - left,
+        height: clampPercent((y as number) + (height as number)) - top,
+    };
+    return box.width > 0 && box.height > 0 ? box : null;
+}
+
+export function boxCenter(box: BoundingBox): { x: number; y: number } {
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/**
+ * Regions for the violations that have a location
+ */
+export function regionsFromViolations(violations: AuditViolation[]): AuditRegion[] {
+    return violations
+        .filter((v): v is AuditViolation & { box: BoundingBox } => !!v.box)
+        .map((v) => ({
+            ...boxCenter(v.box),
+            issue: v.description,
+            box: v.box,
+            severity: v.severity,
+        }));
+}
+
+/** Size of the area assumed around issues reported as a single point */
+const POINT_REGION_SIZE = 10;
+
+/**
+ * The area an issue covers: its box, or a small square around its center
+ */
+export function regionBox(region: AuditRegion): BoundingBox {
+    if (region.box) return region.box;
+    const half = POINT_REGION_SIZE / 2;
+    const x = clampPercent(region.x - half);
+    const y = clampPercent(region.y - half);
+    return {
+        x,
+        y,
+        width: clampPercent(region.x + half) - x,
+        height: clampPercent(region.y + half) - y,
+    };
+}
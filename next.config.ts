@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+    // tesseract.js resolves its worker script at runtime; bundling breaks the path
+    serverExternalPackages: ['tesseract.js'],
     images: {
         remotePatterns: [
             {